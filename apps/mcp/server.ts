@@ -13,6 +13,17 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 const API_BASE = process.env.CLAWDDAO_API_URL || 'http://localhost:3001';
+/** Key issued from an agent page; protected tools need its read, analyze, vote or delegate scope */
+const API_KEY = process.env.CLAWDDAO_API_KEY;
+
+/** fetch() against the web API, authenticated with CLAWDDAO_API_KEY when set */
+function apiFetch(path: string, init?: RequestInit): Promise<Response> {
+  const headers = new Headers(init?.headers);
+  if (API_KEY) {
+    headers.set('Authorization', `Bearer ${API_KEY}`);
+  }
+  return fetch(`${API_BASE}${path}`, { ...init, headers });
+}
 
 const server = new Server(
   { name: 'clawd-dao', version: '1.0.0' },
@@ -70,26 +81,56 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
         properties: {
           agent_id: { type: 'string', description: 'ID of the AI agent' },
           proposal_address: { type: 'string', description: 'On-chain proposal address' },
-          proposal_title: { type: 'string', description: 'Proposal title for analysis' },
-          proposal_description: { type: 'string', description: 'Proposal description' },
+          proposal_description: { type: 'string', description: 'Proposal description (defaults to its on-chain description link)' },
           realm_name: { type: 'string', description: 'DAO name' },
         },
-        required: ['agent_id', 'proposal_address', 'proposal_title', 'realm_name'],
+        required: ['agent_id', 'proposal_address', 'realm_name'],
       },
     },
     {
       name: 'delegate_tokens',
-      description: 'Delegate governance voting power to an AI agent for a specific DAO',
+      description: 'Start delegating governance voting power to an AI agent for a specific DAO. Returns an unsigned SetGovernanceDelegate transaction for the delegator to sign; submit it with confirm_delegation.',
       inputSchema: {
         type: 'object' as const,
         properties: {
           agent_id: { type: 'string', description: 'ID of the AI agent to delegate to' },
           realm_address: { type: 'string', description: 'DAO realm address' },
           delegator_wallet: { type: 'string', description: 'Wallet address of the delegator' },
+          governing_token_mint: { type: 'string', description: 'Mint being delegated, e.g. the council mint (default: the realm\'s community mint)' },
         },
         required: ['agent_id', 'realm_address', 'delegator_wallet'],
       },
     },
+    {
+      name: 'confirm_delegation',
+      description: 'Submit the signed delegation transaction from delegate_tokens. The delegation is only activated once the delegator\'s TokenOwnerRecord names the agent wallet as governance delegate; if that is not confirmed yet, call again with the returned tx_signature instead of signed_transaction.',
+      inputSchema: {
+        type: 'object' as const,
+        properties: {
+          agent_id: { type: 'string', description: 'ID of the AI agent delegated to' },
+          realm_address: { type: 'string', description: 'DAO realm address' },
+          delegator_wallet: { type: 'string', description: 'Wallet address of the delegator' },
+          governing_token_mint: { type: 'string', description: 'Mint returned by delegate_tokens' },
+          signed_transaction: { type: 'string', description: 'The delegate_tokens transaction signed by the delegator, as base64' },
+          tx_signature: { type: 'string', description: 'Signature from an earlier unconfirmed attempt — re-checks the chain instead of resubmitting' },
+        },
+        required: ['agent_id', 'realm_address', 'delegator_wallet', 'governing_token_mint'],
+      },
+    },
+    {
+      name: 'draft_proposal',
+      description: 'Draft a governance proposal from a natural-language brief. Requires an agent with CREATE_PROPOSAL scope in the DAO; the draft waits for owner approval before anything is signed.',
+      inputSchema: {
+        type: 'object' as const,
+        properties: {
+          agent_id: { type: 'string', description: 'ID of the AI agent drafting the proposal' },
+          realm_address: { type: 'string', description: 'DAO realm address' },
+          brief: { type: 'string', description: 'What the proposal should do and why' },
+          governance_address: { type: 'string', description: 'Governance to propose under (default: the realm\'s first governance)' },
+        },
+        required: ['agent_id', 'realm_address', 'brief'],
+      },
+    },
   ],
 }));
 
@@ -98,14 +139,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
   switch (name) {
     case 'list_daos': {
-      const res = await fetch(`${API_BASE}/api/governance/realms`);
+      const res = await apiFetch(`/api/governance/realms`);
       const data = await res.json();
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
     }
 
     case 'list_proposals': {
       const typedArgs = args as { realm_address: string; status?: string };
-      const res = await fetch(`${API_BASE}/api/governance/realms/${typedArgs.realm_address}`);
+      const res = await apiFetch(`/api/governance/realms/${typedArgs.realm_address}`);
       const data = await res.json();
 
       let proposals = data.proposals || [];
@@ -125,7 +166,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         against_votes?: number;
       };
 
-      const res = await fetch(`${API_BASE}/api/ai/analyze`, {
+      const res = await apiFetch(`/api/ai/analyze`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -144,18 +185,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const typedArgs = args as {
         agent_id: string;
         proposal_address: string;
-        proposal_title: string;
         proposal_description?: string;
         realm_name: string;
       };
 
-      const res = await fetch(`${API_BASE}/api/agents/${typedArgs.agent_id}/vote`, {
+      const res = await apiFetch(`/api/agents/${typedArgs.agent_id}/vote`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           proposalAddress: typedArgs.proposal_address,
-          proposalTitle: typedArgs.proposal_title,
-          proposalDescription: typedArgs.proposal_description || typedArgs.proposal_title,
+          proposalDescription: typedArgs.proposal_description,
           realmName: typedArgs.realm_name,
         }),
       });
@@ -168,15 +207,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         agent_id: string;
         realm_address: string;
         delegator_wallet: string;
+        governing_token_mint?: string;
       };
 
-      const res = await fetch(`${API_BASE}/api/delegations`, {
+      const res = await apiFetch(`/api/delegations`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           agentId: typedArgs.agent_id,
           realmAddress: typedArgs.realm_address,
           delegatorWallet: typedArgs.delegator_wallet,
+          governingTokenMint: typedArgs.governing_token_mint,
+        }),
+      });
+      const result = await res.json();
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+
+    case 'confirm_delegation': {
+      const typedArgs = args as {
+        agent_id: string;
+        realm_address: string;
+        delegator_wallet: string;
+        governing_token_mint: string;
+        signed_transaction?: string;
+        tx_signature?: string;
+      };
+
+      const res = await apiFetch(`/api/delegations/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          agentId: typedArgs.agent_id,
+          realmAddress: typedArgs.realm_address,
+          delegatorWallet: typedArgs.delegator_wallet,
+          governingTokenMint: typedArgs.governing_token_mint,
+          signedTransaction: typedArgs.signed_transaction,
+          txSignature: typedArgs.tx_signature,
+        }),
+      });
+      const result = await res.json();
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+
+    case 'draft_proposal': {
+      const typedArgs = args as {
+        agent_id: string;
+        realm_address: string;
+        brief: string;
+        governance_address?: string;
+      };
+
+      const res = await apiFetch(`/api/agents/${typedArgs.agent_id}/proposals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          realmAddress: typedArgs.realm_address,
+          brief: typedArgs.brief,
+          governanceAddress: typedArgs.governance_address,
         }),
       });
       const result = await res.json();
@@ -214,13 +302,13 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
 
   switch (uri) {
     case 'dao://realms': {
-      const res = await fetch(`${API_BASE}/api/governance/realms`);
+      const res = await apiFetch(`/api/governance/realms`);
       const data = await res.json();
       return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }] };
     }
 
     case 'dao://agents': {
-      const res = await fetch(`${API_BASE}/api/agents`);
+      const res = await apiFetch(`/api/agents`);
       const data = await res.json();
       return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }] };
     }
@@ -238,6 +326,9 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('ClawdDAO MCP server running on stdio');
+  if (!API_KEY) {
+    console.error('CLAWDDAO_API_KEY is not set; tools that call protected routes will be rejected');
+  }
 }
 
 main().catch(console.error);
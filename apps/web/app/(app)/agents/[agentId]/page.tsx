@@ -4,6 +4,7 @@ import React, { useMemo } from 'react';
 import Link from 'next/link';
 import {
   ArrowLeft,
+  Ban,
   Bot,
   ExternalLink,
   ThumbsUp,
@@ -18,6 +19,10 @@ import { cn } from '@shared/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ApiKeysPanel } from '@/components/agent/ApiKeysPanel';
+import { PendingVotesPanel } from '@/components/agent/PendingVotesPanel';
+import { ProposalDraftsPanel } from '@/components/agent/ProposalDraftsPanel';
+import { useWallet } from '@/hooks/useWallet';
 import { useTable, useSpacetimeDB } from 'spacetimedb/react';
 import { tables } from '@/module_bindings';
 
@@ -42,14 +47,61 @@ const VOTE_BADGE: Record<string, string> = {
   for: 'bg-green-500/15 text-green-400 border-green-500/30',
   against: 'bg-red-500/15 text-red-400 border-red-500/30',
   abstain: 'bg-yellow-500/15 text-yellow-400 border-yellow-500/30',
+  veto: 'bg-purple-500/15 text-purple-400 border-purple-500/30',
+};
+
+const VOTE_STATUS_BADGE: Record<string, string> = {
+  submitted: 'bg-sky-500/15 text-sky-400 border-sky-500/30',
+  confirmed: 'bg-teal-500/15 text-teal-400 border-teal-500/30',
+  finalized: 'bg-green-500/15 text-green-400 border-green-500/30',
+  dropped: 'bg-red-500/15 text-red-400 border-red-500/30',
 };
 
 const VOTE_ICON: Record<string, React.ElementType> = {
   for: ThumbsUp,
   against: ThumbsDown,
   abstain: Minus,
+  veto: Ban,
 };
 
+const OUTCOME_LABEL: Record<string, string> = {
+  for: 'Passed',
+  against: 'Defeated',
+  none: 'No decision',
+};
+
+function ScoreBreakdown({
+  score,
+}: {
+  score: {
+    finalState: string;
+    outcome: string;
+    agentVote: string;
+    matchedOutcome: boolean;
+    delegatorsCompared: number;
+    delegatorsAgreed: number;
+  };
+}) {
+  const counted = score.outcome !== 'none' && score.agentVote !== 'abstain';
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+      <span>
+        Outcome: {OUTCOME_LABEL[score.outcome] ?? score.finalState}
+        {counted && (
+          <span className={cn('ml-1', score.matchedOutcome ? 'text-green-400' : 'text-red-400')}>
+            ({score.matchedOutcome ? 'correct' : 'missed'})
+          </span>
+        )}
+      </span>
+      {score.delegatorsCompared > 0 && (
+        <span>
+          Delegators agreed: {score.delegatorsAgreed}/{score.delegatorsCompared}
+        </span>
+      )}
+    </div>
+  );
+}
+
 function formatDate(ts: Date): string {
   return ts.toLocaleDateString('en-US', {
     month: 'short',
@@ -91,7 +143,11 @@ export default function AgentDetailPage({
   const [agentRows, isAgentsReady] = useTable(tables.agents);
   const [voteRows] = useTable(tables.votes);
   const [delegationRows] = useTable(tables.delegations);
+  const [pendingVoteRows] = useTable(tables.pending_votes);
+  const [voteScoreRows] = useTable(tables.vote_scores);
+  const [proposalDraftRows] = useTable(tables.proposal_drafts);
   const { connectionError } = useSpacetimeDB();
+  const { walletAddress } = useWallet();
 
   const agent = useMemo(
     () => agentRows.find((a) => a.id.toString() === agentId) ?? null,
@@ -115,6 +171,47 @@ export default function AgentDetailPage({
     [delegationRows, agentId],
   );
 
+  const agentPendingVotes = useMemo(
+    () =>
+      pendingVoteRows
+        .filter((p) => p.agentId.toString() === agentId && p.status === 'pending')
+        .map((p) => ({
+          id: p.id.toString(),
+          proposalAddress: p.proposalAddress,
+          vote: p.vote,
+          originalVote: p.originalVote,
+          confidence: p.confidence,
+          reasoning: p.reasoning,
+          executeAfterMs: Number(p.executeAfterMs),
+        }))
+        .sort((a, b) => a.executeAfterMs - b.executeAfterMs),
+    [pendingVoteRows, agentId],
+  );
+
+  const agentProposalDrafts = useMemo(
+    () =>
+      proposalDraftRows
+        .filter((d) => d.agentId.toString() === agentId && d.status === 'pending_approval')
+        .map((d) => ({
+          draftKey: d.draftKey,
+          realmAddress: d.realmAddress,
+          title: d.title,
+          description: d.description,
+          brief: d.brief,
+        })),
+    [proposalDraftRows, agentId],
+  );
+
+  const scoresByProposal = useMemo(
+    () =>
+      new Map(
+        voteScoreRows
+          .filter((s) => s.agentId.toString() === agentId)
+          .map((s) => [s.proposalAddress, s]),
+      ),
+    [voteScoreRows, agentId],
+  );
+
   if (!isAgentsReady && !connectionError) {
     return <AgentSkeleton />;
   }
@@ -142,6 +239,7 @@ export default function AgentDetailPage({
   const forCount = agentVotes.filter((v) => v.vote === 'for').length;
   const againstCount = agentVotes.filter((v) => v.vote === 'against').length;
   const abstainCount = agentVotes.filter((v) => v.vote === 'abstain').length;
+  const vetoCount = agentVotes.filter((v) => v.vote === 'veto').length;
   const onChainCount = agentVotes.filter((v) => v.txSignature).length;
 
   let config: Record<string, unknown> = {};
@@ -224,6 +322,25 @@ export default function AgentDetailPage({
             </CardContent>
           </Card>
 
+          {/* Votes held for owner veto */}
+          <PendingVotesPanel
+            agentId={agentId}
+            pendingVotes={agentPendingVotes}
+            canOverride={walletAddress === agent.ownerWallet}
+          />
+
+          {/* Proposals drafted by the agent, awaiting owner approval */}
+          <ProposalDraftsPanel
+            agentId={agentId}
+            drafts={agentProposalDrafts}
+            canApprove={walletAddress === agent.ownerWallet}
+          />
+
+          {/* Keys for programmatic access, e.g. the MCP server */}
+          {walletAddress === agent.ownerWallet && (
+            <ApiKeysPanel agentId={agentId} ownerWallet={agent.ownerWallet} />
+          )}
+
           {/* Voting History */}
           <Card>
             <CardHeader>
@@ -245,6 +362,7 @@ export default function AgentDetailPage({
                   {agentVotes.map((v) => {
                     const VoteIcon = VOTE_ICON[v.vote] ?? Minus;
                     const ts = v.createdAt?.toDate?.() ?? new Date();
+                    const score = scoresByProposal.get(v.proposalAddress);
                     return (
                       <div
                         key={Number(v.id)}
@@ -266,10 +384,19 @@ export default function AgentDetailPage({
                             <VoteIcon className="mr-1 h-3 w-3" />
                             {v.vote}
                           </Badge>
+                          {v.voteStatus && (
+                            <Badge
+                              variant="outline"
+                              className={cn('shrink-0 capitalize text-xs', VOTE_STATUS_BADGE[v.voteStatus])}
+                            >
+                              {v.voteStatus}
+                            </Badge>
+                          )}
                         </div>
                         <p className="mt-2 text-xs text-muted-foreground">
                           Confidence: {(v.confidence * 100).toFixed(1)}%
                         </p>
+                        {score && <ScoreBreakdown score={score} />}
                         {v.reasoning && (
                           <p className="mt-1 text-sm text-muted-foreground line-clamp-3">
                             {v.reasoning}
@@ -335,6 +462,9 @@ export default function AgentDetailPage({
                 <BreakdownRow label="For" count={forCount} total={agentVotes.length} color="bg-green-500" />
                 <BreakdownRow label="Against" count={againstCount} total={agentVotes.length} color="bg-red-500" />
                 <BreakdownRow label="Abstain" count={abstainCount} total={agentVotes.length} color="bg-yellow-500" />
+                {vetoCount > 0 && (
+                  <BreakdownRow label="Veto" count={vetoCount} total={agentVotes.length} color="bg-purple-500" />
+                )}
                 {onChainCount > 0 && (
                   <p className="pt-2 text-xs text-primary/70">
                     {onChainCount} vote{onChainCount !== 1 ? 's' : ''} confirmed on-chain
@@ -364,6 +494,22 @@ export default function AgentDetailPage({
                     : '65%'}
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Veto Window</span>
+                <span className="font-medium text-foreground">
+                  {typeof config.vetoWindowMinutes === 'number' && config.vetoWindowMinutes > 0
+                    ? `${config.vetoWindowMinutes} min`
+                    : 'None'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Max Priority Fee</span>
+                <span className="font-medium text-foreground">
+                  {typeof config.maxPriorityFeeLamports === 'number'
+                    ? `${(config.maxPriorityFeeLamports / 1e9).toLocaleString(undefined, { maximumFractionDigits: 9 })} SOL / tx`
+                    : 'Uncapped'}
+                </span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Created</span>
                 <span className="font-medium text-foreground">
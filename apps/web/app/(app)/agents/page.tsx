@@ -65,7 +65,8 @@ export default function AgentsPage() {
     configJson: JSON.parse(r.configJson || '{}'),
     isActive: r.isActive,
     totalVotes: r.totalVotes,
-    accuracy: r.accuracyScore,
+    // accuracy_score is stored as a whole percentage; AgentCard expects 0–1
+    accuracy: r.accuracyScore / 100,
     delegationCount: r.delegationCount,
     createdAt: r.createdAt.toDate(),
   }));
@@ -23,6 +23,7 @@ interface RealmDetailResponse {
     forVotes: number;
     againstVotes: number;
     abstainVotes: number;
+    options: Array<{ label: string; voteWeight: number }>;
     draftAt: string;
     startVotingAt: string;
     votingCompletedAt: string;
@@ -42,6 +43,7 @@ function mapProposal(
     forVotes: raw.forVotes,
     againstVotes: raw.againstVotes,
     abstainVotes: raw.abstainVotes,
+    options: raw.options,
     deadline: raw.votingCompletedAt
       ? new Date(raw.votingCompletedAt)
       : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
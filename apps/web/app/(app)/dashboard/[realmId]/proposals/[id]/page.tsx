@@ -16,7 +16,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { VotePanel } from '@/components/governance/VotePanel';
-import type { Proposal } from '@shared/types/governance';
+import { OptionBreakdown } from '@/components/governance/OptionBreakdown';
+import type { OptionChoice, Proposal } from '@shared/types/governance';
 
 interface ProposalDetailResponse {
   proposal: {
@@ -30,6 +31,7 @@ interface ProposalDetailResponse {
     forVotes: number;
     againstVotes: number;
     abstainVotes: number;
+    options: Array<{ label: string; voteWeight: number }>;
     draftAt: string;
     startVotingAt: string;
     votingCompletedAt: string;
@@ -48,6 +50,7 @@ interface ProposalDetailResponse {
     agentId: string;
     agentName: string;
     vote: string;
+    choices: OptionChoice[] | null;
     reasoning: string;
     confidence: number;
     txSignature: string | null;
@@ -183,6 +186,8 @@ export default function ProposalDetailPage({
   const forPercent = totalVotes > 0 ? (displayFor / totalVotes) * 100 : 0;
   const againstPercent = totalVotes > 0 ? (displayAgainst / totalVotes) * 100 : 0;
   const abstainPercent = totalVotes > 0 ? (displayAbstain / totalVotes) * 100 : 0;
+  const isMultiOption = proposal.options.length > 1;
+  const agentBallots = proposalData.autonomousVotes.map((v) => v.choices ?? []);
 
   const proposalForPanel: Proposal = {
     address: proposal.address,
@@ -193,6 +198,7 @@ export default function ProposalDetailPage({
     forVotes: displayFor,
     againstVotes: displayAgainst,
     abstainVotes: displayAbstain,
+    options: proposal.options,
     deadline: proposal.votingCompletedAt
       ? new Date(proposal.votingCompletedAt)
       : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
@@ -306,6 +312,13 @@ export default function ProposalDetailPage({
                   {formatNumber(totalVotes)} total votes
                 </p>
               )}
+
+              {isMultiOption && (
+                <div className="space-y-3 border-t border-border pt-4">
+                  <p className="text-sm font-medium text-foreground">Options</p>
+                  <OptionBreakdown options={proposal.options} agentBallots={agentBallots} />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -351,6 +364,16 @@ export default function ProposalDetailPage({
                       <p className="mt-2 text-xs text-muted-foreground">
                         Confidence: {(item.confidence * 100).toFixed(1)}%
                       </p>
+                      {item.choices && item.choices.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1.5">
+                          {item.choices.map((choice) => (
+                            <Badge key={choice.option} variant="outline" className="text-[11px]">
+                              {choice.option}
+                              {choice.weight != null && choice.weight < 100 && ` · ${choice.weight}%`}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                       <p className="mt-2 text-sm text-muted-foreground line-clamp-4">{item.reasoning}</p>
                       {item.txSignature && (
                         <a
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentById, getAuditEvents } from '@shared/lib/stdb-client';
+import { verifyAuditChain } from '@shared/lib/audit';
+import { verifyAuth, AuthError, authorizeAgentOwner, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agents/[id]/audit
+ *
+ * Export the agent's audit chain with the server's verification of it. Save
+ * the response and re-check it offline with scripts/verify-audit-chain.ts.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'read');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const agentId = BigInt(id);
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const events = await getAuditEvents(agentId);
+    return NextResponse.json({
+      agentId: id,
+      exportedAt: new Date().toISOString(),
+      verification: verifyAuditChain(events),
+      events,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`GET /api/agents/${id}/audit failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export audit trail', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  cancelPendingVote,
+  getAgentById,
+  getPendingVote,
+  getPendingVotesByAgent,
+  overridePendingVote,
+} from '@shared/lib/stdb-client';
+import { fetchProposal, serializeProposal } from '@shared/lib/governance';
+import {
+  isMultiOptionProposal,
+  OptionChoiceError,
+  resolveOptionBallot,
+  type OptionChoice,
+} from '@shared/lib/proposal-options';
+import { verifyAuth, AuthError, authorizeAgentOwner, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const OVERRIDE_DIRECTIONS = ['for', 'against', 'abstain'];
+
+/**
+ * GET /api/agents/[id]/pending-votes
+ *
+ * Returns the agent's votes still held in the veto window.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'read');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const agentId = BigInt(id);
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const pendingVotes = await getPendingVotesByAgent(agentId);
+    return NextResponse.json(pendingVotes);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`GET /api/agents/${id}/pending-votes failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pending votes', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/agents/[id]/pending-votes
+ *
+ * Owner veto for a held vote. Body: `{ proposalAddress, action: 'cancel' }`
+ * or `{ proposalAddress, action: 'override', vote: 'for' | 'against' | 'abstain', choices? }`.
+ * Overriding to FOR on a multi-option proposal requires `choices`, checked
+ * against the proposal's options before the vote is held.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'vote');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const { proposalAddress, action, vote, choices } = body as {
+      proposalAddress: string;
+      action: 'cancel' | 'override';
+      vote?: string;
+      choices?: OptionChoice[];
+    };
+
+    if (!proposalAddress || !action) {
+      return NextResponse.json(
+        { error: 'Missing required fields: proposalAddress, action' },
+        { status: 400 },
+      );
+    }
+
+    if (action !== 'cancel' && action !== 'override') {
+      return NextResponse.json(
+        { error: `Unknown action "${action}". Expected: cancel, override` },
+        { status: 400 },
+      );
+    }
+
+    const direction = vote?.toLowerCase() ?? '';
+    if (action === 'override' && !OVERRIDE_DIRECTIONS.includes(direction)) {
+      return NextResponse.json(
+        { error: 'Override requires vote: for, against, or abstain' },
+        { status: 400 },
+      );
+    }
+
+    if (choices !== undefined && (!Array.isArray(choices) || choices.some((c) => typeof c?.option !== 'string'))) {
+      return NextResponse.json(
+        { error: 'choices must be an array of { option, weight?, rank? }' },
+        { status: 400 },
+      );
+    }
+
+    if (choices?.length && direction !== 'for') {
+      return NextResponse.json(
+        { error: 'choices only apply to an override to FOR' },
+        { status: 400 },
+      );
+    }
+
+    const agentId = BigInt(id);
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const pending = await getPendingVote(agentId, proposalAddress);
+    if (!pending) {
+      return NextResponse.json(
+        { error: `No pending vote for proposal ${proposalAddress}` },
+        { status: 404 },
+      );
+    }
+
+    if (pending.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Pending vote is already ${pending.status}` },
+        { status: 409 },
+      );
+    }
+
+    // Past the window the worker may already be signing it
+    if (Date.now() >= Number(pending.execute_after_ms)) {
+      return NextResponse.json(
+        { error: 'Veto window has passed — the vote is being cast' },
+        { status: 409 },
+      );
+    }
+
+    // A FOR on a multi-option proposal can't be cast without a valid ballot
+    let ballot: OptionChoice[] | null = null;
+    if (action === 'override' && direction === 'for') {
+      const proposal = serializeProposal(await fetchProposal(proposalAddress));
+      if (isMultiOptionProposal(proposal)) {
+        if (!choices?.length) {
+          return NextResponse.json(
+            { error: `Proposal has ${proposal.options.length} options — choices are required to vote FOR` },
+            { status: 400 },
+          );
+        }
+        try {
+          ballot = resolveOptionBallot(proposal.options, proposal.voteType, choices);
+        } catch (error) {
+          if (error instanceof OptionChoiceError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+          }
+          throw error;
+        }
+      }
+    }
+
+    const result = action === 'cancel'
+      ? await cancelPendingVote(agentId, proposalAddress)
+      : await overridePendingVote({
+          agent_id: agentId,
+          proposal_address: proposalAddress,
+          vote: direction,
+          choices_json: ballot ? JSON.stringify(ballot) : null,
+        });
+
+    if (!result.ok) {
+      // The module re-checks the window: the worker may have claimed the vote meanwhile
+      const claimed = /Veto window has passed|Pending vote is already/.test(result.error ?? '');
+      return NextResponse.json(
+        { error: 'Pending vote update failed', details: result.error },
+        { status: claimed ? 409 : 500 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      action,
+      vote: action === 'cancel' ? pending.vote : direction,
+      ...(ballot && { choices: ballot }),
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`POST /api/agents/${id}/pending-votes failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to update pending vote', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
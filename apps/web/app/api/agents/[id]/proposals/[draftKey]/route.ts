@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentById, getProposalDraft, rejectProposalDraft } from '@shared/lib/stdb-client';
+import { submitApprovedProposal, ProposalDraftError } from '@shared/lib/proposal-drafts';
+import { verifyAuth, AuthError, authorizeAgentOwner, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/agents/[id]/proposals/[draftKey]
+ *
+ * Owner decision on a drafted proposal. Body: `{ action: 'reject' }` or
+ * `{ action: 'approve', descriptionLink? }` — approving creates and signs
+ * off the proposal on-chain with the agent's wallet.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; draftKey: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id, draftKey } = await params;
+
+  try {
+    const body = await request.json();
+    const { action, descriptionLink } = body as {
+      action: 'approve' | 'reject';
+      descriptionLink?: string;
+    };
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: `Unknown action "${action}". Expected: approve, reject` },
+        { status: 400 },
+      );
+    }
+
+    const agentId = BigInt(id);
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const draft = await getProposalDraft(draftKey);
+    if (!draft || BigInt(draft.agent_id) !== agentId) {
+      return NextResponse.json(
+        { error: `No proposal draft ${draftKey} for agent ${id}` },
+        { status: 404 },
+      );
+    }
+
+    if (action === 'reject') {
+      if (draft.status !== 'pending_approval') {
+        return NextResponse.json(
+          { error: `Proposal draft is already ${draft.status}` },
+          { status: 409 },
+        );
+      }
+
+      const result = await rejectProposalDraft(draftKey);
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: 'Proposal draft update failed', details: result.error },
+          { status: 500 },
+        );
+      }
+      return NextResponse.json({ success: true, action });
+    }
+
+    const { proposalAddress, txSignature, status } = await submitApprovedProposal({ agent, draft, descriptionLink });
+
+    return NextResponse.json({ success: true, action, proposalAddress, txSignature, status });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof ProposalDraftError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`POST /api/agents/${id}/proposals/${draftKey} failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to update proposal draft', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentById, getProposalDraftsByAgent } from '@shared/lib/stdb-client';
+import { draftProposalFromBrief, ProposalDraftError } from '@shared/lib/proposal-drafts';
+import { verifyAuth, AuthError, authorizeAgentOwner, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agents/[id]/proposals
+ *
+ * Returns the agent's proposal drafts, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'read');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const agentId = BigInt(id);
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const drafts = await getProposalDraftsByAgent(agentId);
+    return NextResponse.json(drafts);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`GET /api/agents/${id}/proposals failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch proposal drafts', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/agents/[id]/proposals
+ *
+ * Draft a proposal from a natural-language brief. Body:
+ * `{ realmAddress, brief, governanceAddress? }`. The draft is stored for
+ * owner approval — nothing is signed here.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'vote');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const { realmAddress, brief, governanceAddress } = body as {
+      realmAddress: string;
+      brief: string;
+      governanceAddress?: string;
+    };
+
+    if (!realmAddress || !brief) {
+      return NextResponse.json(
+        { error: 'Missing required fields: realmAddress, brief' },
+        { status: 400 },
+      );
+    }
+
+    const agent = await getAgentById(BigInt(id));
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const draft = await draftProposalFromBrief({ agent, realmAddress, brief, governanceAddress });
+
+    return NextResponse.json(draft, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof ProposalDraftError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`POST /api/agents/${id}/proposals failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to draft proposal', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentById, getVoteByAgentAndProposal, getVoteHistory } from '@shared/lib/stdb-client';
+import {
+  overrideRecordedVote,
+  OVERRIDE_VOTE_DIRECTIONS,
+  VoteOverrideError,
+  type OverrideVoteDirection,
+} from '@shared/lib/vote-overrides';
+import type { OptionChoice } from '@shared/lib/proposal-options';
+import { verifyAuth, AuthError, authorizeAgentOwner, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agents/[id]/vote/override?proposalAddress=...
+ *
+ * The agent's current vote on a proposal plus the directions it replaced.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'read');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const proposalAddress = searchParams.get('proposalAddress');
+
+  if (!proposalAddress) {
+    return NextResponse.json(
+      { error: 'Missing required query parameter: proposalAddress' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const agentId = BigInt(id);
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const vote = await getVoteByAgentAndProposal(agentId, proposalAddress);
+    if (!vote) {
+      return NextResponse.json(
+        { error: `Agent ${id} has not voted on proposal ${proposalAddress}` },
+        { status: 404 },
+      );
+    }
+
+    const history = await getVoteHistory(agentId, proposalAddress);
+
+    return NextResponse.json({ vote, history });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`GET /api/agents/${id}/vote/override failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vote history', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/agents/[id]/vote/override
+ *
+ * Owner override of a vote the agent already cast. Body:
+ * `{ proposalAddress, vote, choices?, reason? }` — the on-chain vote is
+ * relinquished and recast while the proposal is still voting. The realm is
+ * read from the proposal account. `choices` picks the options to approve on a
+ * multi-option proposal.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'vote');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const { proposalAddress, vote, choices, reason } = body as {
+      proposalAddress: string;
+      vote: OverrideVoteDirection;
+      choices?: OptionChoice[];
+      reason?: string;
+    };
+
+    if (!proposalAddress || !vote) {
+      return NextResponse.json(
+        { error: 'Missing required fields: proposalAddress, vote' },
+        { status: 400 },
+      );
+    }
+
+    if (!OVERRIDE_VOTE_DIRECTIONS.includes(vote)) {
+      return NextResponse.json(
+        { error: `Unknown vote "${vote}". Expected: ${OVERRIDE_VOTE_DIRECTIONS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    if (choices !== undefined && (!Array.isArray(choices) || choices.some((c) => typeof c?.option !== 'string'))) {
+      return NextResponse.json(
+        { error: 'choices must be an array of { option, weight?, rank? }' },
+        { status: 400 },
+      );
+    }
+
+    const agent = await getAgentById(BigInt(id));
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeAgentOwner(auth, agent);
+
+    const result = await overrideRecordedVote({
+      agent,
+      proposalAddress,
+      vote,
+      choices,
+      reason,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof VoteOverrideError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`POST /api/agents/${id}/vote/override failed:`, error);
+    return NextResponse.json(
+      { error: 'Vote override failed', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
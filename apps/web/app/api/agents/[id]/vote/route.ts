@@ -1,19 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAgentById } from '@shared/lib/stdb-client';
+import {
+  fetchProposal,
+  fetchProposalRealm,
+  fetchProposalTransactions,
+  serializeProposal,
+} from '@shared/lib/governance';
+import {
+  decodeProposalTransactions,
+  type DecodedProposalTransaction,
+} from '@shared/lib/proposal-instructions';
 import {
   executeAutonomousVote,
   type GovernanceProposalContext,
 } from '@shared/lib/autonomous-vote-engine';
-import { verifyAuth, AuthError } from '@shared/lib/auth';
+import { verifyAuth, AuthError, authorizeAgentOwner, type AuthContext } from '@shared/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
+/** Decoded proposal transactions, or undefined if they can't be fetched. */
+async function resolveProposalTransactions(
+  proposalAddress: string,
+): Promise<DecodedProposalTransaction[] | undefined> {
+  try {
+    return decodeProposalTransactions(await fetchProposalTransactions(proposalAddress));
+  } catch (error) {
+    console.warn(`Failed to fetch transactions for proposal ${proposalAddress}:`, error);
+    return undefined;
+  }
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
+  let auth: AuthContext;
   try {
-    await verifyAuth(request);
+    auth = await verifyAuth(request, 'vote');
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
@@ -33,38 +56,48 @@ export async function POST(
         { status: 404 },
       );
     }
+    await authorizeAgentOwner(auth, agent);
 
     const body = await request.json();
-    const { proposalAddress, proposalTitle, proposalDescription, realmName, realmAddress } = body as {
+    const { proposalAddress, proposalDescription, realmName } = body as {
       proposalAddress: string;
-      proposalTitle: string;
       proposalDescription?: string;
       realmName: string;
-      realmAddress?: string;
     };
 
-    if (!proposalAddress || !proposalTitle || !realmName) {
+    if (!proposalAddress || !realmName) {
       return NextResponse.json(
-        { error: 'Missing required fields: proposalAddress, proposalTitle, realmName' },
+        { error: 'Missing required fields: proposalAddress, realmName' },
         { status: 400 },
       );
     }
 
+    // Title, options, tallies and state come from the chain, not the caller
+    const account = await fetchProposal(proposalAddress);
+    const onChain = serializeProposal(account);
     const proposal: GovernanceProposalContext = {
-      address: proposalAddress,
-      title: proposalTitle,
-      description: proposalDescription || proposalTitle,
+      address: onChain.address,
+      title: onChain.title,
+      description: proposalDescription || onChain.descriptionLink || onChain.title,
       realmName,
-      realmAddress: realmAddress || '',
-      forVotes: 0,
-      againstVotes: 0,
-      status: 'voting',
+      realmAddress: await fetchProposalRealm(account),
+      governingTokenMint: onChain.governingTokenMint || undefined,
+      forVotes: onChain.forVotes,
+      againstVotes: onChain.againstVotes,
+      abstainVotes: onChain.abstainVotes,
+      options: onChain.options,
+      voteType: onChain.voteType,
+      status: onChain.status,
+      transactions: await resolveProposalTransactions(proposalAddress),
     };
 
     const result = await executeAutonomousVote({ agent, proposal });
 
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error(`POST /api/agents/${id}/vote failed:`, error);
     return NextResponse.json(
       { error: 'Vote execution failed', details: String(error) },
@@ -8,7 +8,7 @@ import {
 import * as privy from '@shared/lib/privy-client';
 import { getOrCreateProfile } from '@shared/lib/tapestry';
 import { SOLANA_CHAIN_CONFIG } from '@shared/lib/constants';
-import { verifyAuth, AuthError } from '@shared/lib/auth';
+import { verifyAuth, AuthError, authorizeWallet, type AuthContext } from '@shared/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -16,12 +16,14 @@ export const dynamic = 'force-dynamic';
  * GET /api/agents?wallet=<address>
  *
  * Returns agents. If `wallet` query param is provided, returns only agents
- * owned by that wallet. Otherwise returns all active agents.
+ * owned by that wallet, which must be linked to the caller's account.
+ * Otherwise returns all active agents.
  * Data is read from SpacetimeDB via SQL query.
  */
 export async function GET(request: Request) {
+  let auth: AuthContext;
   try {
-    await verifyAuth(request);
+    auth = await verifyAuth(request, 'read');
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
@@ -40,12 +42,17 @@ export async function GET(request: Request) {
   }
 
   try {
+    if (wallet) await authorizeWallet(auth, wallet);
+
     const agents = wallet
       ? await getAgentsByOwner(wallet)
       : await getAllActiveAgents();
 
     return NextResponse.json(agents);
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('GET /api/agents failed:', error);
     return NextResponse.json(
       { error: 'Failed to fetch agents', details: String(error) },
@@ -58,11 +65,13 @@ export async function GET(request: Request) {
  * POST /api/agents
  *
  * Create a new AI agent. Calls the `create_agent` reducer in SpacetimeDB
- * which atomically inserts the agent record.
+ * which atomically inserts the agent record. `owner` must be a wallet
+ * linked to the caller's account.
  */
 export async function POST(request: Request) {
+  let auth: AuthContext;
   try {
-    await verifyAuth(request);
+    auth = await verifyAuth(request);
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
@@ -87,6 +96,7 @@ export async function POST(request: Request) {
         { status: 400 },
       );
     }
+    await authorizeWallet(auth, owner);
 
     // ─── Create Privy wallet for agent (REQUIRED for on-chain voting) ───
     // If Privy is not configured, agent is created but cannot vote on-chain
@@ -170,6 +180,9 @@ export async function POST(request: Request) {
       { status: 201 },
     );
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('POST /api/agents failed:', error);
     return NextResponse.json(
       { error: 'Failed to create agent', details: String(error) },
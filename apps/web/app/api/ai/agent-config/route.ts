@@ -4,7 +4,7 @@ import { verifyAuth, AuthError } from "@shared/lib/auth";
 
 export async function POST(request: NextRequest) {
   try {
-    await verifyAuth(request);
+    await verifyAuth(request, 'analyze');
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeProposal } from '@shared/lib/ai';
 import { verifyAuth, AuthError } from '@shared/lib/auth';
+import { parseLLMSettings } from '@shared/lib/llm-providers';
 
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    await verifyAuth(request);
+    await verifyAuth(request, 'analyze');
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
@@ -17,12 +18,14 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    const { title, description, realmName, forVotes, againstVotes } = body as {
+    const { title, description, realmName, forVotes, againstVotes, llm } = body as {
       title: string;
       description: string;
       realmName: string;
       forVotes?: number;
       againstVotes?: number;
+      /** Optional provider/model override, e.g. to compare models */
+      llm?: unknown;
     };
 
     if (!title || !description || !realmName) {
@@ -32,15 +35,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const analysis = await analyzeProposal(
-      {
-        title,
-        description,
-        realmName,
-        forVotes: forVotes ?? 0,
-        againstVotes: againstVotes ?? 0,
-      },
-    );
+    const proposal = {
+      title,
+      description,
+      realmName,
+      forVotes: forVotes ?? 0,
+      againstVotes: againstVotes ?? 0,
+    };
+    const llmSettings = parseLLMSettings(llm);
+
+    const analysis = llmSettings
+      ? await analyzeProposal(proposal, undefined, llmSettings)
+      : await analyzeProposal(proposal);
 
     return NextResponse.json(analysis);
   } catch (error) {
@@ -4,7 +4,7 @@ import { verifyAuth, AuthError } from "@shared/lib/auth";
 
 export async function POST(request: NextRequest) {
   try {
-    await verifyAuth(request);
+    await verifyAuth(request, 'analyze');
   } catch (error) {
     if (error instanceof AuthError) {
       return new Response(
@@ -35,12 +35,9 @@ export async function POST(request: NextRequest) {
     const readableStream = new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of stream) {
-            const content = chunk.choices?.[0]?.delta?.content;
-            if (content) {
-              const data = JSON.stringify({ type: "text", text: content });
-              controller.enqueue(new TextEncoder().encode(`data: ${data}\n\n`));
-            }
+          for await (const content of stream) {
+            const data = JSON.stringify({ type: "text", text: content });
+            controller.enqueue(new TextEncoder().encode(`data: ${data}\n\n`));
           }
           controller.enqueue(new TextEncoder().encode("data: [DONE]\n\n"));
           controller.close();
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyById, revokeApiKey } from '@shared/lib/stdb-client';
+import { verifyAuth, AuthError, authorizeWallet, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/api-keys/[id]
+ *
+ * Revoke an API key. It stops authenticating immediately; the row stays so
+ * the owner can still see it was revoked.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json({ error: `Invalid API key id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const keyId = BigInt(id);
+    const key = await getApiKeyById(keyId);
+    if (!key) {
+      return NextResponse.json(
+        { error: `API key ${id} not found` },
+        { status: 404 },
+      );
+    }
+    await authorizeWallet(auth, key.owner_wallet);
+
+    if (key.revoked_at != null) {
+      return NextResponse.json(
+        { error: `API key ${id} is already revoked` },
+        { status: 409 },
+      );
+    }
+
+    const result = await revokeApiKey(keyId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'API key revocation failed', details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error(`DELETE /api/api-keys/${id} failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiKey, getAgentsByOwner, getApiKeysByOwner, type ApiKeyRow } from '@shared/lib/stdb-client';
+import { API_KEY_SCOPES, generateApiKey, isApiKeyScope } from '@shared/lib/api-keys';
+import { verifyAuth, AuthError, authorizeWallet, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/** Everything but the hash, which never leaves the server */
+function toPublicApiKey(row: ApiKeyRow) {
+  return {
+    id: row.id,
+    key_prefix: row.key_prefix,
+    owner_wallet: row.owner_wallet,
+    label: row.label,
+    agent_ids: JSON.parse(row.agent_ids_json) as string[],
+    scopes: JSON.parse(row.scopes_json) as string[],
+    created_at: row.created_at,
+    revoked_at: row.revoked_at,
+  };
+}
+
+/**
+ * GET /api/api-keys?wallet=
+ *
+ * API keys the wallet issued, revoked ones included.
+ */
+export async function GET(request: NextRequest) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const wallet = searchParams.get('wallet');
+
+  if (!wallet) {
+    return NextResponse.json(
+      { error: 'Missing required query param: wallet' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await authorizeWallet(auth, wallet);
+
+    const keys = await getApiKeysByOwner(wallet);
+    return NextResponse.json(keys.map(toPublicApiKey));
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('GET /api/api-keys failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/api-keys
+ *
+ * Issue an API key that acts for `ownerWallet` on `agentIds` with `scopes`
+ * (read, analyze, vote, delegate). The key is in the response only — it is
+ * stored hashed and cannot be shown again.
+ *
+ * Body: { ownerWallet, label, agentIds, scopes }
+ */
+export async function POST(request: NextRequest) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { ownerWallet, label, agentIds, scopes } = body as {
+      ownerWallet: string;
+      label: string;
+      agentIds: string[];
+      scopes: string[];
+    };
+
+    if (!ownerWallet || !label || !Array.isArray(agentIds) || agentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing required fields: ownerWallet, label, agentIds' },
+        { status: 400 },
+      );
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return NextResponse.json(
+        { error: `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    await authorizeWallet(auth, ownerWallet);
+
+    const owned = new Set((await getAgentsByOwner(ownerWallet)).map((agent) => agent.id.toString()));
+    const foreign = agentIds.filter((id) => !owned.has(String(id)));
+    if (foreign.length > 0) {
+      return NextResponse.json(
+        { error: `Agents not owned by ${ownerWallet}: ${foreign.join(', ')}` },
+        { status: 403 },
+      );
+    }
+
+    const { key, keyHash, keyPrefix } = generateApiKey();
+    const result = await createApiKey({
+      key_hash: keyHash,
+      key_prefix: keyPrefix,
+      owner_wallet: ownerWallet,
+      label,
+      agent_ids: agentIds.map((id) => BigInt(id)),
+      scopes,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'API key creation failed', details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, key, keyPrefix, label, agentIds, scopes },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('POST /api/api-keys failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSiwsMessage, formatSiwsMessage, SiwsError } from '@shared/lib/siws';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/siws/nonce?address=<wallet>
+ *
+ * Starts Sign-In-With-Solana: returns the message the wallet signs and
+ * sends to POST /api/auth/siws/verify. It expires after five minutes.
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const address = url.searchParams.get('address');
+
+  if (!address) {
+    return NextResponse.json(
+      { error: 'Missing required query param: address' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const message = createSiwsMessage({ domain: url.host, uri: url.origin, address });
+
+    return NextResponse.json({
+      message: formatSiwsMessage(message),
+      nonce: message.nonce,
+      expiresAt: message.expirationTime,
+    });
+  } catch (error) {
+    if (error instanceof SiwsError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('GET /api/auth/siws/nonce failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create sign-in message', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
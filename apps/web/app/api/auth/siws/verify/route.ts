@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issueSiwsSession, SiwsError, verifySiwsMessage } from '@shared/lib/siws';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/siws/verify
+ *
+ * Completes Sign-In-With-Solana. Checks the wallet's ed25519 signature over
+ * the message from GET /api/auth/siws/nonce and returns a session token to
+ * send as `Authorization: Bearer <token>`, valid for fifteen minutes.
+ *
+ * Body: { message, signature } — `signature` is base64
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { message, signature } = body as { message: string; signature: string };
+
+    if (!message || !signature) {
+      return NextResponse.json(
+        { error: 'Missing required fields: message, signature' },
+        { status: 400 },
+      );
+    }
+
+    const { address } = verifySiwsMessage({
+      message,
+      signature,
+      domain: new URL(request.url).host,
+    });
+    const session = issueSiwsSession(address);
+
+    return NextResponse.json({
+      token: session.token,
+      address,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SiwsError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('POST /api/auth/siws/verify failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify sign-in', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDelegation, getAgentById, getDelegationsByWallet } from '@shared/lib/stdb-client';
+import { fetchUserTokenRecords, serializeTokenOwnerRecord } from '@shared/lib/governance';
+import { submitAndConfirm } from '@shared/lib/solana-governance';
+import { AGENT_PERMISSIONS } from '@shared/lib/constants';
+import { verifyAuth, AuthError, authorizeAgentScope, authorizeWallet, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/delegations/confirm
+ *
+ * Second half of the delegation handshake. Submits the SetGovernanceDelegate
+ * transaction the delegator signed, then reads their TokenOwnerRecord and
+ * only records the delegation — active, with the TOR as `on_chain_pda` — if
+ * its `governanceDelegate` is the agent wallet.
+ *
+ * When the transaction is not confirmed in time the 409 carries its
+ * `txSignature`; retrying with `txSignature` instead of `signedTransaction`
+ * only re-reads the TokenOwnerRecord, so nothing is submitted twice.
+ *
+ * Body: { agentId, realmAddress, delegatorWallet, governingTokenMint, signedTransaction | txSignature, scopeBitmap? }
+ */
+export async function POST(request: NextRequest) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'delegate');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const {
+      agentId,
+      realmAddress,
+      delegatorWallet,
+      governingTokenMint,
+      signedTransaction,
+      txSignature,
+      scopeBitmap,
+    } = body as {
+      agentId: string;
+      realmAddress: string;
+      delegatorWallet: string;
+      /** Mint returned by POST /api/delegations */
+      governingTokenMint: string;
+      /** The SetGovernanceDelegate transaction, signed by the delegator, as base64 */
+      signedTransaction?: string;
+      /** Signature from an earlier, unconfirmed attempt — re-checks the chain without resubmitting */
+      txSignature?: string;
+      scopeBitmap?: number;
+    };
+
+    if (!agentId || !realmAddress || !delegatorWallet || !governingTokenMint || (!signedTransaction && !txSignature)) {
+      return NextResponse.json(
+        {
+          error:
+            'Missing required fields: agentId, realmAddress, delegatorWallet, governingTokenMint, signedTransaction or txSignature',
+        },
+        { status: 400 },
+      );
+    }
+    await authorizeWallet(auth, delegatorWallet);
+
+    const agent = await getAgentById(BigInt(agentId));
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Agent ${agentId} not found` },
+        { status: 404 },
+      );
+    }
+    authorizeAgentScope(auth, agent.id);
+    if (!agent.privy_wallet_address) {
+      return NextResponse.json(
+        { error: `Agent ${agentId} has no wallet to delegate to` },
+        { status: 400 },
+      );
+    }
+
+    const existing = (await getDelegationsByWallet(delegatorWallet)).find(
+      (d) =>
+        d.agent_id.toString() === agentId &&
+        d.realm_address === realmAddress &&
+        d.governing_token_mint === governingTokenMint,
+    );
+    if (existing) {
+      return NextResponse.json(
+        { error: `Delegation ${existing.id.toString()} to agent ${agentId} is already active` },
+        { status: 409 },
+      );
+    }
+
+    // A retry already submitted the transaction: only the chain is re-read
+    let signature = txSignature;
+    let confirmed = false;
+    if (!signature) {
+      try {
+        ({ signature, confirmed } = await submitAndConfirm(signedTransaction as string));
+      } catch (error) {
+        return NextResponse.json(
+          { error: 'Delegation transaction failed', details: String(error) },
+          { status: 400 },
+        );
+      }
+    }
+
+    // The chain is the source of truth: the signed transaction may not be the one we built
+    const tokenOwnerRecord = (await fetchUserTokenRecords(delegatorWallet))
+      .map(serializeTokenOwnerRecord)
+      .find((record) => record.realm === realmAddress && record.governingTokenMint === governingTokenMint);
+
+    if (!tokenOwnerRecord || tokenOwnerRecord.governanceDelegate !== agent.privy_wallet_address) {
+      return NextResponse.json(
+        {
+          error: confirmed
+            ? `TokenOwnerRecord of ${delegatorWallet} does not delegate to agent ${agentId}`
+            : txSignature
+              ? `TokenOwnerRecord of ${delegatorWallet} does not delegate to agent ${agentId} yet — retry with txSignature to check again`
+              : `Transaction ${signature} is not confirmed yet — retry with txSignature to check again`,
+          txSignature: signature,
+          governanceDelegate: tokenOwnerRecord?.governanceDelegate ?? null,
+        },
+        { status: 409 },
+      );
+    }
+
+    const result = await createDelegation({
+      agent_id: agent.id,
+      realm_address: realmAddress,
+      delegator_wallet: delegatorWallet,
+      scope_bitmap: BigInt(scopeBitmap ?? AGENT_PERMISSIONS.VOTE),
+      governing_token_mint: governingTokenMint,
+      on_chain_pda: tokenOwnerRecord.address,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Delegation creation failed', details: result.error, txSignature: signature },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, txSignature: signature, onChainPda: tokenOwnerRecord.address },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('POST /api/delegations/confirm failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm delegation', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearDelegatorPreference,
+  getDelegationsByWallet,
+  getDelegatorPreferencesByWallet,
+  setDelegatorPreference,
+} from '@shared/lib/stdb-client';
+import { DELEGATOR_PREFERENCES, isDelegatorPreference } from '@shared/lib/delegator-preferences';
+import { verifyAuth, AuthError, authorizeWallet, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/delegations/preferences?wallet=
+ *
+ * Standing vote instructions a delegator left, realm-wide and per proposal.
+ */
+export async function GET(request: NextRequest) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'read');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const wallet = searchParams.get('wallet');
+
+  if (!wallet) {
+    return NextResponse.json(
+      { error: 'Missing required query param: wallet' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await authorizeWallet(auth, wallet);
+
+    const preferences = await getDelegatorPreferencesByWallet(wallet);
+    return NextResponse.json(preferences);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('GET /api/delegations/preferences failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch delegator preferences', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/delegations/preferences
+ *
+ * Sets how the agents a delegator delegated to in a realm vote with their
+ * TokenOwnerRecord: follow the agent, always abstain, or always FOR/AGAINST.
+ * Omitting `proposalAddress` sets the realm-wide instruction; a per-proposal
+ * one takes precedence over it.
+ *
+ * Body: { delegatorWallet, realmAddress, proposalAddress?, preference }
+ */
+export async function POST(request: NextRequest) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'delegate');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { delegatorWallet, realmAddress, proposalAddress, preference } = body as {
+      delegatorWallet: string;
+      realmAddress: string;
+      proposalAddress?: string;
+      preference: string;
+    };
+
+    if (!delegatorWallet || !realmAddress || !preference) {
+      return NextResponse.json(
+        { error: 'Missing required fields: delegatorWallet, realmAddress, preference' },
+        { status: 400 },
+      );
+    }
+    if (!isDelegatorPreference(preference)) {
+      return NextResponse.json(
+        { error: `Unknown preference "${preference}". Expected: ${DELEGATOR_PREFERENCES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    await authorizeWallet(auth, delegatorWallet);
+
+    const delegations = (await getDelegationsByWallet(delegatorWallet)).filter(
+      (d) => d.realm_address === realmAddress,
+    );
+    if (delegations.length === 0) {
+      return NextResponse.json(
+        { error: `${delegatorWallet} has no active delegation in realm ${realmAddress}` },
+        { status: 404 },
+      );
+    }
+
+    const result = await setDelegatorPreference({
+      delegator_wallet: delegatorWallet,
+      realm_address: realmAddress,
+      proposal_address: proposalAddress ?? null,
+      preference,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Preference update failed', details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true, preference });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('POST /api/delegations/preferences failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to set delegator preference', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/delegations/preferences
+ *
+ * Removes an instruction so the delegator's agents follow their own decision
+ * again (or the realm-wide instruction, for a per-proposal one).
+ *
+ * Body: { delegatorWallet, realmAddress, proposalAddress? }
+ */
+export async function DELETE(request: NextRequest) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request, 'delegate');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { delegatorWallet, realmAddress, proposalAddress } = body as {
+      delegatorWallet: string;
+      realmAddress: string;
+      proposalAddress?: string;
+    };
+
+    if (!delegatorWallet || !realmAddress) {
+      return NextResponse.json(
+        { error: 'Missing required fields: delegatorWallet, realmAddress' },
+        { status: 400 },
+      );
+    }
+    await authorizeWallet(auth, delegatorWallet);
+
+    const existing = (await getDelegatorPreferencesByWallet(delegatorWallet)).find(
+      (row) => row.realm_address === realmAddress && (row.proposal_address ?? null) === (proposalAddress ?? null),
+    );
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'No matching delegator preference' },
+        { status: 404 },
+      );
+    }
+
+    const result = await clearDelegatorPreference({
+      delegator_wallet: delegatorWallet,
+      realm_address: realmAddress,
+      proposal_address: proposalAddress ?? null,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Preference removal failed', details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('DELETE /api/delegations/preferences failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear delegator preference', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
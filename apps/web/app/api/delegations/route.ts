@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  createDelegation,
-  getAgentById,
-  getDelegationsByWallet,
-} from '@shared/lib/stdb-client';
-import { AGENT_PERMISSIONS } from '@shared/lib/constants';
-import { verifyAuth, AuthError } from '@shared/lib/auth';
+import { getAgentById, getDelegationsByWallet } from '@shared/lib/stdb-client';
+import { fetchRealm } from '@shared/lib/governance';
+import { buildDelegateTransaction } from '@shared/lib/solana-governance';
+import { verifyAuth, AuthError, authorizeAgentScope, authorizeWallet, type AuthContext } from '@shared/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
+  let auth: AuthContext;
   try {
-    await verifyAuth(request);
+    auth = await verifyAuth(request, 'read');
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
@@ -30,9 +28,14 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    await authorizeWallet(auth, wallet);
+
     const delegations = await getDelegationsByWallet(wallet);
     return NextResponse.json(delegations);
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('GET /api/delegations failed:', error);
     return NextResponse.json(
       { error: 'Failed to fetch delegations', details: String(error) },
@@ -41,9 +44,19 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * POST /api/delegations
+ *
+ * First half of the delegation handshake: returns the unsigned
+ * SetGovernanceDelegate transaction that makes the agent wallet the
+ * delegator's governance delegate. Nothing is stored yet — the delegator
+ * signs it and sends it to POST /api/delegations/confirm, which activates
+ * the delegation once the chain shows it.
+ */
 export async function POST(request: NextRequest) {
+  let auth: AuthContext;
   try {
-    await verifyAuth(request);
+    auth = await verifyAuth(request, 'delegate');
   } catch (error) {
     if (error instanceof AuthError) {
       return NextResponse.json({ error: error.message }, { status: error.statusCode });
@@ -53,11 +66,12 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { agentId, realmAddress, delegatorWallet, scopeBitmap } = body as {
+    const { agentId, realmAddress, delegatorWallet, governingTokenMint } = body as {
       agentId: string;
       realmAddress: string;
       delegatorWallet: string;
-      scopeBitmap?: number;
+      /** Council (or community) mint to delegate; omitted = the realm's community mint */
+      governingTokenMint?: string;
     };
 
     if (!agentId || !realmAddress || !delegatorWallet) {
@@ -66,6 +80,7 @@ export async function POST(request: NextRequest) {
         { status: 400 },
       );
     }
+    await authorizeWallet(auth, delegatorWallet);
 
     const agent = await getAgentById(BigInt(agentId));
     if (!agent) {
@@ -74,26 +89,34 @@ export async function POST(request: NextRequest) {
         { status: 404 },
       );
     }
-
-    const result = await createDelegation({
-      agent_id: BigInt(agentId),
-      realm_address: realmAddress,
-      delegator_wallet: delegatorWallet,
-      scope_bitmap: BigInt(scopeBitmap ?? AGENT_PERMISSIONS.VOTE),
-    });
-
-    if (!result.ok) {
+    authorizeAgentScope(auth, agent.id);
+    if (!agent.privy_wallet_address) {
       return NextResponse.json(
-        { error: 'Delegation creation failed', details: result.error },
-        { status: 500 },
+        { error: `Agent ${agentId} has no wallet to delegate to` },
+        { status: 400 },
       );
     }
 
-    return NextResponse.json({ success: true }, { status: 201 });
+    const mint = governingTokenMint ?? (await fetchRealm(realmAddress)).realm.communityMint.toBase58();
+    const transaction = await buildDelegateTransaction({
+      realmAddress,
+      governingTokenMintAddress: mint,
+      delegatorWalletAddress: delegatorWallet,
+      delegateWalletAddress: agent.privy_wallet_address,
+    });
+
+    return NextResponse.json({
+      transaction,
+      governingTokenMint: mint,
+      delegateWallet: agent.privy_wallet_address,
+    });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     console.error('POST /api/delegations failed:', error);
     return NextResponse.json(
-      { error: 'Failed to create delegation', details: String(error) },
+      { error: 'Failed to build delegation transaction', details: String(error) },
       { status: 500 },
     );
   }
@@ -1,10 +1,13 @@
 import { NextResponse } from 'next/server';
 import {
   fetchProposal,
+  fetchProposalTransactions,
   fetchVoteRecords,
   serializeProposal,
   serializeVoteRecord,
 } from '@shared/lib/governance';
+import { decodeProposalTransactions } from '@shared/lib/proposal-instructions';
+import { parseOptionChoices } from '@shared/lib/proposal-options';
 import { getVotesByProposal, getAgentsByIds } from '@shared/lib/stdb-client';
 
 export const dynamic = 'force-dynamic';
@@ -23,10 +26,17 @@ export async function GET(
   }
 
   try {
-    const [proposal, voteRecords, autonomousVotes] = await Promise.all([
+    const [proposal, voteRecords, autonomousVotes, transactions] = await Promise.all([
       fetchProposal(address),
       fetchVoteRecords(address),
       getVotesByProposal(address).catch(() => []),
+      // null = couldn't fetch; [] = the proposal executes nothing
+      fetchProposalTransactions(address)
+        .then((txs) => decodeProposalTransactions(txs))
+        .catch((error) => {
+          console.warn(`Failed to fetch transactions for proposal ${address}:`, error);
+          return null;
+        }),
     ]);
 
     const agentIds = autonomousVotes.map((v) => v.agent_id);
@@ -39,6 +49,8 @@ export async function GET(
         agentId: vote.agent_id.toString(),
         agentName: agent?.name ?? `Agent ${vote.agent_id.toString()}`,
         vote: vote.vote,
+        // Options approved on a multi-option proposal
+        choices: parseOptionChoices(vote.choices_json) ?? null,
         reasoning: vote.reasoning,
         confidence: vote.confidence,
         txSignature: vote.tx_signature,
@@ -51,6 +63,7 @@ export async function GET(
       proposal: serializeProposal(proposal),
       votes: voteRecords.map(serializeVoteRecord),
       totalVotes: voteRecords.length,
+      transactions,
       autonomousVotes: enrichedAutonomousVotes,
     }, {
       headers: { 'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=120' },
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { registerOwnerIdentity } from '@shared/lib/stdb-client';
+import { verifyAuth, AuthError, authorizeWallet, type AuthContext } from '@shared/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const IDENTITY_PATTERN = /^(0x)?[0-9a-f]{64}$/i;
+
+/**
+ * POST /api/owner-identity
+ *
+ * Register the SpacetimeDB identity the caller's browser connects with for
+ * `ownerWallet`, so it can call owner-level reducers (cancel, override,
+ * reject) for that wallet's agents directly. Replaces any earlier identity.
+ *
+ * Body: { ownerWallet, identity }
+ */
+export async function POST(request: NextRequest) {
+  let auth: AuthContext;
+  try {
+    auth = await verifyAuth(request);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { ownerWallet, identity } = body as { ownerWallet: string; identity: string };
+
+    if (!ownerWallet || !identity) {
+      return NextResponse.json(
+        { error: 'Missing required fields: ownerWallet, identity' },
+        { status: 400 },
+      );
+    }
+    if (!IDENTITY_PATTERN.test(identity)) {
+      return NextResponse.json(
+        { error: 'identity must be a 32-byte hex SpacetimeDB identity' },
+        { status: 400 },
+      );
+    }
+    await authorizeWallet(auth, ownerWallet);
+
+    const result = await registerOwnerIdentity(ownerWallet, identity.replace(/^0x/i, ''));
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Identity registration failed', details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true, ownerWallet, identity });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('POST /api/owner-identity failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to register identity', details: String(error) },
+      { status: 500 },
+    );
+  }
+}
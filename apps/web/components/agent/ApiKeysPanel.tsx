@@ -0,0 +1,184 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { KeyRound, Plus, X } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuthFetch } from '@/hooks/useAuthFetch';
+
+interface ApiKeyItem {
+  id: string;
+  key_prefix: string;
+  label: string;
+  agent_ids: string[];
+  scopes: string[];
+  revoked_at: unknown;
+}
+
+/** Matches API_KEY_SCOPES */
+const SCOPES = ['read', 'analyze', 'vote', 'delegate'] as const;
+
+type Scope = (typeof SCOPES)[number];
+
+interface ApiKeysPanelProps {
+  agentId: string;
+  /** Keys are issued by, and act for, the agent owner */
+  ownerWallet: string;
+}
+
+export function ApiKeysPanel({ agentId, ownerWallet }: ApiKeysPanelProps) {
+  const authFetch = useAuthFetch();
+  const [keys, setKeys] = useState<ApiKeyItem[]>([]);
+  const [label, setLabel] = useState('');
+  const [scopes, setScopes] = useState<Scope[]>(['read']);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    const res = await authFetch(`/api/api-keys?wallet=${ownerWallet}`);
+    if (!res.ok) return;
+    const data = (await res.json()) as ApiKeyItem[];
+    setKeys(data.filter((k) => k.agent_ids.includes(agentId)));
+  }, [authFetch, ownerWallet, agentId]);
+
+  useEffect(() => {
+    loadKeys().catch(() => {});
+  }, [loadKeys]);
+
+  function toggleScope(scope: Scope) {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope],
+    );
+  }
+
+  async function request(input: string, init: RequestInit, fallbackError: string) {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await authFetch(input, init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? fallbackError);
+      await loadKeys();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function createKey() {
+    const data = await request(
+      '/api/api-keys',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ownerWallet, label, agentIds: [agentId], scopes }),
+      },
+      'Failed to create API key',
+    );
+    if (data) {
+      setNewKey(data.key);
+      setLabel('');
+    }
+  }
+
+  async function revokeKey(id: string) {
+    await request(`/api/api-keys/${id}`, { method: 'DELETE' }, 'Failed to revoke API key');
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <KeyRound className="h-4 w-4 text-primary" />
+          API Keys
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        {newKey && (
+          <div className="rounded-lg border border-primary/30 bg-primary/5 p-3">
+            <p className="text-xs text-muted-foreground">
+              Copy this key now — it will not be shown again.
+            </p>
+            <p className="mt-1 break-all font-mono text-xs text-foreground">{newKey}</p>
+          </div>
+        )}
+        {keys.map((k) => (
+          <div
+            key={k.id}
+            className="flex items-center justify-between gap-2 rounded-lg border border-border bg-secondary/30 p-3"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium text-foreground">{k.label}</p>
+              <p className="mt-0.5 font-mono text-[11px] text-muted-foreground">{k.key_prefix}…</p>
+              <div className="mt-1.5 flex flex-wrap gap-1">
+                {k.scopes.map((scope) => (
+                  <Badge key={scope} variant="secondary" className="text-[10px]">
+                    {scope}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            {k.revoked_at != null ? (
+              <Badge variant="outline" className="shrink-0 text-xs text-muted-foreground">
+                Revoked
+              </Badge>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 shrink-0 gap-1 text-xs text-muted-foreground hover:text-red-400 hover:bg-red-400/10"
+                disabled={busy}
+                onClick={() => revokeKey(k.id)}
+              >
+                <X className="h-3 w-3" />
+                Revoke
+              </Button>
+            )}
+          </div>
+        ))}
+        <div className="space-y-2 rounded-lg border border-dashed border-border p-3">
+          <Input
+            placeholder="Label, e.g. MCP server"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {SCOPES.map((scope) => (
+              <Button
+                key={scope}
+                variant="outline"
+                size="sm"
+                className={cn(
+                  'h-7 text-xs capitalize',
+                  scopes.includes(scope) && 'border-primary/50 bg-primary/10 text-primary',
+                )}
+                onClick={() => toggleScope(scope)}
+              >
+                {scope}
+              </Button>
+            ))}
+          </div>
+          <Button
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            disabled={busy || !label || scopes.length === 0}
+            onClick={createKey}
+          >
+            <Plus className="h-3 w-3" />
+            Create key
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock, X, ThumbsUp, ThumbsDown, Minus } from 'lucide-react';
+import { cn } from '@shared/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAuthFetch } from '@/hooks/useAuthFetch';
+
+export interface PendingVoteItem {
+  id: string;
+  proposalAddress: string;
+  vote: string;
+  originalVote: string;
+  confidence: number;
+  reasoning: string;
+  executeAfterMs: number;
+}
+
+interface PendingVotesPanelProps {
+  agentId: string;
+  pendingVotes: PendingVoteItem[];
+  /** Only the agent owner gets cancel / flip controls */
+  canOverride: boolean;
+}
+
+const VOTE_BADGE: Record<string, string> = {
+  for: 'bg-green-500/15 text-green-400 border-green-500/30',
+  against: 'bg-red-500/15 text-red-400 border-red-500/30',
+  abstain: 'bg-yellow-500/15 text-yellow-400 border-yellow-500/30',
+  veto: 'bg-purple-500/15 text-purple-400 border-purple-500/30',
+};
+
+const DIRECTIONS: { vote: string; label: string; icon: React.ElementType }[] = [
+  { vote: 'for', label: 'For', icon: ThumbsUp },
+  { vote: 'against', label: 'Against', icon: ThumbsDown },
+  { vote: 'abstain', label: 'Abstain', icon: Minus },
+];
+
+function formatRemaining(ms: number): string {
+  if (ms <= 0) return 'submitting next cycle';
+  const totalMinutes = Math.ceil(ms / 60_000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m left` : `${minutes}m left`;
+}
+
+export function PendingVotesPanel({ agentId, pendingVotes, canOverride }: PendingVotesPanelProps) {
+  const authFetch = useAuthFetch();
+  const [now, setNow] = useState(() => Date.now());
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  async function submitAction(proposalAddress: string, action: 'cancel' | 'override', vote?: string) {
+    setBusyKey(`${proposalAddress}:${action}:${vote ?? ''}`);
+    setError(null);
+
+    try {
+      const res = await authFetch(`/api/agents/${agentId}/pending-votes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ proposalAddress, action, vote }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? 'Failed to update pending vote');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  if (pendingVotes.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Clock className="h-4 w-4 text-primary" />
+          Pending Votes
+          <span className="text-xs font-normal text-muted-foreground">
+            ({pendingVotes.length} in veto window)
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        {pendingVotes.map((p) => (
+          <div
+            key={p.id}
+            className="rounded-lg border border-border bg-secondary/30 p-3"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-xs text-muted-foreground">
+                  {p.proposalAddress.slice(0, 8)}...{p.proposalAddress.slice(-8)}
+                </p>
+                <p className="mt-0.5 text-[11px] text-muted-foreground/70">
+                  {formatRemaining(p.executeAfterMs - now)}
+                </p>
+              </div>
+              <Badge
+                variant="outline"
+                className={cn('shrink-0 capitalize text-xs', VOTE_BADGE[p.vote])}
+              >
+                {p.vote}
+              </Badge>
+            </div>
+            {p.vote !== p.originalVote && (
+              <p className="mt-1 text-[11px] text-muted-foreground">
+                Overridden from <span className="capitalize">{p.originalVote}</span>
+              </p>
+            )}
+            <p className="mt-2 text-sm text-muted-foreground line-clamp-2">{p.reasoning}</p>
+            {canOverride && p.executeAfterMs > now && (
+              <div className="mt-3 flex flex-wrap gap-1.5">
+                {DIRECTIONS.filter((d) => d.vote !== p.vote).map((d) => {
+                  const Icon = d.icon;
+                  return (
+                    <Button
+                      key={d.vote}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      disabled={busyKey !== null}
+                      onClick={() => submitAction(p.proposalAddress, 'override', d.vote)}
+                    >
+                      <Icon className="h-3 w-3" />
+                      {d.label}
+                    </Button>
+                  );
+                })}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-xs text-muted-foreground hover:text-red-400 hover:bg-red-400/10"
+                  disabled={busyKey !== null}
+                  onClick={() => submitAction(p.proposalAddress, 'cancel')}
+                >
+                  <X className="h-3 w-3" />
+                  Cancel vote
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { FileText, Check, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuthFetch } from '@/hooks/useAuthFetch';
+
+export interface ProposalDraftItem {
+  draftKey: string;
+  realmAddress: string;
+  title: string;
+  description: string;
+  brief: string;
+}
+
+interface ProposalDraftsPanelProps {
+  agentId: string;
+  drafts: ProposalDraftItem[];
+  /** Only the agent owner gets approve / reject controls */
+  canApprove: boolean;
+}
+
+/** Matches MAX_INLINE_DESCRIPTION_LENGTH — longer descriptions need a hosted link */
+const MAX_INLINE_DESCRIPTION_LENGTH = 400;
+
+export function ProposalDraftsPanel({ agentId, drafts, canApprove }: ProposalDraftsPanelProps) {
+  const authFetch = useAuthFetch();
+  const [links, setLinks] = useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submitAction(draftKey: string, action: 'approve' | 'reject') {
+    setBusyKey(`${draftKey}:${action}`);
+    setError(null);
+
+    try {
+      const res = await authFetch(`/api/agents/${agentId}/proposals/${draftKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, descriptionLink: links[draftKey] || undefined }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? 'Failed to update proposal draft');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <FileText className="h-4 w-4 text-primary" />
+          Proposal Drafts
+          <span className="text-xs font-normal text-muted-foreground">
+            ({drafts.length} awaiting approval)
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        {drafts.map((d) => {
+          const needsLink = d.description.length > MAX_INLINE_DESCRIPTION_LENGTH;
+          return (
+            <div
+              key={d.draftKey}
+              className="rounded-lg border border-border bg-secondary/30 p-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="min-w-0 flex-1 truncate text-sm font-medium text-foreground">{d.title}</p>
+                <Badge variant="outline" className="shrink-0 text-xs">
+                  {d.realmAddress.slice(0, 4)}...{d.realmAddress.slice(-4)}
+                </Badge>
+              </div>
+              <p className="mt-2 whitespace-pre-line text-sm text-muted-foreground line-clamp-4">{d.description}</p>
+              <p className="mt-1 text-[11px] text-muted-foreground/70 line-clamp-1">Brief: {d.brief}</p>
+              {canApprove && (
+                <div className="mt-3 space-y-2">
+                  <Input
+                    className="h-8 text-xs"
+                    placeholder={needsLink ? 'Description link (required — too long to store on-chain)' : 'Description link (optional)'}
+                    value={links[d.draftKey] ?? ''}
+                    onChange={(e) => setLinks((prev) => ({ ...prev, [d.draftKey]: e.target.value }))}
+                  />
+                  <div className="flex flex-wrap gap-1.5">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      disabled={busyKey !== null || (needsLink && !links[d.draftKey])}
+                      onClick={() => submitAction(d.draftKey, 'approve')}
+                    >
+                      <Check className="h-3 w-3" />
+                      Approve &amp; create
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-xs text-muted-foreground hover:text-red-400 hover:bg-red-400/10"
+                      disabled={busyKey !== null}
+                      onClick={() => submitAction(d.draftKey, 'reject')}
+                    >
+                      <X className="h-3 w-3" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,8 +3,10 @@
 import Link from 'next/link';
 import { Clock, Bot, Share2 } from 'lucide-react';
 import { cn, timeAgo } from '@shared/lib/utils';
+import { parseOptionChoices } from '@shared/lib/proposal-options';
 import { Badge } from '@/components/ui/badge';
 import { VoteIndicator } from './VoteIndicator';
+import { OptionBreakdown } from '@/components/governance/OptionBreakdown';
 import { useTable } from 'spacetimedb/react';
 import { tables } from '@/module_bindings';
 import type { FeedItem } from '@/lib/feed-types';
@@ -45,6 +47,8 @@ export function ProposalFeedCard({ item }: ProposalFeedCardProps) {
   const agentAgainstVotes = proposalVotes.filter((v) => v.vote === 'against').length;
   const agentAbstainVotes = proposalVotes.filter((v) => v.vote === 'abstain').length;
   const totalAgentVotes = proposalVotes.length;
+  const agentBallots = proposalVotes.map((v) => parseOptionChoices(v.choicesJson) ?? []);
+  const isMultiOption = (proposal.options?.length ?? 0) > 1;
 
   // Use agent votes for display if available, otherwise fall back to on-chain
   const displayFor = totalAgentVotes > 0 ? agentForVotes : proposal.forVotes;
@@ -87,6 +91,13 @@ export function ProposalFeedCard({ item }: ProposalFeedCardProps) {
             </p>
           )}
 
+          {/* Options of a multi-option proposal */}
+          {isMultiOption && proposal.options && (
+            <div className="mt-2">
+              <OptionBreakdown options={proposal.options} agentBallots={agentBallots} compact />
+            </div>
+          )}
+
           {/* Footer: status + remaining + actions */}
           <div className="mt-3 flex items-center gap-3 text-xs text-muted-foreground">
             <Badge
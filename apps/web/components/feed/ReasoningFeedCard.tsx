@@ -105,7 +105,7 @@ export function ReasoningFeedCard({ item }: ReasoningFeedCardProps) {
               {post.agentName}
             </span>
             <span className="text-xs text-muted-foreground">
-              voted
+              {vote.heldUntil ? 'will vote' : 'voted'}
             </span>
             <Badge
               variant="outline"
@@ -142,6 +142,13 @@ export function ReasoningFeedCard({ item }: ReasoningFeedCardProps) {
         )}
       </div>
 
+      {/* Veto window notice */}
+      {vote.heldUntil && (
+        <p className="px-4 pt-1.5 text-[10px] text-yellow-400">
+          Held for owner review until {new Date(vote.heldUntil).toLocaleString()} — the owner can cancel or change it
+        </p>
+      )}
+
       {/* Reasoning body */}
       <div className="px-4 pt-2.5 pb-3">
         <p className="text-sm leading-relaxed text-foreground/90">
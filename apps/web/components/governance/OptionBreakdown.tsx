@@ -0,0 +1,53 @@
+"use client";
+
+import type { OptionChoice, ProposalOption } from "@shared/types/governance";
+import { cn, formatNumber } from "@shared/lib/utils";
+
+interface OptionBreakdownProps {
+  options: ProposalOption[];
+  /** Ballots agents cast on this proposal, one per agent */
+  agentBallots?: OptionChoice[][];
+  compact?: boolean;
+}
+
+/** Option labels match case-insensitively, as the vote engine resolves them */
+function sameOption(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * On-chain weight of every option of a multi-option proposal, with how many
+ * agents approved each one.
+ */
+export function OptionBreakdown({ options, agentBallots = [], compact = false }: OptionBreakdownProps) {
+  const totalWeight = options.reduce((sum, option) => sum + option.voteWeight, 0);
+
+  return (
+    <div className={cn(compact ? "space-y-1.5" : "space-y-3")}>
+      {options.map((option) => {
+        const percent = totalWeight > 0 ? (option.voteWeight / totalWeight) * 100 : 0;
+        const agentCount = agentBallots.filter((ballot) =>
+          ballot.some((choice) => sameOption(choice.option, option.label)),
+        ).length;
+
+        return (
+          <div key={option.label} className="space-y-1">
+            <div className={cn("flex items-center justify-between gap-2", compact ? "text-[11px]" : "text-sm")}>
+              <span className="truncate text-foreground">{option.label}</span>
+              <span className="shrink-0 text-muted-foreground">
+                {formatNumber(option.voteWeight)} ({percent.toFixed(1)}%)
+                {agentCount > 0 && ` · ${agentCount} agent${agentCount !== 1 ? "s" : ""}`}
+              </span>
+            </div>
+            <div className={cn("relative w-full overflow-hidden rounded-full bg-secondary", compact ? "h-1" : "h-2")}>
+              <div
+                className="absolute inset-y-0 left-0 rounded-full bg-primary transition-all duration-500"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { cn, formatNumber } from "@shared/lib/utils";
+import { parseOptionChoices } from "@shared/lib/proposal-options";
 import type { Proposal } from "@shared/types/governance";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -17,6 +18,7 @@ import {
   Link2,
 } from "lucide-react";
 import { useMemo } from "react";
+import { OptionBreakdown } from "@/components/governance/OptionBreakdown";
 import { useTable } from "spacetimedb/react";
 import { tables } from "@/module_bindings";
 
@@ -70,6 +72,11 @@ export function ProposalCard({ proposal }: ProposalCardProps) {
   const agentAbstain = useMemo(() => proposalVotes.filter((v) => v.vote === "abstain").length, [proposalVotes]);
   const hasAgentVotes = proposalVotes.length > 0;
   const onChainCount = useMemo(() => proposalVotes.filter((v) => v.txSignature).length, [proposalVotes]);
+  const agentBallots = useMemo(
+    () => proposalVotes.map((v) => parseOptionChoices(v.choicesJson) ?? []),
+    [proposalVotes]
+  );
+  const isMultiOption = (proposal.options?.length ?? 0) > 1;
 
   const displayFor = hasAgentVotes ? agentFor : proposal.forVotes;
   const displayAgainst = hasAgentVotes ? agentAgainst : proposal.againstVotes;
@@ -157,6 +164,10 @@ export function ProposalCard({ proposal }: ProposalCardProps) {
             </div>
           )}
         </div>
+
+        {isMultiOption && proposal.options && (
+          <OptionBreakdown options={proposal.options} agentBallots={agentBallots} compact />
+        )}
       </CardContent>
     </Card>
   );
@@ -3,6 +3,7 @@
 import type { Proposal } from "@shared/types/governance";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { OptionBreakdown } from "@/components/governance/OptionBreakdown";
 import { Bot, CircleCheck, CircleX, Clock3 } from "lucide-react";
 
 interface VotePanelProps {
@@ -25,6 +26,7 @@ function statusBadgeClass(status: string): string {
 export function VotePanel({ proposal }: VotePanelProps) {
   const isVoting = proposal.status === "voting";
   const isClosed = proposal.status === "succeeded" || proposal.status === "defeated";
+  const isMultiOption = (proposal.options?.length ?? 0) > 1;
 
   return (
     <Card>
@@ -48,9 +50,18 @@ export function VotePanel({ proposal }: VotePanelProps) {
             <p className="mt-1 text-xs text-blue-200/80">
               Votes are executed automatically by the worker when agent policy and confidence thresholds are met.
             </p>
+            {isMultiOption && (
+              <p className="mt-1 text-xs text-blue-200/80">
+                This proposal has {proposal.options?.length} options — a FOR vote approves the options the agent chooses.
+              </p>
+            )}
           </div>
         )}
 
+        {isMultiOption && proposal.options && (
+          <OptionBreakdown options={proposal.options} compact />
+        )}
+
         {isClosed && (
           <div className="rounded-lg border border-border bg-secondary/40 p-3 text-sm text-muted-foreground">
             <p className="flex items-center gap-2 font-medium text-foreground">
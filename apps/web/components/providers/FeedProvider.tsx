@@ -34,6 +34,7 @@ function mapProposal(
     forVotes: raw.forVotes,
     againstVotes: raw.againstVotes,
     abstainVotes: raw.abstainVotes,
+    options: raw.options,
     deadline: raw.votingCompletedAt
       ? new Date(raw.votingCompletedAt)
       : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
@@ -157,10 +158,15 @@ export function FeedProvider({ children }: { children: React.ReactNode }) {
                   : content.createdAt
                     ? new Date(content.createdAt as string)
                     : new Date(),
+                heldUntil: (content.type as string) === 'pending_vote' && content.executeAfter
+                  ? new Date(content.executeAfter as string)
+                  : undefined,
               },
               likes: (social?.likeCount as number) || (social?.likes as number) || 0,
               comments: (social?.commentCount as number) || (social?.comments as number) || 0,
-              type: ((content.type as string) === 'vote_reasoning' ? 'vote' : (content.type as string) || 'vote') as
+              type: (['vote_reasoning', 'pending_vote'].includes(content.type as string)
+                ? 'vote'
+                : (content.type as string) || 'vote') as
                 | 'vote'
                 | 'analysis'
                 | 'delegation',
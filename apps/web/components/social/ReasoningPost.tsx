@@ -14,6 +14,8 @@ export interface VoteReasoning {
   proposalTitle: string;
   proposalAddress?: string;
   createdAt: Date | string;
+  /** Set while the vote is held in the agent's veto window — cast after this */
+  heldUntil?: Date | string;
 }
 
 interface ReasoningPostProps {
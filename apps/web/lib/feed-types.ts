@@ -43,6 +43,7 @@ export interface RealmResponse {
     forVotes: number;
     againstVotes: number;
     abstainVotes: number;
+    options: Array<{ label: string; voteWeight: number }>;
     draftAt: string;
     startVotingAt: string;
     votingCompletedAt: string;
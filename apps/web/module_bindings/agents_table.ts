@@ -18,7 +18,6 @@ export default __t.row({
   configJson: __t.string().name("config_json"),
   riskTolerance: __t.string().name("risk_tolerance"),
   isActive: __t.bool().name("is_active"),
-  privyWalletId: __t.option(__t.string()).name("privy_wallet_id"),
   privyWalletAddress: __t.option(__t.string()).name("privy_wallet_address"),
   totalVotes: __t.u32().name("total_votes"),
   accuracyScore: __t.u32().name("accuracy_score"),
@@ -0,0 +1,24 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default {
+  agentId: __t.u64(),
+  proposalAddress: __t.string(),
+  vote: __t.string(),
+  reasoning: __t.string(),
+  confidence: __t.f64(),
+  txSignature: __t.option(__t.string()),
+  changedBy: __t.string(),
+  choicesJson: __t.option(__t.string()),
+  castsJson: __t.option(__t.string()),
+  voteStatus: __t.string(),
+};
@@ -15,4 +15,6 @@ export default {
   realmAddress: __t.string(),
   scopeBitmap: __t.u64(),
   delegatorWallet: __t.string(),
+  governingTokenMint: __t.option(__t.string()),
+  onChainPda: __t.option(__t.string()),
 };
@@ -0,0 +1,23 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default {
+  draftKey: __t.string(),
+  agentId: __t.u64(),
+  realmAddress: __t.string(),
+  governanceAddress: __t.string(),
+  governingTokenMint: __t.string(),
+  delegatorWallet: __t.string(),
+  brief: __t.string(),
+  title: __t.string(),
+  description: __t.string(),
+};
@@ -19,4 +19,5 @@ export default __t.row({
   isActive: __t.bool().name("is_active"),
   onChainPda: __t.option(__t.string()).name("on_chain_pda"),
   createdAt: __t.timestamp().name("created_at"),
+  governingTokenMint: __t.option(__t.string()).name("governing_token_mint"),
 });
@@ -43,6 +43,27 @@ import StoreAiAnalysisReducer from "./store_ai_analysis_reducer";
 import AddTrackedRealmReducer from "./add_tracked_realm_reducer";
 import RemoveTrackedRealmReducer from "./remove_tracked_realm_reducer";
 import SeedTrackedRealmsReducer from "./seed_tracked_realms_reducer";
+import CreatePendingVoteReducer from "./create_pending_vote_reducer";
+import CancelPendingVoteReducer from "./cancel_pending_vote_reducer";
+import OverridePendingVoteReducer from "./override_pending_vote_reducer";
+import ResolvePendingVoteReducer from "./resolve_pending_vote_reducer";
+import UpdateAgentStatsReducer from "./update_agent_stats_reducer";
+import CreateProposalDraftReducer from "./create_proposal_draft_reducer";
+import RejectProposalDraftReducer from "./reject_proposal_draft_reducer";
+import SubmitProposalDraftReducer from "./submit_proposal_draft_reducer";
+import ChangeVoteReducer from "./change_vote_reducer";
+import DeactivateDelegationReducer from "./deactivate_delegation_reducer";
+import SetDelegatorPreferenceReducer from "./set_delegator_preference_reducer";
+import ClearDelegatorPreferenceReducer from "./clear_delegator_preference_reducer";
+import CreateApiKeyReducer from "./create_api_key_reducer";
+import RevokeApiKeyReducer from "./revoke_api_key_reducer";
+import AddAdminReducer from "./add_admin_reducer";
+import RemoveAdminReducer from "./remove_admin_reducer";
+import RegisterOwnerIdentityReducer from "./register_owner_identity_reducer";
+import BeginProposalApprovalReducer from "./begin_proposal_approval_reducer";
+import ReleaseProposalApprovalReducer from "./release_proposal_approval_reducer";
+import UpdateVoteCastsReducer from "./update_vote_casts_reducer";
+import BeginPendingVoteReducer from "./begin_pending_vote_reducer";
 
 // Import all procedure arg schemas
 
@@ -51,7 +72,12 @@ import ActivityLogRow from "./activity_log_table";
 import AgentsRow from "./agents_table";
 import AiAnalysesRow from "./ai_analyses_table";
 import DelegationsRow from "./delegations_table";
+import DelegatorPreferencesRow from "./delegator_preferences_table";
+import PendingVotesRow from "./pending_votes_table";
+import ProposalDraftsRow from "./proposal_drafts_table";
 import TrackedRealmsRow from "./tracked_realms_table";
+import VoteHistoryRow from "./vote_history_table";
+import VoteScoresRow from "./vote_scores_table";
 import VotesRow from "./votes_table";
 
 /** Type-only namespace exports for generated type groups. */
@@ -124,6 +150,66 @@ const tablesSchema = __schema({
       { name: 'delegations_id_key', constraint: 'unique', columns: ['id'] },
     ],
   }, DelegationsRow),
+  delegator_preferences: __table({
+    name: 'delegator_preferences',
+    indexes: [
+      { name: 'delegator_wallet', algorithm: 'btree', columns: [
+        'delegatorWallet',
+      ] },
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'preference_key', algorithm: 'btree', columns: [
+        'preferenceKey',
+      ] },
+      { name: 'realm_address', algorithm: 'btree', columns: [
+        'realmAddress',
+      ] },
+    ],
+    constraints: [
+      { name: 'delegator_preferences_id_key', constraint: 'unique', columns: ['id'] },
+      { name: 'delegator_preferences_preference_key_key', constraint: 'unique', columns: ['preferenceKey'] },
+    ],
+  }, DelegatorPreferencesRow),
+  pending_votes: __table({
+    name: 'pending_votes',
+    indexes: [
+      { name: 'agent_id', algorithm: 'btree', columns: [
+        'agentId',
+      ] },
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'pending_key', algorithm: 'btree', columns: [
+        'pendingKey',
+      ] },
+      { name: 'proposal_address', algorithm: 'btree', columns: [
+        'proposalAddress',
+      ] },
+    ],
+    constraints: [
+      { name: 'pending_votes_id_key', constraint: 'unique', columns: ['id'] },
+      { name: 'pending_votes_pending_key_key', constraint: 'unique', columns: ['pendingKey'] },
+    ],
+  }, PendingVotesRow),
+  proposal_drafts: __table({
+    name: 'proposal_drafts',
+    indexes: [
+      { name: 'agent_id', algorithm: 'btree', columns: [
+        'agentId',
+      ] },
+      { name: 'draft_key', algorithm: 'btree', columns: [
+        'draftKey',
+      ] },
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+    ],
+    constraints: [
+      { name: 'proposal_drafts_draft_key_key', constraint: 'unique', columns: ['draftKey'] },
+      { name: 'proposal_drafts_id_key', constraint: 'unique', columns: ['id'] },
+    ],
+  }, ProposalDraftsRow),
   tracked_realms: __table({
     name: 'tracked_realms',
     indexes: [
@@ -139,6 +225,44 @@ const tablesSchema = __schema({
       { name: 'tracked_realms_id_key', constraint: 'unique', columns: ['id'] },
     ],
   }, TrackedRealmsRow),
+  vote_history: __table({
+    name: 'vote_history',
+    indexes: [
+      { name: 'agent_id', algorithm: 'btree', columns: [
+        'agentId',
+      ] },
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'vote_key', algorithm: 'btree', columns: [
+        'voteKey',
+      ] },
+    ],
+    constraints: [
+      { name: 'vote_history_id_key', constraint: 'unique', columns: ['id'] },
+    ],
+  }, VoteHistoryRow),
+  vote_scores: __table({
+    name: 'vote_scores',
+    indexes: [
+      { name: 'agent_id', algorithm: 'btree', columns: [
+        'agentId',
+      ] },
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'proposal_address', algorithm: 'btree', columns: [
+        'proposalAddress',
+      ] },
+      { name: 'score_key', algorithm: 'btree', columns: [
+        'scoreKey',
+      ] },
+    ],
+    constraints: [
+      { name: 'vote_scores_id_key', constraint: 'unique', columns: ['id'] },
+      { name: 'vote_scores_score_key_key', constraint: 'unique', columns: ['scoreKey'] },
+    ],
+  }, VoteScoresRow),
   votes: __table({
     name: 'votes',
     indexes: [
@@ -173,6 +297,27 @@ const reducersSchema = __reducers(
   __reducerSchema("add_tracked_realm", AddTrackedRealmReducer),
   __reducerSchema("remove_tracked_realm", RemoveTrackedRealmReducer),
   __reducerSchema("seed_tracked_realms", SeedTrackedRealmsReducer),
+  __reducerSchema("create_pending_vote", CreatePendingVoteReducer),
+  __reducerSchema("cancel_pending_vote", CancelPendingVoteReducer),
+  __reducerSchema("override_pending_vote", OverridePendingVoteReducer),
+  __reducerSchema("resolve_pending_vote", ResolvePendingVoteReducer),
+  __reducerSchema("update_agent_stats", UpdateAgentStatsReducer),
+  __reducerSchema("create_proposal_draft", CreateProposalDraftReducer),
+  __reducerSchema("reject_proposal_draft", RejectProposalDraftReducer),
+  __reducerSchema("submit_proposal_draft", SubmitProposalDraftReducer),
+  __reducerSchema("change_vote", ChangeVoteReducer),
+  __reducerSchema("deactivate_delegation", DeactivateDelegationReducer),
+  __reducerSchema("set_delegator_preference", SetDelegatorPreferenceReducer),
+  __reducerSchema("clear_delegator_preference", ClearDelegatorPreferenceReducer),
+  __reducerSchema("create_api_key", CreateApiKeyReducer),
+  __reducerSchema("revoke_api_key", RevokeApiKeyReducer),
+  __reducerSchema("add_admin", AddAdminReducer),
+  __reducerSchema("remove_admin", RemoveAdminReducer),
+  __reducerSchema("register_owner_identity", RegisterOwnerIdentityReducer),
+  __reducerSchema("begin_proposal_approval", BeginProposalApprovalReducer),
+  __reducerSchema("release_proposal_approval", ReleaseProposalApprovalReducer),
+  __reducerSchema("update_vote_casts", UpdateVoteCastsReducer),
+  __reducerSchema("begin_pending_vote", BeginPendingVoteReducer),
 );
 
 /** The schema information for all procedures in this module. This is defined the same way as the procedures would have been defined in the server. */
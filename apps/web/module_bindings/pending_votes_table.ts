@@ -0,0 +1,27 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default __t.row({
+  id: __t.u64().primaryKey(),
+  pendingKey: __t.string().name("pending_key"),
+  agentId: __t.u64().name("agent_id"),
+  proposalAddress: __t.string().name("proposal_address"),
+  vote: __t.string(),
+  originalVote: __t.string().name("original_vote"),
+  reasoning: __t.string(),
+  confidence: __t.f64(),
+  status: __t.string(),
+  executeAfterMs: __t.u64().name("execute_after_ms"),
+  createdAt: __t.timestamp().name("created_at"),
+  updatedAt: __t.timestamp().name("updated_at"),
+  choicesJson: __t.option(__t.string()).name("choices_json"),
+});
@@ -0,0 +1,29 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default __t.row({
+  id: __t.u64().primaryKey(),
+  draftKey: __t.string().name("draft_key"),
+  agentId: __t.u64().name("agent_id"),
+  realmAddress: __t.string().name("realm_address"),
+  governanceAddress: __t.string().name("governance_address"),
+  governingTokenMint: __t.string().name("governing_token_mint"),
+  delegatorWallet: __t.string().name("delegator_wallet"),
+  brief: __t.string(),
+  title: __t.string(),
+  description: __t.string(),
+  status: __t.string(),
+  proposalAddress: __t.option(__t.string()).name("proposal_address"),
+  txSignature: __t.option(__t.string()).name("tx_signature"),
+  createdAt: __t.timestamp().name("created_at"),
+  updatedAt: __t.timestamp().name("updated_at"),
+});
@@ -18,4 +18,9 @@ export default {
   confidence: __t.f64(),
   txSignature: __t.option(__t.string()),
   tapestryContentId: __t.option(__t.string()),
+  governingTokenMint: __t.option(__t.string()),
+  choicesJson: __t.option(__t.string()),
+  castsJson: __t.option(__t.string()),
+  feeLamports: __t.option(__t.u64()),
+  voteStatus: __t.option(__t.string()),
 };
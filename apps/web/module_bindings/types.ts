@@ -28,7 +28,6 @@ export const Agents = __t.object("Agents", {
   configJson: __t.string(),
   riskTolerance: __t.string(),
   isActive: __t.bool(),
-  privyWalletId: __t.option(__t.string()),
   privyWalletAddress: __t.option(__t.string()),
   totalVotes: __t.u32(),
   accuracyScore: __t.u32(),
@@ -59,9 +58,58 @@ export const Delegations = __t.object("Delegations", {
   isActive: __t.bool(),
   onChainPda: __t.option(__t.string()),
   createdAt: __t.timestamp(),
+  governingTokenMint: __t.option(__t.string()),
 });
 export type Delegations = __Infer<typeof Delegations>;
 
+export const DelegatorPreferences = __t.object("DelegatorPreferences", {
+  id: __t.u64(),
+  preferenceKey: __t.string(),
+  delegatorWallet: __t.string(),
+  realmAddress: __t.string(),
+  proposalAddress: __t.option(__t.string()),
+  preference: __t.string(),
+  createdAt: __t.timestamp(),
+  updatedAt: __t.timestamp(),
+});
+export type DelegatorPreferences = __Infer<typeof DelegatorPreferences>;
+
+export const PendingVotes = __t.object("PendingVotes", {
+  id: __t.u64(),
+  pendingKey: __t.string(),
+  agentId: __t.u64(),
+  proposalAddress: __t.string(),
+  vote: __t.string(),
+  originalVote: __t.string(),
+  reasoning: __t.string(),
+  confidence: __t.f64(),
+  status: __t.string(),
+  executeAfterMs: __t.u64(),
+  createdAt: __t.timestamp(),
+  updatedAt: __t.timestamp(),
+  choicesJson: __t.option(__t.string()),
+});
+export type PendingVotes = __Infer<typeof PendingVotes>;
+
+export const ProposalDrafts = __t.object("ProposalDrafts", {
+  id: __t.u64(),
+  draftKey: __t.string(),
+  agentId: __t.u64(),
+  realmAddress: __t.string(),
+  governanceAddress: __t.string(),
+  governingTokenMint: __t.string(),
+  delegatorWallet: __t.string(),
+  brief: __t.string(),
+  title: __t.string(),
+  description: __t.string(),
+  status: __t.string(),
+  proposalAddress: __t.option(__t.string()),
+  txSignature: __t.option(__t.string()),
+  createdAt: __t.timestamp(),
+  updatedAt: __t.timestamp(),
+});
+export type ProposalDrafts = __Infer<typeof ProposalDrafts>;
+
 export const TrackedRealms = __t.object("TrackedRealms", {
   id: __t.u64(),
   address: __t.string(),
@@ -71,6 +119,37 @@ export const TrackedRealms = __t.object("TrackedRealms", {
 });
 export type TrackedRealms = __Infer<typeof TrackedRealms>;
 
+export const VoteHistory = __t.object("VoteHistory", {
+  id: __t.u64(),
+  voteKey: __t.string(),
+  agentId: __t.u64(),
+  proposalAddress: __t.string(),
+  vote: __t.string(),
+  reasoning: __t.string(),
+  confidence: __t.f64(),
+  txSignature: __t.option(__t.string()),
+  changedBy: __t.string(),
+  votedAt: __t.timestamp(),
+  replacedAt: __t.timestamp(),
+  choicesJson: __t.option(__t.string()),
+});
+export type VoteHistory = __Infer<typeof VoteHistory>;
+
+export const VoteScores = __t.object("VoteScores", {
+  id: __t.u64(),
+  scoreKey: __t.string(),
+  agentId: __t.u64(),
+  proposalAddress: __t.string(),
+  finalState: __t.string(),
+  outcome: __t.string(),
+  agentVote: __t.string(),
+  matchedOutcome: __t.bool(),
+  delegatorsCompared: __t.u32(),
+  delegatorsAgreed: __t.u32(),
+  scoredAt: __t.timestamp(),
+});
+export type VoteScores = __Infer<typeof VoteScores>;
+
 export const Votes = __t.object("Votes", {
   id: __t.u64(),
   voteKey: __t.string(),
@@ -82,6 +161,11 @@ export const Votes = __t.object("Votes", {
   txSignature: __t.option(__t.string()),
   tapestryContentId: __t.option(__t.string()),
   createdAt: __t.timestamp(),
+  governingTokenMint: __t.option(__t.string()),
+  choicesJson: __t.option(__t.string()),
+  castsJson: __t.option(__t.string()),
+  feeLamports: __t.option(__t.u64()),
+  voteStatus: __t.option(__t.string()),
 });
 export type Votes = __Infer<typeof Votes>;
 
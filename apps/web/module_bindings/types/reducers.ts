@@ -15,6 +15,27 @@ import StoreAiAnalysisReducer from "../store_ai_analysis_reducer";
 import AddTrackedRealmReducer from "../add_tracked_realm_reducer";
 import RemoveTrackedRealmReducer from "../remove_tracked_realm_reducer";
 import SeedTrackedRealmsReducer from "../seed_tracked_realms_reducer";
+import CreatePendingVoteReducer from "../create_pending_vote_reducer";
+import CancelPendingVoteReducer from "../cancel_pending_vote_reducer";
+import OverridePendingVoteReducer from "../override_pending_vote_reducer";
+import ResolvePendingVoteReducer from "../resolve_pending_vote_reducer";
+import UpdateAgentStatsReducer from "../update_agent_stats_reducer";
+import CreateProposalDraftReducer from "../create_proposal_draft_reducer";
+import RejectProposalDraftReducer from "../reject_proposal_draft_reducer";
+import SubmitProposalDraftReducer from "../submit_proposal_draft_reducer";
+import ChangeVoteReducer from "../change_vote_reducer";
+import DeactivateDelegationReducer from "../deactivate_delegation_reducer";
+import SetDelegatorPreferenceReducer from "../set_delegator_preference_reducer";
+import ClearDelegatorPreferenceReducer from "../clear_delegator_preference_reducer";
+import CreateApiKeyReducer from "../create_api_key_reducer";
+import RevokeApiKeyReducer from "../revoke_api_key_reducer";
+import AddAdminReducer from "../add_admin_reducer";
+import RemoveAdminReducer from "../remove_admin_reducer";
+import RegisterOwnerIdentityReducer from "../register_owner_identity_reducer";
+import BeginProposalApprovalReducer from "../begin_proposal_approval_reducer";
+import ReleaseProposalApprovalReducer from "../release_proposal_approval_reducer";
+import UpdateVoteCastsReducer from "../update_vote_casts_reducer";
+import BeginPendingVoteReducer from "../begin_pending_vote_reducer";
 
 export type CreateAgentParams = __Infer<typeof CreateAgentReducer>;
 export type UpdateAgentParams = __Infer<typeof UpdateAgentReducer>;
@@ -25,4 +46,25 @@ export type StoreAiAnalysisParams = __Infer<typeof StoreAiAnalysisReducer>;
 export type AddTrackedRealmParams = __Infer<typeof AddTrackedRealmReducer>;
 export type RemoveTrackedRealmParams = __Infer<typeof RemoveTrackedRealmReducer>;
 export type SeedTrackedRealmsParams = __Infer<typeof SeedTrackedRealmsReducer>;
+export type CreatePendingVoteParams = __Infer<typeof CreatePendingVoteReducer>;
+export type CancelPendingVoteParams = __Infer<typeof CancelPendingVoteReducer>;
+export type OverridePendingVoteParams = __Infer<typeof OverridePendingVoteReducer>;
+export type ResolvePendingVoteParams = __Infer<typeof ResolvePendingVoteReducer>;
+export type UpdateAgentStatsParams = __Infer<typeof UpdateAgentStatsReducer>;
+export type CreateProposalDraftParams = __Infer<typeof CreateProposalDraftReducer>;
+export type RejectProposalDraftParams = __Infer<typeof RejectProposalDraftReducer>;
+export type SubmitProposalDraftParams = __Infer<typeof SubmitProposalDraftReducer>;
+export type ChangeVoteParams = __Infer<typeof ChangeVoteReducer>;
+export type DeactivateDelegationParams = __Infer<typeof DeactivateDelegationReducer>;
+export type SetDelegatorPreferenceParams = __Infer<typeof SetDelegatorPreferenceReducer>;
+export type ClearDelegatorPreferenceParams = __Infer<typeof ClearDelegatorPreferenceReducer>;
+export type CreateApiKeyParams = __Infer<typeof CreateApiKeyReducer>;
+export type RevokeApiKeyParams = __Infer<typeof RevokeApiKeyReducer>;
+export type AddAdminParams = __Infer<typeof AddAdminReducer>;
+export type RemoveAdminParams = __Infer<typeof RemoveAdminReducer>;
+export type RegisterOwnerIdentityParams = __Infer<typeof RegisterOwnerIdentityReducer>;
+export type BeginProposalApprovalParams = __Infer<typeof BeginProposalApprovalReducer>;
+export type ReleaseProposalApprovalParams = __Infer<typeof ReleaseProposalApprovalReducer>;
+export type UpdateVoteCastsParams = __Infer<typeof UpdateVoteCastsReducer>;
+export type BeginPendingVoteParams = __Infer<typeof BeginPendingVoteReducer>;
 
@@ -0,0 +1,25 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default __t.row({
+  id: __t.u64().primaryKey(),
+  scoreKey: __t.string().name("score_key"),
+  agentId: __t.u64().name("agent_id"),
+  proposalAddress: __t.string().name("proposal_address"),
+  finalState: __t.string().name("final_state"),
+  outcome: __t.string(),
+  agentVote: __t.string().name("agent_vote"),
+  matchedOutcome: __t.bool().name("matched_outcome"),
+  delegatorsCompared: __t.u32().name("delegators_compared"),
+  delegatorsAgreed: __t.u32().name("delegators_agreed"),
+  scoredAt: __t.timestamp().name("scored_at"),
+});
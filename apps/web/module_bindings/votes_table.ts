@@ -21,4 +21,9 @@ export default __t.row({
   txSignature: __t.option(__t.string()).name("tx_signature"),
   tapestryContentId: __t.option(__t.string()).name("tapestry_content_id"),
   createdAt: __t.timestamp().name("created_at"),
+  governingTokenMint: __t.option(__t.string()).name("governing_token_mint"),
+  choicesJson: __t.option(__t.string()).name("choices_json"),
+  castsJson: __t.option(__t.string()).name("casts_json"),
+  feeLamports: __t.option(__t.u64()).name("fee_lamports"),
+  voteStatus: __t.option(__t.string()).name("vote_status"),
 });
@@ -24,6 +24,8 @@ export interface WorkerRuntimeConfig {
   maxConcurrency: number;
   dryRun: boolean;
   runOnce: boolean;
+  /** How often the server checks active delegations against the chain */
+  reconcileIntervalMs: number;
 }
 
 export function getWorkerRuntimeConfig(): WorkerRuntimeConfig {
@@ -36,6 +38,7 @@ export function getWorkerRuntimeConfig(): WorkerRuntimeConfig {
     maxConcurrency: readIntEnv('AGENT_WORKER_MAX_CONCURRENCY', 1),
     dryRun: dryRunArg || readBoolEnv('AGENT_WORKER_DRY_RUN', false),
     runOnce: runOnceFlag,
+    reconcileIntervalMs: readIntEnv('DELEGATION_RECONCILE_INTERVAL_MS', 600_000),
   };
 }
 
@@ -0,0 +1,184 @@
+import {
+  fetchUserTokenRecords,
+  fetchVoterWeightPlugin,
+  serializeTokenOwnerRecord,
+} from '@shared/lib/governance';
+import {
+  deactivateDelegation,
+  getActiveDelegations,
+  getAgentsByIds,
+  type DelegationRow,
+} from '@shared/lib/stdb-client';
+
+export type DelegationDriftReason =
+  | 'token_owner_record_missing'
+  | 'delegate_changed'
+  | 'tokens_withdrawn';
+
+export interface DelegationDrift {
+  delegationId: string;
+  agentId: string;
+  delegatorWallet: string;
+  realmAddress: string;
+  governingTokenMint: string | null;
+  reason: DelegationDriftReason;
+  tokenOwnerRecord: string | null;
+  /** Delegate the TokenOwnerRecord names now; null when revoked or missing */
+  governanceDelegate: string | null;
+  depositAmount: number;
+  /** False on dry runs and when the reducer failed */
+  deactivated: boolean;
+}
+
+export interface DelegationDriftReport {
+  checkedAt: string;
+  dryRun: boolean;
+  activeDelegations: number;
+  checked: number;
+  /** Couldn't be compared with the chain: agent without a wallet, or the RPC failed */
+  unverified: number;
+  deactivated: number;
+  failed: number;
+  drift: DelegationDrift[];
+}
+
+type TokenOwnerRecordSummary = ReturnType<typeof serializeTokenOwnerRecord>;
+
+function groupByDelegator(delegations: DelegationRow[]): Map<string, DelegationRow[]> {
+  const groups = new Map<string, DelegationRow[]>();
+  for (const delegation of delegations) {
+    const group = groups.get(delegation.delegator_wallet) ?? [];
+    group.push(delegation);
+    groups.set(delegation.delegator_wallet, group);
+  }
+  return groups;
+}
+
+/**
+ * The TokenOwnerRecord a delegation stands on: the verified `on_chain_pda`,
+ * else the record for its mint. Rows without a mint predate mint-specific
+ * delegations and accept any record in the realm, preferring one that still
+ * delegates to the agent.
+ */
+function findTokenOwnerRecord(
+  delegation: DelegationRow,
+  records: TokenOwnerRecordSummary[],
+  agentWallet: string,
+): TokenOwnerRecordSummary | undefined {
+  const inRealm = records.filter((record) => record.realm === delegation.realm_address);
+  if (delegation.on_chain_pda) {
+    return inRealm.find((record) => record.address === delegation.on_chain_pda);
+  }
+  if (delegation.governing_token_mint) {
+    return inRealm.find((record) => record.governingTokenMint === delegation.governing_token_mint);
+  }
+  return inRealm.find((record) => record.governanceDelegate === agentWallet) ?? inRealm[0];
+}
+
+/** Why the chain no longer backs `delegation`, or null when it still does */
+async function detectDrift(
+  delegation: DelegationRow,
+  record: TokenOwnerRecordSummary | undefined,
+  agentWallet: string,
+): Promise<DelegationDriftReason | null> {
+  if (!record) return 'token_owner_record_missing';
+  if (record.governanceDelegate !== agentWallet) return 'delegate_changed';
+  if (record.governingTokenDepositAmount === 0) {
+    // Plugin realms (e.g. VSR) keep deposits outside the TokenOwnerRecord
+    const plugin = await fetchVoterWeightPlugin(delegation.realm_address, record.governingTokenMint);
+    if (!plugin) return 'tokens_withdrawn';
+  }
+  return null;
+}
+
+/**
+ * Compare every active delegation with its delegator's TokenOwnerRecords and
+ * deactivate the ones the chain no longer backs — revoked or re-delegated in
+ * another app, or withdrawn. Dry runs report drift without deactivating.
+ */
+export async function runDelegationReconciliation(
+  options: { dryRun?: boolean } = {},
+): Promise<DelegationDriftReport> {
+  const dryRun = options.dryRun ?? false;
+  const delegations = await getActiveDelegations();
+  const agents = await getAgentsByIds([...new Set(delegations.map((d) => BigInt(d.agent_id)))]);
+
+  const report: DelegationDriftReport = {
+    checkedAt: new Date().toISOString(),
+    dryRun,
+    activeDelegations: delegations.length,
+    checked: 0,
+    unverified: 0,
+    deactivated: 0,
+    failed: 0,
+    drift: [],
+  };
+
+  for (const [delegatorWallet, group] of groupByDelegator(delegations)) {
+    let records: TokenOwnerRecordSummary[];
+    try {
+      records = (await fetchUserTokenRecords(delegatorWallet)).map(serializeTokenOwnerRecord);
+    } catch (error) {
+      report.unverified += group.length;
+      console.error(`[worker] Failed to fetch TokenOwnerRecords for ${delegatorWallet}`, error);
+      continue;
+    }
+
+    for (const delegation of group) {
+      const agentWallet = agents.get(BigInt(delegation.agent_id))?.privy_wallet_address;
+      if (!agentWallet) {
+        report.unverified += 1;
+        continue;
+      }
+
+      const record = findTokenOwnerRecord(delegation, records, agentWallet);
+      let reason: DelegationDriftReason | null;
+      try {
+        reason = await detectDrift(delegation, record, agentWallet);
+      } catch (error) {
+        report.unverified += 1;
+        console.error(`[worker] Failed to check delegation=${delegation.id.toString()} against the chain`, error);
+        continue;
+      }
+      report.checked += 1;
+      if (!reason) continue;
+
+      const drift: DelegationDrift = {
+        delegationId: delegation.id.toString(),
+        agentId: delegation.agent_id.toString(),
+        delegatorWallet,
+        realmAddress: delegation.realm_address,
+        governingTokenMint: delegation.governing_token_mint,
+        reason,
+        tokenOwnerRecord: record?.address ?? null,
+        governanceDelegate: record?.governanceDelegate ?? null,
+        depositAmount: record?.governingTokenDepositAmount ?? 0,
+        deactivated: false,
+      };
+      report.drift.push(drift);
+      if (dryRun) continue;
+
+      const result = await deactivateDelegation({
+        delegation_id: BigInt(delegation.id),
+        reason,
+        details: {
+          tokenOwnerRecord: drift.tokenOwnerRecord,
+          governanceDelegate: drift.governanceDelegate,
+          depositAmount: drift.depositAmount,
+        },
+      });
+      if (result.ok) {
+        drift.deactivated = true;
+        report.deactivated += 1;
+      } else {
+        report.failed += 1;
+        console.error(
+          `[worker] deactivate_delegation failed for delegation=${drift.delegationId}`,
+          result.error,
+        );
+      }
+    }
+  }
+
+  return report;
+}
@@ -1,20 +1,30 @@
 import {
   fetchRealm,
   fetchProposalsForRealm,
+  fetchProposalTransactions,
   serializeProposal,
 } from '@shared/lib/governance';
+import {
+  decodeProposalTransactions,
+  type DecodedProposalTransaction,
+} from '@shared/lib/proposal-instructions';
 import {
   getAllActiveAgents,
+  getDelegationsByAgent,
   getTrackedRealms,
   hasAgentVoted,
   type AgentRow,
+  type DelegationRow,
 } from '@shared/lib/stdb-client';
 import {
   executeAutonomousVote,
+  findVotingDelegation,
   isAgentEligibleForAutonomy,
   type GovernanceProposalContext,
   type AutonomousVoteResult,
 } from '@shared/lib/autonomous-vote-engine';
+import { getDescriptionResolver } from '@shared/lib/description-resolver';
+import { runAccuracyScoring } from './score-accuracy';
 
 export interface WorkerCycleOptions {
   dryRun: boolean;
@@ -33,11 +43,14 @@ export interface WorkerCycleSummary {
   executed: number;
   skipped: number;
   failed: number;
+  /** Votes scored against finalized proposal outcomes this cycle */
+  scored: number;
 }
 
 interface AgentProposalPair {
   agent: AgentRow;
   proposal: GovernanceProposalContext;
+  delegations: DelegationRow[];
 }
 
 function readMaxConcurrency(value: number): number {
@@ -63,6 +76,26 @@ function normalizeProposalDescription(linkOrDescription: string): string {
   return linkOrDescription;
 }
 
+/** Fetch the document behind `descriptionLink`; falls back to the link itself. */
+async function resolveProposalDescription(proposalAddress: string, descriptionLink: string): Promise<string> {
+  const resolved = await getDescriptionResolver().resolve(proposalAddress, descriptionLink);
+  if (resolved.source === 'inline') return normalizeProposalDescription(resolved.text);
+  return `${resolved.text}\n\n(Source: ${resolved.link})`;
+}
+
+/** Decoded proposal transactions, or undefined if they can't be fetched. */
+async function resolveProposalTransactions(
+  proposalAddress: string,
+): Promise<DecodedProposalTransaction[] | undefined> {
+  try {
+    const transactions = await fetchProposalTransactions(proposalAddress);
+    return decodeProposalTransactions(transactions);
+  } catch (error) {
+    console.warn(`[worker] Failed to fetch transactions for proposal ${proposalAddress}`, error);
+    return undefined;
+  }
+}
+
 function normalizeProposalStatus(status: string): string {
   return status ? status.toLowerCase() : 'unknown';
 }
@@ -84,20 +117,27 @@ async function collectActiveProposals(): Promise<GovernanceProposalContext[]> {
         // (proposals may not have maxVotingTime set)
         const votingBaseTime = (governances[0] as unknown as { config?: { votingBaseTime?: number } })
           ?.config?.votingBaseTime ?? undefined;
-        return proposals
+        const votingProposals = proposals
           .map((p) => serializeProposal(p, votingBaseTime))
-          .filter((proposal) => isVotingStatus(proposal.status) && isVotingTimeActive(proposal))
-          .map((proposal) => ({
+          .filter((proposal) => isVotingStatus(proposal.status) && isVotingTimeActive(proposal));
+
+        return await Promise.all(
+          votingProposals.map(async (proposal) => ({
             address: proposal.address,
             title: proposal.title,
-            description: normalizeProposalDescription(proposal.descriptionLink),
+            description: await resolveProposalDescription(proposal.address, proposal.descriptionLink),
             realmName: realm.name,
             realmAddress: realm.address,
+            governingTokenMint: proposal.governingTokenMint || undefined,
             forVotes: proposal.forVotes,
             againstVotes: proposal.againstVotes,
             abstainVotes: proposal.abstainVotes,
+            options: proposal.options,
+            voteType: proposal.voteType,
             status: normalizeProposalStatus(proposal.status),
-          } satisfies GovernanceProposalContext));
+            transactions: await resolveProposalTransactions(proposal.address),
+          } satisfies GovernanceProposalContext)),
+        );
       } catch (error) {
         console.error(`[worker] Failed to fetch proposals for realm ${realm.address}`, error);
         return [] as GovernanceProposalContext[];
@@ -151,6 +191,7 @@ function summarizeResults(
   activeProposals: number,
   combinationsConsidered: number,
   results: PairResult[],
+  scored: number,
 ): WorkerCycleSummary {
   let executed = 0;
   let skipped = 0;
@@ -182,9 +223,24 @@ function summarizeResults(
     executed,
     skipped,
     failed,
+    scored,
   };
 }
 
+/** Score votes on proposals that have finalized; never fails the cycle. */
+async function scoreFinalizedProposals(): Promise<number> {
+  try {
+    const scoring = await runAccuracyScoring();
+    if (scoring.proposalsFinalized > 0) {
+      console.log('[worker] Accuracy scoring', JSON.stringify(scoring));
+    }
+    return scoring.scored;
+  } catch (error) {
+    console.error('[worker] Accuracy scoring failed', error);
+    return 0;
+  }
+}
+
 export async function runWorkerCycle(options: WorkerCycleOptions): Promise<WorkerCycleSummary> {
   const startedAt = new Date().toISOString();
   console.log(`[worker] Starting cycle at ${startedAt}`);
@@ -193,10 +249,14 @@ export async function runWorkerCycle(options: WorkerCycleOptions): Promise<Worke
   const eligibleAgents = allAgents.filter(isAgentEligibleForAutonomy);
   const activeProposals = await collectActiveProposals();
 
+  // Only pair agents with proposals in realms they hold a VOTE delegation for
   const pairs: AgentProposalPair[] = [];
   for (const agent of eligibleAgents) {
+    const delegations = await getDelegationsByAgent(agent.id);
     for (const proposal of activeProposals) {
-      pairs.push({ agent, proposal });
+      if (findVotingDelegation(delegations, proposal.realmAddress)) {
+        pairs.push({ agent, proposal, delegations });
+      }
     }
   }
 
@@ -205,7 +265,7 @@ export async function runWorkerCycle(options: WorkerCycleOptions): Promise<Worke
   const results = await runWithConcurrency(
     pairs,
     options.maxConcurrency,
-    async ({ agent, proposal }) => {
+    async ({ agent, proposal, delegations }) => {
       try {
         const alreadyVoted = await hasAgentVoted(agent.id, proposal.address);
         if (alreadyVoted) {
@@ -222,6 +282,7 @@ export async function runWorkerCycle(options: WorkerCycleOptions): Promise<Worke
           agent,
           proposal,
           dryRun: options.dryRun,
+          delegations,
         });
       } catch (error) {
         console.error(
@@ -234,6 +295,8 @@ export async function runWorkerCycle(options: WorkerCycleOptions): Promise<Worke
     throttleDelayMs,
   );
 
+  const scored = options.dryRun ? 0 : await scoreFinalizedProposals();
+
   const summary = summarizeResults(
     startedAt,
     allAgents.length,
@@ -241,6 +304,7 @@ export async function runWorkerCycle(options: WorkerCycleOptions): Promise<Worke
     activeProposals.length,
     pairs.length,
     results,
+    scored,
   );
 
   console.log('[worker] Cycle summary', JSON.stringify(summary));
@@ -0,0 +1,149 @@
+import {
+  fetchProposal,
+  fetchVoteRecords,
+  getProposalOutcome,
+  getVoteRecordDirection,
+  serializeProposal,
+  serializeVoteRecord,
+} from '@shared/lib/governance';
+import { parseDelegatorCasts } from '@shared/lib/autonomous-vote-engine';
+import {
+  getDelegationsByAgent,
+  getUnscoredVotes,
+  getVotesByProposal,
+  updateAgentStats,
+  type VoteRow,
+} from '@shared/lib/stdb-client';
+
+export interface AccuracyScoringSummary {
+  unscoredVotes: number;
+  proposalsChecked: number;
+  proposalsFinalized: number;
+  scored: number;
+  failed: number;
+}
+
+function groupByProposal(votes: VoteRow[]): Map<string, VoteRow[]> {
+  const groups = new Map<string, VoteRow[]>();
+  for (const vote of votes) {
+    const group = groups.get(vote.proposal_address) ?? [];
+    group.push(vote);
+    groups.set(vote.proposal_address, group);
+  }
+  return groups;
+}
+
+/**
+ * Side of the outcome a vote backed. A veto blocks the proposal, so it
+ * counts as a vote against — matched when the proposal is vetoed or defeated.
+ */
+function outcomeSide(vote: string): string {
+  return vote === 'veto' ? 'against' : vote;
+}
+
+/**
+ * Delegators some agent cast a vote through on this proposal. Their
+ * VoteRecords carry the delegator as governing token owner but hold the
+ * agent's vote, not their own.
+ */
+async function fetchAgentCastDelegators(proposalAddress: string): Promise<Set<string>> {
+  const votes = await getVotesByProposal(proposalAddress);
+  const delegators = new Set<string>();
+
+  for (const vote of votes) {
+    for (const cast of parseDelegatorCasts(vote.casts_json)) {
+      if (cast.delegatorAddress && cast.vote) delegators.add(cast.delegatorAddress);
+    }
+  }
+
+  return delegators;
+}
+
+/**
+ * Direction each wallet voted on-chain itself, keyed by governing token
+ * owner. Wallets in `agentCast` are left out.
+ */
+async function fetchOnChainDirections(
+  proposalAddress: string,
+  agentCast: Set<string>,
+): Promise<Map<string, string>> {
+  const records = await fetchVoteRecords(proposalAddress);
+  const directions = new Map<string, string>();
+
+  for (const record of records.map(serializeVoteRecord)) {
+    if (record.isRelinquished || agentCast.has(record.governingTokenOwner)) continue;
+    const direction = getVoteRecordDirection(record.vote);
+    if (direction) directions.set(record.governingTokenOwner, direction);
+  }
+
+  return directions;
+}
+
+/**
+ * Score every landed vote whose proposal has left the voting state:
+ * compare it with the final outcome and with delegators who voted themselves,
+ * then write the result through `update_agent_stats`.
+ */
+export async function runAccuracyScoring(): Promise<AccuracyScoringSummary> {
+  const unscored = await getUnscoredVotes();
+  const byProposal = groupByProposal(unscored);
+
+  const summary: AccuracyScoringSummary = {
+    unscoredVotes: unscored.length,
+    proposalsChecked: byProposal.size,
+    proposalsFinalized: 0,
+    scored: 0,
+    failed: 0,
+  };
+
+  for (const [proposalAddress, votes] of byProposal) {
+    try {
+      const finalState = serializeProposal(await fetchProposal(proposalAddress)).status;
+      const outcome = getProposalOutcome(finalState);
+      if (!outcome) continue; // Still open — score on a later cycle
+
+      summary.proposalsFinalized += 1;
+      const agentCast = await fetchAgentCastDelegators(proposalAddress);
+      const onChain = await fetchOnChainDirections(proposalAddress, agentCast);
+
+      for (const vote of votes) {
+        const delegations = await getDelegationsByAgent(BigInt(vote.agent_id));
+        let delegatorsCompared = 0;
+        let delegatorsAgreed = 0;
+
+        for (const delegation of delegations) {
+          const own = onChain.get(delegation.delegator_wallet);
+          if (!own) continue;
+          delegatorsCompared += 1;
+          if (own === vote.vote) delegatorsAgreed += 1;
+        }
+
+        const result = await updateAgentStats({
+          agent_id: BigInt(vote.agent_id),
+          proposal_address: proposalAddress,
+          final_state: finalState,
+          outcome,
+          agent_vote: vote.vote,
+          matched_outcome: outcomeSide(vote.vote) === outcome,
+          delegators_compared: delegatorsCompared,
+          delegators_agreed: delegatorsAgreed,
+        });
+
+        if (result.ok) {
+          summary.scored += 1;
+        } else {
+          summary.failed += 1;
+          console.error(
+            `[worker] update_agent_stats failed for agent=${vote.agent_id.toString()} proposal=${proposalAddress}`,
+            result.error,
+          );
+        }
+      }
+    } catch (error) {
+      summary.failed += votes.length;
+      console.error(`[worker] Accuracy scoring failed for proposal ${proposalAddress}`, error);
+    }
+  }
+
+  return summary;
+}
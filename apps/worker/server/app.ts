@@ -2,7 +2,13 @@ import express, { type Request, type Response } from 'express';
 import type { WorkerRuntimeConfig } from '../agent-worker';
 import type { WorkerState, StatusResponse } from './state';
 import { getHealthResponse } from './state';
-import { executeCycle, executeDryRun, CycleInProgressError } from './cycle-runner';
+import {
+  executeCycle,
+  executeDryRun,
+  executeReconciliation,
+  CycleInProgressError,
+  ReconcileInProgressError,
+} from './cycle-runner';
 
 // ---------------------------------------------------------------------------
 // Express App Factory
@@ -29,6 +35,7 @@ export function createApp(
         intervalMs: config.intervalMs,
         maxConcurrency: config.maxConcurrency,
         dryRun: config.dryRun,
+        reconcileIntervalMs: config.reconcileIntervalMs,
       },
     };
     res.json(response);
@@ -62,5 +69,28 @@ export function createApp(
     }
   });
 
+  // GET /delegations/drift — Report of the last delegation reconciliation
+  app.get('/delegations/drift', (_req: Request, res: Response) => {
+    if (!state.lastDriftReport) {
+      res.status(404).json({ error: 'No reconciliation has run yet', lastError: state.lastReconcileError });
+      return;
+    }
+    res.json(state.lastDriftReport);
+  });
+
+  // POST /delegations/reconcile — Manual reconciliation; { "dryRun": true } only reports
+  app.post('/delegations/reconcile', async (req: Request, res: Response) => {
+    try {
+      const report = await executeReconciliation(state, { dryRun: req.body?.dryRun === true });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ReconcileInProgressError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
   return app;
 }
@@ -1,4 +1,5 @@
 import { runWorkerCycle, type WorkerCycleSummary } from '../run-cycle';
+import { runDelegationReconciliation, type DelegationDriftReport } from '../reconcile-delegations';
 import type { WorkerRuntimeConfig } from '../agent-worker';
 import type { WorkerState } from './state';
 
@@ -58,6 +59,35 @@ export async function executeDryRun(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Delegation Reconciliation
+// ---------------------------------------------------------------------------
+
+export async function executeReconciliation(
+  state: WorkerState,
+  options: { dryRun?: boolean } = {},
+): Promise<DelegationDriftReport> {
+  if (state.reconcileInProgress) {
+    throw new ReconcileInProgressError();
+  }
+
+  state.reconcileInProgress = true;
+  try {
+    const report = await runDelegationReconciliation(options);
+
+    state.lastDriftReport = report;
+    state.lastReconcileError = null;
+    state.totalDelegationsDeactivated += report.deactivated;
+
+    return report;
+  } catch (error) {
+    state.lastReconcileError = String(error);
+    throw error;
+  } finally {
+    state.reconcileInProgress = false;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Background Loop
 // ---------------------------------------------------------------------------
@@ -101,6 +131,26 @@ export function startBackgroundLoop(
   };
 }
 
+export function startReconcileLoop(
+  state: WorkerState,
+  config: WorkerRuntimeConfig,
+): LoopHandle {
+  const timer = setInterval(async () => {
+    try {
+      await executeReconciliation(state, { dryRun: config.dryRun });
+    } catch (error) {
+      if (error instanceof ReconcileInProgressError) return;
+      console.error('[server] Delegation reconciliation failed', error);
+    }
+  }, config.reconcileIntervalMs);
+
+  return {
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Errors
 // ---------------------------------------------------------------------------
@@ -111,3 +161,10 @@ export class CycleInProgressError extends Error {
     this.name = 'CycleInProgressError';
   }
 }
+
+export class ReconcileInProgressError extends Error {
+  constructor() {
+    super('Delegation reconciliation already in progress');
+    this.name = 'ReconcileInProgressError';
+  }
+}
@@ -1,7 +1,12 @@
 import { getWorkerRuntimeConfig } from '../agent-worker';
 import { createWorkerState } from './state';
 import { createApp } from './app';
-import { executeCycle, startBackgroundLoop, type LoopHandle } from './cycle-runner';
+import {
+  executeCycle,
+  startBackgroundLoop,
+  startReconcileLoop,
+  type LoopHandle,
+} from './cycle-runner';
 
 // ---------------------------------------------------------------------------
 // Entry Point
@@ -37,12 +42,14 @@ async function main(): Promise<void> {
 
   // Start background loop
   const loop: LoopHandle = startBackgroundLoop(state, config);
+  const reconcileLoop: LoopHandle = startReconcileLoop(state, config);
 
   // Graceful shutdown
   const shutdown = (signal: string) => {
     console.log(`[server] Received ${signal}, shutting down...`);
     state.isRunning = false;
     loop.stop();
+    reconcileLoop.stop();
 
     httpServer.close(() => {
       console.log('[server] HTTP server closed');
@@ -1,4 +1,5 @@
 import type { WorkerCycleSummary } from '../run-cycle';
+import type { DelegationDriftReport } from '../reconcile-delegations';
 
 // ---------------------------------------------------------------------------
 // Worker State
@@ -16,6 +17,10 @@ export interface WorkerState {
   totalVotesFailed: number;
   nextCycleAt: string | null;
   intervalMs: number;
+  reconcileInProgress: boolean;
+  lastDriftReport: DelegationDriftReport | null;
+  lastReconcileError: string | null;
+  totalDelegationsDeactivated: number;
 }
 
 export interface HealthResponse {
@@ -31,6 +36,7 @@ export interface StatusResponse extends WorkerState {
     intervalMs: number;
     maxConcurrency: number;
     dryRun: boolean;
+    reconcileIntervalMs: number;
   };
 }
 
@@ -47,6 +53,10 @@ export function createWorkerState(): WorkerState {
     totalVotesFailed: 0,
     nextCycleAt: null,
     intervalMs: 0,
+    reconcileInProgress: false,
+    lastDriftReport: null,
+    lastReconcileError: null,
+    totalDelegationsDeactivated: 0,
   };
 }
 
@@ -1,15 +1,34 @@
-import OpenAI from "openai";
 import { z } from "zod";
+import {
+  getLLMProvider,
+  resolveLLMConfig,
+  type LLMMessage,
+  type LLMRequest,
+  type LLMSettings,
+} from "./llm-providers";
+import type { ProposalOptionSummary, ProposalVoteType } from "./proposal-options";
+
+/** Run a completion against the provider chosen by `settings` (or env defaults). */
+async function complete(
+  request: LLMRequest,
+  settings: LLMSettings | undefined,
+  defaults: { maxTokens: number },
+): Promise<string> {
+  const config = resolveLLMConfig(settings, defaults);
+  return getLLMProvider(config.provider).complete(config, request);
+}
 
-let _client: OpenAI | null = null;
-function getClient() {
-  if (!_client) {
-    _client = new OpenAI({
-      apiKey: process.env.ZAI_API_KEY || "placeholder",
-      baseURL: process.env.ZAI_BASE_URL || "https://open.bigmodel.cn/api/coding/paas/v4/",
-    });
+/** Extract JSON from a model response — handles code blocks, raw JSON, or mixed text */
+function extractJson<T = unknown>(text: string): T {
+  let jsonStr = text;
+  const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlockMatch?.[1]) {
+    jsonStr = codeBlockMatch[1];
+  } else {
+    const braceMatch = text.match(/\{[\s\S]*\}/);
+    if (braceMatch) jsonStr = braceMatch[0];
   }
-  return _client;
+  return JSON.parse(jsonStr.trim()) as T;
 }
 
 export const GovernanceAnalysisSchema = z.object({
@@ -25,11 +44,33 @@ export const GovernanceAnalysisSchema = z.object({
     confidence: z.number().min(0).max(1).describe("0-1 confidence score"),
     reasoning: z.string().describe("Detailed reasoning for the vote recommendation"),
     conditions: z.array(z.string()).default([]).describe("Conditions or caveats for this recommendation"),
+    choices: z.array(z.object({
+      option: z.string().describe("Label of the proposal option"),
+      weight: z.number().min(0).max(100).optional().describe("Share of voting weight (0-100) for weighted proposals"),
+      rank: z.number().int().min(1).optional().describe("Preference order, 1 = most preferred"),
+    })).optional().describe("Options to approve on a multi-option proposal when voting FOR"),
   }),
 });
 
 export type GovernanceAnalysis = z.infer<typeof GovernanceAnalysisSchema>;
 
+function formatOptionsSection(options: ProposalOptionSummary[], voteType?: ProposalVoteType): string {
+  const rule = !voteType || voteType.choiceType === "single"
+    ? "choose exactly one option"
+    : voteType.multiChoiceType === "weighted"
+      ? `split 100% of your weight across up to ${voteType.maxVoterOptions} option(s)`
+      : `choose up to ${voteType.maxVoterOptions} option(s), ranked by preference`;
+  return `**Options** (multi-option proposal — to vote FOR, ${rule}; AGAINST rejects every option):
+${options.map((o) => `- "${o.label}": ${o.voteWeight} votes`).join("\n")}`;
+}
+
+function formatInstructionsSection(instructions: string[]): string {
+  if (instructions.length === 0) {
+    return "**On-chain Instructions**: none — this proposal executes no transactions if it passes.";
+  }
+  return `**On-chain Instructions** (decoded from the proposal's transactions):\n${instructions.map((line) => `- ${line}`).join("\n")}`;
+}
+
 export async function analyzeProposal(proposal: {
   title: string;
   description: string;
@@ -37,10 +78,16 @@ export async function analyzeProposal(proposal: {
   forVotes: number;
   againstVotes: number;
   treasuryBalance?: number;
-}, agentValues?: string): Promise<GovernanceAnalysis> {
+  /** Decoded on-chain instructions; undefined when they couldn't be fetched */
+  instructions?: string[];
+  /** Every option of a multi-option proposal; omitted for a plain yes/no vote */
+  options?: ProposalOptionSummary[];
+  voteType?: ProposalVoteType;
+}, agentValues?: string, llm?: LLMSettings): Promise<GovernanceAnalysis> {
   const systemPrompt = `You are an AI governance analyst for Solana DAOs. Analyze proposals objectively and provide structured recommendations.
 ${agentValues ? `\nAgent values/priorities: ${agentValues}` : ""}
 Your analysis should consider treasury impact, security risks, centralization risks, and alignment with the DAO's mission.
+When decoded on-chain instructions are provided they are ground truth: base treasury_impact on them, and flag any mismatch with the description.
 Respond with valid JSON matching the required schema.`;
 
   const userPrompt = `Analyze this governance proposal:
@@ -50,54 +97,67 @@ Respond with valid JSON matching the required schema.`;
 **Description**: ${proposal.description}
 **Current Votes**: ${proposal.forVotes} FOR / ${proposal.againstVotes} AGAINST
 ${proposal.treasuryBalance ? `**Treasury Balance**: ${proposal.treasuryBalance} SOL` : ""}
+${proposal.instructions ? formatInstructionsSection(proposal.instructions) : ""}
+${proposal.options ? formatOptionsSection(proposal.options, proposal.voteType) : ""}
 
-Provide your analysis as JSON with: summary, risk_assessment (treasury_impact, security_risk, centralization_risk, overall_risk_score 0-100), recommendation (vote FOR/AGAINST/ABSTAIN, confidence 0-1, reasoning, conditions array).`;
+Provide your analysis as JSON with: summary, risk_assessment (treasury_impact, security_risk, centralization_risk, overall_risk_score 0-100), recommendation (vote FOR/AGAINST/ABSTAIN, confidence 0-1, reasoning, conditions array${proposal.options ? ", choices array of { option (exact label), weight 0-100, rank } when voting FOR" : ""}).`;
 
-  const response = await getClient().chat.completions.create({
-    model: "glm-5",
-    max_tokens: 2048,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt },
-    ],
-  });
+  const text = await complete(
+    { system: systemPrompt, messages: [{ role: "user", content: userPrompt }] },
+    llm,
+    { maxTokens: 2048 },
+  );
 
-  const msg = response.choices[0]?.message;
-  // GLM-5 may return content in `content` or `reasoning_content`
-  const text = msg?.content
-    || (msg as unknown as Record<string, unknown>)?.reasoning_content as string
-    || "{}";
+  return GovernanceAnalysisSchema.parse(extractJson(text || "{}"));
+}
 
-  // Extract JSON from response — handle code blocks, raw JSON, or mixed text
-  let jsonStr = text;
-  const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (codeBlockMatch?.[1]) {
-    jsonStr = codeBlockMatch[1];
-  } else {
-    const braceMatch = text.match(/\{[\s\S]*\}/);
-    if (braceMatch) jsonStr = braceMatch[0];
-  }
-  const parsed = JSON.parse(jsonStr.trim());
-  return GovernanceAnalysisSchema.parse(parsed);
+export const MAX_PROPOSAL_TITLE_LENGTH = 80;
+
+export const ProposalDraftSchema = z.object({
+  title: z.string().min(1).transform((title) => title.trim().slice(0, MAX_PROPOSAL_TITLE_LENGTH)),
+  description: z.string().min(1).transform((description) => description.trim()),
+});
+
+export type ProposalDraft = z.infer<typeof ProposalDraftSchema>;
+
+/** Turn a natural-language brief into a proposal title and description. */
+export async function draftProposal(
+  brief: string,
+  context: { realmName: string; agentValues?: string },
+  llm?: LLMSettings,
+): Promise<ProposalDraft> {
+  const systemPrompt = `You draft governance proposals for Solana DAOs on behalf of an AI delegate.
+${context.agentValues ? `\nAgent values/priorities: ${context.agentValues}` : ""}
+Write clearly and neutrally: state what the proposal does, why, and any amounts or recipients named in the brief.
+Never invent figures, addresses or on-chain actions that the brief does not contain.
+Respond with valid JSON only.`;
+
+  const userPrompt = `Draft a proposal for **${context.realmName}** from this brief:
+
+"${brief}"
+
+Respond with JSON: { "title": string (at most ${MAX_PROPOSAL_TITLE_LENGTH} characters), "description": string (plain text, at most 400 characters — it is stored on-chain) }`;
+
+  const text = await complete(
+    { system: systemPrompt, messages: [{ role: "user", content: userPrompt }] },
+    llm,
+    { maxTokens: 1024 },
+  );
+
+  return ProposalDraftSchema.parse(extractJson(text || "{}"));
 }
 
+/** Stream a chat reply as text deltas from the default provider. */
 export async function streamChat(
-  messages: Array<{ role: "user" | "assistant"; content: string }>,
+  messages: LLMMessage[],
   systemContext?: string
-) {
+): Promise<AsyncIterable<string>> {
   const system = `You are ClawdDAO's AI governance assistant. Help users understand DAO proposals, voting strategies, and governance concepts on Solana.
 ${systemContext ? `\nContext: ${systemContext}` : ""}
 Be concise, accurate, and helpful. When discussing proposals, always consider risks and tradeoffs.`;
 
-  return getClient().chat.completions.create({
-    model: "glm-5",
-    max_tokens: 2048,
-    messages: [
-      { role: "system", content: system },
-      ...messages,
-    ],
-    stream: true,
-  });
+  const config = resolveLLMConfig(undefined, { maxTokens: 2048 });
+  return getLLMProvider(config.provider).stream(config, { system, messages });
 }
 
 export async function generateAgentConfig(naturalLanguageValues: string): Promise<{
@@ -107,33 +167,23 @@ export async function generateAgentConfig(naturalLanguageValues: string): Promis
   confidenceThreshold: number;
   focusAreas: string[];
 }> {
-  const response = await getClient().chat.completions.create({
-    model: "glm-5",
-    max_tokens: 512,
-    messages: [
-      {
-        role: "system",
-        content: "Extract structured governance preferences from natural language. Respond only with valid JSON.",
-      },
-      {
-        role: "user",
-        content: `Convert this natural language governance philosophy into a structured agent configuration:
+  const text = await complete(
+    {
+      system: "Extract structured governance preferences from natural language. Respond only with valid JSON.",
+      messages: [
+        {
+          role: "user",
+          content: `Convert this natural language governance philosophy into a structured agent configuration:
 
 "${naturalLanguageValues}"
 
 Respond with JSON: { "values": string[] (3-5 core values), "riskTolerance": "conservative"|"moderate"|"aggressive", "autoVote": boolean (should the agent vote autonomously?), "confidenceThreshold": number (0-1, minimum confidence to auto-vote), "focusAreas": string[] (governance areas of interest) }`,
-      },
-    ],
-  });
-
-  const text = response.choices[0]?.message?.content ?? "{}";
-  let jsonStr = text;
-  const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (codeBlockMatch?.[1]) {
-    jsonStr = codeBlockMatch[1];
-  } else {
-    const braceMatch = text.match(/\{[\s\S]*\}/);
-    if (braceMatch) jsonStr = braceMatch[0];
-  }
-  return JSON.parse(jsonStr.trim());
+        },
+      ],
+    },
+    undefined,
+    { maxTokens: 512 },
+  );
+
+  return extractJson(text || "{}");
 }
@@ -0,0 +1,80 @@
+import { createHash, randomBytes } from 'crypto';
+import { getApiKeyByHash, type ApiKeyRow } from './stdb-client';
+
+// ---------------------------------------------------------------------------
+// API keys
+//
+// Owners issue keys for programmatic access (the MCP server, bots). A key
+// acts for its owner wallet on the agents it lists, and only for its scopes:
+//   - read:     agents, delegations, pending votes, drafts, vote history
+//   - analyze:  AI analysis and chat
+//   - vote:     cast, override and veto votes, draft proposals
+//   - delegate: build and confirm delegations, set delegator preferences
+// Only a key's SHA-256 is stored; the key itself is shown once on creation.
+// ---------------------------------------------------------------------------
+
+export const API_KEY_SCOPES = ['read', 'analyze', 'vote', 'delegate'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Prefix of API keys, so verifyAuth can tell them from other Bearer tokens */
+export const API_KEY_PREFIX = 'cdao_';
+
+/** Characters of a key kept in the clear to tell keys apart in the UI */
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export interface ApiKeyGrant {
+  id: bigint;
+  ownerWallet: string;
+  agentIds: string[];
+  scopes: ApiKeyScope[];
+}
+
+export class ApiKeyError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 401) {
+    super(message);
+    this.name = 'ApiKeyError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/** A new random key with the hash and display prefix to store for it */
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, keyHash: hashApiKey(key), keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function toApiKeyGrant(row: ApiKeyRow): ApiKeyGrant {
+  return {
+    id: BigInt(row.id),
+    ownerWallet: row.owner_wallet,
+    agentIds: JSON.parse(row.agent_ids_json) as string[],
+    scopes: (JSON.parse(row.scopes_json) as string[]).filter(isApiKeyScope),
+  };
+}
+
+/** Look up an API key presented as a Bearer token; unknown and revoked keys are rejected */
+export async function resolveApiKey(key: string): Promise<ApiKeyGrant> {
+  const row = await getApiKeyByHash(hashApiKey(key));
+  if (!row) {
+    throw new ApiKeyError('Invalid API key');
+  }
+  if (row.revoked_at != null) {
+    throw new ApiKeyError('API key has been revoked');
+  }
+  return toApiKeyGrant(row);
+}
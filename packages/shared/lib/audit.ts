@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+import type { AuditEventRow } from './stdb-client';
+
+// ---------------------------------------------------------------------------
+// Audit trail
+//
+// Every reducer appends an event (caller identity, row before and after) to
+// a per-agent hash chain in the private audit_events table. An event's hash
+// covers its fields and the previous event's hash, so editing, dropping or
+// reordering events breaks the chain from that point on. The module hashes
+// with its own SHA-256; verification here must produce the same digests.
+// ---------------------------------------------------------------------------
+
+/** prev_hash of the first event in a chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** The fields an event's hash covers */
+type HashedAuditEvent = Pick<
+  AuditEventRow,
+  'prev_hash' | 'agent_id' | 'seq' | 'reducer' | 'actor' | 'before_json' | 'after_json' | 'created_at_micros'
+>;
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Events checked, up to and including the first broken one */
+  checked: number;
+  /** Hash of the last valid event — GENESIS_HASH for an empty chain */
+  headHash: string;
+  /** The first event that does not fit the chain */
+  broken?: { seq: string; reason: string };
+}
+
+/** Must match auditHashInput in spacetimedb/src/index.ts */
+export function auditHashInput(event: HashedAuditEvent): string {
+  // u64 columns come back from SQL as numbers; String() matches bigint.toString()
+  return JSON.stringify([
+    event.prev_hash,
+    String(event.agent_id),
+    String(event.seq),
+    event.reducer,
+    event.actor,
+    event.before_json,
+    event.after_json,
+    String(event.created_at_micros),
+  ]);
+}
+
+export function hashAuditEvent(event: HashedAuditEvent): string {
+  return createHash('sha256').update(auditHashInput(event)).digest('hex');
+}
+
+/**
+ * Recompute one agent's chain. `events` must be the whole chain, from seq 1;
+ * they are checked in seq order.
+ */
+export function verifyAuditChain(events: AuditEventRow[]): AuditChainVerification {
+  const ordered = [...events].sort((a, b) => Number(a.seq) - Number(b.seq));
+  let headHash = GENESIS_HASH;
+
+  for (let i = 0; i < ordered.length; i++) {
+    const event = ordered[i];
+    const broken = (reason: string): AuditChainVerification => ({
+      valid: false,
+      checked: i + 1,
+      headHash,
+      broken: { seq: String(event.seq), reason },
+    });
+
+    if (String(event.agent_id) !== String(ordered[0].agent_id)) {
+      return broken(`belongs to agent ${String(event.agent_id)}, not ${String(ordered[0].agent_id)}`);
+    }
+    if (Number(event.seq) !== i + 1) {
+      return broken(`expected seq ${i + 1} — events are missing`);
+    }
+    if (event.prev_hash !== headHash) {
+      return broken('prev_hash does not match the previous event');
+    }
+    if (hashAuditEvent(event) !== event.hash) {
+      return broken('hash does not match the event contents');
+    }
+
+    headHash = event.hash;
+  }
+
+  return { valid: true, checked: ordered.length, headHash };
+}
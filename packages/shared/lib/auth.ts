@@ -1,4 +1,6 @@
 import { PrivyClient } from '@privy-io/server-auth';
+import { isSiwsSessionToken, SiwsError, SIWS_USER_PREFIX, verifySiwsSession } from './siws';
+import { ApiKeyError, isApiKeyToken, resolveApiKey, type ApiKeyGrant, type ApiKeyScope } from './api-keys';
 
 export class AuthError extends Error {
   statusCode: number;
@@ -10,6 +12,16 @@ export class AuthError extends Error {
   }
 }
 
+export interface AuthContext {
+  authenticated: true;
+  userId: string;
+  /** Set when the request authenticated with an API key */
+  apiKey?: ApiKeyGrant;
+}
+
+/** Prefix of the userId verifyAuth returns for an API key */
+export const API_KEY_USER_PREFIX = 'apikey:';
+
 let privyClient: PrivyClient | null = null;
 
 function getPrivyClient(): PrivyClient {
@@ -29,9 +41,16 @@ function getPrivyClient(): PrivyClient {
   return privyClient;
 }
 
+/**
+ * Authenticate a request by its Bearer token: a Privy access token, a
+ * Sign-In-With-Solana session token, whose userId is `siws:<address>`, or
+ * an API key, whose userId is `apikey:<id>`. API keys are only accepted
+ * when the route names the `scope` it needs and the key has it.
+ */
 export async function verifyAuth(
   request: Request,
-): Promise<{ authenticated: true; userId: string }> {
+  scope?: ApiKeyScope,
+): Promise<AuthContext> {
   const authHeader = request.headers.get('authorization');
 
   if (!authHeader) {
@@ -44,6 +63,35 @@ export async function verifyAuth(
   }
 
   const token = match[1];
+
+  if (isApiKeyToken(token)) {
+    let apiKey: ApiKeyGrant;
+    try {
+      apiKey = await resolveApiKey(token);
+    } catch (error) {
+      if (error instanceof ApiKeyError) throw new AuthError(error.message, error.statusCode);
+      throw error;
+    }
+
+    if (!scope) {
+      throw new AuthError('API keys are not accepted here', 403);
+    }
+    if (!apiKey.scopes.includes(scope)) {
+      throw new AuthError(`API key lacks the "${scope}" scope`, 403);
+    }
+    return { authenticated: true, userId: `${API_KEY_USER_PREFIX}${apiKey.id.toString()}`, apiKey };
+  }
+
+  if (isSiwsSessionToken(token)) {
+    try {
+      const { address } = verifySiwsSession(token);
+      return { authenticated: true, userId: `${SIWS_USER_PREFIX}${address}` };
+    } catch (error) {
+      if (error instanceof SiwsError) throw new AuthError(error.message, error.statusCode);
+      throw new AuthError('Invalid or expired token');
+    }
+  }
+
   const client = getPrivyClient();
 
   try {
@@ -54,7 +102,70 @@ export async function verifyAuth(
   }
 }
 
-/** Reset client singleton — used by tests only */
+// ---------------------------------------------------------------------------
+// Authorization
+//
+// A Privy user owns the wallets linked to their account. Agents belong to
+// `agents.owner_wallet` and delegations to `delegations.delegator_wallet`,
+// so a route acting on either checks that wallet is one of the caller's.
+// An API key acts for its owner wallet, and only on the agents it lists.
+// ---------------------------------------------------------------------------
+
+/** getUserById is rate limited by Privy; one lookup per user per minute is plenty */
+const WALLET_CACHE_TTL_MS = 60_000;
+
+const walletCache = new Map<string, { wallets: string[]; expiresAt: number }>();
+
+/** Addresses of the wallets linked to a Privy user, or the wallet a SIWS session signed in with */
+export async function getUserWallets(userId: string): Promise<string[]> {
+  if (userId.startsWith(SIWS_USER_PREFIX)) return [userId.slice(SIWS_USER_PREFIX.length)];
+
+  const cached = walletCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) return cached.wallets;
+
+  const user = await getPrivyClient().getUserById(userId);
+  const wallets = user.linkedAccounts.flatMap((account) =>
+    account.type === 'wallet' ? [account.address] : [],
+  );
+
+  walletCache.set(userId, { wallets, expiresAt: Date.now() + WALLET_CACHE_TTL_MS });
+  return wallets;
+}
+
+async function getAuthorizedWallets(auth: AuthContext): Promise<string[]> {
+  return auth.apiKey ? [auth.apiKey.ownerWallet] : getUserWallets(auth.userId);
+}
+
+/** Throws a 403 AuthError unless `wallet` is linked to the caller */
+export async function authorizeWallet(auth: AuthContext, wallet: string): Promise<void> {
+  const wallets = await getAuthorizedWallets(auth);
+  if (!wallets.includes(wallet)) {
+    throw new AuthError(`Wallet ${wallet} is not linked to this account`, 403);
+  }
+}
+
+/** Throws a 403 AuthError when an API key does not list the agent; other callers may act on any agent */
+export function authorizeAgentScope(auth: AuthContext, agentId: bigint | number): void {
+  if (auth.apiKey && !auth.apiKey.agentIds.includes(agentId.toString())) {
+    throw new AuthError(`API key is not scoped to agent ${agentId.toString()}`, 403);
+  }
+}
+
+/** Throws a 403 AuthError unless the caller owns the agent */
+export async function authorizeAgentOwner(
+  auth: AuthContext,
+  agent: { id: bigint | number; owner_wallet: string },
+): Promise<void> {
+  authorizeAgentScope(auth, agent.id);
+
+  const wallets = await getAuthorizedWallets(auth);
+  if (!wallets.includes(agent.owner_wallet)) {
+    throw new AuthError(`Not the owner of agent ${agent.id.toString()}`, 403);
+  }
+}
+
+/** Reset client singleton and wallet cache — used by tests only */
 export function _resetAuthClient(): void {
   privyClient = null;
+  walletCache.clear();
 }
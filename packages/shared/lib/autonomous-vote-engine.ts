@@ -1,12 +1,61 @@
 import { analyzeProposal } from './ai';
-import { buildCastVoteTransaction } from './solana-governance';
+import { analyzeWithEnsemble, parseEnsembleSettings, type EnsembleSettings } from './ensemble';
+import { parseLLMSettings, type LLMSettings } from './llm-providers';
+import { fetchDepositedTokens } from './governance';
+import {
+  evaluatePostAnalysisRules,
+  evaluatePreAnalysisRules,
+  parsePolicyRules,
+  type PolicyFacts,
+  type PolicyRule,
+} from './policy-rules';
+import { summarizeProposalInstructions, type DecodedProposalTransaction } from './proposal-instructions';
+import {
+  formatOptionBallot,
+  isMultiOptionProposal,
+  parseOptionChoices,
+  resolveOptionBallot,
+  SINGLE_CHOICE_VOTE_TYPE,
+  type OptionChoice,
+  type ProposalOptionSummary,
+  type ProposalVoteType,
+} from './proposal-options';
+import {
+  buildCastVoteTransactions,
+  fitComputeBudget,
+  GovernanceSimulationError,
+  simulateGovernanceTransaction,
+  type CastVoteVoter,
+  type GovernanceErrorReason,
+} from './solana-governance';
+import { UnsupportedVoterWeightPluginError } from './voter-weight-plugins';
 import { signAndSendTransaction } from './privy-client';
-import { getOrCreateProfile, postVoteReasoning } from './tapestry';
+import { sendAndTrack, weakestVoteStatus, type VoteStatus } from './confirmation-tracker';
+import { getOrCreateProfile, postPendingVoteNotice, postVoteReasoning } from './tapestry';
+import { AGENT_PERMISSIONS, hasAgentPermission } from './constants';
 import {
+  applyDelegatorPreference,
+  resolveDelegatorPreference,
+  type DelegatorPreference,
+} from './delegator-preferences';
+import {
+  beginPendingVote,
+  createPendingVote,
+  getAgentWalletId,
+  getDelegationsByAgent,
+  getDelegatorPreferences,
+  getPendingVote,
+  getVoteByAgentAndProposal,
   hasAgentVoted,
   recordVote,
+  resolvePendingVote,
   storeAIAnalysis,
+  updateVoteCasts,
   type AgentRow,
+  type DelegationRow,
+  type DelegatorPreferenceRow,
+  type PendingVoteRow,
+  type VoteRow,
 } from './stdb-client';
 
 export interface GovernanceProposalContext {
@@ -15,10 +64,17 @@ export interface GovernanceProposalContext {
   description: string;
   realmName: string;
   realmAddress: string;
+  /** Mint the proposal was created with; unknown mints only match delegations without one */
+  governingTokenMint?: string;
   forVotes: number;
   againstVotes: number;
   abstainVotes?: number;
+  /** Every option with its weight; more than one needs a choice to vote FOR */
+  options?: ProposalOptionSummary[];
+  voteType?: ProposalVoteType;
   status: string;
+  /** Decoded ProposalTransaction accounts; undefined when they couldn't be fetched */
+  transactions?: DecodedProposalTransaction[];
 }
 
 export interface ParsedAgentConfig {
@@ -26,8 +82,18 @@ export interface ParsedAgentConfig {
   confidenceThreshold: number;
   values: string[];
   focusAreas: string[];
-  /** Delegator wallet address — agent votes using this wallet's TOR */
+  /** Delegator wallet whose TOR legacy delegations (recorded without a mint) vote with */
   delegatorAddress?: string;
+  /** Minutes a vote is held for owner veto before it is submitted on-chain (0 = submit immediately) */
+  vetoWindowMinutes: number;
+  /** Most priority fee, in lamports, to pay per vote transaction (uncapped when unset) */
+  maxPriorityFeeLamports?: number;
+  /** Provider/model override for this agent's analysis (env defaults otherwise) */
+  llm?: LLMSettings;
+  /** Analyse with several models/personas and aggregate their votes */
+  ensemble?: EnsembleSettings;
+  /** Deterministic rules evaluated before and after analysis */
+  policy: PolicyRule[];
 }
 
 export interface AutonomousVoteResult {
@@ -37,10 +103,65 @@ export interface AutonomousVoteResult {
   skipped: boolean;
   skipReason?: string;
   vote?: string;
+  /** Options approved on a multi-option proposal, with their weight percentages */
+  choices?: OptionChoice[];
   confidence?: number;
+  /** Signature of the first CastVote transaction; every delegator's is in `casts` */
   txSignature?: string | null;
+  /** One entry per delegator TokenOwnerRecord the agent voted through */
+  casts?: DelegatorCast[];
+  /** Deposited tokens behind the casts that landed, in UI units */
+  votingPower?: number;
+  /** Base plus priority fees of the transactions that landed */
+  feeLamports?: number;
+  /** How settled the vote's transactions are; the least settled when there are several */
+  voteStatus?: VoteStatus;
   tapestryContentId?: string | null;
   reasoning?: string;
+  /** Id of the policy rule that decided or overrode the vote */
+  policyRule?: string;
+}
+
+/** A CastVote made through one delegator's TokenOwnerRecord */
+export interface DelegatorCast {
+  /** Governing token owner voted for; null when the agent voted with its own tokens */
+  delegatorAddress: string | null;
+  /** Null for a legacy delegation left out before a mint was resolved */
+  governingTokenMint: string | null;
+  /** Direction cast through this TokenOwnerRecord; null when its preference left it out */
+  vote: string | null;
+  /** The delegator's standing instruction; 'follow' when they left none */
+  preference: DelegatorPreference;
+  /** Null when its transaction failed, was dropped, or nothing was cast */
+  txSignature: string | null;
+  /** Commitment its transaction reached; unset when it was never sent */
+  status?: VoteStatus;
+  /** Why simulation said SPL Governance would reject its transaction */
+  rejection?: GovernanceErrorReason;
+  /** Why the direction its preference asks for could not be cast */
+  skipReason?: string;
+  /** Its transaction failed or expired while others landed; the next cycle casts it again */
+  failed?: boolean;
+  /** A failed cast whose TokenOwnerRecord still holds an earlier vote to relinquish first */
+  relinquish?: boolean;
+  /** Tokens deposited in the TokenOwnerRecord, in UI units; null when unknown */
+  votingPower: number | null;
+}
+
+/** Vote the agent settled on, before dry-run / veto window / submission */
+interface VoteDecision {
+  vote: 'FOR' | 'AGAINST' | 'ABSTAIN' | 'VETO';
+  /** The analyst's option picks, for a FOR on a multi-option proposal */
+  choices?: OptionChoice[];
+  confidence: number;
+  reasoning: string;
+  policyRule?: string;
+}
+
+/** Privy wallet the agent signs with, narrowed to non-null */
+export interface AgentWallet {
+  id: string;
+  address: string;
 }
 
 function parseAgentConfig(raw: string): ParsedAgentConfig {
@@ -49,10 +170,16 @@ function parseAgentConfig(raw: string): ParsedAgentConfig {
     confidenceThreshold: 0.65,
     values: [],
     focusAreas: [],
+    vetoWindowMinutes: 0,
+    policy: [],
   };
 
   try {
-    const parsed = JSON.parse(raw) as Partial<ParsedAgentConfig>;
+    const parsed = JSON.parse(raw) as Partial<Omit<ParsedAgentConfig, 'llm' | 'ensemble' | 'policy'>> & {
+      llm?: unknown;
+      ensemble?: unknown;
+      policy?: unknown;
+    };
     return {
       autoVote: parsed.autoVote ?? defaults.autoVote,
       confidenceThreshold:
@@ -62,6 +189,17 @@ function parseAgentConfig(raw: string): ParsedAgentConfig {
       values: Array.isArray(parsed.values) ? parsed.values : defaults.values,
       focusAreas: Array.isArray(parsed.focusAreas) ? parsed.focusAreas : defaults.focusAreas,
       delegatorAddress: typeof parsed.delegatorAddress === 'string' ? parsed.delegatorAddress : undefined,
+      vetoWindowMinutes:
+        typeof parsed.vetoWindowMinutes === 'number' && parsed.vetoWindowMinutes > 0
+          ? parsed.vetoWindowMinutes
+          : defaults.vetoWindowMinutes,
+      maxPriorityFeeLamports:
+        typeof parsed.maxPriorityFeeLamports === 'number' && parsed.maxPriorityFeeLamports >= 0
+          ? parsed.maxPriorityFeeLamports
+          : undefined,
+      llm: parseLLMSettings(parsed.llm),
+      ensemble: parseEnsembleSettings(parsed.ensemble),
+      policy: parsePolicyRules(parsed.policy),
     };
   } catch {
     return defaults;
@@ -72,9 +210,10 @@ function normalizeProposalDescription(input: string): string {
   return input && input.length > 0 ? input : 'No description provided on-chain.';
 }
 
-function toVoteDirection(vote: 'FOR' | 'AGAINST' | 'ABSTAIN'): 'for' | 'against' | 'abstain' {
+function toVoteDirection(vote: VoteDecision['vote']): 'for' | 'against' | 'abstain' | 'veto' {
   if (vote === 'FOR') return 'for';
   if (vote === 'AGAINST') return 'against';
+  if (vote === 'VETO') return 'veto';
   return 'abstain';
 }
 
@@ -97,6 +236,32 @@ async function tryPostToTapestry(
   vote: string,
   reasoning: string,
   confidence: number,
+): Promise<string | null> {
+  return tryPublishToTapestry(agent, agentId, proposalAddress, (profileId) =>
+    postVoteReasoning(profileId, proposalAddress, agentId, vote, reasoning, confidence),
+  );
+}
+
+/** Post a held vote to the feed so delegators hear about it before it is cast */
+async function tryPostPendingVoteNotice(
+  agent: AgentRow,
+  agentId: string,
+  proposalAddress: string,
+  vote: string,
+  reasoning: string,
+  confidence: number,
+  executeAfter: Date,
+): Promise<string | null> {
+  return tryPublishToTapestry(agent, agentId, proposalAddress, (profileId) =>
+    postPendingVoteNotice(profileId, proposalAddress, agentId, vote, reasoning, confidence, executeAfter),
+  );
+}
+
+async function tryPublishToTapestry(
+  agent: AgentRow,
+  agentId: string,
+  proposalAddress: string,
+  publish: (profileId: string) => Promise<unknown>,
 ): Promise<string | null> {
   if (!process.env.TAPESTRY_API_KEY) return null;
 
@@ -112,14 +277,7 @@ async function tryPostToTapestry(
       return null;
     }
 
-    const content = await postVoteReasoning(
-      profileId,
-      proposalAddress,
-      agentId,
-      vote,
-      reasoning,
-      confidence,
-    );
+    const content = await publish(profileId);
 
     const contentCandidate = content as { id?: string; content?: { id?: string } };
     return contentCandidate.id ?? contentCandidate.content?.id ?? null;
@@ -132,16 +290,106 @@ async function tryPostToTapestry(
   }
 }
 
+/** Look up the voting wallets' deposited tokens, summed, once on first use. */
+function lazyVotingPower(walletAddresses: string[], realmAddress: string): () => Promise<number | null> {
+  let lookup: Promise<number | null> | null = null;
+  return () => {
+    lookup ??= Promise.all(walletAddresses.map((wallet) => fetchDepositedTokens(wallet, realmAddress)))
+      .then((deposits) => deposits.reduce((total, deposit) => total + deposit, 0))
+      .catch((error) => {
+        console.error(
+          `[autonomous-vote-engine] Voting power lookup failed for wallets=${walletAddresses.join(',')}`,
+          error,
+        );
+        return null;
+      });
+    return lookup;
+  };
+}
+
+/**
+ * Find the active delegation that lets the agent vote in `realmAddress`.
+ * Delegations for other realms, or without the VOTE bit, don't count.
+ */
+export function findVotingDelegation(
+  delegations: DelegationRow[],
+  realmAddress: string,
+): DelegationRow | null {
+  return delegations.find(
+    (d) =>
+      d.is_active &&
+      d.realm_address === realmAddress &&
+      hasAgentPermission(d.scope_bitmap, AGENT_PERMISSIONS.VOTE),
+  ) ?? null;
+}
+
+/** The agent's VOTE delegations for one proposal, split by the mint they hold */
+export interface ProposalDelegations {
+  /** Delegations of the proposal's governing mint — cast FOR / AGAINST / ABSTAIN */
+  voting: DelegationRow[];
+  /** Delegations of the opposite mint (e.g. council on a community proposal) — can only veto */
+  veto: DelegationRow[];
+}
+
+/**
+ * Detect which mint the agent can vote with on `proposal`. Delegations
+ * recorded without a mint predate council support and vote with whatever
+ * mint the proposal uses.
+ */
+export function findProposalDelegations(
+  delegations: DelegationRow[],
+  proposal: Pick<GovernanceProposalContext, 'realmAddress' | 'governingTokenMint'>,
+): ProposalDelegations {
+  const realmDelegations = delegations.filter(
+    (d) =>
+      d.is_active &&
+      d.realm_address === proposal.realmAddress &&
+      hasAgentPermission(d.scope_bitmap, AGENT_PERMISSIONS.VOTE),
+  );
+  const mint = proposal.governingTokenMint;
+
+  return {
+    voting: realmDelegations.filter((d) => !d.governing_token_mint || d.governing_token_mint === mint),
+    veto: mint
+      ? realmDelegations.filter((d) => d.governing_token_mint && d.governing_token_mint !== mint)
+      : [],
+  };
+}
+
+/**
+ * TokenOwnerRecords CastVote votes through for `voteDirection`, one per
+ * delegator and mint; empty when no delegation can cast it. Delegations
+ * without a mint keep voting through the agent's configured
+ * `delegatorAddress`.
+ */
+export function resolveCastVoteVoters(
+  voteDirection: string,
+  delegations: ProposalDelegations,
+  configuredDelegatorAddress?: string,
+): CastVoteVoter[] {
+  const voters = new Map<string, CastVoteVoter>();
+  for (const delegation of voteDirection === 'veto' ? delegations.veto : delegations.voting) {
+    const voter: CastVoteVoter = delegation.governing_token_mint
+      ? { delegatorAddress: delegation.delegator_wallet, governingTokenMintAddress: delegation.governing_token_mint }
+      : { delegatorAddress: configuredDelegatorAddress };
+    voters.set(`${voter.delegatorAddress ?? ''}:${voter.governingTokenMintAddress ?? ''}`, voter);
+  }
+  return [...voters.values()];
+}
+
 export async function executeAutonomousVote(params: {
   agent: AgentRow;
   proposal: GovernanceProposalContext;
   dryRun?: boolean;
+  /** Agent's active delegations, if already loaded by the caller */
+  delegations?: DelegationRow[];
 }): Promise<AutonomousVoteResult> {
   const { agent, proposal } = params;
   const dryRun = params.dryRun ?? false;
   const agentId = agent.id.toString();
 
-  if (!agent.privy_wallet_id || !agent.privy_wallet_address) {
+  const walletId = agent.privy_wallet_address ? await getAgentWalletId(agent.id) : null;
+  if (!walletId || !agent.privy_wallet_address) {
     return {
       agentId,
       proposalAddress: proposal.address,
@@ -150,6 +398,7 @@ export async function executeAutonomousVote(params: {
       skipReason: 'agent_missing_privy_wallet',
     };
   }
+  const wallet: AgentWallet = { id: walletId, address: agent.privy_wallet_address };
 
   if (proposal.status.toLowerCase() !== 'voting') {
     return {
@@ -161,6 +410,28 @@ export async function executeAutonomousVote(params: {
     };
   }
 
+  const delegations = params.delegations ?? await getDelegationsByAgent(agent.id);
+  if (!findVotingDelegation(delegations, proposal.realmAddress)) {
+    return {
+      agentId,
+      proposalAddress: proposal.address,
+      executed: false,
+      skipped: true,
+      skipReason: 'no_delegation_scope',
+    };
+  }
+
+  const proposalDelegations = findProposalDelegations(delegations, proposal);
+  if (proposalDelegations.voting.length === 0 && proposalDelegations.veto.length === 0) {
+    return {
+      agentId,
+      proposalAddress: proposal.address,
+      executed: false,
+      skipped: true,
+      skipReason: 'no_delegation_for_mint',
+    };
+  }
+
   const existing = await hasAgentVoted(agent.id, proposal.address);
   if (existing) {
     return {
@@ -183,61 +454,201 @@ export async function executeAutonomousVote(params: {
     };
   }
 
-  const rawAnalysis = await analyzeProposal(
-    {
+  // Delegators whose CastVote failed while others landed are cast again with the recorded decision
+  const recorded = await getVoteByAgentAndProposal(agent.id, proposal.address);
+  const hasFailedCasts = recorded !== null && recorded.vote_status !== 'dropped' &&
+    parseDelegatorCasts(recorded.casts_json).some((cast) => cast.failed);
+  if (recorded && hasFailedCasts) {
+    if (dryRun) {
+      return {
+        agentId,
+        proposalAddress: proposal.address,
+        executed: false,
+        skipped: true,
+        skipReason: 'failed_casts_pending_retry',
+      };
+    }
+    return retryFailedCasts({ agent, wallet, proposal, config, delegations: proposalDelegations, recorded });
+  }
+
+  // A vote already held in the veto window skips re-analysis — even after the
+  // owner shortens the window to 0, so a cancelled vote stays cancelled
+  const pending = await getPendingVote(agent.id, proposal.address);
+  if (pending) {
+    return handlePendingVote({ agent, wallet, proposal, config, delegations: proposalDelegations, pending, dryRun });
+  }
+
+  // Same TokenOwnerRecord owners CastVote votes with
+  const votingOwners = resolveCastVoteVoters('for', proposalDelegations, config.delegatorAddress)
+    .map((voter) => voter.delegatorAddress ?? wallet.address);
+  const policyFacts: PolicyFacts = {
+    transactions: proposal.transactions,
+    votingPower: lazyVotingPower(
+      votingOwners.length > 0 ? votingOwners : [config.delegatorAddress ?? wallet.address],
+      proposal.realmAddress,
+    ),
+  };
+
+  let decision: VoteDecision;
+  const preDecision = await evaluatePreAnalysisRules(config.policy, policyFacts);
+
+  if (preDecision) {
+    // A hard rule decides before the model is consulted
+    decision = {
+      vote: preDecision.vote,
+      confidence: 1,
+      reasoning: preDecision.reason,
+      policyRule: preDecision.ruleId,
+    };
+  } else if (proposalDelegations.voting.length === 0) {
+    // An opposite-mint delegation only vetoes, and only when a rule demands it
+    return {
+      agentId,
+      proposalAddress: proposal.address,
+      executed: false,
+      skipped: true,
+      skipReason: 'veto_only_delegation',
+    };
+  } else {
+    const proposalInput = {
       title: proposal.title,
       description: normalizeProposalDescription(proposal.description),
       realmName: proposal.realmName,
       forVotes: proposal.forVotes,
       againstVotes: proposal.againstVotes,
-    },
-    buildAgentValuesPrompt(agent, config),
-  );
+      instructions: proposal.transactions && summarizeProposalInstructions(proposal.transactions),
+      ...(isMultiOptionProposal(proposal) && { options: proposal.options, voteType: proposal.voteType }),
+    };
+    const valuesPrompt = buildAgentValuesPrompt(agent, config);
+    const ensembleAnalysis = config.ensemble
+      ? await analyzeWithEnsemble(proposalInput, valuesPrompt, config.ensemble, config.llm)
+      : null;
+    const rawAnalysis = ensembleAnalysis ?? await analyzeProposal(proposalInput, valuesPrompt, config.llm);
+    const recommendation = rawAnalysis.recommendation;
 
-  const recommendation = rawAnalysis.recommendation;
-  const voteDirection = toVoteDirection(recommendation.vote);
+    await storeAIAnalysis({
+      agent_id: agent.id,
+      proposal_address: proposal.address,
+      analysis_json: JSON.stringify(rawAnalysis),
+      recommendation: recommendation.vote,
+      confidence: recommendation.confidence,
+    });
 
-  await storeAIAnalysis({
-    agent_id: agent.id,
-    proposal_address: proposal.address,
-    analysis_json: JSON.stringify(rawAnalysis),
-    recommendation: recommendation.vote,
-    confidence: recommendation.confidence,
-  });
+    const postDecision = await evaluatePostAnalysisRules(config.policy, policyFacts, recommendation.vote);
+    if (postDecision) {
+      decision = {
+        vote: postDecision.vote,
+        choices: recommendation.choices,
+        confidence: 1,
+        reasoning: `${recommendation.reasoning}\n\n${postDecision.reason}`,
+        policyRule: postDecision.ruleId,
+      };
+    } else {
+      const ensemble = ensembleAnalysis?.ensemble;
+      const abstention = ensemble?.forcedAbstain
+        ? {
+          skipReason: 'ensemble_disagreement',
+          reason: `Ensemble disagreement ${ensemble.disagreement.toFixed(3)} exceeds threshold ${ensemble.disagreementThreshold.toFixed(3)}.`,
+        }
+        : recommendation.confidence < config.confidenceThreshold
+          ? {
+            skipReason: 'below_confidence_threshold',
+            reason: `Confidence ${recommendation.confidence.toFixed(3)} below threshold ${config.confidenceThreshold.toFixed(3)}.`,
+          }
+          : null;
 
-  if (recommendation.confidence < config.confidenceThreshold) {
-    const reason = `Confidence ${recommendation.confidence.toFixed(3)} below threshold ${config.confidenceThreshold.toFixed(3)}.`;
-    const fullReasoning = `${recommendation.reasoning}\n\n${reason}`;
+      if (abstention) {
+        return recordAbstention({
+          agent,
+          wallet,
+          proposal,
+          config,
+          delegations: proposalDelegations,
+          dryRun,
+          skipReason: abstention.skipReason,
+          reasoning: `${recommendation.reasoning}\n\n${abstention.reason}`,
+          confidence: recommendation.confidence,
+        });
+      }
 
-    // Post abstention reasoning to Tapestry (social transparency even for abstains)
-    const tapestryContentId = dryRun
-      ? null
-      : await tryPostToTapestry(agent, agentId, proposal.address, 'abstain', fullReasoning, recommendation.confidence);
+      decision = {
+        vote: recommendation.vote,
+        choices: recommendation.choices,
+        confidence: recommendation.confidence,
+        reasoning: recommendation.reasoning,
+      };
+    }
+  }
 
-    await recordVote({
-      agent_id: agent.id,
-      proposal_address: proposal.address,
-      vote: 'abstain',
-      reasoning: fullReasoning,
-      confidence: recommendation.confidence,
-      tx_signature: null,
-      tapestry_content_id: tapestryContentId,
+  if (decision.policyRule && decision.vote === 'ABSTAIN') {
+    return recordAbstention({
+      agent,
+      wallet,
+      proposal,
+      config,
+      delegations: proposalDelegations,
+      dryRun,
+      skipReason: `policy_rule:${decision.policyRule}`,
+      reasoning: decision.reasoning,
+      confidence: decision.confidence,
+      policyRule: decision.policyRule,
+    });
+  }
+
+  if (decision.vote === 'VETO' && proposalDelegations.veto.length === 0) {
+    return recordAbstention({
+      agent,
+      wallet,
+      proposal,
+      config,
+      delegations: proposalDelegations,
+      dryRun,
+      skipReason: 'veto_unavailable',
+      reasoning: `${decision.reasoning}\n\nNo delegation of the opposite governing mint to veto with; abstaining.`,
+      confidence: decision.confidence,
+      policyRule: decision.policyRule,
     });
+  }
 
+  if (decision.vote !== 'VETO' && proposalDelegations.voting.length === 0) {
     return {
       agentId,
       proposalAddress: proposal.address,
       executed: false,
       skipped: true,
-      skipReason: 'below_confidence_threshold',
-      vote: 'abstain',
-      confidence: recommendation.confidence,
-      reasoning: fullReasoning,
-      txSignature: null,
-      tapestryContentId,
+      skipReason: 'veto_only_delegation',
+      policyRule: decision.policyRule,
     };
   }
 
+  // Voting FOR a multi-option proposal means approving specific options
+  let choices: OptionChoice[] | undefined;
+  if (decision.vote === 'FOR' && isMultiOptionProposal(proposal)) {
+    try {
+      choices = resolveOptionBallot(
+        proposal.options ?? [],
+        proposal.voteType ?? SINGLE_CHOICE_VOTE_TYPE,
+        decision.choices ?? [],
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return recordAbstention({
+        agent,
+        wallet,
+        proposal,
+        config,
+        delegations: proposalDelegations,
+        dryRun,
+        skipReason: 'invalid_option_choice',
+        reasoning: `${decision.reasoning}\n\nCould not choose among the proposal's options (${message}); abstaining.`,
+        confidence: decision.confidence,
+        policyRule: decision.policyRule,
+      });
+    }
+  }
+
+  const voteDirection = toVoteDirection(decision.vote);
+
   if (dryRun) {
     return {
       agentId,
@@ -245,70 +656,419 @@ export async function executeAutonomousVote(params: {
       executed: false,
       skipped: false,
       vote: voteDirection,
-      confidence: recommendation.confidence,
-      reasoning: recommendation.reasoning,
+      choices,
+      confidence: decision.confidence,
+      reasoning: decision.reasoning,
       txSignature: null,
       tapestryContentId: null,
+      policyRule: decision.policyRule,
     };
   }
 
-  let txSignature: string | null = null;
-
-  // On-chain vote must succeed before recording anything
-  try {
-    const { serializedTransaction } = await buildCastVoteTransaction({
-      proposalAddress: proposal.address,
-      voterWalletAddress: agent.privy_wallet_address,
-      voteDirection,
-      realmAddress: proposal.realmAddress,
-      delegatorAddress: config.delegatorAddress,
+  // Hold the vote so the owner can cancel or flip it before it goes on-chain
+  if (config.vetoWindowMinutes > 0) {
+    const holdSeconds = Math.round(config.vetoWindowMinutes * 60);
+    await createPendingVote({
+      agent_id: agent.id,
+      proposal_address: proposal.address,
+      vote: voteDirection,
+      reasoning: decision.reasoning,
+      confidence: decision.confidence,
+      hold_seconds: holdSeconds,
+      choices_json: choices ? JSON.stringify(choices) : null,
     });
+    const tapestryContentId = await tryPostPendingVoteNotice(
+      agent,
+      agentId,
+      proposal.address,
+      voteDirection,
+      choices ? `${decision.reasoning}\n\nOptions: ${formatOptionBallot(choices)}` : decision.reasoning,
+      decision.confidence,
+      new Date(Date.now() + holdSeconds * 1000),
+    );
 
-    const txResult = await signAndSendTransaction({
-      walletId: agent.privy_wallet_id,
+    return {
       agentId,
-      serializedTransaction,
-    });
+      proposalAddress: proposal.address,
+      executed: false,
+      skipped: true,
+      skipReason: 'veto_window_open',
+      vote: voteDirection,
+      choices,
+      confidence: decision.confidence,
+      reasoning: decision.reasoning,
+      txSignature: null,
+      tapestryContentId,
+      policyRule: decision.policyRule,
+    };
+  }
 
-    txSignature = txResult.txHash ?? null;
-  } catch (error) {
-    // On-chain tx failed — do NOT record vote to STDB
-    console.error(
-      `[autonomous-vote-engine] On-chain vote failed for agent=${agentId} proposal=${proposal.address}`,
-      error,
+  const result = await submitVote({
+    agent,
+    wallet,
+    proposal,
+    config,
+    delegations: proposalDelegations,
+    voteDirection,
+    choices,
+    reasoning: decision.reasoning,
+    confidence: decision.confidence,
+  });
+  return { ...result, policyRule: decision.policyRule };
+}
+
+/**
+ * Record an abstention without an on-chain tx (low confidence, ensemble
+ * disagreement or a policy rule), posting the reasoning to Tapestry.
+ * Delegators who left a standing instruction still get it cast — only those
+ * following the agent abstain with it.
+ */
+async function recordAbstention(params: {
+  agent: AgentRow;
+  wallet: AgentWallet;
+  proposal: GovernanceProposalContext;
+  config: ParsedAgentConfig;
+  delegations: ProposalDelegations;
+  dryRun: boolean;
+  skipReason: string;
+  reasoning: string;
+  confidence: number;
+  policyRule?: string;
+}): Promise<AutonomousVoteResult> {
+  const { agent, wallet, proposal, config, delegations, dryRun, skipReason, reasoning, confidence, policyRule } = params;
+  const agentId = agent.id.toString();
+
+  if (!dryRun) {
+    const instructed = resolveCastVoteVoters('abstain', delegations, config.delegatorAddress)
+      .flatMap((voter) => (voter.delegatorAddress ? [voter.delegatorAddress] : []));
+    const preferences = await getDelegatorPreferences(proposal.realmAddress, instructed);
+    const hasInstruction = instructed.some(
+      (delegator) => resolveDelegatorPreference(preferences, delegator, proposal.address) !== 'follow',
     );
+    if (hasInstruction) {
+      const result = await submitVote({
+        agent,
+        wallet,
+        proposal,
+        config,
+        delegations,
+        voteDirection: 'abstain',
+        reasoning,
+        confidence,
+        abstention: skipReason,
+        preferences,
+      });
+      return { ...result, policyRule };
+    }
+  }
+
+  // Post abstention reasoning to Tapestry (social transparency even for abstains)
+  const tapestryContentId = dryRun
+    ? null
+    : await tryPostToTapestry(agent, agentId, proposal.address, 'abstain', reasoning, confidence);
+
+  await recordVote({
+    agent_id: agent.id,
+    proposal_address: proposal.address,
+    vote: 'abstain',
+    reasoning,
+    confidence,
+    tx_signature: null,
+    tapestry_content_id: tapestryContentId,
+  });
+
+  return {
+    agentId,
+    proposalAddress: proposal.address,
+    executed: false,
+    skipped: true,
+    skipReason,
+    vote: 'abstain',
+    confidence,
+    reasoning,
+    txSignature: null,
+    tapestryContentId,
+    policyRule,
+  };
+}
+
+/**
+ * Resolve a vote held in the veto window: skip while the window is open or
+ * the owner cancelled it, otherwise submit the (possibly overridden) direction.
+ */
+async function handlePendingVote(params: {
+  agent: AgentRow;
+  wallet: AgentWallet;
+  proposal: GovernanceProposalContext;
+  config: ParsedAgentConfig;
+  delegations: ProposalDelegations;
+  pending: PendingVoteRow;
+  dryRun: boolean;
+}): Promise<AutonomousVoteResult> {
+  const { agent, wallet, proposal, config, delegations, pending, dryRun } = params;
+  const base = {
+    agentId: agent.id.toString(),
+    proposalAddress: proposal.address,
+    vote: pending.vote,
+    choices: parseOptionChoices(pending.choices_json),
+    confidence: pending.confidence,
+    reasoning: pending.reasoning,
+  };
+
+  if (pending.status === 'cancelled') {
+    return { ...base, executed: false, skipped: true, skipReason: 'vote_cancelled_by_owner' };
+  }
+
+  if (pending.status === 'failed') {
+    return { ...base, executed: false, skipped: true, skipReason: 'held_vote_failed' };
+  }
+
+  // 'submitting' is a claim an interrupted or dropped send left behind
+  if (pending.status !== 'pending' && pending.status !== 'submitting') {
+    return { ...base, executed: false, skipped: true, skipReason: 'already_voted' };
+  }
+
+  if (Date.now() < Number(pending.execute_after_ms)) {
+    return { ...base, executed: false, skipped: true, skipReason: 'veto_window_open' };
+  }
+
+  if (dryRun) {
+    return { ...base, executed: false, skipped: false, txSignature: null, tapestryContentId: null };
+  }
+
+  // Claim the row first: the owner can't cancel or override it once the worker signs
+  const claim = await beginPendingVote(agent.id, proposal.address);
+  if (!claim.ok) {
+    console.error(`[autonomous-vote-engine] begin_pending_vote failed for agent=${agent.id}`, claim.error);
+    return { ...base, executed: false, skipped: true, skipReason: 'held_vote_claim_failed' };
+  }
+
+  const reasoning = pending.vote !== pending.original_vote
+    ? `${pending.reasoning}\n\nOwner override: direction changed from ${pending.original_vote.toUpperCase()} to ${pending.vote.toUpperCase()}.`
+    : pending.reasoning;
+
+  const result = await submitVote({
+    agent,
+    wallet,
+    proposal,
+    config,
+    delegations,
+    voteDirection: pending.vote,
+    choices: base.choices,
+    reasoning,
+    confidence: pending.confidence,
+  });
+
+  if (result.executed) {
+    await resolvePendingVote(agent.id, proposal.address, 'submitted');
+  } else if (result.voteStatus !== 'dropped') {
+    // A dropped send stays claimed and is resent next cycle; anything else would fail every cycle
+    await resolvePendingVote(agent.id, proposal.address, 'failed', result.skipReason ?? 'vote_not_cast');
+  }
+
+  return result;
+}
+
+/**
+ * Build, simulate, sign and send CastVotes through every delegator
+ * TokenOwnerRecord, batched into as few transactions as fit, then post
+ * reasoning and record the vote. Each delegator's preference decides the
+ * direction cast with their record, so one decision may go out as several
+ * directions. Nothing is recorded unless at least one transaction succeeds
+ * or every delegator opted out; a governance error found in simulation
+ * skips the vote with that error as the reason. Delegators whose transaction
+ * failed while others landed are recorded `failed` and cast next cycle.
+ */
+async function submitVote(params: {
+  agent: AgentRow;
+  wallet: AgentWallet;
+  proposal: GovernanceProposalContext;
+  config: ParsedAgentConfig;
+  delegations: ProposalDelegations;
+  voteDirection: string;
+  /** Options to approve on a multi-option proposal */
+  choices?: OptionChoice[];
+  reasoning: string;
+  confidence: number;
+  /** Skip reason of an abstention that isn't cast: only delegators' own instructions go on-chain */
+  abstention?: string;
+  /** Preferences already fetched for these delegators */
+  preferences?: DelegatorPreferenceRow[];
+}): Promise<AutonomousVoteResult> {
+  const { agent, wallet, proposal, config, delegations, voteDirection, reasoning, confidence, abstention } = params;
+  const agentId = agent.id.toString();
+
+  // e.g. an owner flipped a held veto to FOR on a council-only delegation
+  const voters = resolveCastVoteVoters(voteDirection, delegations, config.delegatorAddress);
+  if (voters.length === 0) {
     return {
       agentId,
       proposalAddress: proposal.address,
       executed: false,
-      skipped: false,
+      skipped: true,
+      skipReason: voteDirection === 'veto' ? 'veto_unavailable' : 'veto_only_delegation',
       vote: voteDirection,
-      confidence: recommendation.confidence,
-      reasoning: recommendation.reasoning,
-      txSignature: null,
-      tapestryContentId: null,
+      confidence,
+      reasoning,
     };
   }
 
-  // Tx succeeded — post to Tapestry (best-effort, doesn't block)
+  const failed: AutonomousVoteResult = {
+    agentId,
+    proposalAddress: proposal.address,
+    executed: false,
+    skipped: false,
+    vote: voteDirection,
+    confidence,
+    reasoning,
+    txSignature: null,
+    tapestryContentId: null,
+  };
+
+  // Delegators' standing instructions split the vote into one group per direction
+  const preferences = params.preferences ?? await getDelegatorPreferences(
+    proposal.realmAddress,
+    voters.flatMap((voter) => (voter.delegatorAddress ? [voter.delegatorAddress] : [])),
+  );
+  const preferenceOf = (voter: CastVoteVoter): DelegatorPreference =>
+    voter.delegatorAddress
+      ? resolveDelegatorPreference(preferences, voter.delegatorAddress, proposal.address)
+      : 'follow';
+  const casts: DelegatorCast[] = [];
+  const groups = new Map<string, CastVoteVoter[]>();
+  for (const voter of voters) {
+    const preference = preferenceOf(voter);
+    // Followers abstain with the agent, which casts nothing
+    const direction = abstention && preference === 'follow'
+      ? null
+      : applyDelegatorPreference(preference, voteDirection);
+    // A FOR on a multi-option proposal needs option picks only the agent's own FOR has
+    const unsatisfiable = direction === 'for' && voteDirection !== 'for' && isMultiOptionProposal(proposal);
+    if (!direction || unsatisfiable) {
+      casts.push({
+        delegatorAddress: voter.delegatorAddress ?? null,
+        governingTokenMint: voter.governingTokenMintAddress ?? null,
+        vote: null,
+        preference,
+        txSignature: null,
+        votingPower: null,
+        ...(unsatisfiable && { skipReason: 'for_needs_option_choices' }),
+      });
+      continue;
+    }
+    groups.set(direction, [...(groups.get(direction) ?? []), voter]);
+  }
+
+  // Every delegator left the agent out — nothing to send, but the decision stands
+  if (groups.size === 0) {
+    // An abstention is posted whether or not anything was cast
+    const tapestryContentId = abstention
+      ? await tryPostToTapestry(agent, agentId, proposal.address, voteDirection, reasoning, confidence)
+      : null;
+    await recordVote({
+      agent_id: agent.id,
+      proposal_address: proposal.address,
+      vote: voteDirection,
+      reasoning,
+      confidence,
+      tx_signature: null,
+      tapestry_content_id: tapestryContentId,
+      governing_token_mint: proposal.governingTokenMint ?? null,
+      choices_json: null,
+      casts_json: JSON.stringify(casts),
+    });
+    return {
+      agentId,
+      proposalAddress: proposal.address,
+      executed: false,
+      skipped: true,
+      skipReason: abstention ?? 'delegator_preferences',
+      vote: voteDirection,
+      confidence,
+      reasoning,
+      casts,
+      ...(abstention && { txSignature: null, tapestryContentId }),
+    };
+  }
+
+  let sent: SentCastVotes;
+  try {
+    sent = await sendCastVotes({ agent, wallet, proposal, config, groups, choices: params.choices, preferenceOf });
+  } catch (error) {
+    // The realm weighs votes through a plugin the agent can't refresh yet
+    if (error instanceof UnsupportedVoterWeightPluginError) {
+      return {
+        agentId,
+        proposalAddress: proposal.address,
+        executed: false,
+        skipped: true,
+        skipReason: 'unsupported_voter_weight_plugin',
+        vote: voteDirection,
+        confidence,
+        reasoning: `${reasoning}\n\n${error.message}.`,
+      };
+    }
+    throw error;
+  }
+  casts.push(...sent.casts);
+  const { landed, feeLamports, votingMint, ballot } = sent;
+
+  // No CastVote landed — do NOT record vote to STDB
+  if (landed.length === 0) {
+    // Governance would have rejected it: a skip with the reason, not a failure
+    const rejection = casts.find((cast) => cast.rejection && cast.rejection !== 'unknown')?.rejection;
+    if (rejection) {
+      return { ...failed, skipped: true, skipReason: rejection, casts };
+    }
+    // Sent but expired every time: keep it visible in the feed; the next cycle retries
+    if (casts.some((cast) => cast.status === 'dropped')) {
+      await recordVote({
+        agent_id: agent.id,
+        proposal_address: proposal.address,
+        vote: voteDirection,
+        reasoning,
+        confidence,
+        tx_signature: null,
+        tapestry_content_id: null,
+        governing_token_mint: votingMint,
+        choices_json: ballot ? JSON.stringify(ballot) : null,
+        casts_json: JSON.stringify(casts),
+        vote_status: 'dropped',
+      });
+      return { ...failed, casts, voteStatus: 'dropped' };
+    }
+    return { ...failed, casts };
+  }
+
+  await fillVotingPower(landed, wallet, proposal);
+  const votingPower = landed.reduce((total, cast) => total + (cast.votingPower ?? 0), 0);
+  const txSignature = landed[0].txSignature;
+  const voteStatus = weakestVoteStatus(landed.flatMap((cast) => (cast.status ? [cast.status] : [])));
+
+  // A tx succeeded — post to Tapestry (best-effort, doesn't block)
   const tapestryContentId = await tryPostToTapestry(
     agent,
     agentId,
     proposal.address,
     voteDirection,
-    recommendation.reasoning,
-    recommendation.confidence,
+    ballot ? `${reasoning}\n\nOptions: ${formatOptionBallot(ballot)}` : reasoning,
+    confidence,
   );
 
-  // Record vote in STDB only after successful on-chain tx
+  // Record vote in STDB only after a successful on-chain tx
   await recordVote({
     agent_id: agent.id,
     proposal_address: proposal.address,
     vote: voteDirection,
-    reasoning: recommendation.reasoning,
-    confidence: recommendation.confidence,
+    reasoning,
+    confidence,
     tx_signature: txSignature,
     tapestry_content_id: tapestryContentId,
+    governing_token_mint: votingMint,
+    choices_json: ballot ? JSON.stringify(ballot) : null,
+    casts_json: JSON.stringify(casts),
+    fee_lamports: BigInt(feeLamports),
+    vote_status: voteStatus,
   });
 
   return {
@@ -317,16 +1077,269 @@ export async function executeAutonomousVote(params: {
     executed: true,
     skipped: false,
     vote: voteDirection,
-    confidence: recommendation.confidence,
-    reasoning: recommendation.reasoning,
+    choices: ballot ?? undefined,
+    confidence,
+    reasoning,
     txSignature,
+    casts,
+    votingPower,
+    feeLamports,
+    voteStatus: voteStatus ?? undefined,
     tapestryContentId,
   };
 }
 
+/** CastVotes sent for each direction's delegators */
+export interface SentCastVotes {
+  casts: DelegatorCast[];
+  /** Casts whose transaction landed */
+  landed: DelegatorCast[];
+  feeLamports: number;
+  votingMint: string | null;
+  ballot: OptionChoice[] | null;
+}
+
+/**
+ * Build, simulate, sign and send one group of CastVotes per direction. Each
+ * batch lands or fails on its own; a failure governance didn't explain marks
+ * its delegators `failed` so a later cycle can cast them again. Throws only
+ * when the realm's voter weight plugin is unsupported.
+ */
+export async function sendCastVotes(params: {
+  agent: AgentRow;
+  wallet: AgentWallet;
+  proposal: Pick<GovernanceProposalContext, 'address' | 'realmAddress'>;
+  config: Pick<ParsedAgentConfig, 'maxPriorityFeeLamports'>;
+  groups: Map<string, CastVoteVoter[]>;
+  choices?: OptionChoice[];
+  preferenceOf: (voter: CastVoteVoter) => DelegatorPreference;
+}): Promise<SentCastVotes> {
+  const { agent, wallet, proposal, config, groups, preferenceOf } = params;
+  const agentId = agent.id.toString();
+  const casts: DelegatorCast[] = [];
+  const landed: DelegatorCast[] = [];
+  let feeLamports = 0;
+  let votingMint: string | null = null;
+  let ballot: OptionChoice[] | null = null;
+
+  for (const [direction, groupVoters] of groups) {
+    let built: Awaited<ReturnType<typeof buildCastVoteTransactions>>;
+    try {
+      built = await buildCastVoteTransactions({
+        proposalAddress: proposal.address,
+        voterWalletAddress: wallet.address,
+        voteDirection: direction,
+        realmAddress: proposal.realmAddress,
+        voters: groupVoters,
+        choices: direction === 'for' ? params.choices : undefined,
+      });
+    } catch (error) {
+      if (error instanceof UnsupportedVoterWeightPluginError) throw error;
+      console.error(
+        `[autonomous-vote-engine] Building CastVote failed for agent=${agentId} proposal=${proposal.address} vote=${direction}`,
+        error,
+      );
+      for (const voter of groupVoters) {
+        casts.push({
+          delegatorAddress: voter.delegatorAddress ?? null,
+          governingTokenMint: voter.governingTokenMintAddress ?? null,
+          vote: direction,
+          preference: preferenceOf(voter),
+          txSignature: null,
+          votingPower: null,
+          failed: true,
+          ...(voter.relinquish && { relinquish: true }),
+        });
+      }
+      continue;
+    }
+    const groupMint = built.votingMint.toBase58();
+    votingMint ??= groupMint;
+    ballot ??= built.ballot;
+
+    for (const batch of built.batches) {
+      let txSignature: string | null = null;
+      let status: VoteStatus | undefined;
+      let rejection: GovernanceErrorReason | undefined;
+      try {
+        // Catch what the program would reject before Privy signs and spends fees
+        const { unitsConsumed } = await simulateGovernanceTransaction(batch.serializedTransaction);
+        // Request only the compute the simulation used, within the agent's fee budget
+        const budgeted = fitComputeBudget(batch.serializedTransaction, {
+          unitsConsumed,
+          maxPriorityFeeLamports: config.maxPriorityFeeLamports,
+        });
+        // Wait for it to land, re-signing with a fresh blockhash if it expires first
+        const tracked = await sendAndTrack({
+          serializedTransaction: budgeted.serializedTransaction,
+          send: async (serializedTransaction) =>
+            (await signAndSendTransaction({ walletId: wallet.id, agentId, serializedTransaction })).txHash,
+        });
+        status = tracked.status;
+        if (status !== 'dropped') {
+          txSignature = tracked.signature;
+          feeLamports += budgeted.feeLamports;
+        }
+      } catch (error) {
+        if (error instanceof GovernanceSimulationError) rejection = error.reason;
+        console.error(
+          `[autonomous-vote-engine] On-chain vote failed for agent=${agentId} proposal=${proposal.address} ` +
+          `delegators=${batch.voters.map((voter) => voter.delegatorAddress ?? wallet.address).join(',')}`,
+          error,
+        );
+      }
+
+      // A known governance rejection would only be rejected again
+      const failed = !txSignature && (!rejection || rejection === 'unknown');
+      for (const voter of batch.voters) {
+        const cast: DelegatorCast = {
+          delegatorAddress: voter.delegatorAddress ?? null,
+          governingTokenMint: voter.governingTokenMintAddress ?? groupMint,
+          vote: direction,
+          preference: preferenceOf(voter),
+          txSignature,
+          votingPower: null,
+          ...(status && { status }),
+          ...(rejection && { rejection }),
+          ...(failed && { failed }),
+          ...(failed && voter.relinquish && { relinquish: true }),
+        };
+        casts.push(cast);
+        if (txSignature) landed.push(cast);
+      }
+    }
+  }
+
+  return { casts, landed, feeLamports, votingMint, ballot };
+}
+
+/** Tokens each landed cast voted with, best-effort */
+async function fillVotingPower(
+  landed: DelegatorCast[],
+  wallet: AgentWallet,
+  proposal: GovernanceProposalContext,
+): Promise<void> {
+  await Promise.all(landed.map(async (cast) => {
+    const owner = cast.delegatorAddress ?? wallet.address;
+    try {
+      cast.votingPower =
+        await fetchDepositedTokens(owner, proposal.realmAddress, cast.governingTokenMint ?? undefined) ?? null;
+    } catch (error) {
+      console.error(`[autonomous-vote-engine] Voting power lookup failed for wallet=${owner}`, error);
+    }
+  }));
+}
+
+/** Casts recorded as `casts_json`; empty when unset or unreadable */
+export function parseDelegatorCasts(raw: string | null | undefined): DelegatorCast[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as DelegatorCast[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Cast again through the TokenOwnerRecords whose transaction failed after
+ * others of the same vote landed, in the direction each was meant to get, and
+ * merge the outcome into the recorded vote. A delegator who has since revoked
+ * the delegation is left out for good.
+ */
+async function retryFailedCasts(params: {
+  agent: AgentRow;
+  wallet: AgentWallet;
+  proposal: GovernanceProposalContext;
+  config: ParsedAgentConfig;
+  delegations: ProposalDelegations;
+  recorded: VoteRow;
+}): Promise<AutonomousVoteResult> {
+  const { agent, wallet, proposal, config, delegations, recorded } = params;
+  const agentId = agent.id.toString();
+  const recordedCasts = parseDelegatorCasts(recorded.casts_json);
+  const choices = parseOptionChoices(recorded.choices_json);
+
+  const kept = recordedCasts.filter((cast) => !cast.failed);
+  const revoked: DelegatorCast[] = [];
+  const groups = new Map<string, CastVoteVoter[]>();
+  const preferences = new Map<CastVoteVoter, DelegatorPreference>();
+  for (const cast of recordedCasts.filter((c) => c.failed && c.vote)) {
+    const direction = cast.vote as string;
+    const voter = resolveCastVoteVoters(direction, delegations, config.delegatorAddress)
+      .find((v) => (v.delegatorAddress ?? null) === cast.delegatorAddress);
+    if (!voter) {
+      revoked.push({ ...cast, failed: undefined, relinquish: undefined, skipReason: 'delegation_inactive' });
+      continue;
+    }
+    const retried = cast.relinquish ? { ...voter, relinquish: true } : voter;
+    preferences.set(retried, cast.preference);
+    groups.set(direction, [...(groups.get(direction) ?? []), retried]);
+  }
+
+  let sent: SentCastVotes;
+  try {
+    sent = await sendCastVotes({
+      agent,
+      wallet,
+      proposal,
+      config,
+      groups,
+      choices,
+      preferenceOf: (voter) => preferences.get(voter) ?? 'follow',
+    });
+  } catch (error) {
+    if (error instanceof UnsupportedVoterWeightPluginError) {
+      return {
+        agentId,
+        proposalAddress: proposal.address,
+        executed: false,
+        skipped: true,
+        skipReason: 'unsupported_voter_weight_plugin',
+        vote: recorded.vote,
+      };
+    }
+    throw error;
+  }
+  await fillVotingPower(sent.landed, wallet, proposal);
+
+  const casts = [...kept, ...revoked, ...sent.casts];
+  const voteStatus = weakestVoteStatus(
+    casts.flatMap((cast) => (cast.txSignature && cast.status ? [cast.status] : [])),
+  );
+  const result = await updateVoteCasts({
+    agent_id: agent.id,
+    proposal_address: proposal.address,
+    casts_json: JSON.stringify(casts),
+    fee_lamports: BigInt(sent.feeLamports),
+    vote_status: voteStatus,
+  });
+  if (!result.ok) {
+    console.error(
+      `[autonomous-vote-engine] Failed to record retried casts for agent=${agentId} proposal=${proposal.address}: ${result.error}`,
+    );
+  }
+
+  return {
+    agentId,
+    proposalAddress: proposal.address,
+    executed: sent.landed.length > 0,
+    skipped: false,
+    vote: recorded.vote,
+    choices,
+    confidence: recorded.confidence,
+    reasoning: recorded.reasoning,
+    txSignature: sent.landed[0]?.txSignature ?? null,
+    casts,
+    feeLamports: sent.feeLamports,
+    voteStatus: voteStatus ?? undefined,
+  };
+}
+
 export function isAgentEligibleForAutonomy(agent: AgentRow): boolean {
   if (!agent.is_active) return false;
-  if (!agent.privy_wallet_id || !agent.privy_wallet_address) return false;
+  // The wallet id is private; executeAutonomousVote skips agents without one
+  if (!agent.privy_wallet_address) return false;
 
   const config = parseAgentConfig(agent.config_json);
   return config.autoVote;
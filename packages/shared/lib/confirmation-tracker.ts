@@ -0,0 +1,118 @@
+import { Transaction } from '@solana/web3.js';
+import { getConnection } from './governance';
+
+// ---------------------------------------------------------------------------
+// Confirmation tracking
+//
+// A signature from Privy only means the transaction was handed to an RPC.
+// The tracker polls its status until it is finalized, and when its blockhash
+// expires without it landing, re-signs it with a fresh one — so "recorded"
+// means "on-chain" unless the status says otherwise:
+//   - submitted: sent, but not seen confirmed before the tracker gave up
+//   - confirmed: confirmed by a supermajority, not yet finalized
+//   - finalized: rooted; cannot be rolled back
+//   - dropped:   every blockhash expired without the transaction landing
+// ---------------------------------------------------------------------------
+
+export const VOTE_STATUSES = ['submitted', 'confirmed', 'finalized', 'dropped'] as const;
+
+export type VoteStatus = (typeof VOTE_STATUSES)[number];
+
+export interface TrackedTransaction {
+  /** Signature of the last attempt */
+  signature: string;
+  status: VoteStatus;
+  /** Times the transaction was re-signed with a fresh blockhash */
+  resigns: number;
+}
+
+const DEFAULT_MAX_RESIGNS = 2;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+/** Per attempt; a blockhash expires after ~60-90s and finality follows confirmation by ~13s */
+const DEFAULT_TIMEOUT_MS = 90_000;
+
+/** Weakest first, so a vote sent in several transactions reports the least settled one */
+const STATUS_RANK: Record<VoteStatus, number> = { dropped: 0, submitted: 1, confirmed: 2, finalized: 3 };
+
+export function weakestVoteStatus(statuses: VoteStatus[]): VoteStatus | null {
+  if (statuses.length === 0) return null;
+  return statuses.reduce((weakest, status) => (STATUS_RANK[status] < STATUS_RANK[weakest] ? status : weakest));
+}
+
+/** Re-stamp an unsigned transaction with the latest blockhash */
+async function withFreshBlockhash(serializedTransaction: string): Promise<{
+  serializedTransaction: string;
+  lastValidBlockHeight: number;
+}> {
+  const connection = getConnection();
+  const tx = Transaction.from(Buffer.from(serializedTransaction, 'base64'));
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  tx.recentBlockhash = blockhash;
+
+  const serialized = tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+  return { serializedTransaction: Buffer.from(serialized).toString('base64'), lastValidBlockHeight };
+}
+
+/**
+ * Poll `signature` until it is finalized, its blockhash expires unseen
+ * ('dropped'), or `timeoutMs` passes. Throws if it failed on-chain.
+ */
+async function pollSignature(
+  signature: string,
+  lastValidBlockHeight: number,
+  options: { pollIntervalMs: number; timeoutMs: number },
+): Promise<VoteStatus> {
+  const connection = getConnection();
+  const deadline = Date.now() + options.timeoutMs;
+  let status: VoteStatus = 'submitted';
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, options.pollIntervalMs));
+    const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+
+    if (value?.err) {
+      throw new Error(`Transaction ${signature} failed on-chain: ${JSON.stringify(value.err)}`);
+    }
+    if (value?.confirmationStatus === 'finalized') return 'finalized';
+    if (value?.confirmationStatus === 'confirmed') {
+      status = 'confirmed';
+    } else if (!value && status === 'submitted') {
+      const blockHeight = await connection.getBlockHeight('confirmed');
+      if (blockHeight > lastValidBlockHeight) return 'dropped';
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Sign and send an unsigned transaction through `send`, then track it until
+ * it settles, re-signing with a fresh blockhash up to `maxResigns` times
+ * when it is dropped. Errors from `send` and on-chain failures are thrown.
+ */
+export async function sendAndTrack(params: {
+  /** Unsigned, base64; its blockhash is replaced before every attempt */
+  serializedTransaction: string;
+  /** Signs and submits, returning the signature (e.g. through Privy) */
+  send: (serializedTransaction: string) => Promise<string>;
+  maxResigns?: number;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}): Promise<TrackedTransaction> {
+  const maxResigns = params.maxResigns ?? DEFAULT_MAX_RESIGNS;
+  const polling = {
+    pollIntervalMs: params.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS,
+    timeoutMs: params.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  };
+
+  for (let resigns = 0; ; resigns++) {
+    const { serializedTransaction, lastValidBlockHeight } = await withFreshBlockhash(params.serializedTransaction);
+    const signature = await params.send(serializedTransaction);
+    const status = await pollSignature(signature, lastValidBlockHeight, polling);
+
+    if (status !== 'dropped' || resigns >= maxResigns) {
+      return { signature, status, resigns };
+    }
+    console.warn(`[confirmation-tracker] ${signature} expired unconfirmed; re-signing (${resigns + 1}/${maxResigns})`);
+  }
+}
@@ -19,6 +19,11 @@ export const AGENT_PERMISSIONS = {
   ADMIN: 1 << 7,
 } as const;
 
+/** True when `scopeBitmap` grants `permission` (one of AGENT_PERMISSIONS) */
+export function hasAgentPermission(scopeBitmap: bigint | number, permission: number): boolean {
+  return (BigInt(scopeBitmap) & BigInt(permission)) !== BigInt(0);
+}
+
 export const RISK_LEVELS = {
   LOW: { label: "Low Risk", color: "text-green-400", bg: "bg-green-400/10" },
   MEDIUM: { label: "Medium Risk", color: "text-yellow-400", bg: "bg-yellow-400/10" },
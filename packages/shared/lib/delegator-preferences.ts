@@ -0,0 +1,51 @@
+import type { DelegatorPreferenceRow } from './stdb-client';
+
+// ---------------------------------------------------------------------------
+// Delegator preferences
+//
+// Delegating to an agent hands it the vote, not the delegator's voice: a
+// delegator can leave a standing instruction for a whole realm or one
+// proposal, and the engine casts through their TokenOwnerRecord accordingly.
+//   - follow:          vote the way the agent decides (the default)
+//   - abstain:         cast Abstain whatever the agent decides
+//   - for / against:   cast that direction whatever the agent decides
+// A per-proposal instruction beats the realm-wide one. When the agent abstains
+// without casting (low confidence, disagreement, a policy rule), followers
+// abstain with it and only standing instructions go on-chain. A `for` on a
+// multi-option proposal is only cast alongside the agent's own FOR, which
+// carries the option picks; otherwise it is recorded as unsatisfiable.
+// ---------------------------------------------------------------------------
+
+export const DELEGATOR_PREFERENCES = ['follow', 'abstain', 'for', 'against'] as const;
+
+export type DelegatorPreference = (typeof DELEGATOR_PREFERENCES)[number];
+
+export function isDelegatorPreference(value: unknown): value is DelegatorPreference {
+  return typeof value === 'string' && (DELEGATOR_PREFERENCES as readonly string[]).includes(value);
+}
+
+/** The instruction `delegatorWallet` left for `proposalAddress`, or 'follow' */
+export function resolveDelegatorPreference(
+  rows: DelegatorPreferenceRow[],
+  delegatorWallet: string,
+  proposalAddress: string,
+): DelegatorPreference {
+  const own = rows.filter((row) => row.delegator_wallet === delegatorWallet);
+  const row =
+    own.find((r) => r.proposal_address === proposalAddress) ?? own.find((r) => !r.proposal_address);
+  return row && isDelegatorPreference(row.preference) ? row.preference : 'follow';
+}
+
+/**
+ * Direction to cast through a delegator's TokenOwnerRecord given the agent's,
+ * or null to leave it out. A veto is cast with the opposite mint, which has
+ * no other direction to express a preference with, so only followers veto.
+ */
+export function applyDelegatorPreference(
+  preference: DelegatorPreference,
+  agentDirection: string,
+): string | null {
+  if (preference === 'follow') return agentDirection;
+  if (agentDirection === 'veto') return null;
+  return preference;
+}
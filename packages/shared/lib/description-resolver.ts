@@ -0,0 +1,271 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+// ---------------------------------------------------------------------------
+// Proposal description resolver
+//
+// On-chain proposals only carry `descriptionLink` — usually a URL to GitHub,
+// Discourse or IPFS. The resolver fetches the linked document, reduces it to
+// plain text and caches it per proposal so the AI analyses the real body.
+// ---------------------------------------------------------------------------
+
+export interface FetchedDocument {
+  body: string;
+  contentType: string;
+}
+
+export interface DescriptionFetcher {
+  name: string;
+  matches(link: string): boolean;
+  fetch(link: string): Promise<FetchedDocument>;
+}
+
+export interface ResolvedDescription {
+  text: string;
+  /** Fetcher that produced the text, or `inline` when the link was already text */
+  source: string;
+  link: string;
+}
+
+const FETCH_TIMEOUT_MS = 10_000;
+/** Keep prompts bounded — long RFCs are truncated */
+export const MAX_DESCRIPTION_CHARS = 12_000;
+const MAX_CACHE_ENTRIES = 500;
+
+async function fetchDocument(url: string): Promise<FetchedDocument> {
+  const res = await fetch(url, {
+    headers: { accept: "text/plain, text/markdown, text/html;q=0.9, */*;q=0.5" },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`Fetch ${url} failed: ${res.status}`);
+  }
+  return { body: await res.text(), contentType: res.headers.get("content-type") ?? "" };
+}
+
+// ---------------------------------------------------------------------------
+// Fetchers
+// ---------------------------------------------------------------------------
+
+const GIST_PAGE = /^https?:\/\/gist\.github\.com\/([^/]+)\/([0-9a-f]+)\/?$/i;
+const GITHUB_BLOB = /^https?:\/\/github\.com\/([^/]+)\/([^/]+)\/blob\/(.+)$/i;
+const GITHUB_RAW_HOSTS = /^https?:\/\/(raw|gist)\.githubusercontent\.com\//i;
+
+/** Map a GitHub page URL to the raw file it renders. */
+export function toGitHubRawUrl(link: string): string | null {
+  const gist = link.match(GIST_PAGE);
+  if (gist) return `https://gist.githubusercontent.com/${gist[1]}/${gist[2]}/raw`;
+
+  const blob = link.match(GITHUB_BLOB);
+  if (blob) return `https://raw.githubusercontent.com/${blob[1]}/${blob[2]}/${blob[3]}`;
+
+  return GITHUB_RAW_HOSTS.test(link) ? link : null;
+}
+
+export const githubFetcher: DescriptionFetcher = {
+  name: "github",
+  matches: (link) => toGitHubRawUrl(link) !== null,
+  async fetch(link) {
+    const raw = toGitHubRawUrl(link);
+    if (!raw) throw new Error(`Not a GitHub link: ${link}`);
+    // raw.githubusercontent.com serves everything as text/plain
+    const doc = await fetchDocument(raw);
+    return { ...doc, contentType: "text/markdown" };
+  },
+};
+
+const IPFS_CID = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/;
+
+/** Extract `<cid>/<path>` from `ipfs://`, `/ipfs/` or bare-CID links. */
+export function toIpfsPath(link: string): string | null {
+  const stripped = link
+    .replace(/^ipfs:\/\/(ipfs\/)?/i, "")
+    .replace(/^\/ipfs\//i, "");
+  return IPFS_CID.test(stripped) ? stripped : null;
+}
+
+export const ipfsFetcher: DescriptionFetcher = {
+  name: "ipfs",
+  matches: (link) => toIpfsPath(link) !== null,
+  fetch(link) {
+    const gateway = (process.env.IPFS_GATEWAY_URL || "https://ipfs.io").replace(/\/$/, "");
+    return fetchDocument(`${gateway}/ipfs/${toIpfsPath(link)}`);
+  },
+};
+
+export const httpFetcher: DescriptionFetcher = {
+  name: "http",
+  matches: (link) => /^https?:\/\//i.test(link),
+  fetch: fetchDocument,
+};
+
+/** File name a link is stored under in a fixture directory. */
+export function fixtureFileName(link: string): string {
+  return link.replace(/^[a-z]+:\/\//i, "").replace(/[^a-z0-9.-]+/gi, "_");
+}
+
+/**
+ * Serve every link from `<dir>/<fixtureFileName(link)>` — for tests and
+ * offline runs (`DESCRIPTION_FIXTURE_DIR`). Extension decides the content type.
+ */
+export function createFixtureFetcher(dir: string): DescriptionFetcher {
+  return {
+    name: "fixture",
+    matches: () => true,
+    async fetch(link) {
+      const base = path.join(dir, fixtureFileName(link));
+      for (const [ext, contentType] of [[".html", "text/html"], [".md", "text/markdown"], ["", "text/plain"]]) {
+        try {
+          return { body: await readFile(base + ext, "utf8"), contentType };
+        } catch {
+          // Try the next extension
+        }
+      }
+      throw new Error(`No fixture for ${link} in ${dir}`);
+    },
+  };
+}
+
+export function defaultFetchers(): DescriptionFetcher[] {
+  const fixtureDir = process.env.DESCRIPTION_FIXTURE_DIR;
+  if (fixtureDir) return [createFixtureFetcher(fixtureDir)];
+  // Order matters: httpFetcher matches every http(s) link
+  return [githubFetcher, ipfsFetcher, httpFetcher];
+}
+
+// ---------------------------------------------------------------------------
+// Text extraction
+// ---------------------------------------------------------------------------
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? Number.parseInt(entity.slice(2), 16)
+        : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|svg|head)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<\/(p|div|h[1-6]|li|ul|ol|tr|section|article|blockquote|pre)>/gi, "\n")
+      .replace(/<[^>]+>/g, " "),
+  );
+}
+
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*[*+]\s+/gm, "- ")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|\W)[*_]([^*_\n]+)[*_](?=\W|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^\s*([-*_]\s*){3,}$/gm, "");
+}
+
+function collapseWhitespace(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Reduce an HTML or markdown document to prompt-ready plain text. */
+export function toPlainText(doc: FetchedDocument): string {
+  const looksLikeHtml = doc.contentType.includes("html") || /^\s*<(!doctype|html)/i.test(doc.body);
+  const text = looksLikeHtml ? htmlToText(doc.body) : markdownToText(doc.body);
+  const collapsed = collapseWhitespace(text);
+  return collapsed.length > MAX_DESCRIPTION_CHARS
+    ? `${collapsed.slice(0, MAX_DESCRIPTION_CHARS)}\n[truncated]`
+    : collapsed;
+}
+
+// ---------------------------------------------------------------------------
+// Resolver
+// ---------------------------------------------------------------------------
+
+function isLink(value: string): boolean {
+  return /^(https?|ipfs):\/\//i.test(value) || toIpfsPath(value) !== null;
+}
+
+export interface DescriptionResolver {
+  resolve(proposalAddress: string, descriptionLink: string): Promise<ResolvedDescription>;
+  clearCache(): void;
+}
+
+/**
+ * Build a resolver with its own cache. Links that fail to fetch fall back to
+ * the link itself and aren't cached, so the next cycle retries them.
+ */
+export function createDescriptionResolver(
+  fetchers: DescriptionFetcher[] = defaultFetchers(),
+): DescriptionResolver {
+  const cache = new Map<string, ResolvedDescription>();
+
+  return {
+    async resolve(proposalAddress, descriptionLink) {
+      const link = descriptionLink.trim();
+      const cached = cache.get(proposalAddress);
+      if (cached && cached.link === link) return cached;
+
+      if (!isLink(link)) {
+        return { text: link, source: "inline", link };
+      }
+
+      const fetcher = fetchers.find((f) => f.matches(link));
+      if (!fetcher) {
+        return { text: link, source: "inline", link };
+      }
+
+      try {
+        const text = toPlainText(await fetcher.fetch(link));
+        const resolved: ResolvedDescription = { text: text || link, source: fetcher.name, link };
+
+        if (cache.size >= MAX_CACHE_ENTRIES) {
+          const oldest = cache.keys().next().value;
+          if (oldest !== undefined) cache.delete(oldest);
+        }
+        cache.set(proposalAddress, resolved);
+        return resolved;
+      } catch (error) {
+        console.warn(`[description-resolver] ${fetcher.name} fetch failed for ${link}`, error);
+        return { text: link, source: "inline", link };
+      }
+    },
+
+    clearCache() {
+      cache.clear();
+    },
+  };
+}
+
+let _resolver: DescriptionResolver | null = null;
+
+/** Shared resolver (created on first use so env is read after startup). */
+export function getDescriptionResolver(): DescriptionResolver {
+  if (!_resolver) _resolver = createDescriptionResolver();
+  return _resolver;
+}
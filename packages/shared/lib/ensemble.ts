@@ -0,0 +1,223 @@
+import { z } from "zod";
+import { analyzeProposal, type GovernanceAnalysis } from "./ai";
+import { LLMSettingsSchema, resolveLLMConfig, type LLMSettings } from "./llm-providers";
+
+// ---------------------------------------------------------------------------
+// Ensemble settings (`config_json.ensemble`)
+// ---------------------------------------------------------------------------
+
+export const ENSEMBLE_AGGREGATIONS = ["majority", "unanimous", "weighted"] as const;
+
+export type EnsembleAggregation = (typeof ENSEMBLE_AGGREGATIONS)[number];
+
+type Vote = GovernanceAnalysis["recommendation"]["vote"];
+
+const EnsembleMemberSchema = z.object({
+  label: z.string().min(1).max(64).optional(),
+  /** Merged over the agent's own `llm` settings */
+  llm: LLMSettingsSchema.optional(),
+  /** Extra instructions appended to the agent values prompt */
+  persona: z.string().max(500).optional(),
+  weight: z.number().positive().default(1),
+});
+
+export const EnsembleSettingsSchema = z.object({
+  aggregation: z.enum(ENSEMBLE_AGGREGATIONS).default("majority"),
+  /** Share of dissenting support (0-1) above which the agent abstains */
+  disagreementThreshold: z.number().min(0).max(1).default(0.4),
+  members: z.array(EnsembleMemberSchema).min(2).max(5),
+});
+
+export type EnsembleSettings = z.infer<typeof EnsembleSettingsSchema>;
+
+/** Validate `config_json.ensemble`; invalid settings disable ensemble mode. */
+export function parseEnsembleSettings(raw: unknown): EnsembleSettings | undefined {
+  if (raw == null) return undefined;
+  const result = EnsembleSettingsSchema.safeParse(raw);
+  if (!result.success) {
+    console.warn("[ensemble] Ignoring invalid ensemble settings", result.error.issues);
+    return undefined;
+  }
+  return result.data;
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+export interface EnsembleMemberResult {
+  label: string;
+  provider: string;
+  model: string;
+  weight: number;
+  /** Present when the member produced an analysis */
+  analysis?: GovernanceAnalysis;
+  error?: string;
+}
+
+export interface EnsembleMemberVote {
+  label: string;
+  provider: string;
+  model: string;
+  weight: number;
+  vote: Vote;
+  confidence: number;
+  reasoning: string;
+}
+
+export interface EnsembleReport {
+  aggregation: EnsembleAggregation;
+  disagreementThreshold: number;
+  /** 1 - (winning support / total support); 0 when every member agrees */
+  disagreement: number;
+  forcedAbstain: boolean;
+  tally: Record<Vote, number>;
+  members: EnsembleMemberVote[];
+  /** Members whose vote differs from the ensemble's final vote */
+  dissent: EnsembleMemberVote[];
+  failed: Array<{ label: string; error: string }>;
+}
+
+export type EnsembleAnalysis = GovernanceAnalysis & { ensemble: EnsembleReport };
+
+const VOTES: Vote[] = ["FOR", "AGAINST", "ABSTAIN"];
+
+function toMemberVote(member: EnsembleMemberResult & { analysis: GovernanceAnalysis }): EnsembleMemberVote {
+  return {
+    label: member.label,
+    provider: member.provider,
+    model: member.model,
+    weight: member.weight,
+    vote: member.analysis.recommendation.vote,
+    confidence: member.analysis.recommendation.confidence,
+    reasoning: member.analysis.recommendation.reasoning,
+  };
+}
+
+/** Support each member lends its vote under the aggregation rule. */
+function supportOf(vote: EnsembleMemberVote, aggregation: EnsembleAggregation): number {
+  return aggregation === "weighted" ? vote.weight * vote.confidence : 1;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Combine member analyses into one recommendation. The winner is the vote
+ * with the most support (head count, or weight × confidence for `weighted`).
+ * A tie, any dissent under `unanimous`, or disagreement above the threshold
+ * forces an ABSTAIN.
+ */
+export function aggregateEnsemble(
+  results: EnsembleMemberResult[],
+  settings: Pick<EnsembleSettings, "aggregation" | "disagreementThreshold">,
+): EnsembleAnalysis {
+  const { aggregation, disagreementThreshold } = settings;
+  const answered = results.filter(
+    (r): r is EnsembleMemberResult & { analysis: GovernanceAnalysis } => r.analysis != null,
+  );
+  if (answered.length === 0) {
+    throw new Error("Ensemble analysis failed: no member returned an analysis");
+  }
+
+  const members = answered.map(toMemberVote);
+  const tally: Record<Vote, number> = { FOR: 0, AGAINST: 0, ABSTAIN: 0 };
+  for (const member of members) {
+    tally[member.vote] += supportOf(member, aggregation);
+  }
+
+  const total = VOTES.reduce((sum, vote) => sum + tally[vote], 0);
+  const ranked = [...VOTES].sort((a, b) => tally[b] - tally[a]);
+  const leader = ranked[0];
+  const tied = tally[ranked[1]] === tally[leader];
+  const disagreement = total > 0 ? 1 - tally[leader] / total : 1;
+
+  const forcedAbstain = tied
+    || (aggregation === "unanimous" ? disagreement > 0 : disagreement > disagreementThreshold);
+  const vote: Vote = forcedAbstain ? "ABSTAIN" : leader;
+
+  // Summary and risk assessment come from the most confident member on the winning side
+  const side = answered.filter((r) => r.analysis.recommendation.vote === vote);
+  const pool = side.length > 0 ? side : answered;
+  const base = pool.reduce((best, r) =>
+    r.analysis.recommendation.confidence > best.analysis.recommendation.confidence ? r : best,
+  ).analysis;
+
+  const confidence = forcedAbstain
+    ? 1 - disagreement
+    : side.reduce((sum, r) => sum + r.weight * r.analysis.recommendation.confidence, 0)
+      / side.reduce((sum, r) => sum + r.weight, 0);
+
+  const breakdown = members
+    .map((m) => `- ${m.label} (${m.model}): ${m.vote} @ ${m.confidence.toFixed(2)}`)
+    .join("\n");
+  const reasoning = forcedAbstain
+    ? `Ensemble analysts disagreed (${aggregation}, disagreement ${formatPercent(disagreement)}):\n${breakdown}`
+    : `${base.recommendation.reasoning}\n\nEnsemble (${aggregation}) agreed on ${vote} with ${formatPercent(1 - disagreement)} support:\n${breakdown}`;
+
+  return {
+    ...base,
+    recommendation: {
+      vote,
+      confidence,
+      reasoning,
+      conditions: base.recommendation.conditions,
+      // Option choices of the most confident member that voted the winning way
+      choices: forcedAbstain ? undefined : base.recommendation.choices,
+    },
+    ensemble: {
+      aggregation,
+      disagreementThreshold,
+      disagreement,
+      forcedAbstain,
+      tally,
+      members,
+      dissent: members.filter((m) => m.vote !== vote),
+      failed: results
+        .filter((r) => r.analysis == null)
+        .map((r) => ({ label: r.label, error: r.error ?? "unknown error" })),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Analyse a proposal with every ensemble member in parallel and aggregate the
+ * results. Failed members are recorded but don't fail the ensemble unless
+ * none succeed.
+ */
+export async function analyzeWithEnsemble(
+  proposal: Parameters<typeof analyzeProposal>[0],
+  agentValues: string,
+  settings: EnsembleSettings,
+  agentLLM?: LLMSettings,
+): Promise<EnsembleAnalysis> {
+  const results = await Promise.all(
+    settings.members.map(async (member, index): Promise<EnsembleMemberResult> => {
+      const llm: LLMSettings = { ...agentLLM, ...member.llm };
+      const resolved = resolveLLMConfig(llm, { maxTokens: 2048 });
+      const values = member.persona
+        ? `${agentValues}\nAnalyst persona: ${member.persona}`
+        : agentValues;
+      const result: EnsembleMemberResult = {
+        label: member.label ?? `member-${index + 1}`,
+        provider: resolved.provider,
+        model: resolved.model,
+        weight: member.weight,
+      };
+
+      try {
+        return { ...result, analysis: await analyzeProposal(proposal, values, llm) };
+      } catch (error) {
+        console.error(`[ensemble] Member ${result.label} failed`, error);
+        return { ...result, error: error instanceof Error ? error.message : String(error) };
+      }
+    }),
+  );
+
+  return aggregateEnsemble(results, settings);
+}
@@ -4,10 +4,13 @@ import type {
   RealmV2,
   ProposalV2,
   GovernanceAccount,
+  ProposalTransaction,
   TokenOwnerRecord,
   VoteRecord,
 } from 'governance-idl-sdk';
 import { SOLANA_CHAIN_CONFIG } from './constants';
+import { parseProposalOptions, parseVoteType } from './proposal-options';
+import { identifyVoterWeightPlugin, type VoterWeightPlugin } from './voter-weight-plugins';
 
 // ---------------------------------------------------------------------------
 // Connection + client singletons (avoid TCP overhead per call)
@@ -94,7 +97,8 @@ interface PublicKeyLike {
 interface ProposalV2Fields {
   publicKey: PublicKey;
   state: Record<string, Record<string, never>>;
-  options?: Array<{ voteWeight?: BNLike }>;
+  options?: Array<{ label?: string; voteWeight?: BNLike; voteResult?: unknown }>;
+  voteType?: unknown;
   denyVoteWeight?: BNLike | null;
   abstainVoteWeight?: BNLike | null;
   draftAt?: BNLike | null;
@@ -120,12 +124,23 @@ interface VoteRecordFields {
 
 interface TokenOwnerRecordFields {
   publicKey: PublicKey;
+  realm?: PublicKeyLike | null;
   governingTokenOwner?: PublicKeyLike | null;
   governingTokenMint?: PublicKeyLike | null;
   governingTokenDepositAmount?: BNLike | null;
   governanceDelegate?: PublicKeyLike | null;
 }
 
+interface GoverningTokenConfigFields {
+  voterWeightAddin?: PublicKeyLike | null;
+  maxVoterWeightAddin?: PublicKeyLike | null;
+}
+
+interface RealmConfigAccountFields {
+  communityTokenConfig?: GoverningTokenConfigFields | null;
+  councilTokenConfig?: GoverningTokenConfigFields | null;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -142,6 +157,39 @@ export function getProposalState(state: unknown): string {
   return 'unknown';
 }
 
+/** Proposal states that can no longer change the tally */
+const FINAL_OUTCOMES: Record<string, 'for' | 'against' | 'none'> = {
+  succeeded: 'for',
+  executing: 'for',
+  completed: 'for',
+  executingWithErrors: 'for',
+  defeated: 'against',
+  vetoed: 'against',
+  cancelled: 'none',
+};
+
+/**
+ * Winning side of a finalized proposal, or null while it can still be voted
+ * on (draft, signingOff, voting) or the state is unknown.
+ */
+export function getProposalOutcome(state: string): 'for' | 'against' | 'none' | null {
+  return FINAL_OUTCOMES[state] ?? null;
+}
+
+/**
+ * Map a VoteRecord's `vote` enum (`{ approve: [...] }`, `{ deny: {} }`, ...)
+ * to the app's vote direction.
+ */
+export function getVoteRecordDirection(vote: unknown): 'for' | 'against' | 'abstain' | 'veto' | null {
+  switch (getProposalState(vote)) {
+    case 'approve': return 'for';
+    case 'deny': return 'against';
+    case 'abstain': return 'abstain';
+    case 'veto': return 'veto';
+    default: return null;
+  }
+}
+
 function bnToNumber(val: BNLike | null | undefined): number | null {
   if (val == null) return null;
   try {
@@ -220,6 +268,25 @@ export async function fetchProposal(proposalAddress: string): Promise<ProposalV2
   return gov.getProposalByPubkey(new PublicKey(proposalAddress));
 }
 
+/** Realm a proposal belongs to — ProposalV2 only stores it on its governance account. */
+export async function fetchProposalRealm(proposal: ProposalV2): Promise<string> {
+  const gov = getGovernanceClient();
+  const governance = await gov.getGovernanceAccountByPubkey(proposal.governance);
+  return governance.realm.toBase58();
+}
+
+/** Instructions the proposal executes if it passes, one account per transaction. */
+export async function fetchProposalTransactions(proposalAddress: string): Promise<ProposalTransaction[]> {
+  const cacheKey = `proposalTransactions:${proposalAddress}`;
+  const cached = getCached<ProposalTransaction[]>(cacheKey);
+  if (cached) return cached;
+
+  const gov = getGovernanceClient();
+  const result = await gov.getProposalTransactionsByProposal(new PublicKey(proposalAddress));
+  setCached(cacheKey, result, TTL_PROPOSALS_MS);
+  return result;
+}
+
 export async function fetchVoteRecords(proposalAddress: string): Promise<VoteRecord[]> {
   const cacheKey = `voteRecords:${proposalAddress}`;
   const cached = getCached<VoteRecord[]>(cacheKey);
@@ -241,6 +308,75 @@ export async function fetchUserTokenRecords(walletAddress: string): Promise<Toke
   return gov.getTokenOwnerRecordsForOwner(new PublicKey(walletAddress));
 }
 
+/**
+ * Voter weight plugin the realm configures for `governingTokenMint`, or null
+ * when votes are weighed by deposited tokens. Realms created before
+ * RealmConfigAccount existed have no such account and no plugin.
+ */
+export async function fetchVoterWeightPlugin(
+  realmAddress: string,
+  governingTokenMint: string,
+): Promise<VoterWeightPlugin | null> {
+  const cacheKey = `voterWeightPlugin:${realmAddress}:${governingTokenMint}`;
+  const cached = getCached<VoterWeightPlugin | null>(cacheKey);
+  if (cached !== undefined) return cached;
+
+  const gov = getGovernanceClient();
+  const realmPubkey = new PublicKey(realmAddress);
+  const [realm, realmConfig] = await Promise.all([
+    gov.getRealmByPubkey(realmPubkey),
+    gov.getRealmConfigByRealm(realmPubkey).catch((err: unknown) => {
+      if (err instanceof Error && err.message.includes("doesn't exist")) return null;
+      throw err;
+    }),
+  ]);
+
+  const configs = realmConfig as unknown as RealmConfigAccountFields | null;
+  const tokenConfig = realm.communityMint.toBase58() === governingTokenMint
+    ? configs?.communityTokenConfig
+    : configs?.councilTokenConfig;
+
+  const programId = tokenConfig?.voterWeightAddin ? pubkeyToString(tokenConfig.voterWeightAddin) : '';
+  const result: VoterWeightPlugin | null = programId
+    ? {
+        kind: identifyVoterWeightPlugin(programId),
+        programId,
+        maxVoterWeightProgramId: tokenConfig?.maxVoterWeightAddin
+          ? pubkeyToString(tokenConfig.maxVoterWeightAddin)
+          : null,
+      }
+    : null;
+
+  setCached(cacheKey, result, TTL_REALMS_MS);
+  return result;
+}
+
+/**
+ * Governance tokens `walletAddress` has deposited in `realmAddress`, in UI
+ * units summed across the realm's mints, or only `governingTokenMint`'s.
+ */
+export async function fetchDepositedTokens(
+  walletAddress: string,
+  realmAddress: string,
+  governingTokenMint?: string,
+): Promise<number> {
+  const records = (await fetchUserTokenRecords(walletAddress))
+    .map(serializeTokenOwnerRecord)
+    .filter(
+      (record) =>
+        record.realm === realmAddress &&
+        record.governingTokenDepositAmount > 0 &&
+        (!governingTokenMint || record.governingTokenMint === governingTokenMint),
+    );
+
+  let total = 0;
+  for (const record of records) {
+    const supply = await getConnection().getTokenSupply(new PublicKey(record.governingTokenMint));
+    total += record.governingTokenDepositAmount / 10 ** supply.value.decimals;
+  }
+  return total;
+}
+
 // ---------------------------------------------------------------------------
 // Serialization (SDK types → plain JSON for the frontend)
 // ---------------------------------------------------------------------------
@@ -258,6 +394,8 @@ export function serializeProposal(p: ProposalV2, votingBaseTimeFallback?: number
   const fields = p as unknown as ProposalV2Fields;
   const state = getProposalState(fields.state);
 
+  // Single-option proposals keep the for/against shape; `options` has every option
+  const options = parseProposalOptions(fields.options);
   const forVotes = bnToNumber(fields.options?.[0]?.voteWeight) ?? 0;
   const againstVotes = bnToNumber(fields.denyVoteWeight) ?? 0;
   const abstainVotes = bnToNumber(fields.abstainVoteWeight) ?? 0;
@@ -283,6 +421,8 @@ export function serializeProposal(p: ProposalV2, votingBaseTimeFallback?: number
     forVotes,
     againstVotes,
     abstainVotes,
+    options,
+    voteType: parseVoteType(fields.voteType),
     draftAt: draftTs ? new Date(draftTs * 1000).toISOString() : null,
     startVotingAt: startTs ? new Date(startTs * 1000).toISOString() : null,
     votingAt: votingAtTs ? new Date(votingAtTs * 1000).toISOString() : null,
@@ -313,6 +453,7 @@ export function serializeTokenOwnerRecord(tor: TokenOwnerRecord) {
   const fields = tor as unknown as TokenOwnerRecordFields;
   return {
     address: fields.publicKey.toBase58(),
+    realm: pubkeyToString(fields.realm),
     governingTokenOwner: pubkeyToString(fields.governingTokenOwner),
     governingTokenMint: pubkeyToString(fields.governingTokenMint),
     governingTokenDepositAmount: bnToNumber(fields.governingTokenDepositAmount) ?? 0,
@@ -330,6 +471,7 @@ export type {
   RealmV2,
   ProposalV2,
   GovernanceAccount,
+  ProposalTransaction,
   TokenOwnerRecord,
   VoteRecord,
 };
@@ -0,0 +1,271 @@
+import OpenAI from "openai";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Provider settings
+//
+// Agents pick a provider in `config_json.llm`. API keys are never read from
+// agent config (the agents table is public) — they come from env only.
+// ---------------------------------------------------------------------------
+
+export const LLM_PROVIDERS = ["openai", "anthropic", "local"] as const;
+
+export type LLMProviderKind = (typeof LLM_PROVIDERS)[number];
+
+export const LLMSettingsSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS).optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().max(32_768).optional(),
+  /** Sampling seed (OpenAI-compatible providers only) */
+  seed: z.number().int().optional(),
+  /** Only honoured for the `local` provider */
+  baseURL: z.string().url().optional(),
+});
+
+export type LLMSettings = z.infer<typeof LLMSettingsSchema>;
+
+export interface ResolvedLLMConfig {
+  provider: LLMProviderKind;
+  model: string;
+  temperature?: number;
+  maxTokens: number;
+  seed?: number;
+  baseURL: string;
+  apiKey: string;
+}
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  system: string;
+  messages: LLMMessage[];
+}
+
+export interface LLMProvider {
+  complete(config: ResolvedLLMConfig, request: LLMRequest): Promise<string>;
+  /** Resolves once the request is accepted; yields text deltas. */
+  stream(config: ResolvedLLMConfig, request: LLMRequest): Promise<AsyncIterable<string>>;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderKind, string> = {
+  openai: "glm-5",
+  anthropic: "claude-sonnet-4-5",
+  local: "llama3.1",
+};
+
+function isProviderKind(value: string | undefined): value is LLMProviderKind {
+  return LLM_PROVIDERS.includes(value as LLMProviderKind);
+}
+
+function readTemperatureEnv(): number | undefined {
+  const raw = process.env.LLM_TEMPERATURE;
+  if (!raw) return undefined;
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function connectionFor(provider: LLMProviderKind, settings?: LLMSettings): { baseURL: string; apiKey: string } {
+  switch (provider) {
+    case "anthropic":
+      return {
+        baseURL: process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com",
+        apiKey: process.env.ANTHROPIC_API_KEY || "placeholder",
+      };
+    case "local":
+      return {
+        baseURL: settings?.baseURL || process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+        // Ollama / llama.cpp ignore the key but the OpenAI SDK requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+      };
+    default:
+      return {
+        baseURL: process.env.ZAI_BASE_URL || "https://open.bigmodel.cn/api/coding/paas/v4/",
+        apiKey: process.env.ZAI_API_KEY || "placeholder",
+      };
+  }
+}
+
+/**
+ * Merge per-agent settings over the env defaults (`LLM_PROVIDER`, `LLM_MODEL`,
+ * `LLM_TEMPERATURE`). `maxTokens` falls back to the caller's default.
+ */
+export function resolveLLMConfig(
+  settings: LLMSettings | undefined,
+  defaults: { maxTokens: number },
+): ResolvedLLMConfig {
+  const envProvider = isProviderKind(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : "openai";
+  const provider = settings?.provider ?? envProvider;
+  // LLM_MODEL names a model for the env provider; don't send it to another one
+  const envModel = provider === envProvider ? process.env.LLM_MODEL : undefined;
+
+  return {
+    provider,
+    model: settings?.model ?? envModel ?? DEFAULT_MODELS[provider],
+    temperature: settings?.temperature ?? readTemperatureEnv(),
+    maxTokens: settings?.maxTokens ?? defaults.maxTokens,
+    seed: settings?.seed,
+    ...connectionFor(provider, settings),
+  };
+}
+
+/** Validate `config_json.llm`; invalid settings fall back to env defaults. */
+export function parseLLMSettings(raw: unknown): LLMSettings | undefined {
+  if (raw == null) return undefined;
+  const result = LLMSettingsSchema.safeParse(raw);
+  if (!result.success) {
+    console.warn("[llm] Ignoring invalid llm settings", result.error.issues);
+    return undefined;
+  }
+  return result.data;
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (Z.AI, OpenAI, Ollama, llama.cpp server)
+// ---------------------------------------------------------------------------
+
+const openAIClients = new Map<string, OpenAI>();
+
+function getOpenAIClient(config: ResolvedLLMConfig): OpenAI {
+  const key = `${config.baseURL}|${config.apiKey}`;
+  let client = openAIClients.get(key);
+  if (!client) {
+    client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+    openAIClients.set(key, client);
+  }
+  return client;
+}
+
+function openAIParams(config: ResolvedLLMConfig, request: LLMRequest) {
+  return {
+    model: config.model,
+    max_tokens: config.maxTokens,
+    ...(config.temperature != null ? { temperature: config.temperature } : {}),
+    ...(config.seed != null ? { seed: config.seed } : {}),
+    messages: [
+      { role: "system" as const, content: request.system },
+      ...request.messages,
+    ],
+  };
+}
+
+const openAICompatibleProvider: LLMProvider = {
+  async complete(config, request) {
+    const response = await getOpenAIClient(config).chat.completions.create(
+      openAIParams(config, request),
+    );
+    const msg = response.choices[0]?.message;
+    // GLM-5 may return content in `content` or `reasoning_content`
+    return msg?.content
+      || (msg as unknown as Record<string, unknown>)?.reasoning_content as string
+      || "";
+  },
+
+  async stream(config, request) {
+    const stream = await getOpenAIClient(config).chat.completions.create({
+      ...openAIParams(config, request),
+      stream: true,
+    });
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) yield content;
+      }
+    })();
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Anthropic Messages API (plain fetch — no SDK dependency)
+// ---------------------------------------------------------------------------
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+async function postAnthropicMessages(
+  config: ResolvedLLMConfig,
+  request: LLMRequest,
+  stream: boolean,
+): Promise<Response> {
+  const res = await fetch(`${config.baseURL.replace(/\/$/, "")}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "x-api-key": config.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      "content-type": "application/json",
+    },
+    body: JSON.stringify({
+      model: config.model,
+      max_tokens: config.maxTokens,
+      ...(config.temperature != null ? { temperature: config.temperature } : {}),
+      system: request.system,
+      messages: request.messages,
+      ...(stream ? { stream: true } : {}),
+    }),
+  });
+
+  if (!res.ok) {
+    throw new Error(`Anthropic request failed: ${res.status} ${await res.text()}`);
+  }
+  return res;
+}
+
+/** Yield the payload of each `data:` line in a server-sent event stream. */
+async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+      newline = buffer.indexOf("\n");
+    }
+  }
+}
+
+const anthropicProvider: LLMProvider = {
+  async complete(config, request) {
+    const res = await postAnthropicMessages(config, request, false);
+    const data = await res.json() as { content?: Array<{ type: string; text?: string }> };
+    return (data.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+  },
+
+  async stream(config, request) {
+    const res = await postAnthropicMessages(config, request, true);
+    if (!res.body) throw new Error("Anthropic stream returned no body");
+    const body = res.body;
+
+    return (async function* () {
+      for await (const data of readSSEData(body)) {
+        const event = JSON.parse(data) as { type?: string; delta?: { type?: string; text?: string } };
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+          yield event.delta.text;
+        }
+      }
+    })();
+  },
+};
+
+const PROVIDERS: Record<LLMProviderKind, LLMProvider> = {
+  openai: openAICompatibleProvider,
+  anthropic: anthropicProvider,
+  local: openAICompatibleProvider,
+};
+
+export function getLLMProvider(kind: LLMProviderKind): LLMProvider {
+  return PROVIDERS[kind];
+}
@@ -0,0 +1,207 @@
+import { z } from "zod";
+import type { DecodedInstruction, DecodedProposalTransaction } from "./proposal-instructions";
+
+// ---------------------------------------------------------------------------
+// Policy rules (`config_json.policy`)
+//
+// Deterministic guardrails evaluated around the LLM:
+//   - `force` rules run before analysis and decide the vote outright; they
+//     may also force a VETO, cast with an opposite-mint (council) delegation
+//   - `forbid` rules run after analysis and replace a forbidden vote
+// A rule whose facts can't be verified (e.g. transactions failed to load)
+// fails closed and abstains.
+// ---------------------------------------------------------------------------
+
+const PolicyVoteSchema = z.enum(["FOR", "AGAINST", "ABSTAIN"]);
+
+export type PolicyVote = z.infer<typeof PolicyVoteSchema>;
+
+const ForcedVoteSchema = z.enum(["FOR", "AGAINST", "ABSTAIN", "VETO"]);
+
+export type ForcedPolicyVote = z.infer<typeof ForcedVoteSchema>;
+
+const PolicyConditionSchema = z.discriminatedUnion("type", [
+  /** Total SOL moved by System transfers across all proposal transactions */
+  z.object({ type: z.literal("sol_transfer_above"), sol: z.number().nonnegative() }),
+  z.object({ type: z.literal("program_upgrade") }),
+  z.object({ type: z.literal("governance_config_change") }),
+  z.object({ type: z.literal("token_mint") }),
+  /** Any instruction the decoder couldn't identify */
+  z.object({ type: z.literal("unknown_instruction") }),
+  /** Tokens the voting wallet has deposited in the proposal's realm */
+  z.object({ type: z.literal("voting_power_below"), tokens: z.number().nonnegative() }),
+]);
+
+export type PolicyCondition = z.infer<typeof PolicyConditionSchema>;
+
+const PolicyRuleSchema = z.discriminatedUnion("action", [
+  z.object({
+    id: z.string().min(1).max(64).optional(),
+    when: PolicyConditionSchema,
+    action: z.literal("force"),
+    vote: ForcedVoteSchema,
+  }),
+  z.object({
+    id: z.string().min(1).max(64).optional(),
+    when: PolicyConditionSchema,
+    action: z.literal("forbid"),
+    votes: z.array(PolicyVoteSchema).min(1),
+    fallback: PolicyVoteSchema.default("ABSTAIN"),
+  }),
+]);
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema> & { id: string };
+
+/**
+ * Validate `config_json.policy`. Invalid rules are dropped with a warning;
+ * rules without an id are named `rule-<n>` by position.
+ */
+export function parsePolicyRules(raw: unknown): PolicyRule[] {
+  if (!Array.isArray(raw)) return [];
+
+  const rules: PolicyRule[] = [];
+  raw.forEach((candidate, index) => {
+    const result = PolicyRuleSchema.safeParse(candidate);
+    if (!result.success) {
+      console.warn(`[policy] Ignoring invalid policy rule #${index + 1}`, result.error.issues);
+      return;
+    }
+    rules.push({ ...result.data, id: result.data.id ?? `rule-${index + 1}` });
+  });
+  return rules;
+}
+
+// ---------------------------------------------------------------------------
+// Facts + conditions
+// ---------------------------------------------------------------------------
+
+export interface PolicyFacts {
+  /** Decoded proposal transactions; undefined when they couldn't be fetched */
+  transactions?: DecodedProposalTransaction[];
+  /** Deposited tokens of the voting wallet — resolved only if a rule needs it */
+  votingPower: () => Promise<number | null>;
+}
+
+interface ConditionResult {
+  /** null = the facts needed to decide are unavailable */
+  matched: boolean | null;
+  detail: string;
+}
+
+function allInstructions(transactions: DecodedProposalTransaction[]): DecodedInstruction[] {
+  return transactions.flatMap((tx) => tx.instructions);
+}
+
+function hasInstruction(
+  facts: PolicyFacts,
+  predicate: (ix: DecodedInstruction) => boolean,
+  label: string,
+): ConditionResult {
+  if (!facts.transactions) {
+    return { matched: null, detail: "proposal transactions unavailable" };
+  }
+  const count = allInstructions(facts.transactions).filter(predicate).length;
+  return count > 0
+    ? { matched: true, detail: `proposal contains ${count} ${label} instruction${count === 1 ? "" : "s"}` }
+    : { matched: false, detail: `no ${label} instructions` };
+}
+
+async function evaluateCondition(condition: PolicyCondition, facts: PolicyFacts): Promise<ConditionResult> {
+  switch (condition.type) {
+    case "sol_transfer_above": {
+      if (!facts.transactions) {
+        return { matched: null, detail: "proposal transactions unavailable" };
+      }
+      const lamports = allInstructions(facts.transactions)
+        .filter((ix) => ix.program === "system" && ix.type === "transfer")
+        .reduce((sum, ix) => sum + Number(ix.details.lamports ?? 0), 0);
+      const sol = lamports / 1_000_000_000;
+      return {
+        matched: sol > condition.sol,
+        detail: `proposal transfers ${sol} SOL (limit ${condition.sol} SOL)`,
+      };
+    }
+    case "program_upgrade":
+      return hasInstruction(facts, (ix) => ix.program === "bpf-upgradeable-loader" && ix.type === "upgrade", "program upgrade");
+    case "governance_config_change":
+      return hasInstruction(facts, (ix) => ix.type === "setGovernanceConfig", "governance config");
+    case "token_mint":
+      return hasInstruction(facts, (ix) => ix.program === "spl-token" && ix.type.startsWith("mintTo"), "token mint");
+    case "unknown_instruction":
+      return hasInstruction(facts, (ix) => ix.type === "unknown", "unrecognised");
+    case "voting_power_below": {
+      const tokens = await facts.votingPower();
+      if (tokens == null) {
+        return { matched: null, detail: "voting power unavailable" };
+      }
+      return {
+        matched: tokens < condition.tokens,
+        detail: `voting wallet holds ${tokens} tokens in this realm (minimum ${condition.tokens})`,
+      };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+export interface PolicyDecision {
+  ruleId: string;
+  phase: "pre" | "post";
+  vote: ForcedPolicyVote;
+  /** Sentence for the vote reasoning, naming the rule that fired */
+  reason: string;
+}
+
+function unverifiable(rule: PolicyRule, phase: PolicyDecision["phase"], detail: string): PolicyDecision {
+  return {
+    ruleId: rule.id,
+    phase,
+    vote: "ABSTAIN",
+    reason: `Policy rule ${rule.id} could not be verified (${detail}); abstaining.`,
+  };
+}
+
+/** First `force` rule that matches decides the vote before any analysis runs. */
+export async function evaluatePreAnalysisRules(
+  rules: PolicyRule[],
+  facts: PolicyFacts,
+): Promise<PolicyDecision | null> {
+  for (const rule of rules) {
+    if (rule.action !== "force") continue;
+    const result = await evaluateCondition(rule.when, facts);
+    if (result.matched === null) return unverifiable(rule, "pre", result.detail);
+    if (result.matched) {
+      return {
+        ruleId: rule.id,
+        phase: "pre",
+        vote: rule.vote,
+        reason: `Policy rule ${rule.id}: ${result.detail} — voting ${rule.vote}.`,
+      };
+    }
+  }
+  return null;
+}
+
+/** First `forbid` rule that matches and forbids `vote` replaces it with its fallback. */
+export async function evaluatePostAnalysisRules(
+  rules: PolicyRule[],
+  facts: PolicyFacts,
+  vote: PolicyVote,
+): Promise<PolicyDecision | null> {
+  for (const rule of rules) {
+    if (rule.action !== "forbid" || !rule.votes.includes(vote)) continue;
+    const result = await evaluateCondition(rule.when, facts);
+    if (result.matched === null) return unverifiable(rule, "post", result.detail);
+    if (result.matched) {
+      return {
+        ruleId: rule.id,
+        phase: "post",
+        vote: rule.fallback,
+        reason: `Policy rule ${rule.id}: ${result.detail} — ${vote} is not allowed, voting ${rule.fallback} instead.`,
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import { draftProposal } from './ai';
+import { fetchRealm } from './governance';
+import { parseLLMSettings, type LLMSettings } from './llm-providers';
+import {
+  buildCreateProposalTransaction,
+  fitComputeBudget,
+  GovernanceSimulationError,
+  simulateGovernanceTransaction,
+} from './solana-governance';
+import { signAndSendTransaction } from './privy-client';
+import { sendAndTrack, type VoteStatus } from './confirmation-tracker';
+import { AGENT_PERMISSIONS, hasAgentPermission } from './constants';
+import {
+  beginProposalApproval,
+  createProposalDraft,
+  getAgentWalletId,
+  getDelegationsByAgent,
+  releaseProposalApproval,
+  submitProposalDraft,
+  type AgentRow,
+  type DelegationRow,
+  type ProposalDraftRow,
+} from './stdb-client';
+
+// ---------------------------------------------------------------------------
+// Agent-drafted proposals
+//
+// An agent holding a CREATE_PROPOSAL delegation drafts a proposal from a
+// brief; the draft waits in SpacetimeDB until the owner approves it, and
+// only then is the CreateProposal (+ SignOff) transaction signed by Privy.
+// Approval claims the draft (`approving`) before signing, so concurrent
+// approvals create one proposal; a send that never lands hands it back.
+// ---------------------------------------------------------------------------
+
+export const MAX_BRIEF_LENGTH = 4000;
+
+/**
+ * SPL Governance stores `descriptionLink` on-chain, so anything longer has
+ * to be hosted elsewhere and passed as a link on approval.
+ */
+export const MAX_INLINE_DESCRIPTION_LENGTH = 400;
+
+export class ProposalDraftError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'ProposalDraftError';
+    this.statusCode = statusCode;
+  }
+}
+
+/** Active delegation in the realm that lets the agent create proposals */
+export function findProposalDelegation(
+  delegations: DelegationRow[],
+  realmAddress: string,
+): DelegationRow | null {
+  return (
+    delegations.find(
+      (d) =>
+        d.is_active &&
+        d.realm_address === realmAddress &&
+        hasAgentPermission(d.scope_bitmap, AGENT_PERMISSIONS.CREATE_PROPOSAL),
+    ) ?? null
+  );
+}
+
+function agentLLMSettings(agent: AgentRow): LLMSettings | undefined {
+  try {
+    return parseLLMSettings((JSON.parse(agent.config_json) as { llm?: unknown }).llm);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The agent's priority fee cap, shared with its vote transactions */
+function agentMaxPriorityFee(agent: AgentRow): number | undefined {
+  try {
+    const { maxPriorityFeeLamports } = JSON.parse(agent.config_json) as { maxPriorityFeeLamports?: unknown };
+    return typeof maxPriorityFeeLamports === 'number' && maxPriorityFeeLamports >= 0
+      ? maxPriorityFeeLamports
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export interface ProposalDraftResult {
+  draftKey: string;
+  realmAddress: string;
+  governanceAddress: string;
+  title: string;
+  description: string;
+  status: 'pending_approval';
+}
+
+/**
+ * Draft a proposal from `brief` and store it for owner approval. Uses the
+ * realm's first governance unless `governanceAddress` is given.
+ */
+export async function draftProposalFromBrief(params: {
+  agent: AgentRow;
+  realmAddress: string;
+  brief: string;
+  governanceAddress?: string;
+}): Promise<ProposalDraftResult> {
+  const { agent, realmAddress, governanceAddress } = params;
+  const brief = params.brief.trim();
+
+  if (!brief) {
+    throw new ProposalDraftError('Brief must not be empty');
+  }
+  if (brief.length > MAX_BRIEF_LENGTH) {
+    throw new ProposalDraftError(`Brief exceeds ${MAX_BRIEF_LENGTH} characters`);
+  }
+
+  const delegation = findProposalDelegation(await getDelegationsByAgent(agent.id), realmAddress);
+  if (!delegation) {
+    throw new ProposalDraftError(
+      `Agent ${agent.id.toString()} has no active CREATE_PROPOSAL delegation for realm ${realmAddress}`,
+      403,
+    );
+  }
+
+  const { realm, governances } = await fetchRealm(realmAddress);
+  const governance = governanceAddress
+    ? governances.find((g) => g.publicKey.toBase58() === governanceAddress)
+    : governances[0];
+  if (!governance) {
+    throw new ProposalDraftError(
+      governanceAddress
+        ? `Governance ${governanceAddress} does not belong to realm ${realmAddress}`
+        : `Realm ${realmAddress} has no governance accounts`,
+    );
+  }
+
+  const draft = await draftProposal(
+    brief,
+    { realmName: realm.name, agentValues: agent.values_profile },
+    agentLLMSettings(agent),
+  );
+
+  const draftKey = randomUUID();
+  const result = await createProposalDraft({
+    draft_key: draftKey,
+    agent_id: agent.id,
+    realm_address: realmAddress,
+    governance_address: governance.publicKey.toBase58(),
+    governing_token_mint: realm.communityMint.toBase58(),
+    delegator_wallet: delegation.delegator_wallet,
+    brief,
+    title: draft.title,
+    description: draft.description,
+  });
+
+  if (!result.ok) {
+    throw new Error(`Failed to store proposal draft: ${result.error}`);
+  }
+
+  return {
+    draftKey,
+    realmAddress,
+    governanceAddress: governance.publicKey.toBase58(),
+    title: draft.title,
+    description: draft.description,
+    status: 'pending_approval',
+  };
+}
+
+/**
+ * Create an approved draft on-chain: CreateProposal + SignOff in one
+ * transaction, simulated, then signed by the agent's Privy wallet and
+ * tracked until it lands.
+ *
+ * @param descriptionLink - Hosted description; defaults to the drafted text
+ */
+export async function submitApprovedProposal(params: {
+  agent: AgentRow;
+  draft: ProposalDraftRow;
+  descriptionLink?: string;
+}): Promise<{ proposalAddress: string; txSignature: string; status: VoteStatus }> {
+  const { agent, draft } = params;
+
+  if (draft.status !== 'pending_approval') {
+    throw new ProposalDraftError(`Proposal draft is already ${draft.status}`, 409);
+  }
+
+  const walletId = agent.privy_wallet_address ? await getAgentWalletId(agent.id) : null;
+  if (!walletId || !agent.privy_wallet_address) {
+    throw new ProposalDraftError(`Agent ${agent.id.toString()} has no Privy wallet`);
+  }
+
+  // The delegation may have been revoked since the draft was written
+  const delegation = findProposalDelegation(await getDelegationsByAgent(agent.id), draft.realm_address);
+  if (!delegation || delegation.delegator_wallet !== draft.delegator_wallet) {
+    throw new ProposalDraftError(
+      `CREATE_PROPOSAL delegation from ${draft.delegator_wallet} is no longer active`,
+      403,
+    );
+  }
+
+  const descriptionLink = params.descriptionLink?.trim() || draft.description;
+  if (descriptionLink.length > MAX_INLINE_DESCRIPTION_LENGTH) {
+    throw new ProposalDraftError(
+      `Description exceeds ${MAX_INLINE_DESCRIPTION_LENGTH} characters — host it and pass descriptionLink`,
+    );
+  }
+
+  const { serializedTransaction, proposalAddress } = await buildCreateProposalTransaction({
+    realmAddress: draft.realm_address,
+    governanceAddress: draft.governance_address,
+    governingTokenMintAddress: draft.governing_token_mint,
+    proposerWalletAddress: agent.privy_wallet_address,
+    delegatorAddress: draft.delegator_wallet,
+    name: draft.title,
+    descriptionLink,
+    signOff: true,
+  });
+
+  // Only the approval that claims the draft signs; a concurrent one stops here
+  const claim = await beginProposalApproval(draft.draft_key);
+  if (!claim.ok) {
+    throw new ProposalDraftError(`Proposal draft could not be claimed for approval: ${claim.error}`, 409);
+  }
+
+  let tracked: Awaited<ReturnType<typeof sendAndTrack>>;
+  try {
+    // Catch what the program would reject before Privy signs and spends fees
+    const { unitsConsumed } = await simulateGovernanceTransaction(serializedTransaction);
+    const budgeted = fitComputeBudget(serializedTransaction, {
+      unitsConsumed,
+      maxPriorityFeeLamports: agentMaxPriorityFee(agent),
+    });
+    // Wait for it to land, re-signing with a fresh blockhash if it expires first
+    tracked = await sendAndTrack({
+      serializedTransaction: budgeted.serializedTransaction,
+      send: async (serialized) =>
+        (await signAndSendTransaction({
+          walletId,
+          agentId: agent.id.toString(),
+          serializedTransaction: serialized,
+        })).txHash,
+    });
+  } catch (error) {
+    await releaseApproval(draft.draft_key, error instanceof Error ? error.message : String(error));
+    if (error instanceof GovernanceSimulationError) {
+      throw new ProposalDraftError(`SPL Governance would reject the proposal: ${error.message}`, 422);
+    }
+    throw error;
+  }
+
+  if (tracked.status === 'dropped') {
+    await releaseApproval(draft.draft_key, `transaction ${tracked.signature} expired before landing`);
+    throw new ProposalDraftError(
+      `CreateProposal transaction ${tracked.signature} expired before landing — approve again to retry`,
+      503,
+    );
+  }
+
+  const result = await submitProposalDraft({
+    draft_key: draft.draft_key,
+    proposal_address: proposalAddress,
+    tx_signature: tracked.signature,
+  });
+  if (!result.ok) {
+    // The proposal is already on-chain; surface the address rather than fail
+    console.error(`[proposal-drafts] Failed to mark draft ${draft.draft_key} submitted: ${result.error}`);
+  }
+
+  return { proposalAddress, txSignature: tracked.signature, status: tracked.status };
+}
+
+/** Nothing landed — let the owner approve the draft again */
+async function releaseApproval(draftKey: string, reason: string): Promise<void> {
+  const result = await releaseProposalApproval(draftKey, reason);
+  if (!result.ok) {
+    console.error(`[proposal-drafts] Failed to release draft ${draftKey} after a failed send: ${result.error}`);
+  }
+}
@@ -0,0 +1,308 @@
+import type { PublicKey } from '@solana/web3.js';
+import { DEFAULT_PROGRAM_ID } from 'governance-idl-sdk';
+import type { ProposalTransaction } from 'governance-idl-sdk';
+
+// ---------------------------------------------------------------------------
+// Proposal instruction decoder
+//
+// ProposalTransaction accounts hold the instructions a proposal executes if it
+// passes. Known programs are decoded into a readable summary that the AI is
+// told to treat as ground truth; anything else is listed as unknown.
+// ---------------------------------------------------------------------------
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+export const BPF_UPGRADEABLE_LOADER_ID = 'BPFLoaderUpgradeab1e11111111111111111111111';
+
+const SOL_DECIMALS = 9;
+
+export type InstructionProgram =
+  | 'system'
+  | 'spl-token'
+  | 'governance'
+  | 'bpf-upgradeable-loader'
+  | 'unknown';
+
+export interface DecodedInstruction {
+  programId: string;
+  program: InstructionProgram;
+  /** Instruction name, e.g. `transfer`, `mintTo`, `setGovernanceConfig` */
+  type: string;
+  /** One-line human-readable description */
+  summary: string;
+  details: Record<string, string | number | null>;
+}
+
+export interface DecodedProposalTransaction {
+  address: string;
+  optionIndex: number;
+  transactionIndex: number;
+  holdUpTimeSeconds: number;
+  executionStatus: string;
+  executedAt: string | null;
+  instructions: DecodedInstruction[];
+}
+
+export interface RawInstruction {
+  programId: string;
+  accounts: string[];
+  data: Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// Little-endian readers (instruction data is borsh / bincode)
+// ---------------------------------------------------------------------------
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  private view(size: number): DataView {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError('Instruction data too short');
+    }
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, size);
+    this.offset += size;
+    return view;
+  }
+
+  u8(): number {
+    return this.view(1).getUint8(0);
+  }
+
+  u32(): number {
+    return this.view(4).getUint32(0, true);
+  }
+
+  /** u64 as a bigint — token amounts exceed Number.MAX_SAFE_INTEGER */
+  u64(): bigint {
+    const view = this.view(8);
+    return BigInt(view.getUint32(0, true)) + (BigInt(view.getUint32(4, true)) << BigInt(32));
+  }
+}
+
+function formatUnits(amount: bigint, decimals: number): string {
+  if (decimals === 0) return amount.toString();
+  const base = BigInt(10) ** BigInt(decimals);
+  const whole = amount / base;
+  const fraction = (amount % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${whole.toString()}.${fraction}` : whole.toString();
+}
+
+function formatSol(lamports: bigint): string {
+  return `${formatUnits(lamports, SOL_DECIMALS)} SOL`;
+}
+
+// ---------------------------------------------------------------------------
+// Program decoders — return null for instructions they don't recognise
+// ---------------------------------------------------------------------------
+
+type DecodedFields = Omit<DecodedInstruction, 'programId' | 'program'>;
+
+type Decoder = (ix: RawInstruction) => DecodedFields | null;
+
+const decodeSystem: Decoder = ({ accounts, data }) => {
+  const reader = new ByteReader(data);
+  if (reader.u32() !== 2) return null; // SystemInstruction::Transfer
+  const lamports = reader.u64();
+  return {
+    type: 'transfer',
+    summary: `Transfer ${formatSol(lamports)} from ${accounts[0]} to ${accounts[1]}`,
+    details: { from: accounts[0] ?? null, to: accounts[1] ?? null, lamports: lamports.toString() },
+  };
+};
+
+const decodeToken: Decoder = ({ accounts, data }): DecodedFields | null => {
+  const reader = new ByteReader(data);
+  switch (reader.u8()) {
+    case 3: {
+      const amount = reader.u64();
+      return {
+        type: 'transfer',
+        summary: `Transfer ${amount.toString()} base units of tokens from ${accounts[0]} to ${accounts[1]}`,
+        details: { source: accounts[0] ?? null, destination: accounts[1] ?? null, authority: accounts[2] ?? null, amount: amount.toString() },
+      };
+    }
+    case 12: {
+      const amount = reader.u64();
+      const decimals = reader.u8();
+      return {
+        type: 'transferChecked',
+        summary: `Transfer ${formatUnits(amount, decimals)} of mint ${accounts[1]} from ${accounts[0]} to ${accounts[2]}`,
+        details: { source: accounts[0] ?? null, mint: accounts[1] ?? null, destination: accounts[2] ?? null, authority: accounts[3] ?? null, amount: amount.toString(), decimals },
+      };
+    }
+    case 7: {
+      const amount = reader.u64();
+      return {
+        type: 'mintTo',
+        summary: `Mint ${amount.toString()} base units of ${accounts[0]} to ${accounts[1]}`,
+        details: { mint: accounts[0] ?? null, destination: accounts[1] ?? null, authority: accounts[2] ?? null, amount: amount.toString() },
+      };
+    }
+    case 14: {
+      const amount = reader.u64();
+      const decimals = reader.u8();
+      return {
+        type: 'mintToChecked',
+        summary: `Mint ${formatUnits(amount, decimals)} of ${accounts[0]} to ${accounts[1]}`,
+        details: { mint: accounts[0] ?? null, destination: accounts[1] ?? null, authority: accounts[2] ?? null, amount: amount.toString(), decimals },
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+const VOTE_TIPPING = ['strict', 'early', 'disabled'];
+
+function readVoteThreshold(reader: ByteReader): string {
+  switch (reader.u8()) {
+    case 0: return `yes ${reader.u8()}%`;
+    case 1: return `quorum ${reader.u8()}%`;
+    default: return 'disabled';
+  }
+}
+
+const decodeGovernance: Decoder = ({ accounts, data }) => {
+  const reader = new ByteReader(data);
+  if (reader.u8() !== 19) return null; // GovernanceInstruction::SetGovernanceConfig
+
+  const details: DecodedInstruction['details'] = {
+    governance: accounts[0] ?? null,
+    communityVoteThreshold: readVoteThreshold(reader),
+    minCommunityWeightToCreateProposal: reader.u64().toString(),
+    minTransactionHoldUpTime: reader.u32(),
+    votingBaseTime: reader.u32(),
+    communityVoteTipping: VOTE_TIPPING[reader.u8()] ?? 'unknown',
+    councilVoteThreshold: readVoteThreshold(reader),
+    councilVetoVoteThreshold: readVoteThreshold(reader),
+    minCouncilWeightToCreateProposal: reader.u64().toString(),
+    councilVoteTipping: VOTE_TIPPING[reader.u8()] ?? 'unknown',
+    communityVetoVoteThreshold: readVoteThreshold(reader),
+    votingCoolOffTime: reader.u32(),
+    depositExemptProposalCount: reader.u8(),
+  };
+
+  return {
+    type: 'setGovernanceConfig',
+    summary: `Change governance ${accounts[0]} config: community threshold ${details.communityVoteThreshold}, council threshold ${details.councilVoteThreshold}, voting time ${details.votingBaseTime}s, hold-up ${details.minTransactionHoldUpTime}s`,
+    details,
+  };
+};
+
+const decodeUpgradeableLoader: Decoder = ({ accounts, data }) => {
+  const reader = new ByteReader(data);
+  if (reader.u32() !== 3) return null; // UpgradeableLoaderInstruction::Upgrade
+  // Accounts: programData, program, buffer, spill, rent, clock, authority
+  return {
+    type: 'upgrade',
+    summary: `Upgrade program ${accounts[1]} with buffer ${accounts[2]} (authority ${accounts[6]})`,
+    details: { program: accounts[1] ?? null, programData: accounts[0] ?? null, buffer: accounts[2] ?? null, authority: accounts[6] ?? null },
+  };
+};
+
+function programFor(programId: string, governanceProgramId: string): [InstructionProgram, Decoder | null] {
+  switch (programId) {
+    case SYSTEM_PROGRAM_ID: return ['system', decodeSystem];
+    case TOKEN_PROGRAM_ID:
+    case TOKEN_2022_PROGRAM_ID: return ['spl-token', decodeToken];
+    case governanceProgramId: return ['governance', decodeGovernance];
+    case BPF_UPGRADEABLE_LOADER_ID: return ['bpf-upgradeable-loader', decodeUpgradeableLoader];
+    default: return ['unknown', null];
+  }
+}
+
+/**
+ * Decode one instruction. Unrecognised programs, instruction variants and
+ * malformed data all come back as a readable "unknown" entry.
+ */
+export function decodeInstruction(
+  ix: RawInstruction,
+  governanceProgramId: string = DEFAULT_PROGRAM_ID.toBase58(),
+): DecodedInstruction {
+  const [program, decoder] = programFor(ix.programId, governanceProgramId);
+
+  try {
+    const decoded = decoder?.(ix);
+    if (decoded) return { programId: ix.programId, program, ...decoded };
+  } catch {
+    // Malformed data — fall through to the unknown entry
+  }
+
+  return {
+    programId: ix.programId,
+    program,
+    type: 'unknown',
+    summary: `Unrecognised ${program === 'unknown' ? '' : `${program} `}instruction to program ${ix.programId} (${ix.data.length} bytes, ${ix.accounts.length} accounts)`,
+    details: { accounts: ix.accounts.join(',') },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ProposalTransaction accounts
+// ---------------------------------------------------------------------------
+
+interface PublicKeyLike {
+  toBase58(): string;
+}
+
+interface ProposalTransactionFields {
+  publicKey: PublicKey;
+  optionIndex?: number;
+  transactionIndex?: number;
+  holdUpTime?: number;
+  executionStatus?: Record<string, unknown>;
+  executedAt?: { toNumber(): number } | null;
+  instructions?: Array<{
+    programId: PublicKeyLike;
+    accounts?: Array<{ pubkey: PublicKeyLike }>;
+    data?: Uint8Array | number[];
+  }>;
+}
+
+export function decodeProposalTransaction(
+  tx: ProposalTransaction,
+  governanceProgramId?: string,
+): DecodedProposalTransaction {
+  const fields = tx as unknown as ProposalTransactionFields;
+  const executedAt = fields.executedAt?.toNumber() ?? 0;
+
+  return {
+    address: fields.publicKey.toBase58(),
+    optionIndex: fields.optionIndex ?? 0,
+    transactionIndex: fields.transactionIndex ?? 0,
+    holdUpTimeSeconds: fields.holdUpTime ?? 0,
+    executionStatus: Object.keys(fields.executionStatus ?? {})[0] ?? 'unknown',
+    executedAt: executedAt ? new Date(executedAt * 1000).toISOString() : null,
+    instructions: (fields.instructions ?? []).map((ix) =>
+      decodeInstruction(
+        {
+          programId: ix.programId.toBase58(),
+          accounts: (ix.accounts ?? []).map((a) => a.pubkey.toBase58()),
+          data: Uint8Array.from(ix.data ?? []),
+        },
+        governanceProgramId,
+      ),
+    ),
+  };
+}
+
+/** Decode and order transactions by option, then execution index. */
+export function decodeProposalTransactions(
+  txs: ProposalTransaction[],
+  governanceProgramId?: string,
+): DecodedProposalTransaction[] {
+  return txs
+    .map((tx) => decodeProposalTransaction(tx, governanceProgramId))
+    .sort((a, b) => a.optionIndex - b.optionIndex || a.transactionIndex - b.transactionIndex);
+}
+
+/** Flatten decoded transactions into prompt lines, one per instruction. */
+export function summarizeProposalInstructions(txs: DecodedProposalTransaction[]): string[] {
+  return txs.flatMap((tx) =>
+    tx.instructions.map((ix, i) => `[option ${tx.optionIndex}, tx ${tx.transactionIndex}.${i}] ${ix.summary}`),
+  );
+}
@@ -0,0 +1,239 @@
+// ---------------------------------------------------------------------------
+// Multi-option proposals
+//
+// SPL Governance proposals carry one or more named options. A single-option
+// proposal is the familiar yes/no vote; with several options the approve
+// ballot gives every option a weight percentage, in option order:
+//   - single choice: exactly one option at 100
+//   - multi choice, full weight: each chosen option at 100
+//   - multi choice, weighted: the chosen options' weights sum to 100
+// The program does not accept ranked ballots yet (every `rank` must be 0), so
+// ranks only decide which options make it onto a ballot capped by
+// `maxVoterOptions`.
+// ---------------------------------------------------------------------------
+
+export interface ProposalOptionSummary {
+  index: number;
+  label: string;
+  voteWeight: number;
+  /** 'none' while voting, then 'succeeded' or 'defeated' */
+  voteResult: string;
+}
+
+export interface ProposalVoteType {
+  choiceType: 'single' | 'multi';
+  /** Only set for multi-choice proposals */
+  multiChoiceType: 'fullWeight' | 'weighted' | null;
+  minVoterOptions: number;
+  maxVoterOptions: number;
+  maxWinningOptions: number;
+}
+
+/** An analyst's pick among a proposal's options, by label */
+export interface OptionChoice {
+  option: string;
+  /** 0-100 share of voting weight; only meaningful for weighted proposals */
+  weight?: number;
+  /** 1 = most preferred */
+  rank?: number;
+}
+
+/** Option choices that don't fit the proposal's options or vote type */
+export class OptionChoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OptionChoiceError';
+  }
+}
+
+export const SINGLE_CHOICE_VOTE_TYPE: ProposalVoteType = {
+  choiceType: 'single',
+  multiChoiceType: null,
+  minVoterOptions: 1,
+  maxVoterOptions: 1,
+  maxWinningOptions: 1,
+};
+
+// ---------------------------------------------------------------------------
+// Decoding (Anchor enum/struct shapes → plain JSON)
+// ---------------------------------------------------------------------------
+
+interface ProposalOptionFields {
+  label?: string;
+  voteWeight?: { toNumber(): number } | null;
+  voteResult?: unknown;
+}
+
+interface MultiChoiceFields {
+  choiceType?: unknown;
+  minVoterOptions?: number;
+  maxVoterOptions?: number;
+  maxWinningOptions?: number;
+}
+
+/** First key of an Anchor enum value, e.g. `{ succeeded: {} }` → `succeeded` */
+function enumVariant(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return null;
+  return Object.keys(value)[0] ?? null;
+}
+
+/** ProposalV2 `options` as plain JSON; weights stay in raw token units */
+export function parseProposalOptions(raw: unknown): ProposalOptionSummary[] {
+  if (!Array.isArray(raw)) return [];
+  return (raw as ProposalOptionFields[]).map((option, index) => {
+    let voteWeight = 0;
+    try {
+      voteWeight = option.voteWeight?.toNumber() ?? 0;
+    } catch {
+      voteWeight = 0;
+    }
+    return {
+      index,
+      label: option.label ?? `Option ${index + 1}`,
+      voteWeight,
+      voteResult: enumVariant(option.voteResult) ?? 'none',
+    };
+  });
+}
+
+/**
+ * ProposalV2 `voteType`: `{ singleChoice: {} }` or
+ * `{ multiChoice: { choiceType: { weighted: {} }, minVoterOptions, ... } }`.
+ */
+export function parseVoteType(raw: unknown): ProposalVoteType {
+  if (enumVariant(raw) !== 'multiChoice') return SINGLE_CHOICE_VOTE_TYPE;
+
+  const fields = (raw as { multiChoice: MultiChoiceFields }).multiChoice ?? {};
+  return {
+    choiceType: 'multi',
+    multiChoiceType: enumVariant(fields.choiceType) === 'weighted' ? 'weighted' : 'fullWeight',
+    minVoterOptions: fields.minVoterOptions ?? 1,
+    maxVoterOptions: fields.maxVoterOptions ?? 1,
+    maxWinningOptions: fields.maxWinningOptions ?? 1,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Ballots
+// ---------------------------------------------------------------------------
+
+/** More than one option: approving needs an explicit choice among them */
+export function isMultiOptionProposal(proposal: {
+  options?: ProposalOptionSummary[];
+  voteType?: ProposalVoteType;
+}): boolean {
+  return (proposal.options?.length ?? 0) > 1 || proposal.voteType?.choiceType === 'multi';
+}
+
+function findOption(options: ProposalOptionSummary[], label: string): ProposalOptionSummary {
+  const wanted = label.trim().toLowerCase();
+  const option = options.find((o) => o.label.trim().toLowerCase() === wanted);
+  if (!option) {
+    throw new OptionChoiceError(
+      `Unknown proposal option "${label}". Expected one of: ${options.map((o) => o.label).join(', ')}`,
+    );
+  }
+  return option;
+}
+
+/** Split 100 across `weights` proportionally, rounding so the parts still sum to 100 */
+function toPercentages(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const exact = weights.map((w) => (w / total) * 100);
+  const floored = exact.map(Math.floor);
+  let remainder = 100 - floored.reduce((sum, w) => sum + w, 0);
+
+  const byFraction = exact
+    .map((value, i) => ({ i, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { i } of byFraction) {
+    if (remainder <= 0) break;
+    floored[i] += 1;
+    remainder -= 1;
+  }
+  return floored;
+}
+
+/**
+ * Resolve `choices` into the approve ballot for a proposal: the chosen options
+ * with the weight percentage each receives. Throws when the choices don't fit
+ * the proposal's vote type.
+ */
+export function resolveOptionBallot(
+  options: ProposalOptionSummary[],
+  voteType: ProposalVoteType,
+  choices: OptionChoice[],
+): Array<OptionChoice & { weight: number }> {
+  const picked = choices
+    .filter((choice) => choice.weight == null || choice.weight > 0)
+    .map((choice, order) => ({ choice, order, option: findOption(options, choice.option) }));
+
+  const seen = new Set<number>();
+  for (const { option } of picked) {
+    if (seen.has(option.index)) {
+      throw new OptionChoiceError(`Option "${option.label}" was chosen more than once`);
+    }
+    seen.add(option.index);
+  }
+
+  // Lower rank first; unranked choices keep their order after the ranked ones
+  const ranked = [...picked].sort((a, b) =>
+    (a.choice.rank ?? Infinity) - (b.choice.rank ?? Infinity) || a.order - b.order,
+  );
+
+  if (picked.length === 0) {
+    throw new OptionChoiceError('No proposal option was chosen');
+  }
+
+  if (voteType.choiceType === 'single') {
+    // A ranking picks its first choice; unranked alternatives are ambiguous
+    if (picked.length > 1 && picked.every(({ choice }) => choice.rank == null)) {
+      throw new OptionChoiceError(`Single-choice proposal takes exactly one option, got ${picked.length}`);
+    }
+    return [{ option: ranked[0].option.label, weight: 100 }];
+  }
+
+  const ballot = ranked.slice(0, Math.max(voteType.maxVoterOptions, 1));
+  if (ballot.length < Math.max(voteType.minVoterOptions, 1)) {
+    throw new OptionChoiceError(
+      `Proposal needs at least ${Math.max(voteType.minVoterOptions, 1)} option(s), got ${ballot.length}`,
+    );
+  }
+
+  if (voteType.multiChoiceType === 'weighted') {
+    // Unweighted choices share the vote evenly
+    const percentages = toPercentages(ballot.map(({ choice }) => choice.weight ?? 1));
+    return ballot.map(({ option }, i) => ({ option: option.label, weight: percentages[i] }));
+  }
+
+  return ballot.map(({ option }) => ({ option: option.label, weight: 100 }));
+}
+
+/** Weight percentage for every option, in option order, as CastVote expects */
+export function toOptionWeights(
+  options: ProposalOptionSummary[],
+  ballot: OptionChoice[],
+): number[] {
+  return options.map((option) => {
+    const choice = ballot.find((c) => c.option.trim().toLowerCase() === option.label.trim().toLowerCase());
+    return choice?.weight ?? 0;
+  });
+}
+
+/** Choices stored as `choices_json`; undefined when unset or unreadable */
+export function parseOptionChoices(raw: string | null | undefined): OptionChoice[] | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as OptionChoice[]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** One-line summary of a ballot, e.g. `Option A 60%, Option B 40%` */
+export function formatOptionBallot(ballot: OptionChoice[]): string {
+  return ballot
+    .map((choice) => (choice.weight != null ? `${choice.option} ${choice.weight}%` : choice.option))
+    .join(', ');
+}
@@ -0,0 +1,261 @@
+import { createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { SOLANA_CHAIN_CONFIG } from './constants';
+
+// ---------------------------------------------------------------------------
+// Sign-In-With-Solana
+//
+// For frontends and bots that hold a wallet but no Privy session:
+//   1. GET /api/auth/siws/nonce?address= returns a message to sign
+//   2. the wallet signs its UTF-8 bytes (ed25519, as `signMessage` does)
+//   3. POST /api/auth/siws/verify checks the signature and returns a
+//      short-lived session token that verifyAuth accepts like a Privy token
+// Nonces and session tokens are HMAC'd with SIWS_SESSION_SECRET, so any
+// instance can check them without shared state.
+// ---------------------------------------------------------------------------
+
+export const SIWS_STATEMENT = 'Sign in to ClawdDAO with this wallet.';
+
+/** Prefix of session tokens, so verifyAuth can tell them from Privy JWTs */
+export const SIWS_TOKEN_PREFIX = 'siws.';
+
+/** Prefix of the userId verifyAuth returns for a SIWS session */
+export const SIWS_USER_PREFIX = 'siws:';
+
+const NONCE_TTL_MS = 5 * 60_000;
+const SESSION_TTL_MS = 15 * 60_000;
+
+export class SiwsError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 401) {
+    super(message);
+    this.name = 'SiwsError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface SiwsMessage {
+  /** Host the message is for; checked against the host verifying it */
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  /** ISO 8601 */
+  issuedAt: string;
+  /** ISO 8601; the signed message is rejected after this */
+  expirationTime: string;
+}
+
+export interface SiwsSession {
+  address: string;
+  /** Epoch ms */
+  expiresAt: number;
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SIWS_SESSION_SECRET;
+  if (!secret) {
+    throw new SiwsError('Sign-in with Solana not configured. Set SIWS_SESSION_SECRET.', 500);
+  }
+  return secret;
+}
+
+function hmac(data: string): Buffer {
+  return createHmac('sha256', getSessionSecret()).update(data).digest();
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function parseAddress(address: string): PublicKey {
+  try {
+    return new PublicKey(address);
+  } catch {
+    throw new SiwsError(`Invalid wallet address: ${address}`, 400);
+  }
+}
+
+/** Binds the random part of a nonce to the wallet and expiry it was issued for */
+function nonceMac(address: string, random: string, expirationTime: string): string {
+  return hmac(`nonce:${address}:${random}:${expirationTime}`).subarray(0, 16).toString('hex');
+}
+
+// ─── Messages ────────────────────────────────────────────────────────────────
+
+export function formatSiwsMessage(message: SiwsMessage): string {
+  return [
+    `${message.domain} wants you to sign in with your Solana account:`,
+    message.address,
+    '',
+    message.statement,
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+    `Expiration Time: ${message.expirationTime}`,
+  ].join('\n');
+}
+
+export function parseSiwsMessage(text: string): SiwsMessage {
+  const lines = text.split('\n');
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Solana account:$/);
+  if (!header || lines.length !== 11 || lines[2] !== '' || lines[4] !== '') {
+    throw new SiwsError('Malformed sign-in message', 400);
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of lines.slice(5)) {
+    const match = line.match(/^([A-Za-z ]+): (.+)$/);
+    if (!match) throw new SiwsError('Malformed sign-in message', 400);
+    fields[match[1]] = match[2];
+  }
+
+  const required = ['URI', 'Version', 'Chain ID', 'Nonce', 'Issued At', 'Expiration Time'];
+  const missing = required.filter((field) => !fields[field]);
+  if (missing.length > 0) {
+    throw new SiwsError(`Sign-in message is missing: ${missing.join(', ')}`, 400);
+  }
+
+  return {
+    domain: header[1],
+    address: lines[1],
+    statement: lines[3],
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId: Number(fields['Chain ID']),
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time'],
+  };
+}
+
+/** A fresh message for `address` to sign, valid for five minutes */
+export function createSiwsMessage(params: {
+  domain: string;
+  uri: string;
+  address: string;
+  now?: number;
+}): SiwsMessage {
+  const address = parseAddress(params.address).toBase58();
+  const now = params.now ?? Date.now();
+  const expirationTime = new Date(now + NONCE_TTL_MS).toISOString();
+  const random = randomBytes(16).toString('hex');
+
+  return {
+    domain: params.domain,
+    address,
+    statement: SIWS_STATEMENT,
+    uri: params.uri,
+    version: '1',
+    chainId: SOLANA_CHAIN_CONFIG.chainId,
+    nonce: random + nonceMac(address, random, expirationTime),
+    issuedAt: new Date(now).toISOString(),
+    expirationTime,
+  };
+}
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+/**
+ * Nonces already exchanged for a session, until they expire. Per instance:
+ * a replay on another instance still needs the signed message, and only
+ * yields a session for the same wallet.
+ */
+const usedNonces = new Map<string, number>();
+
+/**
+ * Check a signed sign-in message: it must be one this server issued for
+ * `domain`, unexpired and unused, and `signature` (base64) must be the
+ * ed25519 signature of its UTF-8 bytes by the wallet it names.
+ */
+export function verifySiwsMessage(params: {
+  message: string;
+  signature: string;
+  domain: string;
+  now?: number;
+}): SiwsMessage {
+  const now = params.now ?? Date.now();
+  const message = parseSiwsMessage(params.message);
+  const publicKey = parseAddress(message.address);
+
+  if (message.domain !== params.domain) {
+    throw new SiwsError(`Sign-in message is for ${message.domain}, not ${params.domain}`);
+  }
+  if (message.chainId !== SOLANA_CHAIN_CONFIG.chainId) {
+    throw new SiwsError(`Sign-in message is for chain ${message.chainId}, not ${SOLANA_CHAIN_CONFIG.chainId}`);
+  }
+
+  const random = message.nonce.slice(0, 32);
+  const mac = Buffer.from(message.nonce.slice(32), 'hex');
+  if (!safeEqual(mac, Buffer.from(nonceMac(message.address, random, message.expirationTime), 'hex'))) {
+    throw new SiwsError('Unknown sign-in nonce');
+  }
+
+  const expiresAt = Date.parse(message.expirationTime);
+  if (!(expiresAt > now)) {
+    throw new SiwsError('Sign-in message expired');
+  }
+
+  for (const [nonce, expiry] of usedNonces) {
+    if (expiry <= now) usedNonces.delete(nonce);
+  }
+  if (usedNonces.has(message.nonce)) {
+    throw new SiwsError('Sign-in nonce already used');
+  }
+
+  const key = createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey.toBytes()).toString('base64url') },
+    format: 'jwk',
+  });
+  const signature = Buffer.from(params.signature, 'base64');
+  if (signature.length !== 64 || !verify(null, Buffer.from(params.message, 'utf8'), key, signature)) {
+    throw new SiwsError('Invalid signature');
+  }
+
+  usedNonces.set(message.nonce, expiresAt);
+  return message;
+}
+
+// ─── Sessions ────────────────────────────────────────────────────────────────
+
+/** A session token proving control of `address` for fifteen minutes */
+export function issueSiwsSession(address: string, now = Date.now()): SiwsSession & { token: string } {
+  const expiresAt = now + SESSION_TTL_MS;
+  const payload = Buffer.from(JSON.stringify({ sub: address, exp: expiresAt })).toString('base64url');
+  const token = `${SIWS_TOKEN_PREFIX}${payload}.${hmac(`session:${payload}`).toString('base64url')}`;
+
+  return { token, address, expiresAt };
+}
+
+export function isSiwsSessionToken(token: string): boolean {
+  return token.startsWith(SIWS_TOKEN_PREFIX);
+}
+
+export function verifySiwsSession(token: string, now = Date.now()): SiwsSession {
+  const [payload, mac] = token.slice(SIWS_TOKEN_PREFIX.length).split('.');
+  if (!payload || !mac || !safeEqual(Buffer.from(mac, 'base64url'), hmac(`session:${payload}`))) {
+    throw new SiwsError('Invalid session token');
+  }
+
+  const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as {
+    sub: string;
+    exp: number;
+  };
+  if (exp <= now) {
+    throw new SiwsError('Session token expired');
+  }
+
+  return { address: sub, expiresAt: exp };
+}
+
+/** Reset the used-nonce set — used by tests only */
+export function _resetSiwsNonces(): void {
+  usedNonces.clear();
+}
@@ -11,12 +11,28 @@
 
 import {
   Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
   PublicKey,
   Transaction,
+  TransactionInstruction,
+  ComputeBudgetInstruction,
   ComputeBudgetProgram,
 } from '@solana/web3.js';
 import { SplGovernance } from 'governance-idl-sdk';
-import { getConnection, getGovernanceClient } from './governance';
+import { fetchVoterWeightPlugin, getConnection, getGovernanceClient } from './governance';
+import {
+  isMultiOptionProposal,
+  OptionChoiceError,
+  parseProposalOptions,
+  parseVoteType,
+  resolveOptionBallot,
+  toOptionWeights,
+  type OptionChoice,
+  type ProposalOptionSummary,
+  type ProposalVoteType,
+} from './proposal-options';
+import { buildVoterWeightInstructions, type VoterWeightInstructions } from './voter-weight-plugins';
 
 // Re-export the Vote type from the IDL (Anchor enum format)
 // Vote variants: { approve: [[{ rank: 0, weightPercentage: 100 }]] } | { deny: {} } | { abstain: {} } | { veto: {} }
@@ -28,13 +44,18 @@ type Vote = Parameters<SplGovernance['castVoteInstruction']>[0];
 
 /**
  * Map a simple vote string to the SPL Governance Vote type.
+ *
+ * `optionWeights` gives an approve vote one weight percentage per proposal
+ * option, in option order; without it the vote approves a single option.
  */
-export function toVoteType(vote: string): Vote {
+export function toVoteType(vote: string, optionWeights?: number[]): Vote {
   switch (vote.toLowerCase()) {
     case 'for':
     case 'approve':
-    case 'yes':
-      return { approve: [[{ rank: 0, weightPercentage: 100 }]] } as Vote;
+    case 'yes': {
+      const choices = (optionWeights ?? [100]).map((weightPercentage) => ({ rank: 0, weightPercentage }));
+      return { approve: [choices] } as Vote;
+    }
     case 'against':
     case 'deny':
     case 'no':
@@ -68,14 +89,130 @@ async function serializeUnsigned(
   return Buffer.from(serialized).toString('base64');
 }
 
+// ---------------------------------------------------------------------------
+// Priority fees + compute budget
+// ---------------------------------------------------------------------------
+
+/** Price of compute, in microLamports per CU, for a transaction writing `writableAccounts` */
+export type PriorityFeeEstimator = (
+  connection: Connection,
+  writableAccounts: PublicKey[],
+) => Promise<number>;
+
+/** Price used when the estimator fails, and the range an estimate is clamped to */
+const DEFAULT_PRIORITY_FEE_MICROLAMPORTS = 50_000;
+const MIN_PRIORITY_FEE_MICROLAMPORTS = 1_000;
+const MAX_PRIORITY_FEE_MICROLAMPORTS = 5_000_000;
+/** Lamports charged per signature regardless of priority */
+const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5_000;
+/** Headroom over the compute units a simulation consumed */
+const COMPUTE_UNIT_MARGIN = 1.2;
+
 /**
- * Add priority fee instructions for reliable landing.
+ * 75th percentile of the prioritization fees landed in recent slots by
+ * transactions locking the same writable accounts.
  */
-function addPriorityFee(tx: Transaction): void {
-  tx.add(
-    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 50_000 }),
-    ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
-  );
+export const recentPrioritizationFeeEstimator: PriorityFeeEstimator = async (connection, writableAccounts) => {
+  const fees = (await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts }))
+    .map((fee) => fee.prioritizationFee)
+    .sort((a, b) => a - b);
+  if (fees.length === 0) return DEFAULT_PRIORITY_FEE_MICROLAMPORTS;
+  return fees[Math.min(fees.length - 1, Math.floor(fees.length * 0.75))];
+};
+
+let _priorityFeeEstimator: PriorityFeeEstimator = recentPrioritizationFeeEstimator;
+
+/** Swap how transactions built here price compute (e.g. a Helius or Triton fee API) */
+export function setPriorityFeeEstimator(estimator: PriorityFeeEstimator | null): void {
+  _priorityFeeEstimator = estimator ?? recentPrioritizationFeeEstimator;
+}
+
+async function estimatePriorityFee(connection: Connection, writableAccounts: PublicKey[]): Promise<number> {
+  try {
+    const estimate = await _priorityFeeEstimator(connection, writableAccounts);
+    return Math.min(MAX_PRIORITY_FEE_MICROLAMPORTS, Math.max(MIN_PRIORITY_FEE_MICROLAMPORTS, Math.ceil(estimate)));
+  } catch (error) {
+    console.warn('[solana-governance] Priority fee estimate failed, using the default', error);
+    return DEFAULT_PRIORITY_FEE_MICROLAMPORTS;
+  }
+}
+
+function computeBudgetInstructions(computeUnits: number, microLamports: number): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+  ];
+}
+
+function writableAccounts(tx: Transaction): PublicKey[] {
+  const keys = new Map<string, PublicKey>();
+  for (const ix of tx.instructions) {
+    for (const key of ix.keys) {
+      if (key.isWritable && !key.isSigner) keys.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  return [...keys.values()];
+}
+
+/**
+ * Prepend priority fee instructions for reliable landing, pricing compute
+ * from recent fees on the accounts `tx` writes. Call once every other
+ * instruction is added.
+ */
+async function addPriorityFee(tx: Transaction, connection: Connection, computeUnits = 200_000): Promise<void> {
+  const microLamports = await estimatePriorityFee(connection, writableAccounts(tx));
+  tx.instructions.unshift(...computeBudgetInstructions(computeUnits, microLamports));
+}
+
+/** Compute budget a transaction was sent with, and the fee it pays */
+export interface ComputeBudget {
+  computeUnitLimit: number;
+  microLamports: number;
+  /** Base fee plus priority fee, in lamports */
+  feeLamports: number;
+}
+
+function feeLamports(signatures: number, computeUnitLimit: number, microLamports: number): number {
+  return signatures * BASE_FEE_LAMPORTS_PER_SIGNATURE + Math.ceil((computeUnitLimit * microLamports) / 1_000_000);
+}
+
+/**
+ * Tighten an unsigned transaction's compute budget: the limit to what
+ * simulation consumed plus headroom (kept as built when unknown), and the
+ * price down so the priority fee stays within `maxPriorityFeeLamports`.
+ */
+export function fitComputeBudget(
+  serializedTransaction: string,
+  options: { unitsConsumed: number | null; maxPriorityFeeLamports?: number },
+): ComputeBudget & { serializedTransaction: string } {
+  const tx = Transaction.from(Buffer.from(serializedTransaction, 'base64'));
+  const budget = tx.instructions.filter((ix) => ix.programId.equals(ComputeBudgetProgram.programId));
+  const rest = tx.instructions.filter((ix) => !ix.programId.equals(ComputeBudgetProgram.programId));
+
+  let computeUnitLimit = MAX_TRANSACTION_COMPUTE_UNITS;
+  let microLamports = 0;
+  for (const ix of budget) {
+    const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+    if (type === 'SetComputeUnitLimit') computeUnitLimit = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+    if (type === 'SetComputeUnitPrice') microLamports = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports);
+  }
+
+  if (options.unitsConsumed) {
+    computeUnitLimit = Math.min(MAX_TRANSACTION_COMPUTE_UNITS, Math.ceil(options.unitsConsumed * COMPUTE_UNIT_MARGIN));
+  }
+  if (options.maxPriorityFeeLamports !== undefined) {
+    const affordable = Math.floor((options.maxPriorityFeeLamports * 1_000_000) / computeUnitLimit);
+    microLamports = Math.min(microLamports, affordable);
+  }
+
+  tx.instructions = [...computeBudgetInstructions(computeUnitLimit, microLamports), ...rest];
+  const serialized = tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+  return {
+    serializedTransaction: Buffer.from(serialized).toString('base64'),
+    computeUnitLimit,
+    microLamports,
+    feeLamports: feeLamports(tx.signatures.length, computeUnitLimit, microLamports),
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -87,6 +224,8 @@ interface ProposalInfo {
   governanceAddress: PublicKey;
   governingTokenMint: PublicKey;
   proposalOwnerTokenOwnerRecord: PublicKey;
+  options: ProposalOptionSummary[];
+  voteType: ProposalVoteType;
 }
 
 /**
@@ -110,6 +249,8 @@ export async function getProposalInfo(
     governingTokenMint: PublicKey;
     tokenOwnerRecord: PublicKey;
     realm?: PublicKey;
+    options?: unknown;
+    voteType?: unknown;
   };
 
   if (!p.governance || !p.governingTokenMint || !p.tokenOwnerRecord) {
@@ -137,9 +278,157 @@ export async function getProposalInfo(
     governanceAddress: p.governance,
     governingTokenMint: p.governingTokenMint,
     proposalOwnerTokenOwnerRecord: p.tokenOwnerRecord,
+    options: parseProposalOptions(p.options),
+    voteType: parseVoteType(p.voteType),
   };
 }
 
+/**
+ * Resolve the option choices of an approve vote against the proposal.
+ * Single-option proposals need none; a multi-option proposal can't be
+ * approved without them.
+ */
+function resolveApproveBallot(
+  proposalAddress: string,
+  info: ProposalInfo,
+  choices?: OptionChoice[],
+): { ballot: OptionChoice[]; optionWeights: number[] } | null {
+  if (!choices?.length) {
+    if (isMultiOptionProposal(info)) {
+      throw new OptionChoiceError(
+        `Proposal ${proposalAddress} has ${info.options.length} options — choose among them to vote for it`,
+      );
+    }
+    return null;
+  }
+
+  const ballot = resolveOptionBallot(info.options, info.voteType, choices);
+  return { ballot, optionWeights: toOptionWeights(info.options, ballot) };
+}
+
+/** SPL Governance vote for a direction, with the option ballot when approving */
+function buildVote(
+  proposalAddress: string,
+  info: ProposalInfo,
+  voteDirection: string,
+  choices?: OptionChoice[],
+): { vote: Vote; ballot: OptionChoice[] | null } {
+  const vote = toVoteType(voteDirection);
+  if (!('approve' in vote)) return { vote, ballot: null };
+
+  const approval = resolveApproveBallot(proposalAddress, info, choices);
+  return approval
+    ? { vote: toVoteType(voteDirection, approval.optionWeights), ballot: approval.ballot }
+    : { vote, ballot: null };
+}
+
+/** Governing token owner the voter acts for: the delegator, or the voter itself */
+function resolveVoterTokenOwner(voter: PublicKey, delegatorAddress?: string): PublicKey {
+  return delegatorAddress ? new PublicKey(delegatorAddress) : voter;
+}
+
+/**
+ * Derive the TokenOwnerRecord PDA the voter acts through.
+ * If delegatorAddress is set, use the delegator's TOR (agent is the delegate).
+ * Otherwise, use the voter's own TOR (agent owns tokens directly).
+ */
+function resolveVoterTokenOwnerRecord(
+  gov: SplGovernance,
+  realm: PublicKey,
+  governingTokenMint: PublicKey,
+  voter: PublicKey,
+  delegatorAddress?: string,
+): PublicKey {
+  return gov.pda.tokenOwnerRecordAccount({
+    realmAccount: realm,
+    governingTokenMintAccount: governingTokenMint,
+    governingTokenOwner: resolveVoterTokenOwner(voter, delegatorAddress),
+  }).publicKey;
+}
+
+/**
+ * Voter weight refresh to run before CastVote when the realm weighs votes of
+ * `governingTokenMint` through a plugin; null when deposits count directly.
+ */
+async function resolveVoterWeight(
+  realm: PublicKey,
+  governingTokenMint: PublicKey,
+  tokenOwner: PublicKey,
+): Promise<VoterWeightInstructions | null> {
+  const plugin = await fetchVoterWeightPlugin(realm.toBase58(), governingTokenMint.toBase58());
+  if (!plugin) return null;
+  return buildVoterWeightInstructions({ plugin, realm, governingTokenMint, tokenOwner });
+}
+
+/**
+ * Mint the voter casts with: the proposal's, or the opposite one for a veto
+ * (e.g. council vetoing a community proposal).
+ */
+function resolveVotingMint(
+  proposalAddress: string,
+  info: ProposalInfo,
+  voteDirection: string,
+  governingTokenMintAddress?: string,
+): PublicKey {
+  const votingMint = governingTokenMintAddress
+    ? new PublicKey(governingTokenMintAddress)
+    : info.governingTokenMint;
+  const isVeto = voteDirection.toLowerCase() === 'veto';
+  const isProposalMint = votingMint.equals(info.governingTokenMint);
+  if (isVeto && isProposalMint) {
+    throw new Error(
+      `A veto on proposal ${proposalAddress} must be cast with the opposite governing token mint`,
+    );
+  }
+  if (!isVeto && !isProposalMint) {
+    throw new Error(`Mint ${votingMint.toBase58()} can only veto proposal ${proposalAddress}`);
+  }
+  return votingMint;
+}
+
+/**
+ * CastVote through the TokenOwnerRecord of `delegatorAddress` (or the
+ * voter's own), preceded by the voter weight refresh its realm requires.
+ */
+async function buildCastVoteInstructions(
+  gov: SplGovernance,
+  info: ProposalInfo,
+  proposal: PublicKey,
+  voter: PublicKey,
+  vote: Vote,
+  votingMint: PublicKey,
+  delegatorAddress?: string,
+): Promise<TransactionInstruction[]> {
+  const voterTokenOwnerRecord = resolveVoterTokenOwnerRecord(
+    gov,
+    info.realmAddress,
+    votingMint,
+    voter,
+    delegatorAddress,
+  );
+  const voterWeight = await resolveVoterWeight(
+    info.realmAddress,
+    votingMint,
+    resolveVoterTokenOwner(voter, delegatorAddress),
+  );
+
+  const castVoteIx = await gov.castVoteInstruction(
+    vote,
+    info.realmAddress,
+    info.governanceAddress,
+    proposal,
+    info.proposalOwnerTokenOwnerRecord,
+    voterTokenOwnerRecord,
+    voter,                 // governanceAuthority (signer = the agent wallet)
+    votingMint,            // the voter's mint — the opposite one for a veto
+    voter,                 // payer
+    voterWeight?.voterWeightRecord,
+  );
+
+  // The plugin weight must be fresh for CastVote
+  return voterWeight ? [...voterWeight.instructions, castVoteIx] : [castVoteIx];
+}
+
 // ---------------------------------------------------------------------------
 // CastVote Transaction Builder
 // ---------------------------------------------------------------------------
@@ -166,9 +455,21 @@ export async function buildCastVoteTransaction(params: {
    * When set, the TOR is derived from this address instead of the voter.
    */
   delegatorAddress?: string;
+  /**
+   * Mint of the voter's TokenOwnerRecord. Defaults to the proposal's
+   * governing mint; a veto is cast with the opposite mint (e.g. council
+   * vetoing a community proposal).
+   */
+  governingTokenMintAddress?: string;
+  /** Options to approve on a multi-option proposal (ignored unless voting for) */
+  choices?: OptionChoice[];
 }): Promise<{
   serializedTransaction: string;
   proposalInfo: ProposalInfo;
+  /** Mint the vote was cast with */
+  votingMint: PublicKey;
+  /** Options approved and their weight percentages; null for a single-option vote */
+  ballot: OptionChoice[] | null;
 }> {
   const connection = getConnection();
   const gov = getGovernanceClient();
@@ -179,43 +480,267 @@ export async function buildCastVoteTransaction(params: {
   // Fetch proposal to get governance, mint, etc. Pass realm as fallback.
   const info = await getProposalInfo(params.proposalAddress, params.realmAddress);
 
-  // Derive the TokenOwnerRecord PDA.
-  // If delegatorAddress is set, use the delegator's TOR (agent is the delegate).
-  // Otherwise, use the voter's own TOR (agent owns tokens directly).
-  const torOwner = params.delegatorAddress
-    ? new PublicKey(params.delegatorAddress)
-    : voterPubkey;
-  const voterTokenOwnerRecord = gov.pda.tokenOwnerRecordAccount({
-    realmAccount: info.realmAddress,
-    governingTokenMintAccount: info.governingTokenMint,
-    governingTokenOwner: torOwner,
-  }).publicKey;
+  const votingMint = resolveVotingMint(
+    params.proposalAddress,
+    info,
+    params.voteDirection,
+    params.governingTokenMintAddress,
+  );
 
   // Build the vote
-  const vote = toVoteType(params.voteDirection);
+  const { vote, ballot } = buildVote(params.proposalAddress, info, params.voteDirection, params.choices);
 
-  // Build the CastVote instruction
-  const castVoteIx = await gov.castVoteInstruction(
+  // Build transaction with priority fees
+  const tx = new Transaction();
+  tx.add(...await buildCastVoteInstructions(
+    gov,
+    info,
+    proposalPubkey,
+    voterPubkey,
     vote,
+    votingMint,
+    params.delegatorAddress,
+  ));
+
+  // Price compute, then serialize unsigned
+  await addPriorityFee(tx, connection);
+  const serializedTransaction = await serializeUnsigned(tx, connection, voterPubkey);
+
+  return { serializedTransaction, proposalInfo: info, votingMint, ballot };
+}
+
+// ---------------------------------------------------------------------------
+// Batched CastVote Transaction Builder
+// ---------------------------------------------------------------------------
+
+/** A TokenOwnerRecord the agent votes through, as in buildCastVoteTransaction */
+export interface CastVoteVoter {
+  /** Delegator whose TokenOwnerRecord names the agent as delegate; the agent's own when unset */
+  delegatorAddress?: string;
+  /** Mint of that TokenOwnerRecord; the proposal's when unset */
+  governingTokenMintAddress?: string;
+  /** Relinquish the vote this TokenOwnerRecord already cast before casting again */
+  relinquish?: boolean;
+}
+
+/** One transaction of a batched vote and the voters it casts for */
+export interface CastVoteBatch {
+  serializedTransaction: string;
+  voters: CastVoteVoter[];
+}
+
+/** Compute budget requested per CastVote and RelinquishVote, and the most one transaction may request */
+const CAST_VOTE_COMPUTE_UNITS = 200_000;
+const RELINQUISH_VOTE_COMPUTE_UNITS = 100_000;
+const MAX_TRANSACTION_COMPUTE_UNITS = 1_400_000;
+
+function voterComputeUnits(voter: CastVoteVoter): number {
+  return CAST_VOTE_COMPUTE_UNITS + (voter.relinquish ? RELINQUISH_VOTE_COMPUTE_UNITS : 0);
+}
+
+/**
+ * Whether `instructions`, requesting `computeUnits`, fit in one transaction
+ * signed by `feePayer` — by wire size and compute budget.
+ */
+function fitsInTransaction(
+  instructions: TransactionInstruction[],
+  computeUnits: number,
+  feePayer: PublicKey,
+): boolean {
+  if (computeUnits > MAX_TRANSACTION_COMPUTE_UNITS) return false;
+
+  const tx = new Transaction();
+  tx.add(...computeBudgetInstructions(computeUnits, DEFAULT_PRIORITY_FEE_MICROLAMPORTS));
+  tx.add(...instructions);
+  // Any 32 bytes size like a real blockhash
+  tx.recentBlockhash = PublicKey.default.toBase58();
+  tx.feePayer = feePayer;
+  // Message plus the fee payer's signature and its compact-u16 count
+  return tx.serializeMessage().length + 1 + 64 <= PACKET_DATA_SIZE;
+}
+
+/**
+ * Build CastVotes for every TokenOwnerRecord in `voters`, packed into as
+ * few transactions as fit. All vote the same direction and options, and all
+ * are signed by the agent wallet as delegate. A voter marked `relinquish`
+ * withdraws its earlier vote in the same transaction, so it is only replaced
+ * if the new one lands.
+ *
+ * Each transaction lands or fails on its own, so callers should track which
+ * voters each batch carries.
+ */
+export async function buildCastVoteTransactions(params: {
+  proposalAddress: string;
+  /** The agent's Privy wallet address (voter + fee payer) */
+  voterWalletAddress: string;
+  /** The vote direction: 'for' | 'against' | 'abstain' | 'veto' */
+  voteDirection: string;
+  realmAddress?: string;
+  voters: CastVoteVoter[];
+  /** Options to approve on a multi-option proposal (ignored unless voting for) */
+  choices?: OptionChoice[];
+}): Promise<{
+  batches: CastVoteBatch[];
+  proposalInfo: ProposalInfo;
+  /** Mint the votes were cast with */
+  votingMint: PublicKey;
+  /** Options approved and their weight percentages; null for a single-option vote */
+  ballot: OptionChoice[] | null;
+}> {
+  if (params.voters.length === 0) {
+    throw new Error(`No TokenOwnerRecords to vote with on proposal ${params.proposalAddress}`);
+  }
+
+  const connection = getConnection();
+  const gov = getGovernanceClient();
+
+  const proposalPubkey = new PublicKey(params.proposalAddress);
+  const voterPubkey = new PublicKey(params.voterWalletAddress);
+
+  const info = await getProposalInfo(params.proposalAddress, params.realmAddress);
+  const { vote, ballot } = buildVote(params.proposalAddress, info, params.voteDirection, params.choices);
+
+  const packed: { voters: CastVoteVoter[]; instructions: TransactionInstruction[]; computeUnits: number }[] = [];
+  let votingMint: PublicKey | null = null;
+  for (const voter of params.voters) {
+    const mint = resolveVotingMint(
+      params.proposalAddress,
+      info,
+      params.voteDirection,
+      voter.governingTokenMintAddress,
+    );
+    votingMint ??= mint;
+    const instructions = [
+      ...(voter.relinquish
+        ? [await buildRelinquishVoteInstruction(gov, info, proposalPubkey, voterPubkey, mint, voter.delegatorAddress)]
+        : []),
+      ...await buildCastVoteInstructions(
+        gov,
+        info,
+        proposalPubkey,
+        voterPubkey,
+        vote,
+        mint,
+        voter.delegatorAddress,
+      ),
+    ];
+    const computeUnits = voterComputeUnits(voter);
+
+    const current = packed.at(-1);
+    if (current) {
+      const combined = [...current.instructions, ...instructions];
+      if (fitsInTransaction(combined, current.computeUnits + computeUnits, voterPubkey)) {
+        current.instructions = combined;
+        current.voters.push(voter);
+        current.computeUnits += computeUnits;
+        continue;
+      }
+    }
+    packed.push({ voters: [voter], instructions, computeUnits });
+  }
+
+  const batches: CastVoteBatch[] = [];
+  for (const { voters, instructions, computeUnits } of packed) {
+    const tx = new Transaction();
+    tx.add(...instructions);
+    await addPriorityFee(tx, connection, computeUnits);
+    batches.push({ serializedTransaction: await serializeUnsigned(tx, connection, voterPubkey), voters });
+  }
+
+  return { batches, proposalInfo: info, votingMint: votingMint ?? info.governingTokenMint, ballot };
+}
+
+// ---------------------------------------------------------------------------
+// RelinquishVote Transaction Builder
+// ---------------------------------------------------------------------------
+
+/** RelinquishVote for the vote cast through the voter's TokenOwnerRecord of `governingTokenMint` */
+async function buildRelinquishVoteInstruction(
+  gov: SplGovernance,
+  info: ProposalInfo,
+  proposalPubkey: PublicKey,
+  voterPubkey: PublicKey,
+  governingTokenMint: PublicKey,
+  delegatorAddress?: string,
+): Promise<TransactionInstruction> {
+  return gov.relinquishVoteInstruction(
     info.realmAddress,
     info.governanceAddress,
     proposalPubkey,
-    info.proposalOwnerTokenOwnerRecord,
-    voterTokenOwnerRecord,
+    resolveVoterTokenOwnerRecord(gov, info.realmAddress, governingTokenMint, voterPubkey, delegatorAddress),
+    governingTokenMint,
     voterPubkey,           // governanceAuthority (signer = the agent wallet)
-    info.governingTokenMint,
-    voterPubkey,           // payer
+    voterPubkey,           // beneficiary — VoteRecord rent goes back to the payer
   );
+}
+
+/**
+ * Build a RelinquishVote transaction that withdraws the agent's vote from a
+ * proposal. While the proposal is still voting this removes the VoteRecord
+ * and its weight, so the TOR can vote again.
+ *
+ * With `recastDirection`, a CastVote is appended to the same transaction so
+ * the vote is changed atomically — the old vote is never withdrawn without
+ * the new one landing.
+ *
+ * @returns base64-serialized unsigned transaction
+ */
+export async function buildRelinquishVoteTransaction(params: {
+  /** The proposal the vote was cast on */
+  proposalAddress: string;
+  /** The agent's Privy wallet address (governance authority + fee payer) */
+  voterWalletAddress: string;
+  /** The realm address — ProposalV2 doesn't store realm directly */
+  realmAddress?: string;
+  /** Delegator whose TokenOwnerRecord the original vote was cast through */
+  delegatorAddress?: string;
+  /** New vote direction to cast after relinquishing */
+  recastDirection?: string;
+  /** Options to approve when recasting for a multi-option proposal */
+  recastChoices?: OptionChoice[];
+}): Promise<{
+  serializedTransaction: string;
+  proposalInfo: ProposalInfo;
+  /** Options the recast approves; null without a multi-option recast */
+  ballot: OptionChoice[] | null;
+}> {
+  const connection = getConnection();
+  const gov = getGovernanceClient();
+
+  const proposalPubkey = new PublicKey(params.proposalAddress);
+  const voterPubkey = new PublicKey(params.voterWalletAddress);
+
+  const info = await getProposalInfo(params.proposalAddress, params.realmAddress);
 
-  // Build transaction with priority fees
   const tx = new Transaction();
-  addPriorityFee(tx);
-  tx.add(castVoteIx);
+  tx.add(await buildRelinquishVoteInstruction(
+    gov,
+    info,
+    proposalPubkey,
+    voterPubkey,
+    info.governingTokenMint,
+    params.delegatorAddress,
+  ));
 
-  // Serialize unsigned
+  let ballot: OptionChoice[] | null = null;
+  if (params.recastDirection) {
+    const recast = buildVote(params.proposalAddress, info, params.recastDirection, params.recastChoices);
+    ballot = recast.ballot;
+    tx.add(...await buildCastVoteInstructions(
+      gov,
+      info,
+      proposalPubkey,
+      voterPubkey,
+      recast.vote,
+      info.governingTokenMint,
+      params.delegatorAddress,
+    ));
+  }
+
+  await addPriorityFee(tx, connection);
   const serializedTransaction = await serializeUnsigned(tx, connection, voterPubkey);
 
-  return { serializedTransaction, proposalInfo: info };
+  return { serializedTransaction, proposalInfo: info, ballot };
 }
 
 // ---------------------------------------------------------------------------
@@ -264,9 +789,9 @@ export async function buildDelegateTransaction(params: {
   );
 
   const tx = new Transaction();
-  addPriorityFee(tx);
   tx.add(ix);
 
+  await addPriorityFee(tx, connection);
   return serializeUnsigned(tx, connection, delegator);
 }
 
@@ -301,44 +826,297 @@ export async function buildRevokeDelegationTransaction(params: {
   );
 
   const tx = new Transaction();
-  addPriorityFee(tx);
   tx.add(ix);
 
+  await addPriorityFee(tx, connection);
   return serializeUnsigned(tx, connection, delegator);
 }
 
 // ---------------------------------------------------------------------------
-// Transaction submission + confirmation
+// Proposal Transaction Builders
 // ---------------------------------------------------------------------------
 
+/** Accounts identifying who proposes, and under which governance. */
+export interface ProposerAccounts {
+  realmAddress: string;
+  /** Governance account the proposal is created under */
+  governanceAddress: string;
+  /** The governing token mint (community or council) the proposal is created for */
+  governingTokenMintAddress: string;
+  /** The agent's Privy wallet address (governance authority + fee payer) */
+  proposerWalletAddress: string;
+  /**
+   * If proposing via delegation, the delegator whose TokenOwnerRecord has
+   * the agent set as delegate. Otherwise the proposer's own TOR is used.
+   */
+  delegatorAddress?: string;
+}
+
+function resolveProposer(gov: SplGovernance, params: ProposerAccounts) {
+  const realm = new PublicKey(params.realmAddress);
+  const governance = new PublicKey(params.governanceAddress);
+  const governingTokenMint = new PublicKey(params.governingTokenMintAddress);
+  const proposer = new PublicKey(params.proposerWalletAddress);
+
+  const tokenOwnerRecord = gov.pda.tokenOwnerRecordAccount({
+    realmAccount: realm,
+    governingTokenMintAccount: governingTokenMint,
+    governingTokenOwner: params.delegatorAddress ? new PublicKey(params.delegatorAddress) : proposer,
+  }).publicKey;
+
+  return { realm, governance, governingTokenMint, proposer, tokenOwnerRecord };
+}
+
 /**
- * Submit a signed transaction and wait for confirmation.
+ * Build a CreateProposal transaction. The proposal starts in Draft; pass
+ * `signOff` to sign it off in the same transaction so voting opens
+ * immediately (only possible when no instructions will be inserted).
  *
- * @param signedTransactionBase64 - The fully-signed transaction as base64
- * @returns Transaction signature
+ * @returns base64-serialized unsigned transaction and the new proposal's address
  */
-export async function submitAndConfirm(signedTransactionBase64: string): Promise<{
-  signature: string;
-  confirmed: boolean;
+export async function buildCreateProposalTransaction(params: ProposerAccounts & {
+  /** Proposal title */
+  name: string;
+  /** Description URL — or the description itself if it is short enough */
+  descriptionLink: string;
+  /** Option labels (default: a single "Approve" option) */
+  options?: string[];
+  /** Whether voters get a deny/AGAINST option (default: true) */
+  useDenyOption?: boolean;
+  signOff?: boolean;
+}): Promise<{
+  serializedTransaction: string;
+  proposalAddress: string;
 }> {
   const connection = getConnection();
-  const txBuffer = Buffer.from(signedTransactionBase64, 'base64');
+  const gov = getGovernanceClient();
+  const { realm, governance, governingTokenMint, proposer, tokenOwnerRecord } = resolveProposer(gov, params);
 
-  // Simulate first
+  // Seed the proposal PDA ourselves so the address is known before it lands
+  const proposalSeed = Keypair.generate().publicKey;
+  const proposal = gov.pda.proposalAccount({
+    governanceAccount: governance,
+    governingTokenMint,
+    proposalSeed,
+  }).publicKey;
+
+  const createIx = await gov.createProposalInstruction(
+    params.name,
+    params.descriptionLink,
+    { choiceType: 'single', multiChoiceOptions: null },
+    (params.options ?? ['Approve']) as [string],
+    params.useDenyOption ?? true,
+    realm,
+    governance,
+    tokenOwnerRecord,
+    governingTokenMint,
+    proposer,              // governanceAuthority (owner or delegate)
+    proposer,              // payer
+    proposalSeed,
+  );
+
+  const tx = new Transaction();
+  tx.add(createIx);
+
+  if (params.signOff) {
+    tx.add(await gov.signOffProposalInstruction(
+      realm,
+      governance,
+      proposal,
+      proposer,
+      undefined,
+      tokenOwnerRecord,
+    ));
+  }
+
+  await addPriorityFee(tx, connection);
+  const serializedTransaction = await serializeUnsigned(tx, connection, proposer);
+  return { serializedTransaction, proposalAddress: proposal.toBase58() };
+}
+
+/**
+ * Build an InsertTransaction transaction that attaches instructions to a
+ * Draft proposal, to be executed if `optionIndex` passes.
+ *
+ * @returns base64-serialized unsigned transaction
+ */
+export async function buildInsertTransactionTransaction(params: ProposerAccounts & {
+  proposalAddress: string;
+  instructions: TransactionInstruction[];
+  /** Proposal option the transaction executes for (default 0) */
+  optionIndex?: number;
+  /** Position of this transaction within the option */
+  index: number;
+  /** Seconds between the vote ending and the transaction becoming executable */
+  holdUpTimeSeconds?: number;
+}): Promise<string> {
+  const connection = getConnection();
+  const gov = getGovernanceClient();
+  const { governance, proposer, tokenOwnerRecord } = resolveProposer(gov, params);
+
+  const ix = await gov.insertTransactionInstruction(
+    params.instructions,
+    params.optionIndex ?? 0,
+    params.index,
+    params.holdUpTimeSeconds ?? 0,
+    governance,
+    new PublicKey(params.proposalAddress),
+    tokenOwnerRecord,
+    proposer,
+    proposer,
+  );
+
+  const tx = new Transaction();
+  tx.add(ix);
+
+  await addPriorityFee(tx, connection);
+  return serializeUnsigned(tx, connection, proposer);
+}
+
+/**
+ * Build a SignOffProposal transaction, moving a Draft proposal into voting.
+ * Signs off as the proposal owner (via its TokenOwnerRecord).
+ *
+ * @returns base64-serialized unsigned transaction
+ */
+export async function buildSignOffProposalTransaction(params: ProposerAccounts & {
+  proposalAddress: string;
+}): Promise<string> {
+  const connection = getConnection();
+  const gov = getGovernanceClient();
+  const { realm, governance, proposer, tokenOwnerRecord } = resolveProposer(gov, params);
+
+  const ix = await gov.signOffProposalInstruction(
+    realm,
+    governance,
+    new PublicKey(params.proposalAddress),
+    proposer,
+    undefined,
+    tokenOwnerRecord,
+  );
+
+  const tx = new Transaction();
+  tx.add(ix);
+
+  await addPriorityFee(tx, connection);
+  return serializeUnsigned(tx, connection, proposer);
+}
+
+// ---------------------------------------------------------------------------
+// Transaction simulation
+// ---------------------------------------------------------------------------
+
+/** Why SPL Governance would reject a transaction, read from its simulation */
+export type GovernanceErrorReason =
+  | 'already_voted_on_chain'
+  | 'voting_time_expired'
+  | 'insufficient_voter_weight'
+  | 'wrong_governance_delegate'
+  | 'unknown';
+
+/** Simulation failed; `reason` is 'unknown' when the logs match no known governance error */
+export class GovernanceSimulationError extends Error {
+  reason: GovernanceErrorReason;
+  logs: string[];
+
+  constructor(reason: GovernanceErrorReason, err: unknown, logs: string[]) {
+    super(
+      `Transaction simulation failed: ${JSON.stringify(err)}` +
+      (logs.length > 0 ? `\nLogs: ${logs.join('\n')}` : ''),
+    );
+    this.name = 'GovernanceSimulationError';
+    this.reason = reason;
+    this.logs = logs;
+  }
+}
+
+/**
+ * GovernanceError codes (spl-governance `error.rs`) and the messages it logs
+ * for them. Voter weight plugins log their own wording, hence the patterns.
+ */
+const GOVERNANCE_ERRORS: { reason: Exclude<GovernanceErrorReason, 'unknown'>; codes: number[]; pattern: RegExp }[] = [
+  { reason: 'already_voted_on_chain', codes: [519], pattern: /vote already exists|VoteAlreadyExists/i },
+  {
+    reason: 'voting_time_expired',
+    codes: [531, 536],
+    pattern: /voting time expired|ProposalVotingTimeExpired|InvalidStateCannotVote/i,
+  },
+  {
+    reason: 'insufficient_voter_weight',
+    codes: [],
+    pattern: /not enough (governing )?tokens|insufficient voter weight|VoterWeightThresholdNotMet|voter weight (is )?zero/i,
+  },
+  {
+    reason: 'wrong_governance_delegate',
+    codes: [505],
+    pattern: /owner or delegate\s+must sign|GoverningTokenOwnerOrDelegateMustSign/i,
+  },
+];
+
+function customErrorCode(err: unknown): number | null {
+  const instructionError = (err as { InstructionError?: [number, unknown] } | null)?.InstructionError;
+  const custom = (instructionError?.[1] as { Custom?: unknown } | undefined)?.Custom;
+  return typeof custom === 'number' ? custom : null;
+}
+
+/** Map a failed simulation's error and program logs to a governance error */
+export function parseGovernanceError(err: unknown, logs: string[]): GovernanceErrorReason {
+  const code = customErrorCode(err);
+  const text = logs.join('\n');
+  const match = GOVERNANCE_ERRORS.find(
+    ({ codes, pattern }) => (code !== null && codes.includes(code)) || pattern.test(text),
+  );
+  return match?.reason ?? 'unknown';
+}
+
+/**
+ * Simulate a serialized (signed or unsigned) transaction against the current
+ * bank, so a CastVote the program would reject fails before it is signed.
+ * Throws GovernanceSimulationError on failure.
+ */
+export async function simulateGovernanceTransaction(serializedTransaction: string): Promise<{
+  unitsConsumed: number | null;
+  logs: string[];
+}> {
+  const connection = getConnection();
   const { VersionedTransaction } = await import('@solana/web3.js');
-  const parsedTx = VersionedTransaction.deserialize(txBuffer);
+  const parsedTx = VersionedTransaction.deserialize(Buffer.from(serializedTransaction, 'base64'));
 
   const simulation = await connection.simulateTransaction(parsedTx, {
     sigVerify: false,
     replaceRecentBlockhash: true,
   });
 
+  const logs = simulation.value.logs ?? [];
   if (simulation.value.err) {
-    throw new Error(
-      `Transaction simulation failed: ${JSON.stringify(simulation.value.err)}` +
-      (simulation.value.logs ? `\nLogs: ${simulation.value.logs.join('\n')}` : ''),
+    throw new GovernanceSimulationError(
+      parseGovernanceError(simulation.value.err, logs),
+      simulation.value.err,
+      logs,
     );
   }
+  return { unitsConsumed: simulation.value.unitsConsumed ?? null, logs };
+}
+
+// ---------------------------------------------------------------------------
+// Transaction submission + confirmation
+// ---------------------------------------------------------------------------
+
+/**
+ * Submit a signed transaction and wait for confirmation.
+ *
+ * @param signedTransactionBase64 - The fully-signed transaction as base64
+ * @returns Transaction signature
+ */
+export async function submitAndConfirm(signedTransactionBase64: string): Promise<{
+  signature: string;
+  confirmed: boolean;
+}> {
+  const connection = getConnection();
+  const txBuffer = Buffer.from(signedTransactionBase64, 'base64');
+
+  // Simulate first
+  await simulateGovernanceTransaction(signedTransactionBase64);
 
   // Submit
   const signature = await connection.sendRawTransaction(txBuffer, {
@@ -12,7 +12,17 @@ let cachedToken: string | null = null;
 let cachedIdentity: string | null = null;
 
 /**
- * Obtain a SpacetimeDB identity + JWT token.
+ * Token for reducer calls and SQL. Reducers only accept admin identities and
+ * private tables are only readable by the database owner, so servers set
+ * SPACETIMEDB_TOKEN to the publisher's token; without it an anonymous
+ * identity is minted, which can only read public tables.
+ */
+async function getToken(): Promise<string> {
+  return process.env.SPACETIMEDB_TOKEN || (await getIdentityToken()).token;
+}
+
+/**
+ * Obtain an anonymous SpacetimeDB identity + JWT token.
  * Tokens are cached for the lifetime of the process.
  */
 async function getIdentityToken(): Promise<{ identity: string; token: string }> {
@@ -77,7 +87,7 @@ export async function callReducer(
   durationMicros?: string;
   error?: string;
 }> {
-  const { token } = await getIdentityToken();
+  const token = await getToken();
 
   const res = await fetch(`${STDB_URL}/v1/database/${STDB_DB}/call/${reducer}`, {
     method: 'POST',
@@ -111,7 +121,7 @@ export async function callReducer(
 export async function querySQL<T = Record<string, unknown>>(
   sql: string,
 ): Promise<T[]> {
-  const { token } = await getIdentityToken();
+  const token = await getToken();
 
   const res = await fetch(`${STDB_URL}/v1/database/${STDB_DB}/sql`, {
     method: 'POST',
@@ -208,6 +218,16 @@ export async function recordVote(params: {
   confidence: number;
   tx_signature?: string | null;
   tapestry_content_id?: string | null;
+  /** Mint of the TokenOwnerRecord the vote was cast with */
+  governing_token_mint?: string | null;
+  /** JSON ballot of options approved on a multi-option proposal */
+  choices_json?: string | null;
+  /** JSON list of the CastVotes made, one per delegator TokenOwnerRecord */
+  casts_json?: string | null;
+  /** Fees paid by the CastVote transactions that landed */
+  fee_lamports?: bigint | null;
+  /** submitted | confirmed | finalized | dropped */
+  vote_status?: string | null;
 }) {
   return callReducer('record_vote', [
     params.agent_id,
@@ -217,6 +237,184 @@ export async function recordVote(params: {
     params.confidence,
     option(params.tx_signature),
     option(params.tapestry_content_id),
+    option(params.governing_token_mint),
+    option(params.choices_json),
+    option(params.casts_json),
+    option(params.fee_lamports),
+    option(params.vote_status),
+  ]);
+}
+
+/** Merge a retry of failed delegator casts into a recorded vote */
+export async function updateVoteCasts(params: {
+  agent_id: bigint;
+  proposal_address: string;
+  casts_json: string;
+  fee_lamports: bigint;
+  vote_status?: string | null;
+}) {
+  return callReducer('update_vote_casts', [
+    params.agent_id,
+    params.proposal_address,
+    params.casts_json,
+    params.fee_lamports,
+    option(params.vote_status),
+  ]);
+}
+
+/** Replace the agent's recorded vote; the previous one moves to vote_history */
+export async function changeVote(params: {
+  agent_id: bigint;
+  proposal_address: string;
+  vote: string;
+  reasoning: string;
+  confidence: number;
+  tx_signature?: string | null;
+  changed_by: string;
+  choices_json?: string | null;
+  casts_json?: string | null;
+  vote_status: string;
+}) {
+  return callReducer('change_vote', [
+    params.agent_id,
+    params.proposal_address,
+    params.vote,
+    params.reasoning,
+    params.confidence,
+    option(params.tx_signature),
+    params.changed_by,
+    option(params.choices_json),
+    option(params.casts_json),
+    params.vote_status,
+  ]);
+}
+
+export async function createPendingVote(params: {
+  agent_id: bigint;
+  proposal_address: string;
+  vote: string;
+  reasoning: string;
+  confidence: number;
+  hold_seconds: number;
+  /** JSON option choices to approve on a multi-option proposal */
+  choices_json?: string | null;
+}) {
+  return callReducer('create_pending_vote', [
+    params.agent_id,
+    params.proposal_address,
+    params.vote,
+    params.reasoning,
+    params.confidence,
+    params.hold_seconds,
+    option(params.choices_json),
+  ]);
+}
+
+export async function cancelPendingVote(agentId: bigint, proposalAddress: string) {
+  return callReducer('cancel_pending_vote', [agentId, proposalAddress]);
+}
+
+export async function overridePendingVote(params: {
+  agent_id: bigint;
+  proposal_address: string;
+  vote: string;
+  choices_json?: string | null;
+}) {
+  return callReducer('override_pending_vote', [
+    params.agent_id,
+    params.proposal_address,
+    params.vote,
+    option(params.choices_json),
+  ]);
+}
+
+/**
+ * Claim a held vote whose window expired before casting it; fails once the
+ * owner cancelled it or while the window is still open
+ */
+export async function beginPendingVote(agentId: bigint, proposalAddress: string) {
+  return callReducer('begin_pending_vote', [agentId, proposalAddress]);
+}
+
+/** Close a claimed held vote: cast, or given up with `reason` */
+export async function resolvePendingVote(
+  agentId: bigint,
+  proposalAddress: string,
+  status: 'submitted' | 'failed',
+  reason?: string,
+) {
+  return callReducer('resolve_pending_vote', [agentId, proposalAddress, status, option(reason)]);
+}
+
+export async function createProposalDraft(params: {
+  draft_key: string;
+  agent_id: bigint;
+  realm_address: string;
+  governance_address: string;
+  governing_token_mint: string;
+  delegator_wallet: string;
+  brief: string;
+  title: string;
+  description: string;
+}) {
+  return callReducer('create_proposal_draft', [
+    params.draft_key,
+    params.agent_id,
+    params.realm_address,
+    params.governance_address,
+    params.governing_token_mint,
+    params.delegator_wallet,
+    params.brief,
+    params.title,
+    params.description,
+  ]);
+}
+
+export async function rejectProposalDraft(draftKey: string) {
+  return callReducer('reject_proposal_draft', [draftKey]);
+}
+
+/** Claim a draft for its on-chain send; fails if it is no longer pending approval */
+export async function beginProposalApproval(draftKey: string) {
+  return callReducer('begin_proposal_approval', [draftKey]);
+}
+
+/** Hand a claimed draft back to the owner after its transaction failed */
+export async function releaseProposalApproval(draftKey: string, reason: string) {
+  return callReducer('release_proposal_approval', [draftKey, reason]);
+}
+
+export async function submitProposalDraft(params: {
+  draft_key: string;
+  proposal_address: string;
+  tx_signature: string;
+}) {
+  return callReducer('submit_proposal_draft', [
+    params.draft_key,
+    params.proposal_address,
+    params.tx_signature,
+  ]);
+}
+
+export async function updateAgentStats(params: {
+  agent_id: bigint;
+  proposal_address: string;
+  final_state: string;
+  outcome: VoteOutcome;
+  agent_vote: string;
+  matched_outcome: boolean;
+  delegators_compared: number;
+  delegators_agreed: number;
+}) {
+  return callReducer('update_agent_stats', [
+    params.agent_id,
+    params.proposal_address,
+    params.final_state,
+    params.outcome,
+    params.agent_vote,
+    params.matched_outcome,
+    params.delegators_compared,
+    params.delegators_agreed,
   ]);
 }
 
@@ -225,12 +423,18 @@ export async function createDelegation(params: {
   realm_address: string;
   scope_bitmap: bigint;
   delegator_wallet: string;
+  /** Community or council mint delegated; omit to vote with each proposal's mint */
+  governing_token_mint?: string | null;
+  /** Delegator's TokenOwnerRecord, once verified to delegate to the agent wallet */
+  on_chain_pda?: string | null;
 }) {
   return callReducer('create_delegation', [
     params.agent_id,
     params.realm_address,
     params.scope_bitmap,
     params.delegator_wallet,
+    option(params.governing_token_mint),
+    option(params.on_chain_pda),
   ]);
 }
 
@@ -238,6 +442,74 @@ export async function revokeDelegation(delegationId: bigint) {
   return callReducer('revoke_delegation', [delegationId]);
 }
 
+/** Deactivate a delegation the chain no longer backs, logging why */
+export async function deactivateDelegation(params: {
+  delegation_id: bigint;
+  reason: string;
+  details?: Record<string, unknown>;
+}) {
+  return callReducer('deactivate_delegation', [
+    params.delegation_id,
+    params.reason,
+    JSON.stringify(params.details ?? {}),
+  ]);
+}
+
+/** Upsert a delegator's standing instruction for a realm, or one proposal in it */
+export async function setDelegatorPreference(params: {
+  delegator_wallet: string;
+  realm_address: string;
+  proposal_address?: string | null;
+  preference: string;
+}) {
+  return callReducer('set_delegator_preference', [
+    params.delegator_wallet,
+    params.realm_address,
+    option(params.proposal_address),
+    params.preference,
+  ]);
+}
+
+export async function clearDelegatorPreference(params: {
+  delegator_wallet: string;
+  realm_address: string;
+  proposal_address?: string | null;
+}) {
+  return callReducer('clear_delegator_preference', [
+    params.delegator_wallet,
+    params.realm_address,
+    option(params.proposal_address),
+  ]);
+}
+
+/** Store a new API key by its hash; the plaintext key never reaches SpacetimeDB */
+export async function createApiKey(params: {
+  key_hash: string;
+  key_prefix: string;
+  owner_wallet: string;
+  label: string;
+  agent_ids: bigint[];
+  scopes: string[];
+}) {
+  return callReducer('create_api_key', [
+    params.key_hash,
+    params.key_prefix,
+    params.owner_wallet,
+    params.label,
+    JSON.stringify(params.agent_ids.map((id) => id.toString())),
+    JSON.stringify(params.scopes),
+  ]);
+}
+
+export async function revokeApiKey(keyId: bigint) {
+  return callReducer('revoke_api_key', [keyId]);
+}
+
+/** Let `identity` (hex) call owner-level reducers for the wallet's agents */
+export async function registerOwnerIdentity(ownerWallet: string, identity: string) {
+  return callReducer('register_owner_identity', [ownerWallet, identity]);
+}
+
 export async function addTrackedRealm(params: {
   address: string;
   name: string;
@@ -281,7 +553,6 @@ export interface AgentRow {
   config_json: string;
   risk_tolerance: string;
   is_active: boolean;
-  privy_wallet_id: string | null;
   privy_wallet_address: string | null;
   total_votes: number;
   accuracy_score: number;
@@ -301,6 +572,26 @@ export interface VoteRow {
   tx_signature: string | null;
   tapestry_content_id: string | null;
   created_at: number;
+  governing_token_mint: string | null;
+  choices_json: string | null;
+  casts_json: string | null;
+  fee_lamports: bigint | null;
+  vote_status: string | null;
+}
+
+export interface VoteHistoryRow {
+  id: bigint;
+  vote_key: string;
+  agent_id: bigint;
+  proposal_address: string;
+  vote: string;
+  reasoning: string;
+  confidence: number;
+  tx_signature: string | null;
+  changed_by: string;
+  voted_at: number;
+  replaced_at: number;
+  choices_json: string | null;
 }
 
 export interface AIAnalysisRow {
@@ -314,6 +605,61 @@ export interface AIAnalysisRow {
   created_at: number;
 }
 
+export type PendingVoteStatus = 'pending' | 'submitting' | 'cancelled' | 'submitted' | 'failed';
+
+export interface PendingVoteRow {
+  id: bigint;
+  pending_key: string;
+  agent_id: bigint;
+  proposal_address: string;
+  vote: string;
+  original_vote: string;
+  reasoning: string;
+  confidence: number;
+  status: PendingVoteStatus;
+  execute_after_ms: number;
+  created_at: number;
+  updated_at: number;
+  choices_json: string | null;
+}
+
+export type ProposalDraftStatus = 'pending_approval' | 'approving' | 'rejected' | 'submitted';
+
+export interface ProposalDraftRow {
+  id: bigint;
+  draft_key: string;
+  agent_id: bigint;
+  realm_address: string;
+  governance_address: string;
+  governing_token_mint: string;
+  delegator_wallet: string;
+  brief: string;
+  title: string;
+  description: string;
+  status: ProposalDraftStatus;
+  proposal_address: string | null;
+  tx_signature: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/** Winning side of a finalized proposal; `none` when it never reached a decision */
+export type VoteOutcome = 'for' | 'against' | 'none';
+
+export interface VoteScoreRow {
+  id: bigint;
+  score_key: string;
+  agent_id: bigint;
+  proposal_address: string;
+  final_state: string;
+  outcome: VoteOutcome;
+  agent_vote: string;
+  matched_outcome: boolean;
+  delegators_compared: number;
+  delegators_agreed: number;
+  scored_at: number;
+}
+
 export interface DelegationRow {
   id: bigint;
   delegator_wallet: string;
@@ -323,6 +669,49 @@ export interface DelegationRow {
   is_active: boolean;
   on_chain_pda: string | null;
   created_at: number;
+  governing_token_mint: string | null;
+}
+
+export interface DelegatorPreferenceRow {
+  id: bigint;
+  preference_key: string;
+  delegator_wallet: string;
+  realm_address: string;
+  /** Null for the realm-wide preference */
+  proposal_address: string | null;
+  preference: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ApiKeyRow {
+  id: bigint;
+  key_hash: string;
+  key_prefix: string;
+  owner_wallet: string;
+  label: string;
+  /** JSON array of agent ids, as strings */
+  agent_ids_json: string;
+  /** JSON array of scopes: read, analyze, vote, delegate */
+  scopes_json: string;
+  created_at: number;
+  revoked_at: number | null;
+}
+
+export interface AuditEventRow {
+  id: bigint;
+  /** 0 for events that belong to no agent */
+  agent_id: bigint;
+  /** Position in the agent's chain, from 1 */
+  seq: bigint;
+  reducer: string;
+  /** Hex identity that called the reducer */
+  actor: string;
+  before_json: string;
+  after_json: string;
+  created_at_micros: bigint;
+  prev_hash: string;
+  hash: string;
 }
 
 export interface ActivityRow {
@@ -377,6 +766,14 @@ export async function getAgentsByIds(agentIds: bigint[]): Promise<Map<bigint, Ag
   return map;
 }
 
+/** Privy wallet id that signs for the agent, from the private agent_wallets table */
+export async function getAgentWalletId(agentId: bigint): Promise<string | null> {
+  const rows = await querySQL<{ agent_id: bigint; privy_wallet_id: string }>(
+    `SELECT * FROM agent_wallets WHERE agent_id = ${agentId.toString()}`,
+  );
+  return rows[0]?.privy_wallet_id ?? null;
+}
+
 export async function getAllActiveAgents(): Promise<AgentRow[]> {
   const rows = await querySQL<AgentRow>(
     'SELECT * FROM agents WHERE is_active = true',
@@ -412,9 +809,34 @@ export async function getVoteByAgentAndProposal(
   return rows[0] ?? null;
 }
 
+/** Directions the agent's vote held before it was changed, oldest first */
+export async function getVoteHistory(
+  agentId: bigint,
+  proposalAddress: string,
+): Promise<VoteHistoryRow[]> {
+  const safeVoteKey = escapeSqlString(toVoteKey(agentId, proposalAddress));
+  const rows = await querySQL<VoteHistoryRow>(
+    `SELECT * FROM vote_history WHERE vote_key = '${safeVoteKey}'`,
+  );
+  return rows.sort((a, b) => Number(a.replaced_at ?? 0) - Number(b.replaced_at ?? 0));
+}
+
+/** Some delegator's CastVote failed while others landed */
+function hasFailedCasts(castsJson: string | null): boolean {
+  if (!castsJson) return false;
+  try {
+    const casts = JSON.parse(castsJson) as unknown;
+    return Array.isArray(casts) && casts.some((cast) => (cast as { failed?: unknown })?.failed === true);
+  } catch {
+    return false;
+  }
+}
+
 export async function hasAgentVoted(agentId: bigint, proposalAddress: string): Promise<boolean> {
   const existing = await getVoteByAgentAndProposal(agentId, proposalAddress);
-  return Boolean(existing);
+  // A dropped vote never landed, so the agent may vote again; a partly
+  // failed one still has delegators to cast for
+  return existing !== null && existing.vote_status !== 'dropped' && !hasFailedCasts(existing.casts_json);
 }
 
 export async function getAIAnalysisByAgentAndProposal(
@@ -428,12 +850,74 @@ export async function getAIAnalysisByAgentAndProposal(
   return rows[0] ?? null;
 }
 
+export async function getPendingVote(
+  agentId: bigint,
+  proposalAddress: string,
+): Promise<PendingVoteRow | null> {
+  const safePendingKey = escapeSqlString(toVoteKey(agentId, proposalAddress));
+  const rows = await querySQL<PendingVoteRow>(
+    `SELECT * FROM pending_votes WHERE pending_key = '${safePendingKey}' LIMIT 1`,
+  );
+  return rows[0] ?? null;
+}
+
+export async function getPendingVotesByAgent(agentId: bigint): Promise<PendingVoteRow[]> {
+  const rows = await querySQL<PendingVoteRow>(
+    `SELECT * FROM pending_votes WHERE agent_id = ${agentId.toString()} AND status = 'pending'`,
+  );
+  // Soonest to execute first
+  return rows.sort((a, b) => Number(a.execute_after_ms ?? 0) - Number(b.execute_after_ms ?? 0));
+}
+
+export async function getProposalDraft(draftKey: string): Promise<ProposalDraftRow | null> {
+  const safeDraftKey = escapeSqlString(draftKey);
+  const rows = await querySQL<ProposalDraftRow>(
+    `SELECT * FROM proposal_drafts WHERE draft_key = '${safeDraftKey}' LIMIT 1`,
+  );
+  return rows[0] ?? null;
+}
+
+export async function getProposalDraftsByAgent(agentId: bigint): Promise<ProposalDraftRow[]> {
+  const rows = await querySQL<ProposalDraftRow>(
+    `SELECT * FROM proposal_drafts WHERE agent_id = ${agentId.toString()}`,
+  );
+  // Newest first
+  return rows.sort((a, b) => Number(b.created_at ?? 0) - Number(a.created_at ?? 0));
+}
+
+export async function getVoteScoresByAgent(agentId: bigint): Promise<VoteScoreRow[]> {
+  return querySQL<VoteScoreRow>(
+    `SELECT * FROM vote_scores WHERE agent_id = ${agentId.toString()}`,
+  );
+}
+
+/**
+ * Votes that don't have a vote_scores row yet. SpacetimeDB SQL has no
+ * anti-join, so both tables are read and diffed client-side.
+ */
+/**
+ * Votes that landed on-chain and have no vote_scores row yet. A dropped vote
+ * is left for the retry that replaces it, and a vote without a transaction
+ * (an off-chain abstention, or every delegator opting out) has no on-chain
+ * vote to score.
+ */
+export async function getUnscoredVotes(): Promise<VoteRow[]> {
+  const votes = await querySQL<VoteRow>('SELECT * FROM votes');
+  const scores = await querySQL<VoteScoreRow>('SELECT * FROM vote_scores');
+  const scored = new Set(scores.map((s) => s.score_key));
+  return votes.filter((v) => v.tx_signature && v.vote_status !== 'dropped' && !scored.has(v.vote_key));
+}
+
 export async function getDelegationsByAgent(agentId: bigint): Promise<DelegationRow[]> {
   return querySQL<DelegationRow>(
     `SELECT * FROM delegations WHERE agent_id = ${agentId.toString()} AND is_active = true`,
   );
 }
 
+export async function getActiveDelegations(): Promise<DelegationRow[]> {
+  return querySQL<DelegationRow>('SELECT * FROM delegations WHERE is_active = true');
+}
+
 export async function getDelegationsByWallet(wallet: string): Promise<DelegationRow[]> {
   const safeWallet = escapeSqlString(wallet);
   return querySQL<DelegationRow>(
@@ -441,6 +925,58 @@ export async function getDelegationsByWallet(wallet: string): Promise<Delegation
   );
 }
 
+export async function getDelegatorPreferencesByWallet(wallet: string): Promise<DelegatorPreferenceRow[]> {
+  const safeWallet = escapeSqlString(wallet);
+  return querySQL<DelegatorPreferenceRow>(
+    `SELECT * FROM delegator_preferences WHERE delegator_wallet = '${safeWallet}'`,
+  );
+}
+
+/** Preferences `wallets` hold in `realmAddress`, realm-wide and per proposal */
+export async function getDelegatorPreferences(
+  realmAddress: string,
+  wallets: string[],
+): Promise<DelegatorPreferenceRow[]> {
+  if (wallets.length === 0) return [];
+
+  const safeRealm = escapeSqlString(realmAddress);
+  const walletList = wallets.map((wallet) => `'${escapeSqlString(wallet)}'`).join(', ');
+  return querySQL<DelegatorPreferenceRow>(
+    `SELECT * FROM delegator_preferences WHERE realm_address = '${safeRealm}' AND delegator_wallet IN (${walletList})`,
+  );
+}
+
+export async function getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | null> {
+  const safeHash = escapeSqlString(keyHash);
+  const rows = await querySQL<ApiKeyRow>(
+    `SELECT * FROM api_keys WHERE key_hash = '${safeHash}'`,
+  );
+  return rows[0] ?? null;
+}
+
+export async function getApiKeyById(keyId: bigint): Promise<ApiKeyRow | null> {
+  const rows = await querySQL<ApiKeyRow>(
+    `SELECT * FROM api_keys WHERE id = ${keyId.toString()}`,
+  );
+  return rows[0] ?? null;
+}
+
+export async function getApiKeysByOwner(wallet: string): Promise<ApiKeyRow[]> {
+  const safeWallet = escapeSqlString(wallet);
+  return querySQL<ApiKeyRow>(
+    `SELECT * FROM api_keys WHERE owner_wallet = '${safeWallet}'`,
+  );
+}
+
+/** The agent's audit chain in order */
+export async function getAuditEvents(agentId: bigint): Promise<AuditEventRow[]> {
+  const rows = await querySQL<AuditEventRow>(
+    `SELECT * FROM audit_events WHERE agent_id = ${agentId.toString()}`,
+  );
+  // SpacetimeDB has no ORDER BY — sort by chain position client-side
+  return rows.sort((a, b) => Number(a.seq) - Number(b.seq));
+}
+
 export async function getActivityLog(agentId: bigint, limit = 50): Promise<ActivityRow[]> {
   const rows = await querySQL<ActivityRow>(
     `SELECT * FROM activity_log WHERE agent_id = ${agentId.toString()} LIMIT ${limit}`,
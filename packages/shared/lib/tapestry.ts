@@ -129,6 +129,42 @@ export async function postVoteReasoning(
   }
 }
 
+/**
+ * Announce a vote held in the agent's veto window, so delegators see it
+ * before it is cast and the owner can cancel or flip it until `executeAfter`.
+ */
+export async function postPendingVoteNotice(
+  profileId: string,
+  proposalAddress: string,
+  agentId: string,
+  vote: string,
+  reasoning: string,
+  confidence: number,
+  executeAfter: Date,
+) {
+  try {
+    return await socialfi.contents.findOrCreateCreate(
+      { apiKey },
+      {
+        id: `pending-vote-${proposalAddress}-${agentId}`,
+        profileId,
+        properties: [
+          { key: 'type', value: 'pending_vote' },
+          { key: 'vote', value: vote },
+          { key: 'reasoning', value: reasoning },
+          { key: 'confidence', value: String(confidence) },
+          { key: 'proposalAddress', value: proposalAddress },
+          { key: 'agentId', value: agentId },
+          { key: 'executeAfter', value: executeAfter.toISOString() },
+        ],
+      },
+    );
+  } catch (error) {
+    console.error('Tapestry postPendingVoteNotice failed:', error);
+    throw error;
+  }
+}
+
 /**
  * Get contents list, optionally filtered by a profile id.
  */
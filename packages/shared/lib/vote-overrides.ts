@@ -0,0 +1,271 @@
+import { fetchProposal, fetchProposalRealm, getProposalState, serializeProposal } from './governance';
+import {
+  findProposalDelegations,
+  parseDelegatorCasts,
+  resolveCastVoteVoters,
+  sendCastVotes,
+  type DelegatorCast,
+  type SentCastVotes,
+} from './autonomous-vote-engine';
+import type { CastVoteVoter } from './solana-governance';
+import { UnsupportedVoterWeightPluginError } from './voter-weight-plugins';
+import { weakestVoteStatus, type VoteStatus } from './confirmation-tracker';
+import {
+  applyDelegatorPreference,
+  resolveDelegatorPreference,
+  type DelegatorPreference,
+} from './delegator-preferences';
+import {
+  isMultiOptionProposal,
+  OptionChoiceError,
+  resolveOptionBallot,
+  type OptionChoice,
+} from './proposal-options';
+import {
+  changeVote,
+  getAgentWalletId,
+  getDelegationsByAgent,
+  getDelegatorPreferences,
+  getVoteByAgentAndProposal,
+  type AgentRow,
+} from './stdb-client';
+
+// ---------------------------------------------------------------------------
+// Owner vote overrides
+//
+// Once an agent has voted, the owner can still change the vote while the
+// proposal is voting: each delegator's on-chain vote is relinquished and
+// recast in one transaction, and the replaced direction is kept in
+// vote_history.
+// ---------------------------------------------------------------------------
+
+export const OVERRIDE_VOTE_DIRECTIONS = ['for', 'against', 'abstain'] as const;
+
+export type OverrideVoteDirection = (typeof OVERRIDE_VOTE_DIRECTIONS)[number];
+
+export class VoteOverrideError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'VoteOverrideError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface VoteOverrideResult {
+  proposalAddress: string;
+  previousVote: string;
+  vote: OverrideVoteDirection;
+  /** Options the new vote approves on a multi-option proposal */
+  choices: OptionChoice[] | null;
+  /** Signature of the first transaction that landed; every delegator's is in `casts` */
+  txSignature: string;
+  /** Commitment the override reached; the least settled when it took several transactions */
+  status: VoteStatus;
+  /** One entry per TokenOwnerRecord recast; failed ones are cast again on the next cycle */
+  casts: DelegatorCast[];
+}
+
+/** Delegator whose TokenOwnerRecord the agent votes through, as used by CastVote */
+function agentDelegatorAddress(agent: AgentRow): string | undefined {
+  try {
+    const { delegatorAddress } = JSON.parse(agent.config_json) as { delegatorAddress?: unknown };
+    return typeof delegatorAddress === 'string' ? delegatorAddress : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Priority fee ceiling from the agent's config, as the vote engine applies it */
+function agentMaxPriorityFee(agent: AgentRow): number | undefined {
+  try {
+    const { maxPriorityFeeLamports } = JSON.parse(agent.config_json) as { maxPriorityFeeLamports?: unknown };
+    return typeof maxPriorityFeeLamports === 'number' && maxPriorityFeeLamports >= 0
+      ? maxPriorityFeeLamports
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace the agent's recorded vote on a proposal that is still voting.
+ *
+ * Every delegator TokenOwnerRecord the agent votes through is recast,
+ * batched like the agent's own votes: one whose vote reached the chain is
+ * relinquished and recast atomically, one that only has an abstention
+ * recorded in SpacetimeDB is simply cast. A batch that fails or expires
+ * leaves those delegators' previous votes in place and marks their casts
+ * `failed` for the next cycle; when none lands, nothing is recorded. A
+ * delegator's standing instruction outranks the owner as it does the agent:
+ * their TokenOwnerRecord is only recast in the direction it asks for.
+ */
+export async function overrideRecordedVote(params: {
+  agent: AgentRow;
+  proposalAddress: string;
+  vote: OverrideVoteDirection;
+  /** Options to approve when voting for a multi-option proposal */
+  choices?: OptionChoice[];
+  reason?: string;
+}): Promise<VoteOverrideResult> {
+  const { agent, proposalAddress, vote, choices } = params;
+
+  const walletId = agent.privy_wallet_address ? await getAgentWalletId(agent.id) : null;
+  if (!walletId || !agent.privy_wallet_address) {
+    throw new VoteOverrideError(`Agent ${agent.id.toString()} has no Privy wallet`);
+  }
+
+  const existing = await getVoteByAgentAndProposal(agent.id, proposalAddress);
+  if (!existing) {
+    throw new VoteOverrideError(
+      `Agent ${agent.id.toString()} has not voted on proposal ${proposalAddress}`,
+      404,
+    );
+  }
+  // Re-voting FOR with new option choices is still a change
+  if (existing.vote === vote && !(vote === 'for' && choices?.length)) {
+    throw new VoteOverrideError(`Vote is already ${vote}`, 409);
+  }
+  if (existing.vote === 'veto') {
+    // The opposite-mint TOR that vetoed has no other direction to recast
+    throw new VoteOverrideError('A veto cannot be changed to another direction', 409);
+  }
+
+  const proposal = await fetchProposal(proposalAddress);
+  const state = getProposalState(proposal.state);
+  if (state !== 'voting') {
+    throw new VoteOverrideError(`Proposal is ${state} — votes can only change while voting`, 409);
+  }
+  // The proposal account decides the realm, not the caller
+  const realmAddress = await fetchProposalRealm(proposal);
+
+  const delegations = findProposalDelegations(await getDelegationsByAgent(agent.id), {
+    realmAddress,
+    governingTokenMint: proposal.governingTokenMint.toBase58(),
+  });
+  const voters = resolveCastVoteVoters(vote, delegations, agentDelegatorAddress(agent));
+  if (voters.length === 0) {
+    throw new VoteOverrideError(
+      `Agent ${agent.id.toString()} has no active VOTE delegation for this proposal's mint`,
+      403,
+    );
+  }
+
+  // Options that don't fit the proposal are the caller's mistake, not a failed cast
+  const summary = serializeProposal(proposal);
+  if (vote === 'for' && isMultiOptionProposal(summary)) {
+    try {
+      resolveOptionBallot(summary.options, summary.voteType, choices ?? []);
+    } catch (error) {
+      if (error instanceof OptionChoiceError) {
+        throw new VoteOverrideError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  // A standing instruction decides what goes through the delegator's record, not the owner
+  const delegatorAddresses = voters.flatMap((voter) => (voter.delegatorAddress ? [voter.delegatorAddress] : []));
+  const preferenceRows = delegatorAddresses.length > 0
+    ? await getDelegatorPreferences(realmAddress, delegatorAddresses)
+    : [];
+  const preferenceOf = (voter: CastVoteVoter): DelegatorPreference =>
+    voter.delegatorAddress
+      ? resolveDelegatorPreference(preferenceRows, voter.delegatorAddress, proposalAddress)
+      : 'follow';
+  const held = voters.filter((voter) => applyDelegatorPreference(preferenceOf(voter), vote) !== vote);
+  const recast = voters.filter((voter) => !held.includes(voter));
+  if (recast.length === 0) {
+    throw new VoteOverrideError(
+      held.length === 1
+        ? `Delegator ${held[0].delegatorAddress} has a standing instruction to vote ${preferenceOf(held[0])} — their TokenOwnerRecord cannot be recast ${vote}`
+        : `All ${held.length} delegators have standing instructions — none of their TokenOwnerRecords can be recast ${vote}`,
+      409,
+    );
+  }
+
+  // Relinquish wherever the previous vote reached the chain; rows recorded
+  // before per-delegator casts only carry the one signature
+  const recordedCasts = parseDelegatorCasts(existing.casts_json);
+  const isRecast = (cast: DelegatorCast) =>
+    recast.some((voter) => (voter.delegatorAddress ?? null) === cast.delegatorAddress);
+  const landedBefore = (voter: CastVoteVoter) =>
+    recordedCasts.length > 0
+      ? recordedCasts.some((cast) => cast.delegatorAddress === (voter.delegatorAddress ?? null) && cast.txSignature)
+      : Boolean(existing.tx_signature);
+
+  let sent: SentCastVotes;
+  try {
+    sent = await sendCastVotes({
+      agent,
+      wallet: { id: walletId, address: agent.privy_wallet_address },
+      proposal: { address: proposalAddress, realmAddress },
+      config: { maxPriorityFeeLamports: agentMaxPriorityFee(agent) },
+      groups: new Map([[vote, recast.map((voter) => (landedBefore(voter) ? { ...voter, relinquish: true } : voter))]]),
+      choices,
+      preferenceOf,
+    });
+  } catch (error) {
+    if (error instanceof UnsupportedVoterWeightPluginError) {
+      throw new VoteOverrideError(error.message, 422);
+    }
+    throw error;
+  }
+
+  if (sent.landed.length === 0) {
+    // Relinquish and recast share a transaction, so nothing changed on-chain
+    const rejection = sent.casts.find((cast) => cast.rejection && cast.rejection !== 'unknown')?.rejection;
+    throw rejection
+      ? new VoteOverrideError(`SPL Governance would reject the vote change: ${rejection}`, 422)
+      : new VoteOverrideError('Vote change transaction failed or expired before landing — the previous vote stands', 503);
+  }
+
+  // Records the override left alone keep their recorded cast
+  const unrecorded: DelegatorCast[] = held
+    .filter((voter) => !recordedCasts.some((cast) => cast.delegatorAddress === (voter.delegatorAddress ?? null)))
+    .map((voter) => ({
+      delegatorAddress: voter.delegatorAddress ?? null,
+      governingTokenMint: voter.governingTokenMintAddress ?? proposal.governingTokenMint.toBase58(),
+      vote: null,
+      preference: preferenceOf(voter),
+      txSignature: null,
+      votingPower: null,
+      skipReason: 'standing_instruction',
+    }));
+  const casts = [...recordedCasts.filter((cast) => !isRecast(cast)), ...unrecorded, ...sent.casts];
+  const txSignature = sent.landed[0].txSignature as string;
+  const status = weakestVoteStatus(sent.landed.flatMap((cast) => (cast.status ? [cast.status] : []))) ?? 'submitted';
+
+  const reason = params.reason?.trim();
+  const result = await changeVote({
+    agent_id: agent.id,
+    proposal_address: proposalAddress,
+    vote,
+    reasoning: reason ? `Owner override: ${reason}` : 'Owner override',
+    confidence: 1,
+    tx_signature: txSignature,
+    changed_by: 'owner',
+    choices_json: sent.ballot ? JSON.stringify(sent.ballot) : null,
+    casts_json: JSON.stringify(casts),
+    vote_status: weakestVoteStatus(
+      casts.flatMap((cast) => (cast.txSignature && cast.status ? [cast.status] : [])),
+    ) ?? status,
+  });
+  if (!result.ok) {
+    // The new vote is already on-chain; report it rather than fail
+    console.error(
+      `[vote-overrides] Failed to record vote change for agent=${agent.id.toString()} proposal=${proposalAddress}: ${result.error}`,
+    );
+  }
+
+  return {
+    proposalAddress,
+    previousVote: existing.vote,
+    vote,
+    choices: sent.ballot,
+    txSignature,
+    status,
+    casts: sent.casts,
+  };
+}
@@ -0,0 +1,143 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+
+// ---------------------------------------------------------------------------
+// Voter weight plugins
+//
+// A realm can hand voter weight to an add-in program per governing mint
+// (RealmConfigAccount.communityTokenConfig / councilTokenConfig). CastVote
+// then ignores deposited tokens and requires a VoterWeightRecord the plugin
+// refreshed in the same slot, so the update instruction has to run right
+// before CastVote in the same transaction.
+// ---------------------------------------------------------------------------
+
+/** Voter Stake Registry, as deployed by the Realms UI and by Mango */
+export const VSR_PROGRAM_IDS = [
+  'vsr2nfGVNHmSY8uxoBGqq8AQbwz3JwaEaHqGbsTPXqQ',
+  '4Q6WW2ouZ6V3iaNm56MTd5n2tnTm4C5fiH8miFHnAFHo',
+];
+export const NFT_VOTER_PROGRAM_ID = 'GnftV5kLjd67tvHpNGyodwWveEKivz3ZWvvE3Z4xi2iw';
+export const GATEWAY_PROGRAM_ID = 'GgathUhdrCWRHowoRKACjgWhYHfxCEdBi5ViqYN6HVxk';
+
+export type VoterWeightPluginKind = 'vsr' | 'nft' | 'gateway' | 'unknown';
+
+export interface VoterWeightPlugin {
+  kind: VoterWeightPluginKind;
+  /** Voter weight add-in configured for the mint */
+  programId: string;
+  /** Max voter weight add-in, if the realm also configures one */
+  maxVoterWeightProgramId: string | null;
+}
+
+/** Accounts to prepend to a CastVote and pass along with it */
+export interface VoterWeightInstructions {
+  instructions: TransactionInstruction[];
+  voterWeightRecord: PublicKey;
+}
+
+/** The realm's plugin for this mint has no instruction builder here */
+export class UnsupportedVoterWeightPluginError extends Error {
+  plugin: VoterWeightPlugin;
+
+  constructor(plugin: VoterWeightPlugin, message: string) {
+    super(message);
+    this.name = 'UnsupportedVoterWeightPluginError';
+    this.plugin = plugin;
+  }
+}
+
+export function identifyVoterWeightPlugin(programId: string): VoterWeightPluginKind {
+  if (VSR_PROGRAM_IDS.includes(programId)) return 'vsr';
+  if (programId === NFT_VOTER_PROGRAM_ID) return 'nft';
+  if (programId === GATEWAY_PROGRAM_ID) return 'gateway';
+  return 'unknown';
+}
+
+// ---------------------------------------------------------------------------
+// Voter Stake Registry
+// ---------------------------------------------------------------------------
+
+/** Anchor discriminator: sha256("global:update_voter_weight_record")[..8] */
+const VSR_UPDATE_VOTER_WEIGHT_RECORD = Buffer.from([45, 185, 3, 36, 109, 190, 115, 169]);
+
+/** VSR PDAs for a voter, as derived by the registry program */
+export function deriveVsrAccounts(params: {
+  programId: PublicKey;
+  realm: PublicKey;
+  governingTokenMint: PublicKey;
+  voterAuthority: PublicKey;
+}): { registrar: PublicKey; voter: PublicKey; voterWeightRecord: PublicKey } {
+  const { programId, realm, governingTokenMint, voterAuthority } = params;
+  const [registrar] = PublicKey.findProgramAddressSync(
+    [realm.toBuffer(), Buffer.from('registrar'), governingTokenMint.toBuffer()],
+    programId,
+  );
+  const [voter] = PublicKey.findProgramAddressSync(
+    [registrar.toBuffer(), Buffer.from('voter'), voterAuthority.toBuffer()],
+    programId,
+  );
+  const [voterWeightRecord] = PublicKey.findProgramAddressSync(
+    [registrar.toBuffer(), Buffer.from('voter-weight-record'), voterAuthority.toBuffer()],
+    programId,
+  );
+  return { registrar, voter, voterWeightRecord };
+}
+
+function vsrUpdateVoterWeightRecord(
+  programId: PublicKey,
+  accounts: { registrar: PublicKey; voter: PublicKey; voterWeightRecord: PublicKey },
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: accounts.registrar, isSigner: false, isWritable: false },
+      { pubkey: accounts.voter, isSigner: false, isWritable: false },
+      { pubkey: accounts.voterWeightRecord, isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: VSR_UPDATE_VOTER_WEIGHT_RECORD,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Builder
+// ---------------------------------------------------------------------------
+
+/**
+ * Instructions that refresh `tokenOwner`'s VoterWeightRecord before a vote.
+ *
+ * The record belongs to the governing token owner — the delegator when an
+ * agent votes as delegate — and updating it needs no signature. Plugins
+ * without a builder, and max voter weight add-ins, throw
+ * UnsupportedVoterWeightPluginError since CastVote would fail without them.
+ */
+export function buildVoterWeightInstructions(params: {
+  plugin: VoterWeightPlugin;
+  realm: PublicKey;
+  governingTokenMint: PublicKey;
+  tokenOwner: PublicKey;
+}): VoterWeightInstructions {
+  const { plugin, realm, governingTokenMint, tokenOwner } = params;
+
+  if (plugin.maxVoterWeightProgramId) {
+    throw new UnsupportedVoterWeightPluginError(
+      plugin,
+      `Realm ${realm.toBase58()} uses a max voter weight plugin (${plugin.maxVoterWeightProgramId}), which agents can't vote with yet`,
+    );
+  }
+
+  switch (plugin.kind) {
+    case 'vsr': {
+      const programId = new PublicKey(plugin.programId);
+      const accounts = deriveVsrAccounts({ programId, realm, governingTokenMint, voterAuthority: tokenOwner });
+      return {
+        instructions: [vsrUpdateVoterWeightRecord(programId, accounts)],
+        voterWeightRecord: accounts.voterWeightRecord,
+      };
+    }
+    default:
+      throw new UnsupportedVoterWeightPluginError(
+        plugin,
+        `Realm ${realm.toBase58()} uses the ${plugin.kind} voter weight plugin (${plugin.programId}), which agents can't vote with yet`,
+      );
+  }
+}
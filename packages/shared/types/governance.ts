@@ -17,11 +17,25 @@ export interface Proposal {
   forVotes: number;
   againstVotes: number;
   abstainVotes?: number;
+  /** Every option with its weight; more than one means a multi-option proposal */
+  options?: ProposalOption[];
   deadline: Date;
   createdAt: Date;
   aiAnalysis?: AIAnalysis;
 }
 
+export interface ProposalOption {
+  label: string;
+  voteWeight: number;
+}
+
+/** Option picked on a multi-option proposal, with its share of the vote */
+export interface OptionChoice {
+  option: string;
+  weight?: number;
+  rank?: number;
+}
+
 export interface AIAnalysis {
   summary: string;
   riskAssessment: {
@@ -35,6 +49,7 @@ export interface AIAnalysis {
     confidence: number;
     reasoning: string;
     conditions: string[];
+    choices?: OptionChoice[];
   };
 }
 
@@ -58,6 +73,46 @@ export interface AgentConfig {
   autoVote: boolean;
   confidenceThreshold: number;
   focusAreas: string[];
+  /** Minutes a vote is held for owner veto before going on-chain (0 = submit immediately) */
+  vetoWindowMinutes?: number;
+  /** Most priority fee, in lamports, the agent pays per vote transaction */
+  maxPriorityFeeLamports?: number;
+  /** Per-agent LLM provider override */
+  llm?: {
+    provider?: "openai" | "anthropic" | "local";
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    seed?: number;
+    baseURL?: string;
+  };
+  /** Several analysts vote on each proposal; disagreement forces an abstain */
+  ensemble?: {
+    aggregation?: "majority" | "unanimous" | "weighted";
+    /** 0-1 share of dissenting weight above which the agent abstains */
+    disagreementThreshold?: number;
+    members: Array<{
+      label?: string;
+      llm?: AgentConfig["llm"];
+      persona?: string;
+      weight?: number;
+    }>;
+  };
+  /** Deterministic rules: `force` decides before analysis, `forbid` overrides after */
+  policy?: Array<{
+    id?: string;
+    when:
+      | { type: "sol_transfer_above"; sol: number }
+      | { type: "program_upgrade" | "governance_config_change" | "token_mint" | "unknown_instruction" }
+      | { type: "voting_power_below"; tokens: number };
+    action: "force" | "forbid";
+    /** Vote to cast (`force`) */
+    vote?: "FOR" | "AGAINST" | "ABSTAIN";
+    /** Votes the rule disallows (`forbid`) */
+    votes?: Array<"FOR" | "AGAINST" | "ABSTAIN">;
+    /** Replacement for a forbidden vote (default ABSTAIN) */
+    fallback?: "FOR" | "AGAINST" | "ABSTAIN";
+  }>;
 }
 
 export interface Vote {
@@ -65,6 +120,8 @@ export interface Vote {
   agentId: string;
   proposalAddress: string;
   vote: "for" | "against" | "abstain";
+  /** Options approved on a multi-option proposal */
+  choices?: OptionChoice[];
   reasoning: string;
   confidence: number;
   txSignature?: string;
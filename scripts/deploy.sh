@@ -17,8 +17,8 @@ if ! command -v docker &> /dev/null; then
   systemctl start docker
 fi
 
-# 2. Install git/curl if missing
-apt-get update -qq && apt-get install -y -qq git curl > /dev/null
+# 2. Install git/curl/jq if missing (jq converts backups for the import)
+apt-get update -qq && apt-get install -y -qq git curl jq > /dev/null
 
 # 3. Clone or pull repo
 if [ -d "$DEPLOY_DIR/.git" ]; then
@@ -57,9 +57,14 @@ for i in $(seq 1 30); do
   sleep 2
 done
 
-# 7. Publish SpacetimeDB module
+# 7. Publish SpacetimeDB module. The publishing identity becomes the module's
+#    admin; the app and worker must call reducers with its token.
 echo "Publishing SpacetimeDB module..."
-docker exec clawddao-spacetimedb spacetime publish clawddao --anonymous || true
+docker exec clawddao-spacetimedb spacetime publish clawddao || true
+if ! grep -q '^SPACETIMEDB_TOKEN=' "$DEPLOY_DIR/.env.prod"; then
+  echo "WARNING: SPACETIMEDB_TOKEN missing from .env.prod — reducer calls will be rejected."
+  echo "  Get it with: docker exec clawddao-spacetimedb spacetime login show --token"
+fi
 
 # 8. Import data if backup files exist
 if [ -d "$DEPLOY_DIR/stdb-backup" ] && [ -f "$DEPLOY_DIR/scripts/import-stdb-data.sh" ]; then
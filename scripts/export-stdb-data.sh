@@ -1,5 +1,7 @@
 #!/usr/bin/env bash
-# Export all SpacetimeDB tables from local instance (port 3100) to JSON files
+# Export all SpacetimeDB tables from local instance (port 3100) to JSON files.
+# Private tables (agent_wallets, api_keys, admins, audit_*, ...) need the
+# publisher token in SPACETIMEDB_TOKEN.
 set -euo pipefail
 
 STDB_URL="http://localhost:3100"
@@ -8,12 +10,13 @@ BACKUP_DIR="$(dirname "$0")/../stdb-backup"
 
 mkdir -p "$BACKUP_DIR"
 
-TABLES=("agents" "votes" "tracked_realms" "ai_analyses" "activity_log" "delegations")
+source "$(dirname "$0")/stdb-tables.sh"
 
-for table in "${TABLES[@]}"; do
+for table in "${STDB_TABLES[@]}"; do
   echo "Exporting $table..."
   curl -sf -X POST "$STDB_URL/database/sql/$MODULE" \
     -H 'Content-Type: text/plain' \
+    ${SPACETIMEDB_TOKEN:+-H "Authorization: Bearer $SPACETIMEDB_TOKEN"} \
     -d "SELECT * FROM $table" > "$BACKUP_DIR/$table.json"
   echo "  -> $BACKUP_DIR/$table.json"
 done
@@ -0,0 +1,68 @@
+#!/usr/bin/env bash
+# Import the JSON files written by export-stdb-data.sh into the deployed
+# SpacetimeDB module, one INSERT per row through the CLI in the container (the
+# publisher identity, so private tables import too). Meant for a freshly
+# published module: rows keep their ids, and rows that already exist — the
+# admin `init` registers on first publish — fail and are counted, not fatal.
+set -euo pipefail
+
+CONTAINER="${STDB_CONTAINER:-clawddao-spacetimedb}"
+MODULE="clawddao"
+BACKUP_DIR="$(dirname "$0")/../stdb-backup"
+
+source "$(dirname "$0")/stdb-tables.sh"
+
+# SATS-JSON row -> SQL INSERT, using the column types in the exported schema.
+# Options are `{"some": v}`/`{"none": []}` or `[tag, v]`; Timestamp and
+# Identity are single-field products, as objects or arrays.
+TO_INSERTS='
+def sql_string: "\u0027" + gsub("\u0027"; "\u0027\u0027") + "\u0027";
+def unwrap($field): if type == "array" then .[0] elif type == "object" then .[$field] else . end;
+def literal($sats):
+  if . == null then "NULL"
+  elif ($sats | has("Sum")) then
+    if type == "array" then (if .[0] == 0 then (.[1] | literal($sats.Sum.variants[0].algebraic_type)) else "NULL" end)
+    elif has("some") then (.some | literal($sats.Sum.variants[0].algebraic_type))
+    else "NULL" end
+  elif ($sats | has("Product")) then
+    ($sats.Product.elements[0].name.some) as $field
+    | unwrap($field) as $inner
+    | if $field == "__timestamp_micros_since_unix_epoch__" then
+        ((($inner / 1000000) | floor | todate | sub("Z$"; ""))
+          + "." + (($inner % 1000000) | tostring | "000000"[length:] + .) + "Z") | sql_string
+      elif $field == "__identity__" then
+        ($inner | tostring | if startswith("0x") then . else "0x" + . end)
+      else ($inner | tojson | sql_string) end
+  elif type == "string" then sql_string
+  else tostring end;
+.[0] as $result
+| ($result.schema.elements | map(.name.some)) as $columns
+| ($result.schema.elements | map(.algebraic_type)) as $types
+| $result.rows[]
+| . as $row
+| "INSERT INTO \($table) (\($columns | join(", "))) VALUES ("
+  + ([range(0; $columns | length) as $i | $row[$i] | literal($types[$i])] | join(", ")) + ")"
+'
+
+imported=0
+failed=0
+for table in "${STDB_TABLES[@]}"; do
+  file="$BACKUP_DIR/$table.json"
+  if [ ! -s "$file" ]; then
+    echo "Skipping $table (no backup file)"
+    continue
+  fi
+
+  echo "Importing $table..."
+  while IFS= read -r statement; do
+    if docker exec "$CONTAINER" spacetime sql "$MODULE" "$statement" > /dev/null 2>&1; then
+      imported=$((imported + 1))
+    else
+      failed=$((failed + 1))
+      echo "  failed: $statement"
+    fi
+  done < <(jq -r --arg table "$table" "$TO_INSERTS" "$file")
+done
+
+echo ""
+echo "Import complete: $imported rows imported, $failed failed."
@@ -0,0 +1,9 @@
+# Every table in spacetimedb/src/index.ts, sourced by the export and import
+# scripts so a backup never leaves a table behind. Private tables (no
+# `public: true`) are only readable and writable with the publisher identity.
+STDB_TABLES=(
+  "agents" "agent_wallets" "votes" "delegations" "activity_log" "tracked_realms"
+  "ai_analyses" "pending_votes" "vote_scores" "proposal_drafts" "vote_history"
+  "delegator_preferences" "api_keys" "admins" "owner_identities" "audit_events"
+  "audit_heads"
+)
@@ -0,0 +1,57 @@
+/**
+ * verify-audit-chain.ts
+ *
+ * Recomputes an agent's audit hash chain and reports the first event that
+ * does not fit — an edited, dropped or reordered event.
+ *
+ * Usage:
+ *   npx tsx scripts/verify-audit-chain.ts export.json
+ *     Verify a saved GET /api/agents/[id]/audit response
+ *   DOTENV_CONFIG_PATH=.env.local npx tsx -r dotenv/config scripts/verify-audit-chain.ts --agent 3
+ *     Read the chain from SpacetimeDB (needs SPACETIMEDB_TOKEN; agent 0 is
+ *     the chain for admins, realms and delegator preferences)
+ *
+ * Exits non-zero when the chain is broken.
+ */
+
+import * as fs from 'fs';
+import { verifyAuditChain } from '@shared/lib/audit';
+import { getAuditEvents, type AuditEventRow } from '@shared/lib/stdb-client';
+
+async function loadEvents(args: string[]): Promise<{ source: string; events: AuditEventRow[] }> {
+  const agentFlag = args.indexOf('--agent');
+  if (agentFlag !== -1) {
+    const agentId = args[agentFlag + 1];
+    if (!agentId) throw new Error('--agent needs an agent id');
+    return { source: `SpacetimeDB agent ${agentId}`, events: await getAuditEvents(BigInt(agentId)) };
+  }
+
+  const file = args[0];
+  if (!file) {
+    throw new Error('Usage: verify-audit-chain.ts <export.json> | --agent <id>');
+  }
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf-8')) as { events?: AuditEventRow[] };
+  if (!Array.isArray(parsed.events)) throw new Error(`${file} has no events array`);
+  return { source: file, events: parsed.events };
+}
+
+async function main() {
+  const { source, events } = await loadEvents(process.argv.slice(2));
+  const result = verifyAuditChain(events);
+
+  console.log(`Audit chain from ${source}`);
+  console.log(`  Events:    ${events.length}`);
+  console.log(`  Checked:   ${result.checked}`);
+  console.log(`  Head hash: ${result.headHash}`);
+
+  if (!result.valid) {
+    console.error(`\nBROKEN at seq ${result.broken!.seq}: ${result.broken!.reason}`);
+    process.exit(1);
+  }
+  console.log('\nChain is intact.');
+}
+
+main().catch((err) => {
+  console.error('Audit verification failed:', err);
+  process.exit(1);
+});
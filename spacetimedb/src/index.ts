@@ -2,8 +2,15 @@
 // This module stores APP-GENERATED data only (agents, votes, delegations, activity).
 // Governance data (realms, proposals) is read directly from Solana RPC — not mirrored here.
 // Deploy with: spacetime publish clawddao -p spacetimedb/
+//
+// Reducers only accept calls from admin identities (the publisher, and the
+// server processes that use its token). A few owner actions are also open to
+// the identity an agent owner registered for their wallet. Tables that hold
+// secrets are private and only readable by the database owner.
 
-import { schema, table, t } from 'spacetimedb/server';
+import { schema, table, t, SenderError, type InferSchema, type ReducerCtx } from 'spacetimedb/server';
+import { Identity } from 'spacetimedb';
+import { sha256 } from './sha256';
 
 // ─── TABLES ───
 
@@ -17,7 +24,6 @@ const agents = table(
     config_json: t.string(),
     risk_tolerance: t.string(),
     is_active: t.bool(),
-    privy_wallet_id: t.option(t.string()),
     privy_wallet_address: t.option(t.string()),
     total_votes: t.u32(),
     accuracy_score: t.u32(),
@@ -27,6 +33,16 @@ const agents = table(
   }
 );
 
+// Privy server-wallet ids can sign for an agent, so they live outside the
+// public agents table. One row per agent that has a wallet.
+const agent_wallets = table(
+  { name: 'agent_wallets' },
+  {
+    agent_id: t.u64().primaryKey(),
+    privy_wallet_id: t.string(),
+  }
+);
+
 const votes = table(
   { name: 'votes', public: true },
   {
@@ -40,6 +56,16 @@ const votes = table(
     tx_signature: t.option(t.string()),
     tapestry_content_id: t.option(t.string()),
     created_at: t.timestamp(),
+    // Mint of the TokenOwnerRecord the vote was cast with (council for a veto)
+    governing_token_mint: t.option(t.string()),
+    // JSON [{ option, weight }] approved on a multi-option proposal
+    choices_json: t.option(t.string()),
+    // JSON [{ delegatorAddress, governingTokenMint, vote, preference, txSignature, votingPower }], one per delegator TOR
+    casts_json: t.option(t.string()),
+    // Base plus priority fees paid by the CastVote transactions that landed
+    fee_lamports: t.option(t.u64()),
+    // submitted | confirmed | finalized | dropped — the least settled of the vote's transactions
+    vote_status: t.option(t.string()),
   }
 );
 
@@ -54,6 +80,8 @@ const delegations = table(
     is_active: t.bool(),
     on_chain_pda: t.option(t.string()),
     created_at: t.timestamp(),
+    // Community or council mint delegated; unset rows vote with the proposal's mint
+    governing_token_mint: t.option(t.string()),
   }
 );
 
@@ -94,6 +122,186 @@ const ai_analyses = table(
   }
 );
 
+// Votes held during an agent's veto window. The worker only submits them
+// on-chain once `execute_after_ms` has passed and the owner hasn't cancelled,
+// claiming the row first so the owner can no longer change it.
+const pending_votes = table(
+  { name: 'pending_votes', public: true },
+  {
+    id: t.u64().primaryKey().autoInc(),
+    pending_key: t.string().unique(),
+    agent_id: t.u64().index('btree'),
+    proposal_address: t.string().index('btree'),
+    vote: t.string(),
+    original_vote: t.string(),
+    reasoning: t.string(),
+    confidence: t.f64(),
+    // pending | submitting (claimed by the worker) | cancelled | submitted
+    // | failed (could not be cast after the window)
+    status: t.string(),
+    // Epoch millis (not a timestamp) so the worker can compare it from SQL results.
+    execute_after_ms: t.u64(),
+    created_at: t.timestamp(),
+    updated_at: t.timestamp(),
+    // JSON [{ option, weight?, rank? }] to approve on a multi-option proposal
+    choices_json: t.option(t.string()),
+  }
+);
+
+// One row per scored vote: how the agent's vote compared with the final
+// on-chain outcome and with delegators who voted themselves.
+const vote_scores = table(
+  { name: 'vote_scores', public: true },
+  {
+    id: t.u64().primaryKey().autoInc(),
+    score_key: t.string().unique(),
+    agent_id: t.u64().index('btree'),
+    proposal_address: t.string().index('btree'),
+    final_state: t.string(),
+    outcome: t.string(),
+    agent_vote: t.string(),
+    matched_outcome: t.bool(),
+    delegators_compared: t.u32(),
+    delegators_agreed: t.u32(),
+    scored_at: t.timestamp(),
+  }
+);
+
+// Proposals an agent drafted from a natural-language brief. Nothing is
+// created on-chain until the owner approves the draft.
+const proposal_drafts = table(
+  { name: 'proposal_drafts', public: true },
+  {
+    id: t.u64().primaryKey().autoInc(),
+    draft_key: t.string().unique(),
+    agent_id: t.u64().index('btree'),
+    realm_address: t.string(),
+    governance_address: t.string(),
+    governing_token_mint: t.string(),
+    // Delegator whose TokenOwnerRecord the proposal is created from
+    delegator_wallet: t.string(),
+    brief: t.string(),
+    title: t.string(),
+    description: t.string(),
+    // pending_approval | approving | submitted | rejected
+    status: t.string(),
+    proposal_address: t.option(t.string()),
+    tx_signature: t.option(t.string()),
+    created_at: t.timestamp(),
+    updated_at: t.timestamp(),
+  }
+);
+
+// Directions an agent's vote held before it was changed. The `votes` row
+// always carries the current vote; each change appends the one it replaced.
+const vote_history = table(
+  { name: 'vote_history', public: true },
+  {
+    id: t.u64().primaryKey().autoInc(),
+    vote_key: t.string().index('btree'),
+    agent_id: t.u64().index('btree'),
+    proposal_address: t.string(),
+    vote: t.string(),
+    reasoning: t.string(),
+    confidence: t.f64(),
+    tx_signature: t.option(t.string()),
+    changed_by: t.string(),
+    voted_at: t.timestamp(),
+    replaced_at: t.timestamp(),
+    choices_json: t.option(t.string()),
+  }
+);
+
+// Standing instructions from delegators for the votes agents cast through
+// their TokenOwnerRecord: 'follow' the agent, 'abstain', or 'for' / 'against'.
+// A per-proposal row beats the realm-wide one (no proposal_address).
+const delegator_preferences = table(
+  { name: 'delegator_preferences', public: true },
+  {
+    id: t.u64().primaryKey().autoInc(),
+    preference_key: t.string().unique(),
+    delegator_wallet: t.string().index('btree'),
+    realm_address: t.string().index('btree'),
+    proposal_address: t.option(t.string()),
+    preference: t.string(),
+    created_at: t.timestamp(),
+    updated_at: t.timestamp(),
+  }
+);
+
+// Owner-issued keys for programmatic access (MCP server, bots). Only the
+// SHA-256 of a key is stored; `key_prefix` identifies it in the UI. A key
+// acts for `owner_wallet` on the listed agents, with the listed scopes.
+const api_keys = table(
+  { name: 'api_keys' },
+  {
+    id: t.u64().primaryKey().autoInc(),
+    key_hash: t.string().unique(),
+    key_prefix: t.string(),
+    owner_wallet: t.string().index('btree'),
+    label: t.string(),
+    agent_ids_json: t.string(),
+    scopes_json: t.string(),
+    created_at: t.timestamp(),
+    revoked_at: t.option(t.timestamp()),
+  }
+);
+
+// Identities allowed to call every reducer. The publisher is added on init;
+// further admins (e.g. a dedicated worker identity) via add_admin.
+const admins = table(
+  { name: 'admins' },
+  {
+    identity: t.identity().primaryKey(),
+    label: t.string(),
+    added_at: t.timestamp(),
+  }
+);
+
+// The SpacetimeDB identity an owner connects with, registered by the server
+// once it has checked the owner controls the wallet. That identity may call
+// owner-level reducers (update, cancel, override, reject) for the wallet's
+// agents.
+const owner_identities = table(
+  { name: 'owner_identities' },
+  {
+    owner_wallet: t.string().primaryKey(),
+    identity: t.identity().index('btree'),
+    registered_at: t.timestamp(),
+  }
+);
+
+// Append-only record of every state change a reducer makes, with the caller's
+// identity and the row before and after. Events form one hash chain per agent
+// (agent_id 0 for admins, realms and delegator preferences): `hash` covers the
+// event and `prev_hash`, so editing or dropping an event breaks every later
+// hash. Private, since before/after include API key metadata.
+const audit_events = table(
+  { name: 'audit_events' },
+  {
+    id: t.u64().primaryKey().autoInc(),
+    agent_id: t.u64().index('btree'),
+    seq: t.u64(),
+    reducer: t.string(),
+    actor: t.string(),
+    before_json: t.string(),
+    after_json: t.string(),
+    created_at_micros: t.u64(),
+    prev_hash: t.string(),
+    hash: t.string(),
+  }
+);
+
+// Latest event of each audit chain, so appends don't scan audit_events
+const audit_heads = table(
+  { name: 'audit_heads' },
+  {
+    agent_id: t.u64().primaryKey(),
+    seq: t.u64(),
+    hash: t.string(),
+  }
+);
+
 // ─── SCHEMA ───
 
 const spacetimedb = schema(
@@ -102,11 +310,203 @@ const spacetimedb = schema(
   delegations,
   activity_log,
   ai_analyses,
-  tracked_realms
+  tracked_realms,
+  pending_votes,
+  vote_scores,
+  proposal_drafts,
+  vote_history,
+  delegator_preferences,
+  api_keys,
+  agent_wallets,
+  admins,
+  owner_identities,
+  audit_events,
+  audit_heads
 );
 
 export default spacetimedb;
 
+// ─── ACCESS CONTROL ───
+
+type Ctx = ReducerCtx<InferSchema<typeof spacetimedb>>;
+
+function isAdmin(ctx: Ctx): boolean {
+  return ctx.db.admins.identity.find(ctx.sender) != null;
+}
+
+function requireAdmin(ctx: Ctx): void {
+  if (!isAdmin(ctx)) {
+    throw new SenderError('Only admin identities may call this reducer');
+  }
+}
+
+/** Admins, or the identity registered for the agent's owner wallet */
+function requireAdminOrOwner(ctx: Ctx, agentId: bigint): void {
+  if (isAdmin(ctx)) return;
+
+  const agent = ctx.db.agents.id.find(agentId);
+  const owner = agent ? ctx.db.ownerIdentities.owner_wallet.find(agent.owner_wallet) : null;
+  if (!owner || !owner.identity.isEqual(ctx.sender)) {
+    throw new SenderError('Only the agent owner or an admin may call this reducer');
+  }
+}
+
+// ─── AUDIT ───
+
+/** Chain for events that belong to no agent */
+const MODULE_AUDIT_ID = 0n;
+
+/** prev_hash of the first event in a chain */
+const GENESIS_HASH = '0'.repeat(64);
+
+function toAuditJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v) => {
+    if (typeof v === 'bigint') return v.toString();
+    if (v instanceof Identity) return v.toHexString();
+    return v;
+  });
+}
+
+// Must match auditHashInput in packages/shared/lib/audit.ts, which the
+// export endpoint and scripts/verify-audit-chain.ts recompute hashes with.
+function auditHashInput(event: {
+  prev_hash: string;
+  agent_id: bigint;
+  seq: bigint;
+  reducer: string;
+  actor: string;
+  before_json: string;
+  after_json: string;
+  created_at_micros: bigint;
+}): string {
+  return JSON.stringify([
+    event.prev_hash,
+    event.agent_id.toString(),
+    event.seq.toString(),
+    event.reducer,
+    event.actor,
+    event.before_json,
+    event.after_json,
+    event.created_at_micros.toString(),
+  ]);
+}
+
+/** API key rows as audited — everything but the hash */
+function auditedApiKey(key: {
+  id: bigint;
+  key_prefix: string;
+  owner_wallet: string;
+  label: string;
+  agent_ids_json: string;
+  scopes_json: string;
+  revoked_at?: unknown;
+}) {
+  return {
+    id: key.id,
+    key_prefix: key.key_prefix,
+    owner_wallet: key.owner_wallet,
+    label: key.label,
+    agent_ids_json: key.agent_ids_json,
+    scopes_json: key.scopes_json,
+    revoked_at: key.revoked_at ?? null,
+  };
+}
+
+/** Append an event to the agent's audit chain */
+function audit(ctx: Ctx, reducer: string, agentId: bigint, before: unknown, after: unknown): void {
+  const head = ctx.db.auditHeads.agent_id.find(agentId);
+  const event = {
+    agent_id: agentId,
+    seq: head ? head.seq + 1n : 1n,
+    reducer,
+    actor: ctx.sender.toHexString(),
+    before_json: toAuditJson(before),
+    after_json: toAuditJson(after),
+    created_at_micros: ctx.timestamp.microsSinceUnixEpoch,
+    prev_hash: head?.hash ?? GENESIS_HASH,
+  };
+  const hash = sha256(auditHashInput(event));
+
+  ctx.db.auditEvents.insert({ id: 0n, ...event, hash });
+
+  const newHead = { agent_id: agentId, seq: event.seq, hash };
+  if (head) {
+    ctx.db.auditHeads.agent_id.update(newHead);
+  } else {
+    ctx.db.auditHeads.insert(newHead);
+  }
+}
+
+export const init = spacetimedb.init((ctx) => {
+  const admin = ctx.db.admins.insert({
+    identity: ctx.sender,
+    label: 'publisher',
+    added_at: ctx.timestamp,
+  });
+  audit(ctx, 'init', MODULE_AUDIT_ID, null, admin);
+});
+
+export const add_admin = spacetimedb.reducer(
+  'add_admin',
+  {
+    identity: t.string(),
+    label: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const identity = new Identity(args.identity);
+    if (ctx.db.admins.identity.find(identity)) return;
+
+    const admin = ctx.db.admins.insert({
+      identity,
+      label: args.label,
+      added_at: ctx.timestamp,
+    });
+    audit(ctx, 'add_admin', MODULE_AUDIT_ID, null, admin);
+  }
+);
+
+export const remove_admin = spacetimedb.reducer(
+  'remove_admin',
+  { identity: t.string() },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const identity = new Identity(args.identity);
+    if (identity.isEqual(ctx.sender)) throw new Error('Admins cannot remove themselves');
+
+    const admin = ctx.db.admins.identity.find(identity);
+    if (!admin) return;
+    ctx.db.admins.identity.delete(identity);
+    audit(ctx, 'remove_admin', MODULE_AUDIT_ID, admin, null);
+  }
+);
+
+export const register_owner_identity = spacetimedb.reducer(
+  'register_owner_identity',
+  {
+    owner_wallet: t.string(),
+    identity: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const row = {
+      owner_wallet: args.owner_wallet,
+      identity: new Identity(args.identity),
+      registered_at: ctx.timestamp,
+    };
+    const existing = ctx.db.ownerIdentities.owner_wallet.find(args.owner_wallet);
+    if (existing) {
+      ctx.db.ownerIdentities.owner_wallet.update(row);
+    } else {
+      ctx.db.ownerIdentities.insert(row);
+    }
+    audit(ctx, 'register_owner_identity', MODULE_AUDIT_ID, existing ?? null, row);
+  }
+);
+
 // ─── REDUCERS ───
 
 export const create_agent = spacetimedb.reducer(
@@ -121,7 +521,9 @@ export const create_agent = spacetimedb.reducer(
     privy_wallet_address: t.option(t.string()),
   },
   (ctx, args) => {
-    ctx.db.agents.insert({
+    requireAdmin(ctx);
+
+    const agent = ctx.db.agents.insert({
       id: 0n,
       owner_wallet: args.owner_wallet,
       name: args.name,
@@ -129,7 +531,6 @@ export const create_agent = spacetimedb.reducer(
       config_json: args.config_json,
       risk_tolerance: args.risk_tolerance,
       is_active: true,
-      privy_wallet_id: args.privy_wallet_id,
       privy_wallet_address: args.privy_wallet_address,
       total_votes: 0,
       accuracy_score: 0,
@@ -137,6 +538,14 @@ export const create_agent = spacetimedb.reducer(
       created_at: ctx.timestamp,
       updated_at: ctx.timestamp,
     });
+
+    if (args.privy_wallet_id != null) {
+      ctx.db.agentWallets.insert({
+        agent_id: agent.id,
+        privy_wallet_id: args.privy_wallet_id,
+      });
+    }
+    audit(ctx, 'create_agent', agent.id, null, agent);
   }
 );
 
@@ -149,16 +558,20 @@ export const update_agent = spacetimedb.reducer(
     is_active: t.option(t.bool()),
   },
   (ctx, args) => {
+    requireAdminOrOwner(ctx, args.agent_id);
+
     const agent = ctx.db.agents.id.find(args.agent_id);
     if (!agent) throw new Error('Agent not found');
 
-    ctx.db.agents.id.update({
+    const updated = {
       ...agent,
       name: args.name ?? agent.name,
       config_json: args.config_json ?? agent.config_json,
       is_active: args.is_active ?? agent.is_active,
       updated_at: ctx.timestamp,
-    });
+    };
+    ctx.db.agents.id.update(updated);
+    audit(ctx, 'update_agent', args.agent_id, agent, updated);
   }
 );
 
@@ -172,28 +585,39 @@ export const record_vote = spacetimedb.reducer(
     confidence: t.f64(),
     tx_signature: t.option(t.string()),
     tapestry_content_id: t.option(t.string()),
+    governing_token_mint: t.option(t.string()),
+    choices_json: t.option(t.string()),
+    casts_json: t.option(t.string()),
+    fee_lamports: t.option(t.u64()),
+    vote_status: t.option(t.string()),
   },
   (ctx, args) => {
+    requireAdmin(ctx);
+
     const voteKey = `${args.agent_id.toString()}:${args.proposal_address}`;
     const existing = ctx.db.votes.vote_key.find(voteKey);
+    const landed = args.vote_status !== 'dropped';
 
-    // Idempotent guard for autonomous worker loops.
-    if (existing) {
+    // Idempotent guard for autonomous worker loops. A dropped vote never
+    // landed, so a retry replaces it instead.
+    if (existing && existing.vote_status !== 'dropped') {
       const mergedTx = existing.tx_signature ?? args.tx_signature;
       const mergedTapestry = existing.tapestry_content_id ?? args.tapestry_content_id;
 
       if (mergedTx !== existing.tx_signature || mergedTapestry !== existing.tapestry_content_id) {
-        ctx.db.votes.vote_key.update({
+        const merged = {
           ...existing,
           tx_signature: mergedTx,
           tapestry_content_id: mergedTapestry,
-        });
+        };
+        ctx.db.votes.vote_key.update(merged);
+        audit(ctx, 'record_vote', args.agent_id, existing, merged);
       }
       return;
     }
 
-    ctx.db.votes.insert({
-      id: 0n,
+    const row = {
+      id: existing?.id ?? 0n,
       vote_key: voteKey,
       agent_id: args.agent_id,
       proposal_address: args.proposal_address,
@@ -203,16 +627,29 @@ export const record_vote = spacetimedb.reducer(
       tx_signature: args.tx_signature,
       tapestry_content_id: args.tapestry_content_id,
       created_at: ctx.timestamp,
-    });
+      governing_token_mint: args.governing_token_mint,
+      choices_json: args.choices_json,
+      casts_json: args.casts_json,
+      fee_lamports: args.fee_lamports,
+      vote_status: args.vote_status,
+    };
+    if (existing) {
+      ctx.db.votes.vote_key.update(row);
+    } else {
+      ctx.db.votes.insert(row);
+    }
+    audit(ctx, 'record_vote', args.agent_id, existing ?? null, row);
 
-    // Update agent vote count
-    const agent = ctx.db.agents.id.find(args.agent_id);
+    // Update agent vote count — only votes that landed count
+    const agent = landed ? ctx.db.agents.id.find(args.agent_id) : undefined;
     if (agent) {
-      ctx.db.agents.id.update({
+      const updatedAgent = {
         ...agent,
         total_votes: agent.total_votes + 1,
         updated_at: ctx.timestamp,
-      });
+      };
+      ctx.db.agents.id.update(updatedAgent);
+      audit(ctx, 'record_vote', args.agent_id, agent, updatedAgent);
     }
 
     // Log activity
@@ -220,8 +657,571 @@ export const record_vote = spacetimedb.reducer(
       id: 0n,
       agent_id: args.agent_id,
       action_type: 'vote',
-      description: `Voted ${args.vote.toUpperCase()} on proposal ${args.proposal_address.slice(0, 8)}...`,
-      metadata_json: JSON.stringify({ proposal: args.proposal_address, confidence: args.confidence }),
+      description: landed
+        ? `Voted ${args.vote.toUpperCase()} on proposal ${args.proposal_address.slice(0, 8)}...`
+        : `Vote ${args.vote.toUpperCase()} on proposal ${args.proposal_address.slice(0, 8)}... was dropped before landing`,
+      metadata_json: JSON.stringify({
+        proposal: args.proposal_address,
+        confidence: args.confidence,
+        vote_status: args.vote_status ?? null,
+      }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const update_vote_casts = spacetimedb.reducer(
+  'update_vote_casts',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+    casts_json: t.string(),
+    fee_lamports: t.u64(),
+    vote_status: t.option(t.string()),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const voteKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+    const existing = ctx.db.votes.vote_key.find(voteKey);
+    if (!existing) throw new Error('Vote not found');
+
+    // total_votes is unchanged — retried delegators join a vote already counted
+    const updated = {
+      ...existing,
+      casts_json: args.casts_json,
+      fee_lamports: (existing.fee_lamports ?? 0n) + args.fee_lamports,
+      vote_status: args.vote_status ?? existing.vote_status,
+    };
+    ctx.db.votes.vote_key.update(updated);
+    audit(ctx, 'update_vote_casts', args.agent_id, existing, updated);
+  }
+);
+
+export const change_vote = spacetimedb.reducer(
+  'change_vote',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+    vote: t.string(),
+    reasoning: t.string(),
+    confidence: t.f64(),
+    tx_signature: t.option(t.string()),
+    changed_by: t.string(),
+    choices_json: t.option(t.string()),
+    casts_json: t.option(t.string()),
+    vote_status: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const voteKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+    const existing = ctx.db.votes.vote_key.find(voteKey);
+    if (!existing) throw new Error('Vote not found');
+    // A multi-option FOR can change its option choices without changing direction
+    if (existing.vote === args.vote && existing.choices_json === args.choices_json) {
+      throw new Error(`Vote is already ${args.vote}`);
+    }
+
+    ctx.db.voteHistory.insert({
+      id: 0n,
+      vote_key: voteKey,
+      agent_id: existing.agent_id,
+      proposal_address: existing.proposal_address,
+      vote: existing.vote,
+      reasoning: existing.reasoning,
+      confidence: existing.confidence,
+      tx_signature: existing.tx_signature,
+      changed_by: args.changed_by,
+      voted_at: existing.created_at,
+      replaced_at: ctx.timestamp,
+      choices_json: existing.choices_json,
+    });
+
+    // total_votes is unchanged — the agent still has one vote on the proposal
+    const updated = {
+      ...existing,
+      vote: args.vote,
+      reasoning: args.reasoning,
+      confidence: args.confidence,
+      tx_signature: args.tx_signature,
+      choices_json: args.choices_json,
+      // Overrides recast through a single TokenOwnerRecord
+      casts_json: args.casts_json,
+      vote_status: args.vote_status,
+      created_at: ctx.timestamp,
+    };
+    ctx.db.votes.vote_key.update(updated);
+    audit(ctx, 'change_vote', args.agent_id, existing, updated);
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: args.agent_id,
+      action_type: 'override',
+      description: `Changed vote from ${existing.vote.toUpperCase()} to ${args.vote.toUpperCase()} on proposal ${args.proposal_address.slice(0, 8)}...`,
+      metadata_json: JSON.stringify({
+        proposal: args.proposal_address,
+        previous_vote: existing.vote,
+        changed_by: args.changed_by,
+      }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const create_pending_vote = spacetimedb.reducer(
+  'create_pending_vote',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+    vote: t.string(),
+    reasoning: t.string(),
+    confidence: t.f64(),
+    hold_seconds: t.u32(),
+    choices_json: t.option(t.string()),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const pendingKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+    const existing = ctx.db.pendingVotes.pending_key.find(pendingKey);
+
+    // Idempotent: a held vote keeps its original window across worker cycles.
+    if (existing) return;
+
+    const nowMs = ctx.timestamp.microsSinceUnixEpoch / 1000n;
+    const executeAfterMs = nowMs + BigInt(args.hold_seconds) * 1000n;
+
+    const pending = ctx.db.pendingVotes.insert({
+      id: 0n,
+      pending_key: pendingKey,
+      agent_id: args.agent_id,
+      proposal_address: args.proposal_address,
+      vote: args.vote,
+      original_vote: args.vote,
+      reasoning: args.reasoning,
+      confidence: args.confidence,
+      status: 'pending',
+      execute_after_ms: executeAfterMs,
+      created_at: ctx.timestamp,
+      updated_at: ctx.timestamp,
+      choices_json: args.choices_json,
+    });
+    audit(ctx, 'create_pending_vote', args.agent_id, null, pending);
+
+    const holdMinutes = Math.ceil(args.hold_seconds / 60);
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: args.agent_id,
+      action_type: 'pending_vote',
+      description: `Holding ${args.vote.toUpperCase()} vote on proposal ${args.proposal_address.slice(0, 8)}... for ${holdMinutes} min — owner can cancel or override`,
+      metadata_json: JSON.stringify({
+        proposal: args.proposal_address,
+        confidence: args.confidence,
+        execute_after_ms: executeAfterMs.toString(),
+      }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const cancel_pending_vote = spacetimedb.reducer(
+  'cancel_pending_vote',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+  },
+  (ctx, args) => {
+    requireAdminOrOwner(ctx, args.agent_id);
+
+    const pendingKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+    const pending = ctx.db.pendingVotes.pending_key.find(pendingKey);
+    if (!pending) throw new Error('Pending vote not found');
+    if (pending.status !== 'pending') throw new Error(`Pending vote is already ${pending.status}`);
+    if (ctx.timestamp.microsSinceUnixEpoch / 1000n >= pending.execute_after_ms) {
+      throw new Error('Veto window has passed');
+    }
+
+    const updated = {
+      ...pending,
+      status: 'cancelled',
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.pendingVotes.pending_key.update(updated);
+    audit(ctx, 'cancel_pending_vote', args.agent_id, pending, updated);
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: args.agent_id,
+      action_type: 'override',
+      description: `Owner cancelled ${pending.vote.toUpperCase()} vote on proposal ${args.proposal_address.slice(0, 8)}...`,
+      metadata_json: JSON.stringify({ proposal: args.proposal_address, vote: pending.vote }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const override_pending_vote = spacetimedb.reducer(
+  'override_pending_vote',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+    vote: t.string(),
+    choices_json: t.option(t.string()),
+  },
+  (ctx, args) => {
+    requireAdminOrOwner(ctx, args.agent_id);
+
+    const pendingKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+    const pending = ctx.db.pendingVotes.pending_key.find(pendingKey);
+    if (!pending) throw new Error('Pending vote not found');
+    if (pending.status !== 'pending') throw new Error(`Pending vote is already ${pending.status}`);
+    if (ctx.timestamp.microsSinceUnixEpoch / 1000n >= pending.execute_after_ms) {
+      throw new Error('Veto window has passed');
+    }
+
+    const updated = {
+      ...pending,
+      vote: args.vote,
+      // The held options only belong to the FOR they were chosen for
+      choices_json: args.choices_json,
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.pendingVotes.pending_key.update(updated);
+    audit(ctx, 'override_pending_vote', args.agent_id, pending, updated);
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: args.agent_id,
+      action_type: 'override',
+      description: `Owner changed vote on proposal ${args.proposal_address.slice(0, 8)}... from ${pending.vote.toUpperCase()} to ${args.vote.toUpperCase()}`,
+      metadata_json: JSON.stringify({ proposal: args.proposal_address, from: pending.vote, to: args.vote }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+// Claims a held vote whose window has passed for the worker to cast. A claim
+// left by an interrupted cycle (or a dropped transaction) is taken again.
+export const begin_pending_vote = spacetimedb.reducer(
+  'begin_pending_vote',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const pendingKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+    const pending = ctx.db.pendingVotes.pending_key.find(pendingKey);
+    if (!pending) throw new Error('Pending vote not found');
+    if (pending.status !== 'pending' && pending.status !== 'submitting') {
+      throw new Error(`Pending vote is already ${pending.status}`);
+    }
+    if (ctx.timestamp.microsSinceUnixEpoch / 1000n < pending.execute_after_ms) {
+      throw new Error('Veto window is still open');
+    }
+    if (pending.status === 'submitting') return;
+
+    const updated = {
+      ...pending,
+      status: 'submitting',
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.pendingVotes.pending_key.update(updated);
+    audit(ctx, 'begin_pending_vote', args.agent_id, pending, updated);
+  }
+);
+
+export const resolve_pending_vote = spacetimedb.reducer(
+  'resolve_pending_vote',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+    status: t.string(),
+    reason: t.option(t.string()),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    if (args.status !== 'submitted' && args.status !== 'failed') {
+      throw new Error(`Unknown pending vote resolution "${args.status}"`);
+    }
+
+    const pendingKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+    const pending = ctx.db.pendingVotes.pending_key.find(pendingKey);
+    if (!pending) throw new Error('Pending vote not found');
+    if (pending.status !== 'submitting') throw new Error(`Pending vote is ${pending.status}, not submitting`);
+
+    const updated = {
+      ...pending,
+      status: args.status,
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.pendingVotes.pending_key.update(updated);
+    audit(ctx, 'resolve_pending_vote', args.agent_id, pending, updated);
+
+    if (args.status === 'failed') {
+      ctx.db.activityLog.insert({
+        id: 0n,
+        agent_id: args.agent_id,
+        action_type: 'pending_vote',
+        description: `Held ${pending.vote.toUpperCase()} vote on proposal ${args.proposal_address.slice(0, 8)}... could not be cast: ${args.reason ?? 'unknown reason'}`,
+        metadata_json: JSON.stringify({ proposal: args.proposal_address, vote: pending.vote, reason: args.reason ?? null }),
+        created_at: ctx.timestamp,
+      });
+    }
+  }
+);
+
+export const create_proposal_draft = spacetimedb.reducer(
+  'create_proposal_draft',
+  {
+    draft_key: t.string(),
+    agent_id: t.u64(),
+    realm_address: t.string(),
+    governance_address: t.string(),
+    governing_token_mint: t.string(),
+    delegator_wallet: t.string(),
+    brief: t.string(),
+    title: t.string(),
+    description: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    if (ctx.db.proposalDrafts.draft_key.find(args.draft_key)) {
+      throw new Error('Proposal draft already exists');
+    }
+
+    const draft = ctx.db.proposalDrafts.insert({
+      id: 0n,
+      draft_key: args.draft_key,
+      agent_id: args.agent_id,
+      realm_address: args.realm_address,
+      governance_address: args.governance_address,
+      governing_token_mint: args.governing_token_mint,
+      delegator_wallet: args.delegator_wallet,
+      brief: args.brief,
+      title: args.title,
+      description: args.description,
+      status: 'pending_approval',
+      proposal_address: undefined,
+      tx_signature: undefined,
+      created_at: ctx.timestamp,
+      updated_at: ctx.timestamp,
+    });
+    audit(ctx, 'create_proposal_draft', args.agent_id, null, draft);
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: args.agent_id,
+      action_type: 'proposal_draft',
+      description: `Drafted proposal "${args.title}" for realm ${args.realm_address.slice(0, 8)}... — awaiting owner approval`,
+      metadata_json: JSON.stringify({ draft: args.draft_key, realm: args.realm_address }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const reject_proposal_draft = spacetimedb.reducer(
+  'reject_proposal_draft',
+  {
+    draft_key: t.string(),
+  },
+  (ctx, args) => {
+    const draft = ctx.db.proposalDrafts.draft_key.find(args.draft_key);
+    if (!draft) throw new Error('Proposal draft not found');
+    requireAdminOrOwner(ctx, draft.agent_id);
+    if (draft.status !== 'pending_approval') throw new Error(`Proposal draft is already ${draft.status}`);
+
+    const updated = {
+      ...draft,
+      status: 'rejected',
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.proposalDrafts.draft_key.update(updated);
+    audit(ctx, 'reject_proposal_draft', draft.agent_id, draft, updated);
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: draft.agent_id,
+      action_type: 'override',
+      description: `Owner rejected proposal draft "${draft.title}"`,
+      metadata_json: JSON.stringify({ draft: args.draft_key }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+// Claims a draft for its on-chain send, so a second approval of the same
+// draft fails here instead of creating a second proposal.
+export const begin_proposal_approval = spacetimedb.reducer(
+  'begin_proposal_approval',
+  {
+    draft_key: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const draft = ctx.db.proposalDrafts.draft_key.find(args.draft_key);
+    if (!draft) throw new Error('Proposal draft not found');
+    if (draft.status !== 'pending_approval') throw new Error(`Proposal draft is already ${draft.status}`);
+
+    const updated = {
+      ...draft,
+      status: 'approving',
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.proposalDrafts.draft_key.update(updated);
+    audit(ctx, 'begin_proposal_approval', draft.agent_id, draft, updated);
+  }
+);
+
+// Returns a claimed draft to the owner when its transaction never landed
+export const release_proposal_approval = spacetimedb.reducer(
+  'release_proposal_approval',
+  {
+    draft_key: t.string(),
+    reason: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const draft = ctx.db.proposalDrafts.draft_key.find(args.draft_key);
+    if (!draft) throw new Error('Proposal draft not found');
+    if (draft.status !== 'approving') throw new Error(`Proposal draft is ${draft.status}, not approving`);
+
+    const updated = {
+      ...draft,
+      status: 'pending_approval',
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.proposalDrafts.draft_key.update(updated);
+    audit(ctx, 'release_proposal_approval', draft.agent_id, draft, updated);
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: draft.agent_id,
+      action_type: 'proposal_draft',
+      description: `Creating proposal "${draft.title}" failed — awaiting owner approval again`,
+      metadata_json: JSON.stringify({ draft: args.draft_key, reason: args.reason }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const submit_proposal_draft = spacetimedb.reducer(
+  'submit_proposal_draft',
+  {
+    draft_key: t.string(),
+    proposal_address: t.string(),
+    tx_signature: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const draft = ctx.db.proposalDrafts.draft_key.find(args.draft_key);
+    if (!draft) throw new Error('Proposal draft not found');
+    if (draft.status !== 'approving') throw new Error(`Proposal draft is ${draft.status}, not approving`);
+
+    const updated = {
+      ...draft,
+      status: 'submitted',
+      proposal_address: args.proposal_address,
+      tx_signature: args.tx_signature,
+      updated_at: ctx.timestamp,
+    };
+    ctx.db.proposalDrafts.draft_key.update(updated);
+    audit(ctx, 'submit_proposal_draft', draft.agent_id, draft, updated);
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: draft.agent_id,
+      action_type: 'proposal',
+      description: `Created proposal "${draft.title}" (${args.proposal_address.slice(0, 8)}...) after owner approval`,
+      metadata_json: JSON.stringify({
+        draft: args.draft_key,
+        proposal: args.proposal_address,
+        tx: args.tx_signature,
+      }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const update_agent_stats = spacetimedb.reducer(
+  'update_agent_stats',
+  {
+    agent_id: t.u64(),
+    proposal_address: t.string(),
+    final_state: t.string(),
+    outcome: t.string(),
+    agent_vote: t.string(),
+    matched_outcome: t.bool(),
+    delegators_compared: t.u32(),
+    delegators_agreed: t.u32(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const scoreKey = `${args.agent_id.toString()}:${args.proposal_address}`;
+
+    // Idempotent: a finalized proposal is only scored once per agent.
+    if (ctx.db.voteScores.score_key.find(scoreKey)) return;
+
+    const voteScore = ctx.db.voteScores.insert({
+      id: 0n,
+      score_key: scoreKey,
+      agent_id: args.agent_id,
+      proposal_address: args.proposal_address,
+      final_state: args.final_state,
+      outcome: args.outcome,
+      agent_vote: args.agent_vote,
+      matched_outcome: args.matched_outcome,
+      delegators_compared: args.delegators_compared,
+      delegators_agreed: args.delegators_agreed,
+      scored_at: ctx.timestamp,
+    });
+    audit(ctx, 'update_agent_stats', args.agent_id, null, voteScore);
+
+    // Accuracy = % of decisive votes (for/against/veto on a passed/defeated
+    // proposal) that matched the outcome; the worker scores a veto as against.
+    // Abstains and cancelled proposals don't count.
+    let decided = 0;
+    let matched = 0;
+    for (const score of ctx.db.voteScores.iter()) {
+      if (score.agent_id !== args.agent_id) continue;
+      if (score.outcome === 'none' || score.agent_vote === 'abstain') continue;
+      decided += 1;
+      if (score.matched_outcome) matched += 1;
+    }
+
+    const agent = ctx.db.agents.id.find(args.agent_id);
+    if (agent) {
+      const updatedAgent = {
+        ...agent,
+        accuracy_score: decided > 0 ? Math.round((matched * 100) / decided) : 0,
+        updated_at: ctx.timestamp,
+      };
+      ctx.db.agents.id.update(updatedAgent);
+      audit(ctx, 'update_agent_stats', args.agent_id, agent, updatedAgent);
+    }
+
+    const verdict = args.outcome === 'none' || args.agent_vote === 'abstain'
+      ? 'not scored'
+      : args.matched_outcome ? 'matched outcome' : 'missed outcome';
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: args.agent_id,
+      action_type: 'score',
+      description: `Proposal ${args.proposal_address.slice(0, 8)}... finalized as ${args.final_state} — ${args.agent_vote.toUpperCase()} vote ${verdict}`,
+      metadata_json: JSON.stringify({
+        proposal: args.proposal_address,
+        outcome: args.outcome,
+        delegators_compared: args.delegators_compared,
+        delegators_agreed: args.delegators_agreed,
+      }),
       created_at: ctx.timestamp,
     });
   }
@@ -234,27 +1234,36 @@ export const create_delegation = spacetimedb.reducer(
     realm_address: t.string(),
     scope_bitmap: t.u64(),
     delegator_wallet: t.string(),
+    governing_token_mint: t.option(t.string()),
+    // TokenOwnerRecord verified to name the agent wallet as governance delegate
+    on_chain_pda: t.option(t.string()),
   },
   (ctx, args) => {
-    ctx.db.delegations.insert({
+    requireAdmin(ctx);
+
+    const delegation = ctx.db.delegations.insert({
       id: 0n,
       delegator_wallet: args.delegator_wallet,
       agent_id: args.agent_id,
       realm_address: args.realm_address,
       scope_bitmap: args.scope_bitmap,
       is_active: true,
-      on_chain_pda: undefined,
+      on_chain_pda: args.on_chain_pda,
       created_at: ctx.timestamp,
+      governing_token_mint: args.governing_token_mint,
     });
+    audit(ctx, 'create_delegation', args.agent_id, null, delegation);
 
     // Update agent delegation count
     const agent = ctx.db.agents.id.find(args.agent_id);
     if (agent) {
-      ctx.db.agents.id.update({
+      const updatedAgent = {
         ...agent,
         delegation_count: agent.delegation_count + 1,
         updated_at: ctx.timestamp,
-      });
+      };
+      ctx.db.agents.id.update(updatedAgent);
+      audit(ctx, 'create_delegation', args.agent_id, agent, updatedAgent);
     }
 
     ctx.db.activityLog.insert({
@@ -262,7 +1271,12 @@ export const create_delegation = spacetimedb.reducer(
       agent_id: args.agent_id,
       action_type: 'delegate',
       description: `Received delegation from ${args.delegator_wallet.slice(0, 8)}... for realm ${args.realm_address.slice(0, 8)}...`,
-      metadata_json: JSON.stringify({ realm: args.realm_address, scope: args.scope_bitmap.toString() }),
+      metadata_json: JSON.stringify({
+        realm: args.realm_address,
+        scope: args.scope_bitmap.toString(),
+        mint: args.governing_token_mint ?? null,
+        tokenOwnerRecord: args.on_chain_pda ?? null,
+      }),
       created_at: ctx.timestamp,
     });
   }
@@ -272,21 +1286,195 @@ export const revoke_delegation = spacetimedb.reducer(
   'revoke_delegation',
   { delegation_id: t.u64() },
   (ctx, args) => {
+    requireAdmin(ctx);
+
     const delegation = ctx.db.delegations.id.find(args.delegation_id);
     if (!delegation) throw new Error('Delegation not found');
 
-    ctx.db.delegations.id.update({
-      ...delegation,
-      is_active: false,
-    });
+    const updated = { ...delegation, is_active: false };
+    ctx.db.delegations.id.update(updated);
+    audit(ctx, 'revoke_delegation', delegation.agent_id, delegation, updated);
 
     const agent = ctx.db.agents.id.find(delegation.agent_id);
     if (agent && agent.delegation_count > 0) {
-      ctx.db.agents.id.update({
+      const updatedAgent = {
         ...agent,
         delegation_count: agent.delegation_count - 1,
         updated_at: ctx.timestamp,
-      });
+      };
+      ctx.db.agents.id.update(updatedAgent);
+      audit(ctx, 'revoke_delegation', delegation.agent_id, agent, updatedAgent);
+    }
+  }
+);
+
+// Delegation the chain no longer backs (revoked, re-delegated or withdrawn
+// outside the app), found by the worker's reconciler
+export const deactivate_delegation = spacetimedb.reducer(
+  'deactivate_delegation',
+  {
+    delegation_id: t.u64(),
+    reason: t.string(),
+    details_json: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const delegation = ctx.db.delegations.id.find(args.delegation_id);
+    if (!delegation) throw new Error('Delegation not found');
+    if (!delegation.is_active) throw new Error('Delegation is already inactive');
+
+    const updated = { ...delegation, is_active: false };
+    ctx.db.delegations.id.update(updated);
+    audit(ctx, 'deactivate_delegation', delegation.agent_id, delegation, updated);
+
+    const agent = ctx.db.agents.id.find(delegation.agent_id);
+    if (agent && agent.delegation_count > 0) {
+      const updatedAgent = {
+        ...agent,
+        delegation_count: agent.delegation_count - 1,
+        updated_at: ctx.timestamp,
+      };
+      ctx.db.agents.id.update(updatedAgent);
+      audit(ctx, 'deactivate_delegation', delegation.agent_id, agent, updatedAgent);
+    }
+
+    ctx.db.activityLog.insert({
+      id: 0n,
+      agent_id: delegation.agent_id,
+      action_type: 'delegation_drift',
+      description: `Deactivated delegation from ${delegation.delegator_wallet.slice(0, 8)}... for realm ${delegation.realm_address.slice(0, 8)}...: ${args.reason}`,
+      metadata_json: JSON.stringify({
+        delegation: args.delegation_id.toString(),
+        realm: delegation.realm_address,
+        reason: args.reason,
+        details: JSON.parse(args.details_json),
+      }),
+      created_at: ctx.timestamp,
+    });
+  }
+);
+
+export const set_delegator_preference = spacetimedb.reducer(
+  'set_delegator_preference',
+  {
+    delegator_wallet: t.string(),
+    realm_address: t.string(),
+    proposal_address: t.option(t.string()),
+    preference: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    if (!['follow', 'abstain', 'for', 'against'].includes(args.preference)) {
+      throw new Error(`Unknown delegator preference: ${args.preference}`);
+    }
+
+    const preferenceKey = `${args.delegator_wallet}:${args.realm_address}:${args.proposal_address ?? '*'}`;
+    const existing = ctx.db.delegatorPreferences.preference_key.find(preferenceKey);
+    if (existing) {
+      const updated = {
+        ...existing,
+        preference: args.preference,
+        updated_at: ctx.timestamp,
+      };
+      ctx.db.delegatorPreferences.preference_key.update(updated);
+      audit(ctx, 'set_delegator_preference', MODULE_AUDIT_ID, existing, updated);
+      return;
+    }
+
+    const preference = ctx.db.delegatorPreferences.insert({
+      id: 0n,
+      preference_key: preferenceKey,
+      delegator_wallet: args.delegator_wallet,
+      realm_address: args.realm_address,
+      proposal_address: args.proposal_address,
+      preference: args.preference,
+      created_at: ctx.timestamp,
+      updated_at: ctx.timestamp,
+    });
+    audit(ctx, 'set_delegator_preference', MODULE_AUDIT_ID, null, preference);
+  }
+);
+
+export const clear_delegator_preference = spacetimedb.reducer(
+  'clear_delegator_preference',
+  {
+    delegator_wallet: t.string(),
+    realm_address: t.string(),
+    proposal_address: t.option(t.string()),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const preferenceKey = `${args.delegator_wallet}:${args.realm_address}:${args.proposal_address ?? '*'}`;
+    const existing = ctx.db.delegatorPreferences.preference_key.find(preferenceKey);
+    if (!existing) throw new Error('Delegator preference not found');
+
+    ctx.db.delegatorPreferences.preference_key.delete(preferenceKey);
+    audit(ctx, 'clear_delegator_preference', MODULE_AUDIT_ID, existing, null);
+  }
+);
+
+export const create_api_key = spacetimedb.reducer(
+  'create_api_key',
+  {
+    key_hash: t.string(),
+    key_prefix: t.string(),
+    owner_wallet: t.string(),
+    label: t.string(),
+    agent_ids_json: t.string(),
+    scopes_json: t.string(),
+  },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const scopes = JSON.parse(args.scopes_json) as string[];
+    const unknownScope = scopes.find((scope) => !['read', 'analyze', 'vote', 'delegate'].includes(scope));
+    if (scopes.length === 0 || unknownScope) {
+      throw new Error(`Unknown API key scope: ${unknownScope ?? '(none)'}`);
+    }
+
+    const agentIds = JSON.parse(args.agent_ids_json) as string[];
+    if (agentIds.length === 0) throw new Error('An API key needs at least one agent');
+    for (const agentId of agentIds) {
+      const agent = ctx.db.agents.id.find(BigInt(agentId));
+      if (!agent || agent.owner_wallet !== args.owner_wallet) {
+        throw new Error(`Agent ${agentId} is not owned by ${args.owner_wallet}`);
+      }
+    }
+
+    const key = ctx.db.apiKeys.insert({
+      id: 0n,
+      key_hash: args.key_hash,
+      key_prefix: args.key_prefix,
+      owner_wallet: args.owner_wallet,
+      label: args.label,
+      agent_ids_json: args.agent_ids_json,
+      scopes_json: args.scopes_json,
+      created_at: ctx.timestamp,
+      revoked_at: undefined,
+    });
+    for (const agentId of agentIds) {
+      audit(ctx, 'create_api_key', BigInt(agentId), null, auditedApiKey(key));
+    }
+  }
+);
+
+export const revoke_api_key = spacetimedb.reducer(
+  'revoke_api_key',
+  { key_id: t.u64() },
+  (ctx, args) => {
+    requireAdmin(ctx);
+
+    const key = ctx.db.apiKeys.id.find(args.key_id);
+    if (!key) throw new Error('API key not found');
+    if (key.revoked_at) throw new Error('API key is already revoked');
+
+    const updated = { ...key, revoked_at: ctx.timestamp };
+    ctx.db.apiKeys.id.update(updated);
+    for (const agentId of JSON.parse(key.agent_ids_json) as string[]) {
+      audit(ctx, 'revoke_api_key', BigInt(agentId), auditedApiKey(key), auditedApiKey(updated));
     }
   }
 );
@@ -301,20 +1489,24 @@ export const store_ai_analysis = spacetimedb.reducer(
     confidence: t.f64(),
   },
   (ctx, args) => {
+    requireAdmin(ctx);
+
     const analysisKey = `${args.agent_id.toString()}:${args.proposal_address}`;
     const existing = ctx.db.aiAnalyses.analysis_key.find(analysisKey);
 
     if (existing) {
-      ctx.db.aiAnalyses.analysis_key.update({
+      const updated = {
         ...existing,
         analysis_json: args.analysis_json,
         recommendation: args.recommendation,
         confidence: args.confidence,
-      });
+      };
+      ctx.db.aiAnalyses.analysis_key.update(updated);
+      audit(ctx, 'store_ai_analysis', args.agent_id, existing, updated);
       return;
     }
 
-    ctx.db.aiAnalyses.insert({
+    const analysis = ctx.db.aiAnalyses.insert({
       id: 0n,
       analysis_key: analysisKey,
       agent_id: args.agent_id,
@@ -324,6 +1516,7 @@ export const store_ai_analysis = spacetimedb.reducer(
       confidence: args.confidence,
       created_at: ctx.timestamp,
     });
+    audit(ctx, 'store_ai_analysis', args.agent_id, null, analysis);
   }
 );
 
@@ -335,15 +1528,26 @@ export const update_agent_wallet = spacetimedb.reducer(
     privy_wallet_address: t.string(),
   },
   (ctx, args) => {
+    requireAdmin(ctx);
+
     const agent = ctx.db.agents.id.find(args.agent_id);
     if (!agent) throw new Error('Agent not found');
 
-    ctx.db.agents.id.update({
+    // The private wallet id is left out of the audit trail with the rest of agent_wallets
+    const updated = {
       ...agent,
-      privy_wallet_id: args.privy_wallet_id,
       privy_wallet_address: args.privy_wallet_address,
       updated_at: ctx.timestamp,
-    });
+    };
+    ctx.db.agents.id.update(updated);
+    audit(ctx, 'update_agent_wallet', args.agent_id, agent, updated);
+
+    const wallet = { agent_id: args.agent_id, privy_wallet_id: args.privy_wallet_id };
+    if (ctx.db.agentWallets.agent_id.find(args.agent_id)) {
+      ctx.db.agentWallets.agent_id.update(wallet);
+    } else {
+      ctx.db.agentWallets.insert(wallet);
+    }
   }
 );
 
@@ -354,16 +1558,19 @@ export const add_tracked_realm = spacetimedb.reducer(
     name: t.string(),
   },
   (ctx, args) => {
+    requireAdmin(ctx);
+
     const existing = ctx.db.trackedRealms.address.find(args.address);
     if (existing) return;
 
-    ctx.db.trackedRealms.insert({
+    const realm = ctx.db.trackedRealms.insert({
       id: 0n,
       address: args.address,
       name: args.name,
       is_active: true,
       added_at: ctx.timestamp,
     });
+    audit(ctx, 'add_tracked_realm', MODULE_AUDIT_ID, null, realm);
   }
 );
 
@@ -371,9 +1578,12 @@ export const remove_tracked_realm = spacetimedb.reducer(
   'remove_tracked_realm',
   { address: t.string() },
   (ctx, args) => {
+    requireAdmin(ctx);
+
     const realm = ctx.db.trackedRealms.address.find(args.address);
     if (!realm) return;
     ctx.db.trackedRealms.address.delete(args.address);
+    audit(ctx, 'remove_tracked_realm', MODULE_AUDIT_ID, realm, null);
   }
 );
 
@@ -381,6 +1591,8 @@ export const clear_all_votes = spacetimedb.reducer(
   'clear_all_votes',
   {},
   (ctx) => {
+    requireAdmin(ctx);
+
     // Delete all votes
     const voteIds: bigint[] = [];
     for (const vote of ctx.db.votes.iter()) {
@@ -390,7 +1602,16 @@ export const clear_all_votes = spacetimedb.reducer(
       ctx.db.votes.id.delete(id);
     }
 
-    // Reset agent total_votes to 0
+    // Scores are derived from votes — drop them with the votes
+    const scoreIds: bigint[] = [];
+    for (const score of ctx.db.voteScores.iter()) {
+      scoreIds.push(score.id);
+    }
+    for (const id of scoreIds) {
+      ctx.db.voteScores.id.delete(id);
+    }
+
+    // Reset agent total_votes and accuracy_score to 0
     const agentUpdates: { id: bigint }[] = [];
     for (const agent of ctx.db.agents.iter()) {
       agentUpdates.push({ id: agent.id });
@@ -398,11 +1619,14 @@ export const clear_all_votes = spacetimedb.reducer(
     for (const { id } of agentUpdates) {
       const agent = ctx.db.agents.id.find(id);
       if (agent) {
-        ctx.db.agents.id.update({
+        const updated = {
           ...agent,
           total_votes: 0,
+          accuracy_score: 0,
           updated_at: ctx.timestamp,
-        });
+        };
+        ctx.db.agents.id.update(updated);
+        audit(ctx, 'clear_all_votes', id, agent, updated);
       }
     }
 
@@ -414,6 +1638,12 @@ export const clear_all_votes = spacetimedb.reducer(
     for (const id of analysisIds) {
       ctx.db.aiAnalyses.id.delete(id);
     }
+
+    audit(ctx, 'clear_all_votes', MODULE_AUDIT_ID, {
+      votes: voteIds.length,
+      vote_scores: scoreIds.length,
+      ai_analyses: analysisIds.length,
+    }, null);
   }
 );
 
@@ -421,6 +1651,8 @@ export const seed_tracked_realms = spacetimedb.reducer(
   'seed_tracked_realms',
   {},
   (ctx) => {
+    requireAdmin(ctx);
+
     // Devnet test realm (created via scripts/setup-devnet-realm.ts)
     // For mainnet, replace with real realm addresses (Marinade, Mango, Jito, etc.)
     const defaults = [
@@ -431,13 +1663,14 @@ export const seed_tracked_realms = spacetimedb.reducer(
       const existing = ctx.db.trackedRealms.address.find(realm.address);
       if (existing) continue;
 
-      ctx.db.trackedRealms.insert({
+      const row = ctx.db.trackedRealms.insert({
         id: 0n,
         address: realm.address,
         name: realm.name,
         is_active: true,
         added_at: ctx.timestamp,
       });
+      audit(ctx, 'seed_tracked_realms', MODULE_AUDIT_ID, null, row);
     }
   }
 );
@@ -28,7 +28,6 @@ export function makeAgent(overrides: Record<string, unknown> = {}) {
     }),
     risk_tolerance: 'moderate',
     owner_wallet: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
-    privy_wallet_id: 'wallet-id-123',
     privy_wallet_address: '9xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
     is_active: true,
     total_votes: 5,
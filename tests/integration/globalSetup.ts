@@ -13,6 +13,7 @@ const STDB_TEST_URL = 'http://localhost:3200';
 const MODULE_NAME = 'clawddao-test';
 const MAX_WAIT_MS = 30_000;
 const ENV_FILE = path.resolve(__dirname, '.env.integration');
+const CLI_CONFIG = path.resolve(__dirname, '.spacetime-cli.toml');
 
 const execOpts: ExecSyncOptions = {
   cwd: process.cwd(),
@@ -46,11 +47,19 @@ export async function setup() {
   await waitForHealth();
   console.log('[test-setup] SpacetimeDB is healthy.');
 
-  // Publish the module
+  // Publish as a fresh identity whose token the tests then use — the module
+  // makes its publisher the first admin, and reducers reject anyone else.
+  const identityRes = await fetch(`${STDB_TEST_URL}/v1/identity`, { method: 'POST' });
+  const { token } = (await identityRes.json()) as { token: string };
+  // Test workers are spawned after setup and inherit this
+  process.env.SPACETIMEDB_TOKEN = token;
+
   console.log('[test-setup] Publishing module...');
   try {
+    writeFileSync(CLI_CONFIG, '');
+    execSync(`spacetime --config-path ${CLI_CONFIG} login --token ${token}`, execOpts);
     execSync(
-      `spacetime publish ${MODULE_NAME} -p spacetimedb/ -s ${STDB_TEST_URL} --anonymous -y`,
+      `spacetime --config-path ${CLI_CONFIG} publish ${MODULE_NAME} -p spacetimedb/ -s ${STDB_TEST_URL} -y`,
       { ...execOpts, stdio: 'inherit' },
     );
   } catch {
@@ -59,7 +68,10 @@ export async function setup() {
   }
 
   // Write env file for test workers (globalSetup runs in separate process)
-  writeFileSync(ENV_FILE, `SPACETIMEDB_URL=${STDB_TEST_URL}\nSPACETIMEDB_MODULE_NAME=${MODULE_NAME}\n`);
+  writeFileSync(
+    ENV_FILE,
+    `SPACETIMEDB_URL=${STDB_TEST_URL}\nSPACETIMEDB_MODULE_NAME=${MODULE_NAME}\nSPACETIMEDB_TOKEN=${token}\n`,
+  );
 }
 
 export async function teardown() {
@@ -69,9 +81,11 @@ export async function teardown() {
   } catch {
     // best effort
   }
-  try {
-    unlinkSync(ENV_FILE);
-  } catch {
-    // best effort
+  for (const file of [ENV_FILE, CLI_CONFIG]) {
+    try {
+      unlinkSync(file);
+    } catch {
+      // best effort
+    }
   }
 }
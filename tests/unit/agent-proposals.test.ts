@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResponse } from '../helpers';
+import { makeAuthRequest, makeAgent, VALID_USER_ID } from '../fixtures';
+
+// ─── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('@shared/lib/auth', () => ({
+  verifyAuth: vi.fn(),
+  authorizeAgentOwner: vi.fn(),
+  AuthError: class AuthError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 401) {
+      super(message);
+      this.name = 'AuthError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  getAgentById: vi.fn(),
+  getProposalDraft: vi.fn(),
+  getProposalDraftsByAgent: vi.fn(),
+  rejectProposalDraft: vi.fn(),
+}));
+
+vi.mock('@shared/lib/proposal-drafts', () => ({
+  draftProposalFromBrief: vi.fn(),
+  submitApprovedProposal: vi.fn(),
+  ProposalDraftError: class ProposalDraftError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 400) {
+      super(message);
+      this.name = 'ProposalDraftError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+import { verifyAuth, AuthError } from '@shared/lib/auth';
+import {
+  getAgentById,
+  getProposalDraft,
+  getProposalDraftsByAgent,
+  rejectProposalDraft,
+} from '@shared/lib/stdb-client';
+import {
+  draftProposalFromBrief,
+  submitApprovedProposal,
+  ProposalDraftError,
+} from '@shared/lib/proposal-drafts';
+import { GET, POST } from '@/app/api/agents/[id]/proposals/route';
+import { POST as POST_DECISION } from '@/app/api/agents/[id]/proposals/[draftKey]/route';
+
+const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockGetAgentById = vi.mocked(getAgentById);
+const mockGetProposalDraft = vi.mocked(getProposalDraft);
+const mockGetProposalDraftsByAgent = vi.mocked(getProposalDraftsByAgent);
+const mockRejectProposalDraft = vi.mocked(rejectProposalDraft);
+const mockDraftProposalFromBrief = vi.mocked(draftProposalFromBrief);
+const mockSubmitApprovedProposal = vi.mocked(submitApprovedProposal);
+
+const REALM = 'realm1111111111111111111111111111111111111111';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function url(id: string, draftKey?: string) {
+  return 'http://localhost:3000/api/agents/' + id + '/proposals' + (draftKey ? '/' + draftKey : '');
+}
+
+function postRequest(target: string, body: Record<string, unknown>) {
+  return makeAuthRequest(target, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function callGET(id: string) {
+  return GET(makeAuthRequest(url(id)), { params: Promise.resolve({ id }) });
+}
+
+function callPOST(id: string, body: Record<string, unknown>) {
+  return POST(postRequest(url(id), body), { params: Promise.resolve({ id }) });
+}
+
+function callDecision(id: string, draftKey: string, body: Record<string, unknown>) {
+  return POST_DECISION(postRequest(url(id, draftKey), body), {
+    params: Promise.resolve({ id, draftKey }),
+  });
+}
+
+function makeDraft(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1n,
+    draft_key: 'draft-1',
+    agent_id: 1n,
+    realm_address: REALM,
+    governance_address: 'gov-1',
+    governing_token_mint: 'mint-1',
+    delegator_wallet: 'delegator-1',
+    brief: 'Fund grants',
+    title: 'Fund Q3 grants',
+    description: 'Allocate 500 USDC',
+    status: 'pending_approval',
+    proposal_address: null,
+    tx_signature: null,
+    created_at: null,
+    updated_at: null,
+    ...overrides,
+  };
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('GET /api/agents/[id]/proposals', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 401 without auth', async () => {
+    mockVerifyAuth.mockRejectedValue(new AuthError('Missing Authorization header'));
+
+    const { status } = await parseResponse(await callGET('1'));
+
+    expect(status).toBe(401);
+  });
+
+  it('lists the agent drafts', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetProposalDraftsByAgent.mockResolvedValue([makeDraft({ id: 1, agent_id: 1 })] as never);
+
+    const { status, body } = await parseResponse(await callGET('1'));
+
+    expect(status).toBe(200);
+    expect(body).toHaveLength(1);
+    expect(mockGetProposalDraftsByAgent).toHaveBeenCalledWith(1n);
+  });
+});
+
+describe('POST /api/agents/[id]/proposals', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+  });
+
+  it('returns 400 when required fields are missing', async () => {
+    const { status, body } = await parseResponse(await callPOST('1', { realmAddress: REALM }));
+
+    expect(status).toBe(400);
+    expect(body).toEqual(
+      expect.objectContaining({ error: expect.stringContaining('Missing required fields') }),
+    );
+  });
+
+  it('returns 404 for an unknown agent', async () => {
+    mockGetAgentById.mockResolvedValue(null);
+
+    const { status } = await parseResponse(await callPOST('9', { realmAddress: REALM, brief: 'Fund grants' }));
+
+    expect(status).toBe(404);
+    expect(mockDraftProposalFromBrief).not.toHaveBeenCalled();
+  });
+
+  it('drafts a proposal from the brief', async () => {
+    const draft = {
+      draftKey: 'draft-1',
+      realmAddress: REALM,
+      governanceAddress: 'gov-1',
+      title: 'Fund Q3 grants',
+      description: 'Allocate 500 USDC',
+      status: 'pending_approval' as const,
+    };
+    mockDraftProposalFromBrief.mockResolvedValue(draft);
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { realmAddress: REALM, brief: 'Fund grants' }),
+    );
+
+    expect(status).toBe(201);
+    expect(body).toEqual(draft);
+    expect(mockDraftProposalFromBrief).toHaveBeenCalledWith(
+      expect.objectContaining({ realmAddress: REALM, brief: 'Fund grants', governanceAddress: undefined }),
+    );
+  });
+
+  it('maps draft errors to their status code', async () => {
+    mockDraftProposalFromBrief.mockRejectedValue(
+      new ProposalDraftError('Agent 1 has no active CREATE_PROPOSAL delegation', 403),
+    );
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { realmAddress: REALM, brief: 'Fund grants' }),
+    );
+
+    expect(status).toBe(403);
+    expect(body).toEqual({ error: 'Agent 1 has no active CREATE_PROPOSAL delegation' });
+  });
+});
+
+describe('POST /api/agents/[id]/proposals/[draftKey]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetProposalDraft.mockResolvedValue(makeDraft() as never);
+  });
+
+  it('returns 401 without auth', async () => {
+    mockVerifyAuth.mockRejectedValue(new AuthError('Missing Authorization header'));
+
+    const { status } = await parseResponse(await callDecision('1', 'draft-1', { action: 'reject' }));
+
+    expect(status).toBe(401);
+  });
+
+  it('returns 400 for an unknown action', async () => {
+    const { status } = await parseResponse(await callDecision('1', 'draft-1', { action: 'publish' }));
+
+    expect(status).toBe(400);
+  });
+
+  it('returns 404 when the draft belongs to another agent', async () => {
+    mockGetProposalDraft.mockResolvedValue(makeDraft({ agent_id: 2n }) as never);
+
+    const { status } = await parseResponse(await callDecision('1', 'draft-1', { action: 'approve' }));
+
+    expect(status).toBe(404);
+    expect(mockSubmitApprovedProposal).not.toHaveBeenCalled();
+  });
+
+  it('rejects a pending draft', async () => {
+    mockRejectProposalDraft.mockResolvedValue({ ok: true });
+
+    const { status, body } = await parseResponse(await callDecision('1', 'draft-1', { action: 'reject' }));
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, action: 'reject' });
+    expect(mockRejectProposalDraft).toHaveBeenCalledWith('draft-1');
+  });
+
+  it('returns 409 when rejecting a draft that was already submitted', async () => {
+    mockGetProposalDraft.mockResolvedValue(makeDraft({ status: 'submitted' }) as never);
+
+    const { status } = await parseResponse(await callDecision('1', 'draft-1', { action: 'reject' }));
+
+    expect(status).toBe(409);
+    expect(mockRejectProposalDraft).not.toHaveBeenCalled();
+  });
+
+  it('approves and submits the proposal on-chain', async () => {
+    mockSubmitApprovedProposal.mockResolvedValue({
+      proposalAddress: 'new-proposal',
+      txSignature: 'sig-123',
+      status: 'confirmed',
+    });
+
+    const { status, body } = await parseResponse(
+      await callDecision('1', 'draft-1', { action: 'approve', descriptionLink: 'https://example.com/p.md' }),
+    );
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      success: true,
+      action: 'approve',
+      proposalAddress: 'new-proposal',
+      txSignature: 'sig-123',
+      status: 'confirmed',
+    });
+    expect(mockSubmitApprovedProposal).toHaveBeenCalledWith(
+      expect.objectContaining({ descriptionLink: 'https://example.com/p.md' }),
+    );
+  });
+
+  it('returns 500 with details when signing fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSubmitApprovedProposal.mockRejectedValue(new Error('Privy RPC failed: 500'));
+
+    const { status, body } = await parseResponse(await callDecision('1', 'draft-1', { action: 'approve' }));
+
+    expect(status).toBe(500);
+    expect(body).toEqual(expect.objectContaining({ details: expect.stringContaining('Privy RPC failed') }));
+    consoleSpy.mockRestore();
+  });
+});
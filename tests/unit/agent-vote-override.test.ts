@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResponse } from '../helpers';
+import { makeAuthRequest, makeAgent, VALID_USER_ID } from '../fixtures';
+
+// ─── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('@shared/lib/auth', () => ({
+  verifyAuth: vi.fn(),
+  authorizeAgentOwner: vi.fn(),
+  AuthError: class AuthError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 401) {
+      super(message);
+      this.name = 'AuthError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  getAgentById: vi.fn(),
+  getVoteByAgentAndProposal: vi.fn(),
+  getVoteHistory: vi.fn(),
+}));
+
+vi.mock('@shared/lib/vote-overrides', () => ({
+  overrideRecordedVote: vi.fn(),
+  OVERRIDE_VOTE_DIRECTIONS: ['for', 'against', 'abstain'],
+  VoteOverrideError: class VoteOverrideError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 400) {
+      super(message);
+      this.name = 'VoteOverrideError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+import { verifyAuth, AuthError } from '@shared/lib/auth';
+import {
+  getAgentById,
+  getVoteByAgentAndProposal,
+  getVoteHistory,
+} from '@shared/lib/stdb-client';
+import { overrideRecordedVote, VoteOverrideError } from '@shared/lib/vote-overrides';
+import { GET, POST } from '@/app/api/agents/[id]/vote/override/route';
+
+const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockGetAgentById = vi.mocked(getAgentById);
+const mockGetVoteByAgentAndProposal = vi.mocked(getVoteByAgentAndProposal);
+const mockGetVoteHistory = vi.mocked(getVoteHistory);
+const mockOverrideRecordedVote = vi.mocked(overrideRecordedVote);
+
+const PROPOSAL = 'prop11111111111111111111111111111111111111111';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const URL = 'http://localhost:3000/api/agents/1/vote/override';
+
+function callGET(id: string, proposalAddress?: string) {
+  const target = proposalAddress ? `${URL}?proposalAddress=${proposalAddress}` : URL;
+  return GET(makeAuthRequest(target), { params: Promise.resolve({ id }) });
+}
+
+function callPOST(id: string, body: Record<string, unknown>) {
+  const request = makeAuthRequest(URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ id }) });
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('GET /api/agents/[id]/vote/override', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+  });
+
+  it('returns 400 without a proposalAddress', async () => {
+    const { status } = await parseResponse(await callGET('1'));
+
+    expect(status).toBe(400);
+  });
+
+  it('returns the current vote with the directions it replaced', async () => {
+    mockGetVoteByAgentAndProposal.mockResolvedValue({ vote: 'against' } as never);
+    mockGetVoteHistory.mockResolvedValue([{ vote: 'for', changed_by: 'owner' }] as never);
+
+    const { status, body } = await parseResponse(await callGET('1', PROPOSAL));
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ vote: { vote: 'against' }, history: [{ vote: 'for', changed_by: 'owner' }] });
+    expect(mockGetVoteHistory).toHaveBeenCalledWith(1n, PROPOSAL);
+  });
+
+  it('returns 404 when the agent has not voted', async () => {
+    mockGetVoteByAgentAndProposal.mockResolvedValue(null);
+
+    const { status } = await parseResponse(await callGET('1', PROPOSAL));
+
+    expect(status).toBe(404);
+  });
+});
+
+describe('POST /api/agents/[id]/vote/override', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+  });
+
+  it('returns 401 without auth', async () => {
+    mockVerifyAuth.mockRejectedValue(new AuthError('Missing Authorization header'));
+
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, vote: 'against' }),
+    );
+
+    expect(status).toBe(401);
+  });
+
+  it('returns 400 when required fields are missing', async () => {
+    const { status, body } = await parseResponse(await callPOST('1', { proposalAddress: PROPOSAL }));
+
+    expect(status).toBe(400);
+    expect(body).toEqual(
+      expect.objectContaining({ error: expect.stringContaining('Missing required fields') }),
+    );
+  });
+
+  it('returns 400 for an unknown vote direction', async () => {
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, vote: 'veto' }),
+    );
+
+    expect(status).toBe(400);
+    expect(mockOverrideRecordedVote).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for malformed option choices', async () => {
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, vote: 'for', choices: ['Option A'] }),
+    );
+
+    expect(status).toBe(400);
+    expect(mockOverrideRecordedVote).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown agent', async () => {
+    mockGetAgentById.mockResolvedValue(null);
+
+    const { status } = await parseResponse(
+      await callPOST('9', { proposalAddress: PROPOSAL, vote: 'against' }),
+    );
+
+    expect(status).toBe(404);
+  });
+
+  it('overrides the vote', async () => {
+    const result = {
+      proposalAddress: PROPOSAL,
+      previousVote: 'for',
+      vote: 'against' as const,
+      choices: null,
+      txSignature: 'sig-override',
+    };
+    mockOverrideRecordedVote.mockResolvedValue(result);
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, vote: 'against', reason: 'Too risky' }),
+    );
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, ...result });
+    expect(mockOverrideRecordedVote).toHaveBeenCalledWith(
+      expect.objectContaining({ proposalAddress: PROPOSAL, vote: 'against', reason: 'Too risky' }),
+    );
+  });
+
+  it('maps override errors to their status code', async () => {
+    mockOverrideRecordedVote.mockRejectedValue(
+      new VoteOverrideError('Proposal is succeeded — votes can only change while voting', 409),
+    );
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, vote: 'against' }),
+    );
+
+    expect(status).toBe(409);
+    expect(body).toEqual({ error: 'Proposal is succeeded — votes can only change while voting' });
+  });
+
+  it('returns 500 with details when signing fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockOverrideRecordedVote.mockRejectedValue(new Error('Privy RPC failed: 500'));
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, vote: 'against' }),
+    );
+
+    expect(status).toBe(500);
+    expect(body).toEqual(expect.objectContaining({ details: expect.stringContaining('Privy RPC failed') }));
+    consoleSpy.mockRestore();
+  });
+});
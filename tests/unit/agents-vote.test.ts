@@ -6,6 +6,7 @@ import { makeAuthRequest, makeAgent, VALID_USER_ID } from '../fixtures';
 
 vi.mock('@shared/lib/auth', () => ({
   verifyAuth: vi.fn(),
+  authorizeAgentOwner: vi.fn(),
   AuthError: class AuthError extends Error {
     statusCode: number;
     constructor(message: string, statusCode = 401) {
@@ -24,17 +25,59 @@ vi.mock('@shared/lib/autonomous-vote-engine', () => ({
   executeAutonomousVote: vi.fn(),
 }));
 
-import { verifyAuth, AuthError } from '@shared/lib/auth';
+vi.mock('@shared/lib/governance', () => ({
+  fetchProposal: vi.fn(),
+  fetchProposalRealm: vi.fn(),
+  fetchProposalTransactions: vi.fn(),
+  serializeProposal: vi.fn(),
+}));
+
+vi.mock('@shared/lib/proposal-instructions', () => ({
+  decodeProposalTransactions: vi.fn(),
+}));
+
+import { verifyAuth, authorizeAgentOwner, AuthError } from '@shared/lib/auth';
 import { getAgentById } from '@shared/lib/stdb-client';
 import { executeAutonomousVote } from '@shared/lib/autonomous-vote-engine';
+import {
+  fetchProposal,
+  fetchProposalRealm,
+  fetchProposalTransactions,
+  serializeProposal,
+} from '@shared/lib/governance';
+import { decodeProposalTransactions } from '@shared/lib/proposal-instructions';
 import { POST } from '@/app/api/agents/[id]/vote/route';
 
 const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockAuthorizeAgentOwner = vi.mocked(authorizeAgentOwner);
 const mockGetAgentById = vi.mocked(getAgentById);
 const mockExecuteAutonomousVote = vi.mocked(executeAutonomousVote);
+const mockFetchProposal = vi.mocked(fetchProposal);
+const mockFetchProposalRealm = vi.mocked(fetchProposalRealm);
+const mockFetchProposalTransactions = vi.mocked(fetchProposalTransactions);
+const mockSerializeProposal = vi.mocked(serializeProposal);
+const mockDecodeProposalTransactions = vi.mocked(decodeProposalTransactions);
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+const PROPOSAL = 'proposal111111111111111111111111111111111111';
+
+function makeOnChainProposal(overrides: Record<string, unknown> = {}) {
+  return {
+    address: PROPOSAL,
+    governingTokenMint: 'mint111111111111111111111111111111111111111',
+    title: 'Fund dev grants',
+    descriptionLink: 'https://forum.example/fund-dev-grants',
+    status: 'voting',
+    forVotes: 1_200,
+    againstVotes: 300,
+    abstainVotes: 50,
+    options: [{ index: 0, label: 'Approve', voteWeight: 1_200, voteResult: 'none' }],
+    voteType: { choiceType: 'single' },
+    ...overrides,
+  };
+}
+
 function callPOST(id: string, body: Record<string, unknown>, authenticated = true) {
   const request = authenticated
     ? makeAuthRequest('http://localhost:3000/api/agents/' + id + '/vote', {
@@ -56,6 +99,11 @@ function callPOST(id: string, body: Record<string, unknown>, authenticated = tru
 describe('POST /api/agents/[id]/vote', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockFetchProposal.mockResolvedValue({} as never);
+    mockSerializeProposal.mockReturnValue(makeOnChainProposal() as never);
+    mockFetchProposalRealm.mockResolvedValue('realm1111111111111111111111111111111111111');
+    mockFetchProposalTransactions.mockResolvedValue([]);
+    mockDecodeProposalTransactions.mockReturnValue([]);
   });
 
   it('returns 401 without auth', async () => {
@@ -74,7 +122,6 @@ describe('POST /api/agents/[id]/vote', () => {
 
     const response = await callPOST('999', {
       proposalAddress: 'proposal111111111111111111111111111111111111',
-      proposalTitle: 'Test Proposal',
       realmName: 'TestDAO',
     });
     const { status, body } = await parseResponse(response);
@@ -85,13 +132,33 @@ describe('POST /api/agents/[id]/vote', () => {
     );
   });
 
+  it('returns 403 when the caller does not own the agent', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent({ owner_wallet: 'SomeoneE1se' }) as never);
+    mockAuthorizeAgentOwner.mockRejectedValueOnce(new AuthError('Not the owner of agent 1', 403));
+
+    const response = await callPOST('1', {
+      proposalAddress: 'proposal111111111111111111111111111111111111',
+      realmName: 'TestDAO',
+    });
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(403);
+    expect(body).toEqual({ error: 'Not the owner of agent 1' });
+    expect(mockAuthorizeAgentOwner).toHaveBeenCalledWith(
+      { authenticated: true, userId: VALID_USER_ID },
+      expect.objectContaining({ owner_wallet: 'SomeoneE1se' }),
+    );
+    expect(mockExecuteAutonomousVote).not.toHaveBeenCalled();
+  });
+
   it('returns 400 when required fields are missing', async () => {
     mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
     mockGetAgentById.mockResolvedValue(makeAgent() as never);
 
     const response = await callPOST('1', {
       proposalAddress: 'proposal111111111111111111111111111111111111',
-      // missing proposalTitle, realmName
+      // missing realmName
     });
     const { status, body } = await parseResponse(response);
 
@@ -118,7 +185,6 @@ describe('POST /api/agents/[id]/vote', () => {
 
     const response = await callPOST('1', {
       proposalAddress: 'proposal111111111111111111111111111111111111',
-      proposalTitle: 'Fund dev grants',
       proposalDescription: 'Allocate 10K SOL to developer grants',
       realmName: 'TestDAO',
     });
@@ -128,33 +194,94 @@ describe('POST /api/agents/[id]/vote', () => {
     expect(body).toEqual(voteResult);
     expect(mockExecuteAutonomousVote).toHaveBeenCalledWith({
       agent,
-      proposal: expect.objectContaining({
-        address: 'proposal111111111111111111111111111111111111',
+      proposal: {
+        address: PROPOSAL,
         title: 'Fund dev grants',
         description: 'Allocate 10K SOL to developer grants',
         realmName: 'TestDAO',
+        realmAddress: 'realm1111111111111111111111111111111111111',
+        governingTokenMint: 'mint111111111111111111111111111111111111111',
+        forVotes: 1_200,
+        againstVotes: 300,
+        abstainVotes: 50,
+        options: [{ index: 0, label: 'Approve', voteWeight: 1_200, voteResult: 'none' }],
+        voteType: { choiceType: 'single' },
         status: 'voting',
-      }),
+        transactions: [],
+      },
     });
   });
 
-  it('uses proposalTitle as description fallback when description is missing', async () => {
+  it('reads the title, options and state from the chain rather than the caller', async () => {
     mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
     mockGetAgentById.mockResolvedValue(makeAgent() as never);
     mockExecuteAutonomousVote.mockResolvedValue({ vote: 'ABSTAIN' } as never);
+    const options = [
+      { index: 0, label: 'Option A', voteWeight: 10, voteResult: 'none' },
+      { index: 1, label: 'Option B', voteWeight: 20, voteResult: 'none' },
+    ];
+    mockSerializeProposal.mockReturnValue(makeOnChainProposal({
+      options,
+      voteType: { choiceType: 'multi', maxVoterOptions: 2, maxWinningOptions: 2 },
+      status: 'succeeded',
+    }) as never);
 
     await callPOST('1', {
-      proposalAddress: 'proposal111111111111111111111111111111111111',
-      proposalTitle: 'Increase quorum',
+      proposalAddress: PROPOSAL,
+      proposalTitle: 'A title the caller made up',
       realmName: 'TestDAO',
     });
 
+    expect(mockFetchProposal).toHaveBeenCalledWith(PROPOSAL);
     expect(mockExecuteAutonomousVote).toHaveBeenCalledWith(
       expect.objectContaining({
         proposal: expect.objectContaining({
-          description: 'Increase quorum', // falls back to title
+          title: 'Fund dev grants',
+          description: 'https://forum.example/fund-dev-grants', // falls back to the description link
+          options,
+          voteType: { choiceType: 'multi', maxVoterOptions: 2, maxWinningOptions: 2 },
+          status: 'succeeded',
         }),
       }),
     );
   });
+
+  it('hands the agent the decoded proposal transactions', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockExecuteAutonomousVote.mockResolvedValue({ vote: 'AGAINST' } as never);
+    const accounts = [{ account: { instructions: [] } }];
+    const decoded = [{ index: 0, executionStatus: 'none', instructions: [] }];
+    mockFetchProposalTransactions.mockResolvedValue(accounts as never);
+    mockDecodeProposalTransactions.mockReturnValue(decoded as never);
+
+    await callPOST('1', {
+      proposalAddress: 'proposal111111111111111111111111111111111111',
+      realmName: 'TestDAO',
+    });
+
+    expect(mockFetchProposalTransactions).toHaveBeenCalledWith('proposal111111111111111111111111111111111111');
+    expect(mockDecodeProposalTransactions).toHaveBeenCalledWith(accounts);
+    expect(mockExecuteAutonomousVote).toHaveBeenCalledWith(
+      expect.objectContaining({ proposal: expect.objectContaining({ transactions: decoded }) }),
+    );
+  });
+
+  it('still votes when the proposal transactions cannot be fetched', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockExecuteAutonomousVote.mockResolvedValue({ vote: 'ABSTAIN' } as never);
+    mockFetchProposalTransactions.mockRejectedValue(new Error('RPC timeout'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await callPOST('1', {
+      proposalAddress: 'proposal111111111111111111111111111111111111',
+      realmName: 'TestDAO',
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockExecuteAutonomousVote).toHaveBeenCalledWith(
+      expect.objectContaining({ proposal: expect.objectContaining({ transactions: undefined }) }),
+    );
+  });
 });
@@ -6,6 +6,7 @@ import { makeAuthRequest, makeAgent, VALID_USER_ID } from '../fixtures';
 
 vi.mock('@shared/lib/auth', () => ({
   verifyAuth: vi.fn(),
+  authorizeWallet: vi.fn(),
   AuthError: class AuthError extends Error {
     statusCode: number;
     constructor(message: string, statusCode = 401) {
@@ -36,7 +37,7 @@ vi.mock('@shared/lib/constants', () => ({
   SOLANA_CHAIN_CONFIG: { chainId: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1' },
 }));
 
-import { verifyAuth, AuthError } from '@shared/lib/auth';
+import { verifyAuth, authorizeWallet, AuthError } from '@shared/lib/auth';
 import {
   getAllActiveAgents,
   getAgentsByOwner,
@@ -48,6 +49,7 @@ import { getOrCreateProfile } from '@shared/lib/tapestry';
 import { GET, POST } from '@/app/api/agents/route';
 
 const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockAuthorizeWallet = vi.mocked(authorizeWallet);
 const mockGetAllActiveAgents = vi.mocked(getAllActiveAgents);
 const mockGetAgentsByOwner = vi.mocked(getAgentsByOwner);
 const mockCreateAgent = vi.mocked(createAgent);
@@ -111,6 +113,18 @@ describe('GET /api/agents', () => {
     expect(body).toEqual(agents);
     expect(mockGetAgentsByOwner).toHaveBeenCalledWith(wallet);
     expect(mockGetAllActiveAgents).not.toHaveBeenCalled();
+    expect(mockAuthorizeWallet).toHaveBeenCalledWith({ authenticated: true, userId: VALID_USER_ID }, wallet);
+  });
+
+  it('returns 403 when filtering by a wallet the caller does not own', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockAuthorizeWallet.mockRejectedValueOnce(new AuthError('Wallet SomeoneE1se is not linked to this account', 403));
+
+    const response = await GET(makeAuthRequest('http://localhost:3000/api/agents?wallet=SomeoneE1se'));
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(403);
+    expect(mockGetAgentsByOwner).not.toHaveBeenCalled();
   });
 
   it('returns empty array when SpacetimeDB is down', async () => {
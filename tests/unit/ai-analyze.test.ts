@@ -154,4 +154,23 @@ describe('POST /api/ai/analyze', () => {
       }),
     );
   });
+
+  it('passes a valid llm override through for model comparison', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockAnalyzeProposal.mockResolvedValue({ summary: 'ok' } as never);
+
+    const request = makeAnalyzeRequest({
+      title: 'Simple Proposal',
+      description: 'A simple change.',
+      realmName: 'TestDAO',
+      llm: { provider: 'local', model: 'qwen2.5', temperature: 0.2 },
+    });
+    await POST(request as never);
+
+    expect(mockAnalyzeProposal).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Simple Proposal' }),
+      undefined,
+      { provider: 'local', model: 'qwen2.5', temperature: 0.2 },
+    );
+  });
 });
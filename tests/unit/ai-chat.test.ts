@@ -44,7 +44,7 @@ function makeChatRequest(body: unknown, authenticated = true) {
   });
 }
 
-async function* makeAsyncIterable(events: Array<Record<string, unknown>>) {
+async function* makeAsyncIterable(events: string[]) {
   for (const event of events) {
     yield event;
   }
@@ -102,10 +102,7 @@ describe('POST /api/ai/chat', () => {
   it('returns SSE stream with data: lines ending in [DONE] on success', async () => {
     mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
 
-    const streamEvents = [
-      { choices: [{ delta: { content: 'Hello' } }] },
-      { choices: [{ delta: { content: ' world' } }] },
-    ];
+    const streamEvents = ['Hello', ' world'];
     mockStreamChat.mockResolvedValue(makeAsyncIterable(streamEvents) as never);
 
     const request = makeChatRequest({
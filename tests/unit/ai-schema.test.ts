@@ -100,6 +100,30 @@ describe('GovernanceAnalysisSchema', () => {
     expect(result.recommendation.conditions).toHaveLength(0);
   });
 
+  it('accepts weighted and ranked option choices', () => {
+    const analysis = {
+      ...validAnalysis,
+      recommendation: {
+        ...validAnalysis.recommendation,
+        choices: [
+          { option: 'Option A', weight: 60, rank: 1 },
+          { option: 'Option B', weight: 40, rank: 2 },
+        ],
+      },
+    };
+    const result = GovernanceAnalysisSchema.parse(analysis);
+    expect(result.recommendation.choices).toHaveLength(2);
+    expect(GovernanceAnalysisSchema.parse(validAnalysis).recommendation.choices).toBeUndefined();
+  });
+
+  it('rejects option weights above 100', () => {
+    const analysis = {
+      ...validAnalysis,
+      recommendation: { ...validAnalysis.recommendation, choices: [{ option: 'Option A', weight: 150 }] },
+    };
+    expect(() => GovernanceAnalysisSchema.parse(analysis)).toThrow();
+  });
+
   // -------------------------------------------------------------------------
   // Missing fields
   // -------------------------------------------------------------------------
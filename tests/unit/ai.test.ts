@@ -72,6 +72,35 @@ describe('ai', () => {
       expect(callArgs.messages[1].role).toBe('user');
     });
 
+    it('includes decoded instructions in the prompt as ground truth', async () => {
+      mockCreate.mockResolvedValue({
+        choices: [
+          { message: { content: JSON.stringify({ summary: 's', risk_assessment: {}, recommendation: { vote: 'AGAINST', confidence: 0.7, reasoning: 'r' } }) } },
+        ],
+      });
+
+      const { analyzeProposal } = await import('@shared/lib/ai');
+      const base = {
+        title: 'Grants',
+        description: 'Small grant',
+        realmName: 'TestDAO',
+        forVotes: 0,
+        againstVotes: 0,
+      };
+
+      await analyzeProposal({ ...base, instructions: ['[option 0, tx 0.0] Transfer 5000 SOL from A to B'] });
+      await analyzeProposal({ ...base, instructions: [] });
+      await analyzeProposal(base);
+
+      const prompts = mockCreate.mock.calls.map((call) => call[0].messages[1].content as string);
+      expect(prompts[0]).toContain('**On-chain Instructions** (decoded');
+      expect(prompts[0]).toContain('- [option 0, tx 0.0] Transfer 5000 SOL from A to B');
+      expect(prompts[1]).toContain('**On-chain Instructions**: none');
+      expect(prompts[2]).not.toContain('On-chain Instructions');
+      expect(mockCreate.mock.calls[0][0].messages[0].content).toContain('ground truth');
+      mockCreate.mockReset();
+    });
+
     it('extracts JSON from { } braces when not in code block', async () => {
       const analysisData = {
         summary: 'A small parameter change.',
@@ -320,6 +349,62 @@ describe('ai', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // draftProposal
+  // -----------------------------------------------------------------------
+  describe('draftProposal', () => {
+    it('returns a title and description grounded in the brief', async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              title: 'Fund Q3 developer grants',
+              description: 'Allocate 500 USDC from the treasury to the grants committee for Q3.',
+            }),
+          },
+        }],
+      });
+
+      const { draftProposal } = await import('@shared/lib/ai');
+      const result = await draftProposal(
+        'Give the grants committee 500 USDC for Q3',
+        { realmName: 'TestDAO', agentValues: 'fiscal prudence' },
+      );
+
+      expect(result).toEqual({
+        title: 'Fund Q3 developer grants',
+        description: 'Allocate 500 USDC from the treasury to the grants committee for Q3.',
+      });
+
+      const callArgs = mockCreate.mock.calls[0][0];
+      expect(callArgs.max_tokens).toBe(1024);
+      expect(callArgs.messages[0].content).toContain('fiscal prudence');
+      expect(callArgs.messages[1].content).toContain('Give the grants committee 500 USDC for Q3');
+      expect(callArgs.messages[1].content).toContain('TestDAO');
+    });
+
+    it('truncates titles longer than the on-chain limit', async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify({ title: `  ${'x'.repeat(120)}`, description: ' Body ' }) } }],
+      });
+
+      const { draftProposal, MAX_PROPOSAL_TITLE_LENGTH } = await import('@shared/lib/ai');
+      const result = await draftProposal('brief', { realmName: 'TestDAO' });
+
+      expect(result.title).toHaveLength(MAX_PROPOSAL_TITLE_LENGTH);
+      expect(result.description).toBe('Body');
+    });
+
+    it('rejects a response without a title', async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify({ description: 'Body' }) } }],
+      });
+
+      const { draftProposal } = await import('@shared/lib/ai');
+      await expect(draftProposal('brief', { realmName: 'TestDAO' })).rejects.toThrow();
+    });
+  });
+
   // -----------------------------------------------------------------------
   // streamChat
   // -----------------------------------------------------------------------
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResponse } from '../helpers';
+import { makeAuthRequest, makeAgent, VALID_USER_ID } from '../fixtures';
+
+// ─── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('@shared/lib/auth', () => ({
+  verifyAuth: vi.fn(),
+  authorizeWallet: vi.fn(),
+  AuthError: class AuthError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 401) {
+      super(message);
+      this.name = 'AuthError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  createApiKey: vi.fn(),
+  getAgentsByOwner: vi.fn(),
+  getApiKeyById: vi.fn(),
+  getApiKeysByOwner: vi.fn(),
+  revokeApiKey: vi.fn(),
+}));
+
+import { verifyAuth, authorizeWallet, AuthError } from '@shared/lib/auth';
+import {
+  createApiKey,
+  getAgentsByOwner,
+  getApiKeyById,
+  getApiKeysByOwner,
+  revokeApiKey,
+  type ApiKeyRow,
+} from '@shared/lib/stdb-client';
+import { generateApiKey, hashApiKey } from '@shared/lib/api-keys';
+import { GET, POST } from '@/app/api/api-keys/route';
+import { DELETE } from '@/app/api/api-keys/[id]/route';
+
+const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockAuthorizeWallet = vi.mocked(authorizeWallet);
+const mockCreateApiKey = vi.mocked(createApiKey);
+const mockGetAgentsByOwner = vi.mocked(getAgentsByOwner);
+const mockGetApiKeyById = vi.mocked(getApiKeyById);
+const mockGetApiKeysByOwner = vi.mocked(getApiKeysByOwner);
+const mockRevokeApiKey = vi.mocked(revokeApiKey);
+
+const URL_BASE = 'http://localhost:3000/api/api-keys';
+const OWNER = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+function makeApiKey(overrides: Partial<ApiKeyRow> = {}): ApiKeyRow {
+  return {
+    id: 1 as unknown as bigint,
+    key_hash: 'secret-hash',
+    key_prefix: 'cdao_abcdefg',
+    owner_wallet: OWNER,
+    label: 'MCP server',
+    agent_ids_json: '["1"]',
+    scopes_json: '["read","vote"]',
+    created_at: 0,
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+function postRequest(body: Record<string, unknown>) {
+  return makeAuthRequest(URL_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function callDELETE(id: string) {
+  return DELETE(makeAuthRequest(`${URL_BASE}/${id}`, { method: 'DELETE' }) as never, {
+    params: Promise.resolve({ id }),
+  });
+}
+
+// ─── Tests: helpers ──────────────────────────────────────────────────────────
+
+describe('generateApiKey()', () => {
+  it('returns a prefixed key with its hash and display prefix', () => {
+    const { key, keyHash, keyPrefix } = generateApiKey();
+
+    expect(key).toMatch(/^cdao_[A-Za-z0-9_-]{43}$/);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(key.startsWith(keyPrefix)).toBe(true);
+    expect(generateApiKey().key).not.toBe(key);
+  });
+});
+
+// ─── Tests: GET ──────────────────────────────────────────────────────────────
+
+describe('GET /api/api-keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+  });
+
+  it('lists the wallet keys without their hashes', async () => {
+    mockGetApiKeysByOwner.mockResolvedValue([makeApiKey()]);
+
+    const response = await GET(makeAuthRequest(`${URL_BASE}?wallet=${OWNER}`) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(200);
+    expect(body).toEqual([
+      expect.objectContaining({ key_prefix: 'cdao_abcdefg', agent_ids: ['1'], scopes: ['read', 'vote'] }),
+    ]);
+    expect(JSON.stringify(body)).not.toContain('secret-hash');
+    expect(mockAuthorizeWallet).toHaveBeenCalledWith({ authenticated: true, userId: VALID_USER_ID }, OWNER);
+  });
+
+  it('returns 403 for a wallet the caller does not own', async () => {
+    mockAuthorizeWallet.mockRejectedValueOnce(new AuthError(`Wallet ${OWNER} is not linked to this account`, 403));
+
+    const response = await GET(makeAuthRequest(`${URL_BASE}?wallet=${OWNER}`) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(403);
+    expect(mockGetApiKeysByOwner).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Tests: POST ─────────────────────────────────────────────────────────────
+
+describe('POST /api/api-keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentsByOwner.mockResolvedValue([makeAgent({ id: 1, owner_wallet: OWNER })] as never);
+    mockCreateApiKey.mockResolvedValue({ ok: true });
+  });
+
+  it('issues a key and stores only its hash', async () => {
+    const response = await POST(postRequest({
+      ownerWallet: OWNER,
+      label: 'MCP server',
+      agentIds: ['1'],
+      scopes: ['read', 'vote'],
+    }) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(201);
+    const { key } = body as { key: string };
+    expect(mockCreateApiKey).toHaveBeenCalledWith({
+      key_hash: hashApiKey(key),
+      key_prefix: key.slice(0, 12),
+      owner_wallet: OWNER,
+      label: 'MCP server',
+      agent_ids: [1n],
+      scopes: ['read', 'vote'],
+    });
+  });
+
+  it('returns 400 for an unknown scope', async () => {
+    const response = await POST(postRequest({
+      ownerWallet: OWNER,
+      label: 'MCP server',
+      agentIds: ['1'],
+      scopes: ['admin'],
+    }) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(400);
+    expect(mockCreateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for an agent the wallet does not own', async () => {
+    const response = await POST(postRequest({
+      ownerWallet: OWNER,
+      label: 'MCP server',
+      agentIds: ['1', '9'],
+      scopes: ['read'],
+    }) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(403);
+    expect(body).toEqual(expect.objectContaining({ error: expect.stringContaining('9') }));
+    expect(mockCreateApiKey).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Tests: DELETE ───────────────────────────────────────────────────────────
+
+describe('DELETE /api/api-keys/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockRevokeApiKey.mockResolvedValue({ ok: true });
+  });
+
+  it('revokes the key', async () => {
+    mockGetApiKeyById.mockResolvedValue(makeApiKey());
+
+    const { status } = await parseResponse(await callDELETE('1'));
+
+    expect(status).toBe(200);
+    expect(mockAuthorizeWallet).toHaveBeenCalledWith({ authenticated: true, userId: VALID_USER_ID }, OWNER);
+    expect(mockRevokeApiKey).toHaveBeenCalledWith(1n);
+  });
+
+  it('returns 404 for an unknown key and 409 for a revoked one', async () => {
+    mockGetApiKeyById.mockResolvedValueOnce(null);
+    expect((await parseResponse(await callDELETE('2'))).status).toBe(404);
+
+    mockGetApiKeyById.mockResolvedValueOnce(makeApiKey({ revoked_at: 1700000000000 }));
+    expect((await parseResponse(await callDELETE('1'))).status).toBe(409);
+
+    expect(mockRevokeApiKey).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an id that is not a number', async () => {
+    const { status, body } = await parseResponse(await callDELETE('not-a-key'));
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: 'Invalid API key id: not-a-key' });
+    expect(mockGetApiKeyById).not.toHaveBeenCalled();
+  });
+});
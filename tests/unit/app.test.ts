@@ -12,11 +12,21 @@ vi.mock('../../apps/worker/server/cycle-runner', () => {
     }
   }
 
+  class ReconcileInProgressError extends Error {
+    constructor() {
+      super('Delegation reconciliation already in progress');
+      this.name = 'ReconcileInProgressError';
+    }
+  }
+
   return {
     executeCycle: vi.fn(),
     executeDryRun: vi.fn(),
+    executeReconciliation: vi.fn(),
     CycleInProgressError,
+    ReconcileInProgressError,
     startBackgroundLoop: vi.fn(() => ({ stop: vi.fn() })),
+    startReconcileLoop: vi.fn(() => ({ stop: vi.fn() })),
   };
 });
 
@@ -24,12 +34,20 @@ import { createApp } from '../../apps/worker/server/app';
 import type { WorkerState } from '../../apps/worker/server/state';
 import { createWorkerState } from '../../apps/worker/server/state';
 import type { WorkerRuntimeConfig } from '../../apps/worker/agent-worker';
-import { executeCycle, executeDryRun, CycleInProgressError } from '../../apps/worker/server/cycle-runner';
+import {
+  executeCycle,
+  executeDryRun,
+  executeReconciliation,
+  CycleInProgressError,
+  ReconcileInProgressError,
+} from '../../apps/worker/server/cycle-runner';
 import type { WorkerCycleSummary } from '../../apps/worker/run-cycle';
+import type { DelegationDriftReport } from '../../apps/worker/reconcile-delegations';
 import type { Express } from 'express';
 
 const mockExecuteCycle = vi.mocked(executeCycle);
 const mockExecuteDryRun = vi.mocked(executeDryRun);
+const mockExecuteReconciliation = vi.mocked(executeReconciliation);
 
 // ---------------------------------------------------------------------------
 // Lightweight request helper (no supertest needed)
@@ -107,6 +125,7 @@ function makeConfig(overrides: Partial<WorkerRuntimeConfig> = {}): WorkerRuntime
     maxConcurrency: 1,
     dryRun: false,
     runOnce: false,
+    reconcileIntervalMs: 600_000,
     ...overrides,
   };
 }
@@ -122,6 +141,34 @@ function makeSummary(overrides: Partial<WorkerCycleSummary> = {}): WorkerCycleSu
     executed: 2,
     skipped: 1,
     failed: 0,
+    scored: 0,
+    ...overrides,
+  };
+}
+
+function makeDriftReport(overrides: Partial<DelegationDriftReport> = {}): DelegationDriftReport {
+  return {
+    checkedAt: new Date().toISOString(),
+    dryRun: false,
+    activeDelegations: 2,
+    checked: 2,
+    unverified: 0,
+    deactivated: 1,
+    failed: 0,
+    drift: [
+      {
+        delegationId: '7',
+        agentId: '1',
+        delegatorWallet: 'Delegator1111111111111111111111111111111111',
+        realmAddress: 'Realm111111111111111111111111111111111111111',
+        governingTokenMint: null,
+        reason: 'delegate_changed',
+        tokenOwnerRecord: 'Tor11111111111111111111111111111111111111111',
+        governanceDelegate: null,
+        depositAmount: 1_000,
+        deactivated: true,
+      },
+    ],
     ...overrides,
   };
 }
@@ -260,4 +307,48 @@ describe('Worker Express App', () => {
       expect(body.error).toMatch(/already in progress/i);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Delegation reconciliation
+  // -------------------------------------------------------------------------
+  describe('GET /delegations/drift', () => {
+    it('returns 404 before the first reconciliation', async () => {
+      const res = await request(app, 'GET', '/delegations/drift');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('returns the last drift report', async () => {
+      state.lastDriftReport = makeDriftReport();
+
+      const res = await request(app, 'GET', '/delegations/drift');
+
+      expect(res.status).toBe(200);
+      const body = res.body as DelegationDriftReport;
+      expect(body.deactivated).toBe(1);
+      expect(body.drift[0].reason).toBe('delegate_changed');
+    });
+  });
+
+  describe('POST /delegations/reconcile', () => {
+    it('runs a reconciliation, dry when asked', async () => {
+      mockExecuteReconciliation.mockResolvedValue(makeDriftReport({ dryRun: true, deactivated: 0 }));
+
+      const res = await request(app, 'POST', '/delegations/reconcile', { dryRun: true });
+
+      expect(res.status).toBe(200);
+      expect((res.body as DelegationDriftReport).dryRun).toBe(true);
+      expect(mockExecuteReconciliation).toHaveBeenCalledWith(state, { dryRun: true });
+    });
+
+    it('returns 409 when a reconciliation is already in progress', async () => {
+      mockExecuteReconciliation.mockRejectedValue(new ReconcileInProgressError());
+
+      const res = await request(app, 'POST', '/delegations/reconcile');
+
+      expect(res.status).toBe(409);
+      const body = res.body as Record<string, unknown>;
+      expect(body.error).toMatch(/already in progress/i);
+    });
+  });
 });
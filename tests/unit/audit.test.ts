@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResponse } from '../helpers';
+import { makeAuthRequest, makeAgent, VALID_USER_ID } from '../fixtures';
+
+// ─── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('@shared/lib/auth', () => ({
+  verifyAuth: vi.fn(),
+  authorizeAgentOwner: vi.fn(),
+  AuthError: class AuthError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 401) {
+      super(message);
+      this.name = 'AuthError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  getAgentById: vi.fn(),
+  getAuditEvents: vi.fn(),
+}));
+
+import { verifyAuth, authorizeAgentOwner, AuthError } from '@shared/lib/auth';
+import { getAgentById, getAuditEvents, type AuditEventRow } from '@shared/lib/stdb-client';
+import { auditHashInput, verifyAuditChain, GENESIS_HASH } from '@shared/lib/audit';
+import { sha256 } from '../../spacetimedb/src/sha256';
+import { GET } from '@/app/api/agents/[id]/audit/route';
+
+const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockAuthorizeAgentOwner = vi.mocked(authorizeAgentOwner);
+const mockGetAgentById = vi.mocked(getAgentById);
+const mockGetAuditEvents = vi.mocked(getAuditEvents);
+
+const ACTOR = 'c200'.padEnd(64, 'ab');
+
+/** A chain hashed the way the SpacetimeDB module hashes it */
+function makeChain(changes: Array<[string, unknown, unknown]>): AuditEventRow[] {
+  let prevHash = GENESIS_HASH;
+  return changes.map(([reducer, before, after], i) => {
+    const event = {
+      id: BigInt(i + 10),
+      agent_id: 1n,
+      seq: BigInt(i + 1),
+      reducer,
+      actor: ACTOR,
+      before_json: JSON.stringify(before),
+      after_json: JSON.stringify(after),
+      created_at_micros: 1_760_000_000_000_000n + BigInt(i),
+      prev_hash: prevHash,
+    };
+    prevHash = sha256(auditHashInput(event));
+    return { ...event, hash: prevHash };
+  });
+}
+
+const chain = makeChain([
+  ['create_agent', null, { id: '1', name: 'Agent', config_json: '{"autoVote":false}' }],
+  ['update_agent', { config_json: '{"autoVote":false}' }, { config_json: '{"autoVote":true}' }],
+  ['record_vote', null, { vote: 'for', proposal_address: 'prop-1' }],
+]);
+
+/** The chain as SQL returns it — u64 columns decode as numbers */
+const chainFromSql = chain.map((event) => ({
+  ...event,
+  id: Number(event.id),
+  agent_id: Number(event.agent_id),
+  seq: Number(event.seq),
+  created_at_micros: Number(event.created_at_micros),
+})) as unknown as AuditEventRow[];
+
+// ─── Tests: verifyAuditChain ─────────────────────────────────────────────────
+
+describe('verifyAuditChain()', () => {
+  it('accepts a chain hashed by the module', () => {
+    const result = verifyAuditChain(chain);
+
+    expect(result).toEqual({ valid: true, checked: 3, headHash: chain[2].hash });
+  });
+
+  it('accepts rows whose u64 columns came back from SQL as numbers', () => {
+    expect(verifyAuditChain(chainFromSql).valid).toBe(true);
+  });
+
+  it('treats an empty chain as intact', () => {
+    expect(verifyAuditChain([])).toEqual({ valid: true, checked: 0, headHash: GENESIS_HASH });
+  });
+
+  it('detects an edited event', () => {
+    const tampered = chain.map((event) =>
+      event.seq === 2n ? { ...event, after_json: '{"config_json":"{\\"autoVote\\":false}"}' } : event,
+    );
+
+    const result = verifyAuditChain(tampered);
+
+    expect(result.valid).toBe(false);
+    expect(result.broken).toEqual({ seq: '2', reason: 'hash does not match the event contents' });
+    expect(result.headHash).toBe(chain[0].hash);
+  });
+
+  it('detects a dropped event', () => {
+    const result = verifyAuditChain([chain[0], chain[2]]);
+
+    expect(result.valid).toBe(false);
+    expect(result.broken).toEqual({ seq: '3', reason: 'expected seq 2 — events are missing' });
+  });
+
+  it('detects an event rehashed onto the wrong predecessor', () => {
+    const [first, second] = makeChain([['update_agent', null, { name: 'Forged' }], ['update_agent', null, {}]]);
+    const forged = { ...second, seq: 2n, prev_hash: first.hash };
+
+    const result = verifyAuditChain([chain[0], forged]);
+
+    expect(result.broken).toEqual({ seq: '2', reason: 'prev_hash does not match the previous event' });
+  });
+});
+
+// ─── Tests: GET /api/agents/[id]/audit ───────────────────────────────────────
+
+function callGET(id: string) {
+  return GET(makeAuthRequest(`http://localhost:3000/api/agents/${id}/audit`) as never, {
+    params: Promise.resolve({ id }),
+  });
+}
+
+describe('GET /api/agents/[id]/audit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetAuditEvents.mockResolvedValue(chainFromSql);
+  });
+
+  it('exports the chain with its verification', async () => {
+    const { status, body } = await parseResponse(await callGET('1'));
+
+    expect(status).toBe(200);
+    expect(mockVerifyAuth).toHaveBeenCalledWith(expect.anything(), 'read');
+    expect(mockGetAuditEvents).toHaveBeenCalledWith(1n);
+    expect(body).toEqual(expect.objectContaining({
+      agentId: '1',
+      verification: { valid: true, checked: 3, headHash: chain[2].hash },
+    }));
+    expect((body as { events: unknown[] }).events).toHaveLength(3);
+  });
+
+  it('returns 403 for an agent the caller does not own', async () => {
+    mockAuthorizeAgentOwner.mockRejectedValueOnce(new AuthError('Not the owner of agent 1', 403));
+
+    const { status } = await parseResponse(await callGET('1'));
+
+    expect(status).toBe(403);
+    expect(mockGetAuditEvents).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown agent', async () => {
+    mockGetAgentById.mockResolvedValueOnce(null);
+
+    const { status } = await parseResponse(await callGET('9'));
+
+    expect(status).toBe(404);
+  });
+});
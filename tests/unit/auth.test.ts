@@ -2,16 +2,35 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Mock @privy-io/server-auth before importing auth module
 const mockVerifyAuthToken = vi.fn();
+const mockGetUserById = vi.fn();
+const mockGetApiKeyByHash = vi.fn();
 
 vi.mock('@privy-io/server-auth', () => {
   return {
     PrivyClient: class MockPrivyClient {
       verifyAuthToken = mockVerifyAuthToken;
+      getUserById = mockGetUserById;
     },
   };
 });
 
-import { verifyAuth, AuthError, _resetAuthClient } from '@shared/lib/auth';
+vi.mock('@shared/lib/stdb-client', () => ({
+  getApiKeyByHash: (...args: unknown[]) => mockGetApiKeyByHash(...args),
+}));
+
+import {
+  verifyAuth,
+  AuthError,
+  authorizeAgentOwner,
+  authorizeAgentScope,
+  authorizeWallet,
+  getUserWallets,
+  _resetAuthClient,
+} from '@shared/lib/auth';
+import { issueSiwsSession } from '@shared/lib/siws';
+import { hashApiKey } from '@shared/lib/api-keys';
+
+const PRIVY_USER = { authenticated: true as const, userId: 'did:privy:user123' };
 
 describe('verifyAuth()', () => {
   beforeEach(() => {
@@ -107,6 +126,37 @@ describe('verifyAuth()', () => {
     expect(mockVerifyAuthToken).toHaveBeenCalledWith('valid-token-xyz');
   });
 
+  // -------------------------------------------------------------------------
+  // Sign-In-With-Solana session token
+  // -------------------------------------------------------------------------
+  it('accepts a SIWS session token without asking Privy', async () => {
+    vi.stubEnv('SIWS_SESSION_SECRET', 'test-siws-secret');
+    const { token } = issueSiwsSession('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU');
+
+    const request = new Request('http://localhost/api/test', {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    expect(await verifyAuth(request)).toEqual({
+      authenticated: true,
+      userId: 'siws:7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+    });
+    expect(mockVerifyAuthToken).not.toHaveBeenCalled();
+  });
+
+  it('throws AuthError 401 for a tampered SIWS session token', async () => {
+    vi.stubEnv('SIWS_SESSION_SECRET', 'test-siws-secret');
+    const { token } = issueSiwsSession('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU');
+
+    const request = new Request('http://localhost/api/test', {
+      headers: { Authorization: `Bearer ${token}x` },
+    });
+
+    const error = await verifyAuth(request).catch((e) => e);
+    expect(error).toBeInstanceOf(AuthError);
+    expect((error as AuthError).statusCode).toBe(401);
+  });
+
   it('is case-insensitive for Bearer prefix', async () => {
     mockVerifyAuthToken.mockResolvedValue({
       userId: 'did:privy:user-456',
@@ -185,6 +235,125 @@ describe('verifyAuth()', () => {
 // ---------------------------------------------------------------------------
 // AuthError class
 // ---------------------------------------------------------------------------
+describe('wallet authorization', () => {
+  const OWNER_WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+  beforeEach(() => {
+    _resetAuthClient();
+    mockGetUserById.mockReset();
+    mockGetUserById.mockResolvedValue({
+      id: 'did:privy:user123',
+      linkedAccounts: [
+        { type: 'email', address: 'owner@example.com' },
+        { type: 'wallet', address: OWNER_WALLET, chainType: 'solana' },
+      ],
+    });
+    vi.stubEnv('PRIVY_APP_ID', 'test-app-id');
+    vi.stubEnv('PRIVY_APP_SECRET', 'test-app-secret');
+  });
+
+  it('lists only linked wallet addresses and caches them per user', async () => {
+    expect(await getUserWallets('did:privy:user123')).toEqual([OWNER_WALLET]);
+    expect(await getUserWallets('did:privy:user123')).toEqual([OWNER_WALLET]);
+
+    expect(mockGetUserById).toHaveBeenCalledTimes(1);
+    expect(mockGetUserById).toHaveBeenCalledWith('did:privy:user123');
+  });
+
+  it('uses the signed-in wallet for a SIWS session', async () => {
+    expect(await getUserWallets('siws:' + OWNER_WALLET)).toEqual([OWNER_WALLET]);
+    expect(mockGetUserById).not.toHaveBeenCalled();
+  });
+
+  it('accepts a linked wallet and rejects others with 403', async () => {
+    await expect(authorizeWallet(PRIVY_USER, OWNER_WALLET)).resolves.toBeUndefined();
+
+    const error = await authorizeWallet(PRIVY_USER, 'SomeoneE1se').catch((e) => e);
+    expect(error).toBeInstanceOf(AuthError);
+    expect((error as AuthError).statusCode).toBe(403);
+  });
+
+  it('checks the agent owner wallet', async () => {
+    await expect(
+      authorizeAgentOwner(PRIVY_USER, { id: 1n, owner_wallet: OWNER_WALLET }),
+    ).resolves.toBeUndefined();
+    await expect(
+      authorizeAgentOwner(PRIVY_USER, { id: 2n, owner_wallet: 'SomeoneE1se' }),
+    ).rejects.toThrow('Not the owner of agent 2');
+  });
+});
+
+describe('API keys', () => {
+  const KEY = 'cdao_test-key-0123456789';
+  const OWNER_WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+  function keyRequest() {
+    return new Request('http://localhost/api/test', {
+      headers: { Authorization: `Bearer ${KEY}` },
+    });
+  }
+
+  beforeEach(() => {
+    _resetAuthClient();
+    mockVerifyAuthToken.mockReset();
+    mockGetUserById.mockReset();
+    mockGetApiKeyByHash.mockReset();
+    mockGetApiKeyByHash.mockResolvedValue({
+      id: 7,
+      key_hash: hashApiKey(KEY),
+      key_prefix: KEY.slice(0, 12),
+      owner_wallet: OWNER_WALLET,
+      label: 'MCP server',
+      agent_ids_json: '["1"]',
+      scopes_json: '["read","vote"]',
+      created_at: 0,
+      revoked_at: null,
+    });
+  });
+
+  it('authenticates a key by its hash when it has the scope', async () => {
+    const auth = await verifyAuth(keyRequest(), 'vote');
+
+    expect(auth).toEqual({
+      authenticated: true,
+      userId: 'apikey:7',
+      apiKey: { id: 7n, ownerWallet: OWNER_WALLET, agentIds: ['1'], scopes: ['read', 'vote'] },
+    });
+    expect(mockGetApiKeyByHash).toHaveBeenCalledWith(hashApiKey(KEY));
+    expect(mockVerifyAuthToken).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 without the scope, or where keys are not accepted', async () => {
+    const missingScope = await verifyAuth(keyRequest(), 'delegate').catch((e) => e);
+    expect((missingScope as AuthError).statusCode).toBe(403);
+    expect((missingScope as AuthError).message).toContain('"delegate"');
+
+    const noKeys = await verifyAuth(keyRequest()).catch((e) => e);
+    expect((noKeys as AuthError).statusCode).toBe(403);
+  });
+
+  it('returns 401 for unknown and revoked keys', async () => {
+    mockGetApiKeyByHash.mockResolvedValueOnce(null);
+    await expect(verifyAuth(keyRequest(), 'read')).rejects.toThrow('Invalid API key');
+
+    mockGetApiKeyByHash.mockResolvedValueOnce({ id: 7, revoked_at: 1700000000000 });
+    await expect(verifyAuth(keyRequest(), 'read')).rejects.toThrow('revoked');
+  });
+
+  it('acts for the owner wallet on the listed agents only', async () => {
+    const auth = await verifyAuth(keyRequest(), 'read');
+
+    await expect(authorizeWallet(auth, OWNER_WALLET)).resolves.toBeUndefined();
+    await expect(authorizeAgentOwner(auth, { id: 1n, owner_wallet: OWNER_WALLET })).resolves.toBeUndefined();
+    await expect(
+      authorizeAgentOwner(auth, { id: 2n, owner_wallet: OWNER_WALLET }),
+    ).rejects.toThrow('not scoped to agent 2');
+    expect(() => authorizeAgentScope(auth, 2n)).toThrow(AuthError);
+    expect(() => authorizeAgentScope(PRIVY_USER, 2n)).not.toThrow();
+    expect(mockGetUserById).not.toHaveBeenCalled();
+  });
+});
+
 describe('AuthError', () => {
   it('has correct name property', () => {
     const err = new AuthError('test');
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // ---------------------------------------------------------------------------
-// Mock all 5 dependencies
+// Mock all 6 dependencies
 // ---------------------------------------------------------------------------
 
 // 1. ai
@@ -11,9 +11,21 @@ vi.mock('@shared/lib/ai', () => ({
 }));
 
 // 2. solana-governance
-const mockBuildCastVoteTransaction = vi.fn();
+const mockBuildCastVoteTransactions = vi.fn();
+const mockSimulateGovernanceTransaction = vi.fn();
+const mockFitComputeBudget = vi.fn();
 vi.mock('@shared/lib/solana-governance', () => ({
-  buildCastVoteTransaction: mockBuildCastVoteTransaction,
+  buildCastVoteTransactions: mockBuildCastVoteTransactions,
+  fitComputeBudget: mockFitComputeBudget,
+  simulateGovernanceTransaction: mockSimulateGovernanceTransaction,
+  GovernanceSimulationError: class GovernanceSimulationError extends Error {
+    reason: string;
+    constructor(reason: string) {
+      super(`Transaction simulation failed: ${reason}`);
+      this.name = 'GovernanceSimulationError';
+      this.reason = reason;
+    }
+  },
 }));
 
 // 3. privy-client
@@ -22,25 +34,58 @@ vi.mock('@shared/lib/privy-client', () => ({
   signAndSendTransaction: mockSignAndSendTransaction,
 }));
 
+// 3b. confirmation tracking — sends once and reports the transaction finalized
+const mockSendAndTrack = vi.fn();
+vi.mock('@shared/lib/confirmation-tracker', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@shared/lib/confirmation-tracker')>(),
+  sendAndTrack: mockSendAndTrack,
+}));
+
 // 4. tapestry
 const mockGetOrCreateProfile = vi.fn();
 const mockPostVoteReasoning = vi.fn();
+const mockPostPendingVoteNotice = vi.fn();
 vi.mock('@shared/lib/tapestry', () => ({
   getOrCreateProfile: mockGetOrCreateProfile,
   postVoteReasoning: mockPostVoteReasoning,
+  postPendingVoteNotice: mockPostPendingVoteNotice,
 }));
 
 // 5. stdb-client
 const mockHasAgentVoted = vi.fn();
 const mockRecordVote = vi.fn();
 const mockStoreAIAnalysis = vi.fn();
+const mockCreatePendingVote = vi.fn();
+const mockGetPendingVote = vi.fn();
+const mockResolvePendingVote = vi.fn();
+const mockBeginPendingVote = vi.fn();
+const mockGetDelegationsByAgent = vi.fn();
+const mockGetDelegatorPreferences = vi.fn();
+const mockGetAgentWalletId = vi.fn();
+const mockGetVoteByAgentAndProposal = vi.fn();
+const mockUpdateVoteCasts = vi.fn();
 vi.mock('@shared/lib/stdb-client', () => ({
+  getAgentWalletId: mockGetAgentWalletId,
+  getDelegationsByAgent: mockGetDelegationsByAgent,
+  getDelegatorPreferences: mockGetDelegatorPreferences,
   hasAgentVoted: mockHasAgentVoted,
   recordVote: mockRecordVote,
   storeAIAnalysis: mockStoreAIAnalysis,
+  createPendingVote: mockCreatePendingVote,
+  getPendingVote: mockGetPendingVote,
+  resolvePendingVote: mockResolvePendingVote,
+  beginPendingVote: mockBeginPendingVote,
+  getVoteByAgentAndProposal: mockGetVoteByAgentAndProposal,
+  updateVoteCasts: mockUpdateVoteCasts,
+}));
+
+// 6. governance (voting power for policy rules)
+const mockFetchDepositedTokens = vi.fn();
+vi.mock('@shared/lib/governance', () => ({
+  fetchDepositedTokens: mockFetchDepositedTokens,
 }));
 
-import type { AgentRow } from '@shared/lib/stdb-client';
+import type { AgentRow, DelegationRow, PendingVoteRow } from '@shared/lib/stdb-client';
 import type { GovernanceProposalContext } from '@shared/lib/autonomous-vote-engine';
 
 // ---------------------------------------------------------------------------
@@ -61,7 +106,6 @@ function makeAgent(overrides: Partial<AgentRow> = {}): AgentRow {
     }),
     risk_tolerance: 'moderate',
     is_active: true,
-    privy_wallet_id: 'pw-id-123',
     privy_wallet_address: 'pw-addr-456',
     total_votes: 5,
     accuracy_score: 0.8,
@@ -86,6 +130,28 @@ function makeProposal(overrides: Partial<GovernanceProposalContext> = {}): Gover
   };
 }
 
+function makeDelegationRow(overrides: Partial<DelegationRow> = {}): DelegationRow {
+  return {
+    id: 1n,
+    delegator_wallet: 'delegator-wallet',
+    agent_id: 1n,
+    realm_address: 'realmAddr1',
+    scope_bitmap: 1n,
+    is_active: true,
+    on_chain_pda: null,
+    created_at: Date.now(),
+    ...overrides,
+  };
+}
+
+function makeCastVoteTx(mint = 'community-mint') {
+  return {
+    batches: [{ serializedTransaction: 'base64TxData123456', voters: [{}] }],
+    votingMint: { toBase58: () => mint },
+    ballot: null,
+  };
+}
+
 function makeAnalysis(vote: 'FOR' | 'AGAINST' | 'ABSTAIN' = 'FOR', confidence = 0.9) {
   return {
     summary: 'Test summary',
@@ -104,11 +170,57 @@ function makeAnalysis(vote: 'FOR' | 'AGAINST' | 'ABSTAIN' = 'FOR', confidence =
   };
 }
 
+function makePendingVote(overrides: Partial<PendingVoteRow> = {}): PendingVoteRow {
+  return {
+    id: 1n,
+    pending_key: '1:proposal-abc',
+    agent_id: 1n,
+    proposal_address: 'proposal-abc',
+    vote: 'for',
+    original_vote: 'for',
+    reasoning: 'Solid proposal aligned with DAO values.',
+    confidence: 0.9,
+    status: 'pending',
+    execute_after_ms: Date.now() - 1000,
+    created_at: Date.now(),
+    updated_at: Date.now(),
+    ...overrides,
+  };
+}
+
+const VETO_CONFIG = JSON.stringify({
+  autoVote: true,
+  confidenceThreshold: 0.65,
+  values: ['transparency'],
+  focusAreas: ['treasury'],
+  vetoWindowMinutes: 30,
+});
+
 describe('autonomous-vote-engine', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     // Set TAPESTRY_API_KEY so the tapestry block runs
     process.env.TAPESTRY_API_KEY = 'test-tapestry-key';
+    mockGetAgentWalletId.mockResolvedValue('pw-id-123');
+    // Agent holds a VOTE delegation for the default proposal's realm
+    mockGetDelegationsByAgent.mockResolvedValue([makeDelegationRow()]);
+    mockGetDelegatorPreferences.mockResolvedValue([]);
+    mockGetVoteByAgentAndProposal.mockResolvedValue(null);
+    mockBeginPendingVote.mockResolvedValue({ ok: true });
+    mockSimulateGovernanceTransaction.mockResolvedValue({ unitsConsumed: 50_000, logs: [] });
+    mockSendAndTrack.mockImplementation(
+      async ({ serializedTransaction, send }: { serializedTransaction: string; send: (tx: string) => Promise<string> }) => ({
+        signature: await send(serializedTransaction),
+        status: 'finalized',
+        resigns: 0,
+      }),
+    );
+    mockFitComputeBudget.mockImplementation((serializedTransaction: string) => ({
+      serializedTransaction,
+      computeUnitLimit: 60_000,
+      microLamports: 10_000,
+      feeLamports: 5_600,
+    }));
   });
 
   // -----------------------------------------------------------------------
@@ -122,9 +234,7 @@ describe('autonomous-vote-engine', () => {
       mockHasAgentVoted.mockResolvedValueOnce(false);
       mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
       mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
-      mockBuildCastVoteTransaction.mockResolvedValueOnce({
-        serializedTransaction: 'base64TxData123456',
-      });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
       mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-sig-xyz' });
       mockGetOrCreateProfile.mockResolvedValueOnce({
         profile: { id: 'tapestry-profile-1' },
@@ -148,11 +258,12 @@ describe('autonomous-vote-engine', () => {
       expect(mockHasAgentVoted).toHaveBeenCalledWith(1n, 'proposal-abc');
       expect(mockAnalyzeProposal).toHaveBeenCalledTimes(1);
       expect(mockStoreAIAnalysis).toHaveBeenCalledTimes(1);
-      expect(mockBuildCastVoteTransaction).toHaveBeenCalledWith({
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith({
         proposalAddress: 'proposal-abc',
         voterWalletAddress: 'pw-addr-456',
         voteDirection: 'for',
         realmAddress: 'realmAddr1',
+        voters: [{}],
       });
       expect(mockSignAndSendTransaction).toHaveBeenCalledWith({
         walletId: 'pw-id-123',
@@ -161,6 +272,9 @@ describe('autonomous-vote-engine', () => {
       });
       expect(mockPostVoteReasoning).toHaveBeenCalledTimes(1);
       expect(mockRecordVote).toHaveBeenCalledTimes(1);
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ governing_token_mint: 'community-mint' }),
+      );
     });
   });
 
@@ -169,7 +283,7 @@ describe('autonomous-vote-engine', () => {
   // -----------------------------------------------------------------------
   describe('skip scenarios', () => {
     it('skips when agent has no privy wallet', async () => {
-      const agent = makeAgent({ privy_wallet_id: null, privy_wallet_address: null });
+      const agent = makeAgent({ privy_wallet_address: null });
       const proposal = makeProposal();
 
       const { executeAutonomousVote } = await import(
@@ -183,6 +297,19 @@ describe('autonomous-vote-engine', () => {
       expect(mockAnalyzeProposal).not.toHaveBeenCalled();
     });
 
+    it('skips when the private wallet id is missing', async () => {
+      mockGetAgentWalletId.mockResolvedValueOnce(null);
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(result.skipReason).toBe('agent_missing_privy_wallet');
+      expect(mockGetAgentWalletId).toHaveBeenCalledWith(1n);
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+    });
+
     // -----------------------------------------------------------------------
     // Skip: proposal not in voting state
     // -----------------------------------------------------------------------
@@ -279,7 +406,7 @@ describe('autonomous-vote-engine', () => {
       expect(recordCall.confidence).toBe(0.5);
 
       // Should NOT have tried to execute on-chain
-      expect(mockBuildCastVoteTransaction).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
       expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
     });
   });
@@ -316,7 +443,7 @@ describe('autonomous-vote-engine', () => {
       expect(mockStoreAIAnalysis).toHaveBeenCalledTimes(1);
 
       // But NO on-chain execution, tapestry post, or vote recording
-      expect(mockBuildCastVoteTransaction).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
       expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
       expect(mockPostVoteReasoning).not.toHaveBeenCalled();
       expect(mockRecordVote).not.toHaveBeenCalled();
@@ -336,9 +463,7 @@ describe('autonomous-vote-engine', () => {
       mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
 
       // On-chain tx fails
-      mockBuildCastVoteTransaction.mockResolvedValueOnce({
-        serializedTransaction: 'base64TxData123456',
-      });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
       mockSignAndSendTransaction.mockRejectedValueOnce(
         new Error('Privy signing failed'),
       );
@@ -369,9 +494,7 @@ describe('autonomous-vote-engine', () => {
       mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
 
       // On-chain succeeds
-      mockBuildCastVoteTransaction.mockResolvedValueOnce({
-        serializedTransaction: 'base64TxData123456',
-      });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
       mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-ok' });
 
       // Tapestry fails
@@ -395,4 +518,1435 @@ describe('autonomous-vote-engine', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Veto window
+  // -----------------------------------------------------------------------
+  describe('transaction simulation', () => {
+    it('skips with the governance error when simulation rejects the vote', async () => {
+      const { GovernanceSimulationError } = await import('@shared/lib/solana-governance');
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSimulateGovernanceTransaction.mockRejectedValueOnce(
+        new GovernanceSimulationError('voting_time_expired', { InstructionError: [2, { Custom: 536 }] }, []),
+      );
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(mockSimulateGovernanceTransaction).toHaveBeenCalledWith('base64TxData123456');
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ executed: false, skipped: true, skipReason: 'voting_time_expired' });
+      expect(result.casts?.[0].rejection).toBe('voting_time_expired');
+      expect(mockRecordVote).not.toHaveBeenCalled();
+    });
+
+    it('sizes compute to the simulation within the agent fee budget and records the fee', async () => {
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockFitComputeBudget.mockReturnValueOnce({
+        serializedTransaction: 'budgetedTx',
+        computeUnitLimit: 60_000,
+        microLamports: 10_000,
+        feeLamports: 5_600,
+      });
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-1' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent({
+          config_json: JSON.stringify({ autoVote: true, confidenceThreshold: 0.6, maxPriorityFeeLamports: 1_000 }),
+        }),
+        proposal: makeProposal(),
+      });
+
+      expect(mockFitComputeBudget).toHaveBeenCalledWith('base64TxData123456', {
+        unitsConsumed: 50_000,
+        maxPriorityFeeLamports: 1_000,
+      });
+      expect(mockSignAndSendTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ serializedTransaction: 'budgetedTx' }),
+      );
+      expect(result.feeLamports).toBe(5_600);
+      expect(mockRecordVote).toHaveBeenCalledWith(expect.objectContaining({ fee_lamports: BigInt(5_600) }));
+    });
+
+    it('fails without a skip reason when the simulation error is unrecognised', async () => {
+      const { GovernanceSimulationError } = await import('@shared/lib/solana-governance');
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('AGAINST', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSimulateGovernanceTransaction.mockRejectedValueOnce(
+        new GovernanceSimulationError('unknown', 'AccountNotFound', []),
+      );
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ executed: false, skipped: false });
+      expect(result.skipReason).toBeUndefined();
+    });
+  });
+
+  describe('confirmation tracking', () => {
+    it('records the final commitment status of the vote', async () => {
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSendAndTrack.mockResolvedValueOnce({ signature: 'tx-2', status: 'confirmed', resigns: 1 });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(result).toMatchObject({ executed: true, txSignature: 'tx-2', voteStatus: 'confirmed' });
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ tx_signature: 'tx-2', vote_status: 'confirmed' }),
+      );
+    });
+
+    it('records a dropped vote without a signature so the next cycle retries it', async () => {
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('AGAINST', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSendAndTrack.mockResolvedValueOnce({ signature: 'tx-3', status: 'dropped', resigns: 2 });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(result).toMatchObject({ executed: false, skipped: false, txSignature: null, voteStatus: 'dropped' });
+      expect(result.casts?.[0]).toMatchObject({ status: 'dropped', txSignature: null });
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ vote: 'against', tx_signature: null, vote_status: 'dropped' }),
+      );
+      expect(mockPostVoteReasoning).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('veto window', () => {
+    it('holds the vote as pending instead of submitting on-chain', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(null);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockCreatePendingVote.mockResolvedValueOnce({ ok: true });
+      mockGetOrCreateProfile.mockResolvedValueOnce({ profile: { id: 'tp-1' } });
+      mockPostPendingVoteNotice.mockResolvedValueOnce({ id: 'content-held' });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const before = Date.now();
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('veto_window_open');
+      // Delegators hear about the held vote before it is cast
+      expect(result.tapestryContentId).toBe('content-held');
+      expect(mockPostPendingVoteNotice).toHaveBeenCalledWith(
+        'tp-1',
+        'proposal-abc',
+        '1',
+        'for',
+        expect.any(String),
+        0.9,
+        expect.any(Date),
+      );
+      const executeAfter = mockPostPendingVoteNotice.mock.calls[0][6] as Date;
+      expect(executeAfter.getTime()).toBeGreaterThanOrEqual(before + 1_800_000);
+      expect(mockPostVoteReasoning).not.toHaveBeenCalled();
+      expect(result.vote).toBe('for');
+      expect(mockCreatePendingVote).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agent_id: 1n,
+          proposal_address: 'proposal-abc',
+          vote: 'for',
+          hold_seconds: 1800,
+        }),
+      );
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(mockRecordVote).not.toHaveBeenCalled();
+    });
+
+    it('skips without re-analysis while the window is still open', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(
+        makePendingVote({ execute_after_ms: Date.now() + 60_000 }),
+      );
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.skipReason).toBe('veto_window_open');
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+    });
+
+    it('never submits a vote the owner cancelled', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote({ status: 'cancelled' }));
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('vote_cancelled_by_owner');
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(mockRecordVote).not.toHaveBeenCalled();
+    });
+
+    it('submits the owner-overridden direction once the window expires', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(
+        makePendingVote({ vote: 'against', original_vote: 'for' }),
+      );
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-override' });
+      mockGetOrCreateProfile.mockResolvedValueOnce({ profile: { id: 'tp-1' } });
+      mockPostVoteReasoning.mockResolvedValueOnce({ id: 'content-1' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+      mockResolvePendingVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.executed).toBe(true);
+      expect(result.vote).toBe('against');
+      expect(result.reasoning).toContain('Owner override');
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ voteDirection: 'against' }),
+      );
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ vote: 'against', tx_signature: 'tx-override' }),
+      );
+      expect(mockBeginPendingVote).toHaveBeenCalledWith(1n, 'proposal-abc');
+      expect(mockBeginPendingVote.mock.invocationCallOrder[0]).toBeLessThan(
+        mockSignAndSendTransaction.mock.invocationCallOrder[0],
+      );
+      expect(mockResolvePendingVote).toHaveBeenCalledWith(1n, 'proposal-abc', 'submitted');
+    });
+
+    it('does not sign a held vote it could not claim', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote());
+      mockBeginPendingVote.mockResolvedValueOnce({ ok: false, error: 'Pending vote is already cancelled' });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result).toEqual(expect.objectContaining({ executed: false, skipReason: 'held_vote_claim_failed' }));
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+      expect(mockResolvePendingVote).not.toHaveBeenCalled();
+    });
+
+    it('re-claims a held vote left submitting by an earlier cycle', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote({ status: 'submitting' }));
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-resent' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+      mockResolvePendingVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.executed).toBe(true);
+      expect(mockBeginPendingVote).toHaveBeenCalledWith(1n, 'proposal-abc');
+      expect(mockResolvePendingVote).toHaveBeenCalledWith(1n, 'proposal-abc', 'submitted');
+    });
+
+    it('closes the held vote when the expired submission fails on-chain', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote());
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSignAndSendTransaction.mockRejectedValueOnce(new Error('RPC down'));
+      mockResolvePendingVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.executed).toBe(false);
+      expect(result.skipped).toBe(false);
+      expect(mockResolvePendingVote).toHaveBeenCalledWith(1n, 'proposal-abc', 'failed', 'vote_not_cast');
+      expect(mockRecordVote).not.toHaveBeenCalled();
+    });
+
+    it('closes a held FOR the owner chose without options on a multi-option proposal', async () => {
+      const { OptionChoiceError } = await import('@shared/lib/proposal-options');
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal({
+        options: [
+          { index: 0, label: 'Option A', voteWeight: 500, voteResult: 'none' },
+          { index: 1, label: 'Option B', voteWeight: 300, voteResult: 'none' },
+        ],
+      });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote({ vote: 'for', original_vote: 'against' }));
+      mockBuildCastVoteTransactions.mockRejectedValueOnce(
+        new OptionChoiceError('Proposal proposal-abc has 2 options — choose among them to vote for it'),
+      );
+      mockResolvePendingVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.executed).toBe(false);
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+      expect(mockResolvePendingVote).toHaveBeenCalledWith(1n, 'proposal-abc', 'failed', 'vote_not_cast');
+    });
+
+    it('keeps the vote held when its transaction expires, so the next cycle resends it', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote());
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSendAndTrack.mockResolvedValueOnce({ signature: 'tx-expired', status: 'dropped', resigns: 2 });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.voteStatus).toBe('dropped');
+      expect(mockResolvePendingVote).not.toHaveBeenCalled();
+    });
+
+    it('does not retry a held vote that could not be cast', async () => {
+      const agent = makeAgent({ config_json: VETO_CONFIG });
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote({ status: 'failed' }));
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result).toMatchObject({ executed: false, skipped: true, skipReason: 'held_vote_failed' });
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+    });
+
+    it('keeps a cancelled vote cancelled after the owner removes the window', async () => {
+      const agent = makeAgent();
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(makePendingVote({ status: 'cancelled' }));
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.skipReason).toBe('vote_cancelled_by_owner');
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+    });
+
+    it('submits immediately when no window is configured', async () => {
+      const agent = makeAgent();
+      const proposal = makeProposal();
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetPendingVote.mockResolvedValueOnce(null);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx());
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-now' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal });
+
+      expect(result.executed).toBe(true);
+      expect(mockGetPendingVote).toHaveBeenCalledWith(1n, 'proposal-abc');
+      expect(mockCreatePendingVote).not.toHaveBeenCalled();
+    });
+  });
+  // -----------------------------------------------------------------------
+  // Delegation scope
+  // -----------------------------------------------------------------------
+  describe('delegation scope', () => {
+    it('skips with no_delegation_scope when the agent has no delegations', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce([]);
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('no_delegation_scope');
+      expect(mockGetDelegationsByAgent).toHaveBeenCalledWith(1n);
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+    });
+
+    it('skips when the only delegation is for another realm', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce([
+        makeDelegationRow({ realm_address: 'otherRealm' }),
+      ]);
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(result.skipReason).toBe('no_delegation_scope');
+    });
+
+    it('skips when the realm delegation lacks the VOTE bit', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce([
+        makeDelegationRow({ scope_bitmap: 2n | 4n }),
+      ]);
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(result.skipReason).toBe('no_delegation_scope');
+      expect(mockHasAgentVoted).not.toHaveBeenCalled();
+    });
+
+    it('uses caller-supplied delegations without querying STDB', async () => {
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal(),
+        dryRun: true,
+        delegations: [makeDelegationRow({ scope_bitmap: 3n })],
+      });
+
+      expect(result.skipped).toBe(false);
+      expect(mockGetDelegationsByAgent).not.toHaveBeenCalled();
+      expect(mockAnalyzeProposal).toHaveBeenCalledOnce();
+    });
+  });
+  // -----------------------------------------------------------------------
+  // LLM provider selection
+  // -----------------------------------------------------------------------
+  describe('llm settings', () => {
+    it('passes the agent llm settings to analyzeProposal', async () => {
+      const agent = makeAgent({
+        config_json: JSON.stringify({
+          autoVote: true,
+          llm: { provider: 'local', model: 'llama3.1', temperature: 0.2 },
+        }),
+      });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      await executeAutonomousVote({ agent, proposal: makeProposal(), dryRun: true });
+
+      expect(mockAnalyzeProposal).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(String),
+        { provider: 'local', model: 'llama3.1', temperature: 0.2 },
+      );
+    });
+
+    it('falls back to env defaults when llm settings are invalid', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const agent = makeAgent({
+        config_json: JSON.stringify({ autoVote: true, llm: { provider: 'unknown-llm' } }),
+      });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      await executeAutonomousVote({ agent, proposal: makeProposal(), dryRun: true });
+
+      expect(mockAnalyzeProposal).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(String),
+        undefined,
+      );
+      warn.mockRestore();
+    });
+  });
+  // -----------------------------------------------------------------------
+  // Ensemble analysis
+  // -----------------------------------------------------------------------
+  describe('ensemble', () => {
+    const ensembleConfig = (aggregation: string) => JSON.stringify({
+      autoVote: true,
+      confidenceThreshold: 0.6,
+      ensemble: {
+        aggregation,
+        members: [
+          { label: 'fast', llm: { provider: 'local', model: 'llama3.1' } },
+          { label: 'skeptic', persona: 'Assume every proposal hides a treasury risk.' },
+          { label: 'anthropic', llm: { provider: 'anthropic' } },
+        ],
+      },
+    });
+
+    it('votes with the majority and stores the ensemble report', async () => {
+      const agent = makeAgent({ config_json: ensembleConfig('majority') });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal
+        .mockResolvedValueOnce(makeAnalysis('FOR', 0.9))
+        .mockResolvedValueOnce(makeAnalysis('FOR', 0.7))
+        .mockResolvedValueOnce(makeAnalysis('FOR', 0.8));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal: makeProposal(), dryRun: true });
+
+      expect(mockAnalyzeProposal).toHaveBeenCalledTimes(3);
+      expect(mockAnalyzeProposal.mock.calls[1][1]).toContain('Analyst persona: Assume every proposal');
+      expect(mockAnalyzeProposal.mock.calls[0][2]).toEqual({ provider: 'local', model: 'llama3.1' });
+      expect(result.vote).toBe('for');
+      expect(result.confidence).toBeCloseTo(0.8);
+
+      const stored = JSON.parse(mockStoreAIAnalysis.mock.calls[0][0].analysis_json);
+      expect(stored.ensemble.aggregation).toBe('majority');
+      expect(stored.ensemble.members).toHaveLength(3);
+      expect(stored.ensemble.dissent).toEqual([]);
+    });
+
+    it('abstains and records dissent when members disagree under unanimous', async () => {
+      const agent = makeAgent({ config_json: ensembleConfig('unanimous') });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal
+        .mockResolvedValueOnce(makeAnalysis('FOR', 0.9))
+        .mockResolvedValueOnce(makeAnalysis('AGAINST', 0.8))
+        .mockResolvedValueOnce(makeAnalysis('FOR', 0.85));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal: makeProposal() });
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('ensemble_disagreement');
+      expect(result.vote).toBe('abstain');
+      expect(result.reasoning).toContain('Ensemble disagreement');
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ vote: 'abstain', tx_signature: null }),
+      );
+
+      const stored = JSON.parse(mockStoreAIAnalysis.mock.calls[0][0].analysis_json);
+      expect(stored.recommendation.vote).toBe('ABSTAIN');
+      expect(stored.ensemble.forcedAbstain).toBe(true);
+      expect(stored.ensemble.dissent.map((m: { label: string }) => m.label)).toEqual([
+        'fast',
+        'skeptic',
+        'anthropic',
+      ]);
+    });
+  });
+
+  describe('policy rules', () => {
+    const policyConfig = (policy: unknown[]) => JSON.stringify({
+      autoVote: true,
+      confidenceThreshold: 0.65,
+      policy,
+    });
+
+    const upgradeTransaction = {
+      address: 'ptx1',
+      optionIndex: 0,
+      transactionIndex: 0,
+      holdUpTimeSeconds: 0,
+      executionStatus: 'none',
+      executedAt: null,
+      instructions: [
+        {
+          programId: 'BPFLoaderUpgradeab1e11111111111111111111111',
+          program: 'bpf-upgradeable-loader' as const,
+          type: 'upgrade',
+          summary: 'Upgrade program prog1 with buffer buf1 (authority auth1)',
+          details: { program: 'prog1' },
+        },
+      ],
+    };
+
+    it('forces a vote before analysis without calling the LLM', async () => {
+      const agent = makeAgent({
+        config_json: policyConfig([
+          { id: 'no-upgrades', when: { type: 'program_upgrade' }, action: 'force', vote: 'AGAINST' },
+        ]),
+      });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent,
+        proposal: makeProposal({ transactions: [upgradeTransaction] }),
+        dryRun: true,
+      });
+
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockStoreAIAnalysis).not.toHaveBeenCalled();
+      expect(result.vote).toBe('against');
+      expect(result.confidence).toBe(1);
+      expect(result.policyRule).toBe('no-upgrades');
+      expect(result.reasoning).toContain('Policy rule no-upgrades');
+    });
+
+    it('passes summarized instructions to the analysis', async () => {
+      const agent = makeAgent({ config_json: policyConfig([]) });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      await executeAutonomousVote({
+        agent,
+        proposal: makeProposal({ transactions: [upgradeTransaction] }),
+        dryRun: true,
+      });
+
+      expect(mockAnalyzeProposal.mock.calls[0][0].instructions).toEqual([
+        '[option 0, tx 0.0] Upgrade program prog1 with buffer buf1 (authority auth1)',
+      ]);
+    });
+
+    it('replaces a forbidden vote after analysis and bypasses the confidence threshold', async () => {
+      const agent = makeAgent({
+        config_json: policyConfig([
+          { id: 'no-upgrade-for', when: { type: 'program_upgrade' }, action: 'forbid', votes: ['FOR'], fallback: 'AGAINST' },
+        ]),
+      });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.5));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent,
+        proposal: makeProposal({ transactions: [upgradeTransaction] }),
+        dryRun: true,
+      });
+
+      expect(mockAnalyzeProposal).toHaveBeenCalledTimes(1);
+      expect(mockStoreAIAnalysis).toHaveBeenCalledWith(expect.objectContaining({ recommendation: 'FOR' }));
+      expect(result.skipped).toBe(false);
+      expect(result.vote).toBe('against');
+      expect(result.policyRule).toBe('no-upgrade-for');
+      expect(result.reasoning).toContain('Solid proposal aligned with DAO values.');
+      expect(result.reasoning).toContain('FOR is not allowed');
+    });
+
+    it('abstains with a policy_rule skip reason when voting power is below the minimum', async () => {
+      const agent = makeAgent({
+        config_json: policyConfig([
+          { id: 'min-power', when: { type: 'voting_power_below', tokens: 100 }, action: 'force', vote: 'ABSTAIN' },
+        ]),
+      });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockFetchDepositedTokens.mockResolvedValueOnce(12.5);
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal: makeProposal() });
+
+      expect(mockFetchDepositedTokens).toHaveBeenCalledWith('pw-addr-456', 'realmAddr1');
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('policy_rule:min-power');
+      expect(result.vote).toBe('abstain');
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ vote: 'abstain', tx_signature: null }),
+      );
+    });
+
+    it('fails closed when a rule cannot be verified', async () => {
+      const agent = makeAgent({
+        config_json: policyConfig([
+          { id: 'cap', when: { type: 'sol_transfer_above', sol: 10 }, action: 'force', vote: 'AGAINST' },
+        ]),
+      });
+
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal: makeProposal(), dryRun: true });
+
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(result.skipReason).toBe('policy_rule:cap');
+      expect(result.vote).toBe('abstain');
+      expect(result.reasoning).toContain('could not be verified');
+    });
+  });
+
+  describe('council delegations', () => {
+    const councilDelegation = makeDelegationRow({
+      id: 2n,
+      delegator_wallet: 'council-member',
+      governing_token_mint: 'council-mint',
+    });
+    const vetoConfig = JSON.stringify({
+      autoVote: true,
+      confidenceThreshold: 0.65,
+      policy: [{ id: 'veto-upgrades', when: { type: 'program_upgrade' }, action: 'force', vote: 'VETO' }],
+    });
+    const upgradeTransaction = {
+      address: 'ptx1',
+      optionIndex: 0,
+      transactionIndex: 0,
+      holdUpTimeSeconds: 0,
+      executionStatus: 'none',
+      executedAt: null,
+      instructions: [
+        {
+          programId: 'BPFLoaderUpgradeab1e11111111111111111111111',
+          program: 'bpf-upgradeable-loader' as const,
+          type: 'upgrade',
+          summary: 'Upgrade program prog1',
+          details: { program: 'prog1' },
+        },
+      ],
+    };
+    const communityProposal = (overrides: Partial<GovernanceProposalContext> = {}) =>
+      makeProposal({ governingTokenMint: 'community-mint', ...overrides });
+
+    it('splits delegations into same-mint voting and opposite-mint veto', async () => {
+      const { findProposalDelegations } = await import('@shared/lib/autonomous-vote-engine');
+      const legacy = makeDelegationRow();
+
+      expect(findProposalDelegations([legacy, councilDelegation], communityProposal())).toEqual({
+        voting: [legacy],
+        veto: [councilDelegation],
+      });
+      expect(
+        findProposalDelegations([councilDelegation], communityProposal({ governingTokenMint: 'council-mint' })),
+      ).toEqual({ voting: [councilDelegation], veto: [] });
+      // Without the proposal mint, a mint-specific delegation can't be placed
+      expect(findProposalDelegations([councilDelegation], makeProposal())).toEqual({ voting: [], veto: [] });
+    });
+
+    it('casts a council veto through the council delegation when a rule demands it', async () => {
+      const agent = makeAgent({ config_json: vetoConfig });
+      mockGetDelegationsByAgent.mockResolvedValueOnce([makeDelegationRow(), councilDelegation]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx('council-mint'));
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-veto' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent,
+        proposal: communityProposal({ transactions: [upgradeTransaction] }),
+      });
+
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(result.executed).toBe(true);
+      expect(result.vote).toBe('veto');
+      expect(result.policyRule).toBe('veto-upgrades');
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          voteDirection: 'veto',
+          voters: [{ delegatorAddress: 'council-member', governingTokenMintAddress: 'council-mint' }],
+        }),
+      );
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ vote: 'veto', governing_token_mint: 'council-mint' }),
+      );
+    });
+
+    it('abstains when a rule demands a veto the agent cannot cast', async () => {
+      const agent = makeAgent({ config_json: vetoConfig });
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent,
+        proposal: communityProposal({ transactions: [upgradeTransaction] }),
+      });
+
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(result.skipReason).toBe('veto_unavailable');
+      expect(result.vote).toBe('abstain');
+      expect(result.reasoning).toContain('No delegation of the opposite governing mint');
+    });
+
+    it('skips without analysis when the agent only holds a council delegation', async () => {
+      const agent = makeAgent({ config_json: vetoConfig });
+      mockGetDelegationsByAgent.mockResolvedValueOnce([councilDelegation]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent, proposal: communityProposal({ transactions: [] }) });
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('veto_only_delegation');
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockRecordVote).not.toHaveBeenCalled();
+    });
+
+    it('votes on council proposals with the council delegation', async () => {
+      const agent = makeAgent();
+      mockGetDelegationsByAgent.mockResolvedValueOnce([councilDelegation]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce(makeCastVoteTx('council-mint'));
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-council' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent,
+        proposal: communityProposal({ governingTokenMint: 'council-mint' }),
+      });
+
+      expect(result.executed).toBe(true);
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          voteDirection: 'for',
+          voters: [{ delegatorAddress: 'council-member', governingTokenMintAddress: 'council-mint' }],
+        }),
+      );
+    });
+  });
+
+  describe('multi-option proposals', () => {
+    const multiOptionProposal = () =>
+      makeProposal({
+        options: [
+          { index: 0, label: 'Option A', voteWeight: 500, voteResult: 'none' },
+          { index: 1, label: 'Option B', voteWeight: 300, voteResult: 'none' },
+        ],
+        voteType: {
+          choiceType: 'multi',
+          multiChoiceType: 'weighted',
+          minVoterOptions: 1,
+          maxVoterOptions: 2,
+          maxWinningOptions: 1,
+        },
+      });
+
+    it('casts the analysis option choices and records the ballot', async () => {
+      const analysis = makeAnalysis('FOR', 0.9);
+      const ballot = [{ option: 'Option B', weight: 60 }, { option: 'Option A', weight: 40 }];
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce({
+        ...analysis,
+        recommendation: {
+          ...analysis.recommendation,
+          choices: [{ option: 'option b', weight: 60 }, { option: 'Option A', weight: 40 }],
+        },
+      });
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce({ ...makeCastVoteTx(), ballot });
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-options' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: multiOptionProposal() });
+
+      expect(mockAnalyzeProposal).toHaveBeenCalledWith(
+        expect.objectContaining({ options: expect.any(Array), voteType: expect.objectContaining({ choiceType: 'multi' }) }),
+        expect.any(String),
+        undefined,
+      );
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ voteDirection: 'for', choices: ballot }),
+      );
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ choices_json: JSON.stringify(ballot) }),
+      );
+      expect(result.executed).toBe(true);
+      expect(result.choices).toEqual(ballot);
+    });
+
+    it('abstains when the analysis does not choose a valid option', async () => {
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: multiOptionProposal() });
+
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(result.vote).toBe('abstain');
+      expect(result.skipReason).toBe('invalid_option_choice');
+      expect(result.reasoning).toContain('No proposal option was chosen');
+    });
+  });
+
+  describe('voter weight plugins', () => {
+    it('skips with a distinct reason when the realm plugin is unsupported', async () => {
+      const { UnsupportedVoterWeightPluginError } = await import('@shared/lib/voter-weight-plugins');
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockRejectedValueOnce(
+        new UnsupportedVoterWeightPluginError(
+          { kind: 'nft', programId: 'nft-plugin', maxVoterWeightProgramId: null },
+          'Realm realmAddr1 uses the nft voter weight plugin',
+        ),
+      );
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({ agent: makeAgent(), proposal: makeProposal() });
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('unsupported_voter_weight_plugin');
+      expect(result.reasoning).toContain('nft voter weight plugin');
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+      expect(mockRecordVote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multiple delegators', () => {
+    const delegators = ['delegator-a', 'delegator-b', 'delegator-c'];
+    const delegatorRows = () =>
+      delegators.map((wallet, i) =>
+        makeDelegationRow({ id: BigInt(i + 1), delegator_wallet: wallet, governing_token_mint: 'community-mint' }),
+      );
+    const voters = delegators.map((wallet) => ({ delegatorAddress: wallet, governingTokenMintAddress: 'community-mint' }));
+
+    it('casts through every delegator TOR and reports the voting power used', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows());
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce({
+        ...makeCastVoteTx(),
+        batches: [
+          { serializedTransaction: 'batch-1', voters: voters.slice(0, 2) },
+          { serializedTransaction: 'batch-2', voters: voters.slice(2) },
+        ],
+      });
+      mockSignAndSendTransaction
+        .mockResolvedValueOnce({ txHash: 'tx-1' })
+        .mockResolvedValueOnce({ txHash: 'tx-2' });
+      mockFetchDepositedTokens.mockResolvedValueOnce(100).mockResolvedValueOnce(50).mockResolvedValueOnce(25);
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({ governingTokenMint: 'community-mint' }),
+      });
+
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(expect.objectContaining({ voters }));
+      expect(mockSignAndSendTransaction).toHaveBeenCalledTimes(2);
+      expect(result.executed).toBe(true);
+      expect(result.txSignature).toBe('tx-1');
+      expect(result.casts?.map((c) => [c.delegatorAddress, c.txSignature])).toEqual([
+        ['delegator-a', 'tx-1'],
+        ['delegator-b', 'tx-1'],
+        ['delegator-c', 'tx-2'],
+      ]);
+      expect(result.votingPower).toBe(175);
+      expect(mockFetchDepositedTokens).toHaveBeenCalledWith('delegator-c', 'realmAddr1', 'community-mint');
+      expect(JSON.parse(mockRecordVote.mock.calls[0][0].casts_json)).toEqual(result.casts);
+    });
+
+    it('records the batches that landed when another fails', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows());
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('AGAINST', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce({
+        ...makeCastVoteTx(),
+        batches: [
+          { serializedTransaction: 'batch-1', voters: voters.slice(0, 2) },
+          { serializedTransaction: 'batch-2', voters: voters.slice(2) },
+        ],
+      });
+      mockSignAndSendTransaction
+        .mockRejectedValueOnce(new Error('blockhash expired'))
+        .mockResolvedValueOnce({ txHash: 'tx-2' });
+      mockFetchDepositedTokens.mockResolvedValueOnce(25);
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({ governingTokenMint: 'community-mint' }),
+      });
+
+      expect(result.executed).toBe(true);
+      expect(result.txSignature).toBe('tx-2');
+      expect(result.votingPower).toBe(25);
+      expect(result.casts?.map((c) => c.txSignature)).toEqual([null, null, 'tx-2']);
+      expect(result.casts?.map((c) => c.failed ?? false)).toEqual([true, true, false]);
+      expect(mockRecordVote).toHaveBeenCalledWith(expect.objectContaining({ vote: 'against', tx_signature: 'tx-2' }));
+    });
+
+    const partlyCastVote = (casts: unknown[]) => ({
+      vote: 'against',
+      reasoning: 'Too risky',
+      confidence: 0.9,
+      tx_signature: 'tx-2',
+      choices_json: null,
+      casts_json: JSON.stringify(casts),
+      vote_status: 'finalized',
+    });
+    const landedCast = {
+      delegatorAddress: 'delegator-c',
+      governingTokenMint: 'community-mint',
+      vote: 'against',
+      preference: 'follow',
+      txSignature: 'tx-2',
+      status: 'finalized',
+      votingPower: 25,
+    };
+    const failedCast = (wallet: string) => ({
+      delegatorAddress: wallet,
+      governingTokenMint: 'community-mint',
+      vote: 'against',
+      preference: 'follow',
+      txSignature: null,
+      votingPower: null,
+      failed: true,
+    });
+
+    it('casts again only for the delegators whose batch failed', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows());
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetVoteByAgentAndProposal.mockResolvedValueOnce(
+        partlyCastVote([failedCast('delegator-a'), failedCast('delegator-b'), landedCast]),
+      );
+      mockBuildCastVoteTransactions.mockResolvedValueOnce({
+        ...makeCastVoteTx(),
+        batches: [{ serializedTransaction: 'batch-retry', voters: voters.slice(0, 2) }],
+      });
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-retry' });
+      mockFetchDepositedTokens.mockResolvedValueOnce(100).mockResolvedValueOnce(50);
+      mockUpdateVoteCasts.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({ governingTokenMint: 'community-mint' }),
+      });
+
+      expect(mockAnalyzeProposal).not.toHaveBeenCalled();
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledTimes(1);
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ voteDirection: 'against', voters: voters.slice(0, 2) }),
+      );
+      expect(result).toMatchObject({ executed: true, vote: 'against', txSignature: 'tx-retry' });
+      expect(mockRecordVote).not.toHaveBeenCalled();
+
+      const update = mockUpdateVoteCasts.mock.calls[0][0];
+      expect(update).toMatchObject({
+        agent_id: 1n,
+        proposal_address: 'proposal-abc',
+        fee_lamports: 5_600n,
+        vote_status: 'finalized',
+      });
+      const merged = JSON.parse(update.casts_json) as Array<Record<string, unknown>>;
+      expect(merged.map((c) => [c.delegatorAddress, c.txSignature, c.failed ?? false])).toEqual([
+        ['delegator-c', 'tx-2', false],
+        ['delegator-a', 'tx-retry', false],
+        ['delegator-b', 'tx-retry', false],
+      ]);
+    });
+
+    it('relinquishes before recasting a failed override cast', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows());
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetVoteByAgentAndProposal.mockResolvedValueOnce(
+        partlyCastVote([{ ...failedCast('delegator-a'), relinquish: true }, landedCast]),
+      );
+      mockBuildCastVoteTransactions.mockResolvedValueOnce({
+        ...makeCastVoteTx(),
+        batches: [{ serializedTransaction: 'batch-retry', voters: voters.slice(0, 1) }],
+      });
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-retry' });
+      mockFetchDepositedTokens.mockResolvedValueOnce(100);
+      mockUpdateVoteCasts.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({ governingTokenMint: 'community-mint' }),
+      });
+
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ voters: [{ ...voters[0], relinquish: true }] }),
+      );
+      const merged = JSON.parse(mockUpdateVoteCasts.mock.calls[0][0].casts_json) as Array<Record<string, unknown>>;
+      expect(merged.find((c) => c.delegatorAddress === 'delegator-a')).toMatchObject({ txSignature: 'tx-retry' });
+      expect(merged.some((c) => c.relinquish)).toBe(false);
+    });
+
+    it('stops retrying a delegator who revoked the delegation', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows().slice(1));
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockGetVoteByAgentAndProposal.mockResolvedValueOnce(partlyCastVote([failedCast('delegator-a'), landedCast]));
+      mockUpdateVoteCasts.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({ governingTokenMint: 'community-mint' }),
+      });
+
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(result.executed).toBe(false);
+      const merged = JSON.parse(mockUpdateVoteCasts.mock.calls[0][0].casts_json) as Array<Record<string, unknown>>;
+      expect(merged).toEqual(expect.arrayContaining([
+        expect.objectContaining({ delegatorAddress: 'delegator-a', skipReason: 'delegation_inactive' }),
+      ]));
+      expect(merged.some((c) => c.failed)).toBe(false);
+    });
+
+    it('records nothing when no batch lands', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows());
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockResolvedValueOnce({
+        ...makeCastVoteTx(),
+        batches: [{ serializedTransaction: 'batch-1', voters }],
+      });
+      mockSignAndSendTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({ governingTokenMint: 'community-mint' }),
+      });
+
+      expect(result.executed).toBe(false);
+      expect(result.skipped).toBe(false);
+      expect(result.casts).toHaveLength(3);
+      expect(mockRecordVote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delegator preferences', () => {
+    const delegators = ['delegator-a', 'delegator-b', 'delegator-c'];
+    const delegatorRows = () =>
+      delegators.map((wallet, i) =>
+        makeDelegationRow({ id: BigInt(i + 1), delegator_wallet: wallet, governing_token_mint: 'community-mint' }),
+      );
+    const voter = (wallet: string) => ({ delegatorAddress: wallet, governingTokenMintAddress: 'community-mint' });
+    const preference = (wallet: string, value: string, proposalAddress: string | null = null) => ({
+      delegator_wallet: wallet,
+      realm_address: 'realmAddr1',
+      proposal_address: proposalAddress,
+      preference: value,
+    });
+
+    it('splits the vote by each delegator preference', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows());
+      mockGetDelegatorPreferences.mockResolvedValueOnce([
+        preference('delegator-b', 'abstain'),
+        preference('delegator-c', 'abstain'),
+        preference('delegator-c', 'against', 'proposalAddr1'),
+      ]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      const oneBatch = async ({ voters }: { voters: unknown[] }) => ({
+        ...makeCastVoteTx(),
+        batches: [{ serializedTransaction: 'batch', voters }],
+      });
+      mockBuildCastVoteTransactions
+        .mockImplementationOnce(oneBatch)
+        .mockImplementationOnce(oneBatch)
+        .mockImplementationOnce(oneBatch);
+      mockSignAndSendTransaction
+        .mockResolvedValueOnce({ txHash: 'tx-for' })
+        .mockResolvedValueOnce({ txHash: 'tx-abstain' })
+        .mockResolvedValueOnce({ txHash: 'tx-against' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({ address: 'proposalAddr1', governingTokenMint: 'community-mint' }),
+      });
+
+      expect(mockGetDelegatorPreferences).toHaveBeenCalledWith('realmAddr1', delegators);
+      expect(mockBuildCastVoteTransactions.mock.calls.map(([args]) => [args.voteDirection, args.voters])).toEqual([
+        ['for', [voter('delegator-a')]],
+        ['abstain', [voter('delegator-b')]],
+        ['against', [voter('delegator-c')]],
+      ]);
+      expect(result.executed).toBe(true);
+      expect(result.vote).toBe('for');
+      expect(result.casts?.map((c) => [c.delegatorAddress, c.vote, c.preference, c.txSignature])).toEqual([
+        ['delegator-a', 'for', 'follow', 'tx-for'],
+        ['delegator-b', 'abstain', 'abstain', 'tx-abstain'],
+        ['delegator-c', 'against', 'against', 'tx-against'],
+      ]);
+      expect(mockRecordVote).toHaveBeenCalledWith(expect.objectContaining({ vote: 'for', tx_signature: 'tx-for' }));
+    });
+
+    it('records the decision without casting when every delegator opts out', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows().slice(0, 1));
+      mockGetDelegatorPreferences.mockResolvedValueOnce([preference('delegator-a', 'for')]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('AGAINST', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      // A FOR on a multi-option proposal needs option picks the agent didn't make
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({
+          governingTokenMint: 'community-mint',
+          options: [
+            { index: 0, label: 'Option A', voteWeight: 500, voteResult: 'none' },
+            { index: 1, label: 'Option B', voteWeight: 300, voteResult: 'none' },
+          ],
+        }),
+      });
+
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ executed: false, skipped: true, skipReason: 'delegator_preferences' });
+      expect(result.casts).toEqual([
+        expect.objectContaining({
+          delegatorAddress: 'delegator-a',
+          vote: null,
+          preference: 'for',
+          txSignature: null,
+          skipReason: 'for_needs_option_choices',
+        }),
+      ]);
+      expect(mockRecordVote).toHaveBeenCalledWith(expect.objectContaining({ vote: 'against', tx_signature: null }));
+    });
+
+    it('casts the other directions when a FOR preference cannot be satisfied', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows().slice(0, 2));
+      mockGetDelegatorPreferences.mockResolvedValueOnce([preference('delegator-a', 'for')]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('AGAINST', 0.9));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockImplementationOnce(async ({ voters }: { voters: unknown[] }) => ({
+        ...makeCastVoteTx(),
+        batches: [{ serializedTransaction: 'batch', voters }],
+      }));
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-against' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent(),
+        proposal: makeProposal({
+          governingTokenMint: 'community-mint',
+          options: [
+            { index: 0, label: 'Option A', voteWeight: 500, voteResult: 'none' },
+            { index: 1, label: 'Option B', voteWeight: 300, voteResult: 'none' },
+          ],
+        }),
+      });
+
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledTimes(1);
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ voteDirection: 'against', voters: [voter('delegator-b')] }),
+      );
+      expect(result.executed).toBe(true);
+      expect(result.casts).toEqual(expect.arrayContaining([
+        expect.objectContaining({ delegatorAddress: 'delegator-a', vote: null, skipReason: 'for_needs_option_choices' }),
+        expect.objectContaining({ delegatorAddress: 'delegator-b', vote: 'against', txSignature: 'tx-against' }),
+      ]));
+    });
+
+    it('still casts standing instructions when the agent abstains below its confidence threshold', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows().slice(0, 2));
+      mockGetDelegatorPreferences.mockResolvedValueOnce([preference('delegator-a', 'against')]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.5));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockBuildCastVoteTransactions.mockImplementationOnce(async ({ voters }: { voters: unknown[] }) => ({
+        ...makeCastVoteTx(),
+        batches: [{ serializedTransaction: 'batch', voters }],
+      }));
+      mockSignAndSendTransaction.mockResolvedValueOnce({ txHash: 'tx-against' });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent({ config_json: JSON.stringify({ autoVote: true, confidenceThreshold: 0.8 }) }),
+        proposal: makeProposal({ governingTokenMint: 'community-mint' }),
+      });
+
+      // Only the instructed delegator goes on-chain; the follower abstains with the agent
+      expect(mockGetDelegatorPreferences).toHaveBeenCalledTimes(1);
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledTimes(1);
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ voteDirection: 'against', voters: [voter('delegator-a')] }),
+      );
+      expect(result).toMatchObject({ executed: true, vote: 'abstain' });
+      expect(result.casts).toEqual(expect.arrayContaining([
+        expect.objectContaining({ delegatorAddress: 'delegator-a', vote: 'against', txSignature: 'tx-against' }),
+        expect.objectContaining({ delegatorAddress: 'delegator-b', vote: null, preference: 'follow' }),
+      ]));
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ vote: 'abstain', tx_signature: 'tx-against' }),
+      );
+    });
+
+    it('records the abstention with its reason when no instruction can be cast', async () => {
+      mockGetDelegationsByAgent.mockResolvedValueOnce(delegatorRows().slice(0, 1));
+      mockGetDelegatorPreferences.mockResolvedValueOnce([preference('delegator-a', 'for')]);
+      mockHasAgentVoted.mockResolvedValueOnce(false);
+      mockAnalyzeProposal.mockResolvedValueOnce(makeAnalysis('FOR', 0.5));
+      mockStoreAIAnalysis.mockResolvedValueOnce({ ok: true });
+      mockRecordVote.mockResolvedValueOnce({ ok: true });
+
+      const { executeAutonomousVote } = await import(
+        '@shared/lib/autonomous-vote-engine'
+      );
+      const result = await executeAutonomousVote({
+        agent: makeAgent({ config_json: JSON.stringify({ autoVote: true, confidenceThreshold: 0.8 }) }),
+        proposal: makeProposal({
+          governingTokenMint: 'community-mint',
+          options: [
+            { index: 0, label: 'Option A', voteWeight: 500, voteResult: 'none' },
+            { index: 1, label: 'Option B', voteWeight: 300, voteResult: 'none' },
+          ],
+        }),
+      });
+
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ skipped: true, skipReason: 'below_confidence_threshold', vote: 'abstain' });
+      expect(result.casts).toEqual([
+        expect.objectContaining({ delegatorAddress: 'delegator-a', skipReason: 'for_needs_option_choices' }),
+      ]);
+      expect(mockRecordVote).toHaveBeenCalledWith(
+        expect.objectContaining({ vote: 'abstain', tx_signature: null, casts_json: expect.any(String) }),
+      );
+    });
+  });
 });
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+
+// ---------------------------------------------------------------------------
+// The tracker only talks to the RPC through getConnection; stub it.
+// ---------------------------------------------------------------------------
+
+const mockGetLatestBlockhash = vi.fn();
+const mockGetSignatureStatus = vi.fn();
+const mockGetBlockHeight = vi.fn();
+vi.mock('@shared/lib/governance', () => ({
+  getConnection: () => ({
+    getLatestBlockhash: mockGetLatestBlockhash,
+    getSignatureStatus: mockGetSignatureStatus,
+    getBlockHeight: mockGetBlockHeight,
+  }),
+}));
+
+import { sendAndTrack, weakestVoteStatus } from '@shared/lib/confirmation-tracker';
+
+const BLOCKHASHES = [
+  'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gYdkNJWNjJB',
+  'GHtXQBsoZHVnNFa9YevAzFr17DJjgHXk3ycTKD5xD3Zi',
+  '4sGjMW1sUnHzSxGspuhpqLDx6wiyjNtZAMdL4VZHirAn',
+];
+
+function unsignedTransaction(): string {
+  const payer = Keypair.generate().publicKey;
+  const tx = new Transaction({ feePayer: payer, recentBlockhash: BLOCKHASHES[0] })
+    .add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 }));
+  return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+}
+
+function status(confirmationStatus: string | null, err: unknown = null) {
+  return { value: confirmationStatus ? { confirmationStatus, err } : null };
+}
+
+const track = (send: (tx: string) => Promise<string>, maxResigns?: number) =>
+  sendAndTrack({ serializedTransaction: unsignedTransaction(), send, maxResigns, pollIntervalMs: 0 });
+
+describe('sendAndTrack()', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let call = 0;
+    mockGetLatestBlockhash.mockImplementation(async () => ({
+      blockhash: BLOCKHASHES[call++ % BLOCKHASHES.length],
+      lastValidBlockHeight: 100,
+    }));
+    mockGetBlockHeight.mockResolvedValue(50);
+  });
+
+  it('sends with a fresh blockhash and waits for finality', async () => {
+    const send = vi.fn(async () => 'sig-1');
+    mockGetSignatureStatus
+      .mockResolvedValueOnce(status(null))
+      .mockResolvedValueOnce(status('confirmed'))
+      .mockResolvedValueOnce(status('finalized'));
+
+    const tracked = await track(send);
+
+    expect(tracked).toEqual({ signature: 'sig-1', status: 'finalized', resigns: 0 });
+    const sent = Transaction.from(Buffer.from(send.mock.calls[0][0], 'base64'));
+    expect(sent.recentBlockhash).toBe(BLOCKHASHES[0]);
+  });
+
+  it('re-signs with a new blockhash when the first expires unseen', async () => {
+    const send = vi.fn().mockResolvedValueOnce('sig-1').mockResolvedValueOnce('sig-2');
+    mockGetSignatureStatus
+      .mockResolvedValueOnce(status(null))
+      .mockResolvedValueOnce(status('finalized'));
+    mockGetBlockHeight.mockResolvedValueOnce(101);
+
+    const tracked = await track(send);
+
+    expect(tracked).toEqual({ signature: 'sig-2', status: 'finalized', resigns: 1 });
+    const blockhashes = send.mock.calls.map(([tx]) => Transaction.from(Buffer.from(tx, 'base64')).recentBlockhash);
+    expect(blockhashes).toEqual([BLOCKHASHES[0], BLOCKHASHES[1]]);
+  });
+
+  it('gives up as dropped after the last re-sign expires', async () => {
+    const send = vi.fn().mockResolvedValueOnce('sig-1').mockResolvedValueOnce('sig-2');
+    mockGetSignatureStatus.mockResolvedValue(status(null));
+    mockGetBlockHeight.mockResolvedValue(101);
+
+    const tracked = await track(send, 1);
+
+    expect(tracked).toEqual({ signature: 'sig-2', status: 'dropped', resigns: 1 });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws when the transaction failed on-chain', async () => {
+    mockGetSignatureStatus.mockResolvedValueOnce(status('confirmed', { InstructionError: [0, { Custom: 519 }] }));
+
+    await expect(track(async () => 'sig-1')).rejects.toThrow('sig-1 failed on-chain');
+  });
+
+  it('reports the least settled of several statuses', () => {
+    expect(weakestVoteStatus(['finalized', 'confirmed', 'finalized'])).toBe('confirmed');
+    expect(weakestVoteStatus([])).toBeNull();
+  });
+});
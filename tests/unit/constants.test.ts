@@ -6,6 +6,7 @@ import {
   SOULBOUND_ORACLE,
   TAPESTRY_PROGRAM_ID,
   AGENT_PERMISSIONS,
+  hasAgentPermission,
   RISK_LEVELS,
   SOLANA_CHAIN_CONFIG,
   TAPESTRY_API_URL,
@@ -106,6 +107,40 @@ describe('AGENT_PERMISSIONS', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// hasAgentPermission
+// ---------------------------------------------------------------------------
+describe('hasAgentPermission()', () => {
+  const entries = Object.entries(AGENT_PERMISSIONS);
+
+  it.each(entries)('grants %s only when its own bit is set', (_name, bit) => {
+    expect(hasAgentPermission(BigInt(bit), bit)).toBe(true);
+
+    for (const [, other] of entries) {
+      if (other === bit) continue;
+      expect(hasAgentPermission(BigInt(other), bit)).toBe(false);
+    }
+  });
+
+  it('grants every permission when all bits are set', () => {
+    const all = entries.reduce((acc, [, bit]) => acc | bit, 0);
+    for (const [, bit] of entries) {
+      expect(hasAgentPermission(BigInt(all), bit)).toBe(true);
+    }
+  });
+
+  it('grants nothing for an empty bitmap', () => {
+    for (const [, bit] of entries) {
+      expect(hasAgentPermission(BigInt(0), bit)).toBe(false);
+    }
+  });
+
+  it('accepts plain numbers as returned by SQL queries', () => {
+    expect(hasAgentPermission(3, AGENT_PERMISSIONS.CREATE_PROPOSAL)).toBe(true);
+    expect(hasAgentPermission(3, AGENT_PERMISSIONS.ADMIN)).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // RISK_LEVELS
 // ---------------------------------------------------------------------------
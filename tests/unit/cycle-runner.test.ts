@@ -41,6 +41,7 @@ function makeConfig(overrides: Partial<WorkerRuntimeConfig> = {}): WorkerRuntime
     maxConcurrency: 1,
     dryRun: false,
     runOnce: false,
+    reconcileIntervalMs: 600_000,
     ...overrides,
   };
 }
@@ -56,6 +57,7 @@ function makeSummary(overrides: Partial<WorkerCycleSummary> = {}): WorkerCycleSu
     executed: 4,
     skipped: 1,
     failed: 1,
+    scored: 0,
     ...overrides,
   };
 }
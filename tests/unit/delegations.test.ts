@@ -6,6 +6,8 @@ import { makeAuthRequest, makeAgent, makeDelegation, VALID_USER_ID } from '../fi
 
 vi.mock('@shared/lib/auth', () => ({
   verifyAuth: vi.fn(),
+  authorizeAgentScope: vi.fn(),
+  authorizeWallet: vi.fn(),
   AuthError: class AuthError extends Error {
     statusCode: number;
     constructor(message: string, statusCode = 401) {
@@ -22,6 +24,18 @@ vi.mock('@shared/lib/stdb-client', () => ({
   getDelegationsByWallet: vi.fn(),
 }));
 
+vi.mock('@shared/lib/governance', () => ({
+  fetchRealm: vi.fn(),
+  fetchUserTokenRecords: vi.fn(),
+  // Tests hand back records already in serialized form
+  serializeTokenOwnerRecord: vi.fn((record: unknown) => record),
+}));
+
+vi.mock('@shared/lib/solana-governance', () => ({
+  buildDelegateTransaction: vi.fn(),
+  submitAndConfirm: vi.fn(),
+}));
+
 vi.mock('@shared/lib/constants', () => ({
   AGENT_PERMISSIONS: {
     VOTE: 1 << 0,
@@ -35,18 +49,30 @@ vi.mock('@shared/lib/constants', () => ({
   },
 }));
 
-import { verifyAuth, AuthError } from '@shared/lib/auth';
+import { verifyAuth, authorizeWallet, AuthError } from '@shared/lib/auth';
 import {
   createDelegation,
   getAgentById,
   getDelegationsByWallet,
 } from '@shared/lib/stdb-client';
+import { fetchRealm, fetchUserTokenRecords } from '@shared/lib/governance';
+import { buildDelegateTransaction, submitAndConfirm } from '@shared/lib/solana-governance';
 import { GET, POST } from '@/app/api/delegations/route';
+import { POST as CONFIRM } from '@/app/api/delegations/confirm/route';
 
 const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockAuthorizeWallet = vi.mocked(authorizeWallet);
 const mockCreateDelegation = vi.mocked(createDelegation);
 const mockGetAgentById = vi.mocked(getAgentById);
 const mockGetDelegationsByWallet = vi.mocked(getDelegationsByWallet);
+const mockFetchRealm = vi.mocked(fetchRealm);
+const mockFetchUserTokenRecords = vi.mocked(fetchUserTokenRecords);
+const mockBuildDelegateTransaction = vi.mocked(buildDelegateTransaction);
+const mockSubmitAndConfirm = vi.mocked(submitAndConfirm);
+
+const REALM = 'realm1111111111111111111111111111111111111111';
+const DELEGATOR = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const AGENT_WALLET = '9xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
 
 // ─── Tests: GET ──────────────────────────────────────────────────────────────
 
@@ -144,6 +170,30 @@ describe('POST /api/delegations', () => {
     );
   });
 
+  it('returns 403 when the delegator wallet is not linked to the caller', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockAuthorizeWallet.mockRejectedValueOnce(new AuthError('Wallet SomeoneE1se is not linked to this account', 403));
+
+    const request = makeAuthRequest('http://localhost:3000/api/delegations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        agentId: '1',
+        realmAddress: 'realm1111111111111111111111111111111111111111',
+        delegatorWallet: 'SomeoneE1se',
+      }),
+    });
+    const response = await POST(request as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(403);
+    expect(mockAuthorizeWallet).toHaveBeenCalledWith(
+      { authenticated: true, userId: VALID_USER_ID },
+      'SomeoneE1se',
+    );
+    expect(mockBuildDelegateTransaction).not.toHaveBeenCalled();
+  });
+
   it('returns 404 when agent is not found', async () => {
     mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
     mockGetAgentById.mockResolvedValue(null as never);
@@ -168,85 +218,219 @@ describe('POST /api/delegations', () => {
     );
   });
 
-  it('returns 201 on successful delegation creation', async () => {
+  it('returns the unsigned delegate transaction for the realm community mint', async () => {
     mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
     mockGetAgentById.mockResolvedValue(makeAgent() as never);
-    mockCreateDelegation.mockResolvedValue({ ok: true } as never);
+    mockFetchRealm.mockResolvedValue({
+      realm: { communityMint: { toBase58: () => 'community-mint' } },
+      governances: [],
+    } as never);
+    mockBuildDelegateTransaction.mockResolvedValue('base64-delegate-tx');
 
     const request = makeAuthRequest('http://localhost:3000/api/delegations', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        agentId: '1',
-        realmAddress: 'realm1111111111111111111111111111111111111111',
-        delegatorWallet: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
-      }),
+      body: JSON.stringify({ agentId: '1', realmAddress: REALM, delegatorWallet: DELEGATOR }),
     });
     const response = await POST(request as never);
     const { status, body } = await parseResponse(response);
 
-    expect(status).toBe(201);
-    expect(body).toEqual({ success: true });
-    expect(mockCreateDelegation).toHaveBeenCalledWith(
-      expect.objectContaining({
-        agent_id: BigInt(1),
-        realm_address: 'realm1111111111111111111111111111111111111111',
-        delegator_wallet: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
-        scope_bitmap: BigInt(1), // AGENT_PERMISSIONS.VOTE = 1
-      }),
-    );
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      transaction: 'base64-delegate-tx',
+      governingTokenMint: 'community-mint',
+      delegateWallet: AGENT_WALLET,
+    });
+    expect(mockBuildDelegateTransaction).toHaveBeenCalledWith({
+      realmAddress: REALM,
+      governingTokenMintAddress: 'community-mint',
+      delegatorWalletAddress: DELEGATOR,
+      delegateWalletAddress: AGENT_WALLET,
+    });
+    // Nothing is recorded until the signed transaction is confirmed
+    expect(mockCreateDelegation).not.toHaveBeenCalled();
   });
 
-  it('uses custom scopeBitmap when provided', async () => {
+  it('delegates the requested mint without looking up the realm', async () => {
     mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
     mockGetAgentById.mockResolvedValue(makeAgent() as never);
-    mockCreateDelegation.mockResolvedValue({ ok: true } as never);
+    mockBuildDelegateTransaction.mockResolvedValue('base64-delegate-tx');
 
     const request = makeAuthRequest('http://localhost:3000/api/delegations', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         agentId: '1',
-        realmAddress: 'realm1111111111111111111111111111111111111111',
-        delegatorWallet: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
-        scopeBitmap: 3, // VOTE | CREATE_PROPOSAL
+        realmAddress: REALM,
+        delegatorWallet: DELEGATOR,
+        governingTokenMint: 'council-mint',
       }),
     });
     const response = await POST(request as never);
 
-    expect(response.status).toBe(201);
-    expect(mockCreateDelegation).toHaveBeenCalledWith(
-      expect.objectContaining({
-        scope_bitmap: BigInt(3),
-      }),
+    expect(response.status).toBe(200);
+    expect(mockFetchRealm).not.toHaveBeenCalled();
+    expect(mockBuildDelegateTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ governingTokenMintAddress: 'council-mint' }),
     );
   });
 
-  it('returns 500 when delegation creation fails in SpacetimeDB', async () => {
+  it('returns 400 when the agent has no wallet to delegate to', async () => {
     mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
-    mockGetAgentById.mockResolvedValue(makeAgent() as never);
-    mockCreateDelegation.mockResolvedValue({
-      ok: false,
-      error: 'Reducer failed',
-    } as never);
+    mockGetAgentById.mockResolvedValue(makeAgent({ privy_wallet_address: null }) as never);
 
     const request = makeAuthRequest('http://localhost:3000/api/delegations', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        agentId: '1',
-        realmAddress: 'realm1111111111111111111111111111111111111111',
-        delegatorWallet: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
-      }),
+      body: JSON.stringify({ agentId: '1', realmAddress: REALM, delegatorWallet: DELEGATOR }),
     });
     const response = await POST(request as never);
+
+    expect(response.status).toBe(400);
+    expect(mockBuildDelegateTransaction).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Tests: POST /confirm ────────────────────────────────────────────────────
+
+describe('POST /api/delegations/confirm', () => {
+  const confirmBody = {
+    agentId: '1',
+    realmAddress: REALM,
+    delegatorWallet: DELEGATOR,
+    governingTokenMint: 'community-mint',
+    signedTransaction: 'base64-signed-tx',
+  };
+
+  function makeConfirmRequest(body: Record<string, unknown> = confirmBody) {
+    return makeAuthRequest('http://localhost:3000/api/delegations/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  function makeTokenOwnerRecord(governanceDelegate: string | null) {
+    return {
+      address: 'delegator-tor',
+      realm: REALM,
+      governingTokenOwner: DELEGATOR,
+      governingTokenMint: 'community-mint',
+      governingTokenDepositAmount: 1000,
+      governanceDelegate,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetDelegationsByWallet.mockResolvedValue([]);
+  });
+
+  it('returns 400 when the signed transaction is missing', async () => {
+    const response = await CONFIRM(makeConfirmRequest({ ...confirmBody, signedTransaction: '' }) as never);
+
+    expect(response.status).toBe(400);
+    expect(mockSubmitAndConfirm).not.toHaveBeenCalled();
+  });
+
+  it('activates the delegation with the TokenOwnerRecord once the chain shows the agent as delegate', async () => {
+    mockSubmitAndConfirm.mockResolvedValue({ signature: 'sig-delegate', confirmed: true });
+    mockFetchUserTokenRecords.mockResolvedValue([makeTokenOwnerRecord(AGENT_WALLET)] as never);
+    mockCreateDelegation.mockResolvedValue({ ok: true } as never);
+
+    const response = await CONFIRM(makeConfirmRequest({ ...confirmBody, scopeBitmap: 3 }) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(201);
+    expect(body).toEqual({ success: true, txSignature: 'sig-delegate', onChainPda: 'delegator-tor' });
+    expect(mockSubmitAndConfirm).toHaveBeenCalledWith('base64-signed-tx');
+    expect(mockFetchUserTokenRecords).toHaveBeenCalledWith(DELEGATOR);
+    expect(mockCreateDelegation).toHaveBeenCalledWith({
+      agent_id: BigInt(1),
+      realm_address: REALM,
+      delegator_wallet: DELEGATOR,
+      scope_bitmap: BigInt(3),
+      governing_token_mint: 'community-mint',
+      on_chain_pda: 'delegator-tor',
+    });
+  });
+
+  it('returns 409 without recording when the TokenOwnerRecord delegates elsewhere', async () => {
+    mockSubmitAndConfirm.mockResolvedValue({ signature: 'sig-delegate', confirmed: true });
+    mockFetchUserTokenRecords.mockResolvedValue([makeTokenOwnerRecord('someone-else')] as never);
+
+    const response = await CONFIRM(makeConfirmRequest() as never);
     const { status, body } = await parseResponse(response);
 
-    expect(status).toBe(500);
+    expect(status).toBe(409);
     expect(body).toEqual(
       expect.objectContaining({
-        error: expect.stringContaining('Delegation creation failed'),
+        error: expect.stringContaining('does not delegate to agent 1'),
+        governanceDelegate: 'someone-else',
       }),
     );
+    expect(mockCreateDelegation).not.toHaveBeenCalled();
+  });
+
+  it('asks to retry when the transaction is not confirmed yet', async () => {
+    mockSubmitAndConfirm.mockResolvedValue({ signature: 'sig-pending', confirmed: false });
+    mockFetchUserTokenRecords.mockResolvedValue([makeTokenOwnerRecord(null)] as never);
+
+    const response = await CONFIRM(makeConfirmRequest() as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(409);
+    expect(body).toEqual(
+      expect.objectContaining({ error: expect.stringContaining('not confirmed yet'), txSignature: 'sig-pending' }),
+    );
+    expect(mockCreateDelegation).not.toHaveBeenCalled();
+  });
+
+  it('re-reads the TokenOwnerRecord without resubmitting on a retry with txSignature', async () => {
+    mockFetchUserTokenRecords.mockResolvedValue([makeTokenOwnerRecord(AGENT_WALLET)] as never);
+    mockCreateDelegation.mockResolvedValue({ ok: true } as never);
+    const retryBody = { ...confirmBody, signedTransaction: undefined, txSignature: 'sig-pending' };
+
+    const response = await CONFIRM(makeConfirmRequest(retryBody) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(201);
+    expect(body).toEqual({ success: true, txSignature: 'sig-pending', onChainPda: 'delegator-tor' });
+    expect(mockSubmitAndConfirm).not.toHaveBeenCalled();
+    expect(mockCreateDelegation).toHaveBeenCalledWith(expect.objectContaining({ on_chain_pda: 'delegator-tor' }));
+  });
+
+  it('asks to retry again while the TokenOwnerRecord has not picked up the delegate', async () => {
+    mockFetchUserTokenRecords.mockResolvedValue([makeTokenOwnerRecord(null)] as never);
+
+    const response = await CONFIRM(makeConfirmRequest({ ...confirmBody, txSignature: 'sig-pending' }) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(409);
+    expect(body).toEqual(expect.objectContaining({ error: expect.stringContaining('retry'), txSignature: 'sig-pending' }));
+    expect(mockSubmitAndConfirm).not.toHaveBeenCalled();
+    expect(mockCreateDelegation).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the transaction fails to land', async () => {
+    mockSubmitAndConfirm.mockRejectedValue(new Error('Transaction simulation failed'));
+
+    const response = await CONFIRM(makeConfirmRequest() as never);
+
+    expect(response.status).toBe(400);
+    expect(mockFetchUserTokenRecords).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 before submitting when the delegation is already active', async () => {
+    mockGetDelegationsByWallet.mockResolvedValue([
+      makeDelegation({ governing_token_mint: 'community-mint' }),
+    ] as never);
+
+    const response = await CONFIRM(makeConfirmRequest() as never);
+
+    expect(response.status).toBe(409);
+    expect(mockSubmitAndConfirm).not.toHaveBeenCalled();
   });
 });
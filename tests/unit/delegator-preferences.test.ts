@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResponse } from '../helpers';
+import { makeAuthRequest, makeDelegation, VALID_USER_ID } from '../fixtures';
+
+// ─── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('@shared/lib/auth', () => ({
+  verifyAuth: vi.fn(),
+  authorizeWallet: vi.fn(),
+  AuthError: class AuthError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 401) {
+      super(message);
+      this.name = 'AuthError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  clearDelegatorPreference: vi.fn(),
+  getDelegationsByWallet: vi.fn(),
+  getDelegatorPreferencesByWallet: vi.fn(),
+  setDelegatorPreference: vi.fn(),
+}));
+
+import { verifyAuth, AuthError } from '@shared/lib/auth';
+import {
+  clearDelegatorPreference,
+  getDelegationsByWallet,
+  getDelegatorPreferencesByWallet,
+  setDelegatorPreference,
+  type DelegatorPreferenceRow,
+} from '@shared/lib/stdb-client';
+import {
+  applyDelegatorPreference,
+  resolveDelegatorPreference,
+} from '@shared/lib/delegator-preferences';
+import { GET, POST, DELETE } from '@/app/api/delegations/preferences/route';
+
+const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockClearDelegatorPreference = vi.mocked(clearDelegatorPreference);
+const mockGetDelegationsByWallet = vi.mocked(getDelegationsByWallet);
+const mockGetDelegatorPreferencesByWallet = vi.mocked(getDelegatorPreferencesByWallet);
+const mockSetDelegatorPreference = vi.mocked(setDelegatorPreference);
+
+const URL_BASE = 'http://localhost:3000/api/delegations/preferences';
+const REALM = 'realm1111111111111111111111111111111111111111';
+const DELEGATOR = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const PROPOSAL = 'Proposa1111111111111111111111111111111111111';
+
+function makePreference(overrides: Partial<DelegatorPreferenceRow> = {}): DelegatorPreferenceRow {
+  return {
+    id: BigInt(1),
+    preference_key: `${DELEGATOR}:${REALM}:*`,
+    delegator_wallet: DELEGATOR,
+    realm_address: REALM,
+    proposal_address: null,
+    preference: 'abstain',
+    created_at: 0,
+    updated_at: 0,
+    ...overrides,
+  };
+}
+
+function jsonRequest(method: string, body: Record<string, unknown>) {
+  return makeAuthRequest(URL_BASE, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// ─── Tests: helpers ──────────────────────────────────────────────────────────
+
+describe('resolveDelegatorPreference()', () => {
+  it('prefers the per-proposal instruction over the realm-wide one', () => {
+    const rows = [
+      makePreference(),
+      makePreference({ proposal_address: PROPOSAL, preference: 'against' }),
+    ];
+
+    expect(resolveDelegatorPreference(rows, DELEGATOR, PROPOSAL)).toBe('against');
+    expect(resolveDelegatorPreference(rows, DELEGATOR, 'OtherProposa1')).toBe('abstain');
+  });
+
+  it('follows the agent without an instruction from that delegator', () => {
+    const rows = [makePreference({ delegator_wallet: 'SomeoneE1se' })];
+
+    expect(resolveDelegatorPreference(rows, DELEGATOR, PROPOSAL)).toBe('follow');
+  });
+});
+
+describe('applyDelegatorPreference()', () => {
+  it('casts the agent direction for followers and the preference otherwise', () => {
+    expect(applyDelegatorPreference('follow', 'against')).toBe('against');
+    expect(applyDelegatorPreference('abstain', 'for')).toBe('abstain');
+    expect(applyDelegatorPreference('for', 'against')).toBe('for');
+  });
+
+  it('leaves delegators with an instruction out of a veto', () => {
+    expect(applyDelegatorPreference('follow', 'veto')).toBe('veto');
+    expect(applyDelegatorPreference('against', 'veto')).toBeNull();
+  });
+});
+
+// ─── Tests: GET ──────────────────────────────────────────────────────────────
+
+describe('GET /api/delegations/preferences', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 401 without auth', async () => {
+    mockVerifyAuth.mockRejectedValue(new AuthError('Missing Authorization header'));
+
+    const response = await GET(new Request(`${URL_BASE}?wallet=${DELEGATOR}`) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(401);
+  });
+
+  it('returns 400 when wallet query param is missing', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+
+    const response = await GET(makeAuthRequest(URL_BASE) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(400);
+    expect(body).toEqual(expect.objectContaining({ error: expect.stringContaining('wallet') }));
+  });
+
+  it('returns the preferences a wallet left', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    const preferences = [{ ...makePreference(), id: 1 }];
+    mockGetDelegatorPreferencesByWallet.mockResolvedValue(preferences as never);
+
+    const response = await GET(makeAuthRequest(`${URL_BASE}?wallet=${DELEGATOR}`) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(200);
+    expect(body).toEqual(preferences);
+    expect(mockGetDelegatorPreferencesByWallet).toHaveBeenCalledWith(DELEGATOR);
+  });
+});
+
+// ─── Tests: POST ─────────────────────────────────────────────────────────────
+
+describe('POST /api/delegations/preferences', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetDelegationsByWallet.mockResolvedValue([makeDelegation()] as never);
+    mockSetDelegatorPreference.mockResolvedValue({ ok: true });
+  });
+
+  it('sets a per-proposal preference', async () => {
+    const response = await POST(jsonRequest('POST', {
+      delegatorWallet: DELEGATOR,
+      realmAddress: REALM,
+      proposalAddress: PROPOSAL,
+      preference: 'against',
+    }) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, preference: 'against' });
+    expect(mockSetDelegatorPreference).toHaveBeenCalledWith({
+      delegator_wallet: DELEGATOR,
+      realm_address: REALM,
+      proposal_address: PROPOSAL,
+      preference: 'against',
+    });
+  });
+
+  it('returns 400 for an unknown preference', async () => {
+    const response = await POST(jsonRequest('POST', {
+      delegatorWallet: DELEGATOR,
+      realmAddress: REALM,
+      preference: 'veto',
+    }) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(400);
+    expect(body).toEqual(expect.objectContaining({ error: expect.stringContaining('follow, abstain, for, against') }));
+    expect(mockSetDelegatorPreference).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 without an active delegation in the realm', async () => {
+    mockGetDelegationsByWallet.mockResolvedValue([makeDelegation({ realm_address: 'OtherRea1m' })] as never);
+
+    const response = await POST(jsonRequest('POST', {
+      delegatorWallet: DELEGATOR,
+      realmAddress: REALM,
+      preference: 'abstain',
+    }) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(404);
+    expect(mockSetDelegatorPreference).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the reducer fails', async () => {
+    mockSetDelegatorPreference.mockResolvedValue({ ok: false, error: 'boom' });
+
+    const response = await POST(jsonRequest('POST', {
+      delegatorWallet: DELEGATOR,
+      realmAddress: REALM,
+      preference: 'abstain',
+    }) as never);
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(500);
+    expect(body).toEqual(expect.objectContaining({ details: 'boom' }));
+  });
+});
+
+// ─── Tests: DELETE ───────────────────────────────────────────────────────────
+
+describe('DELETE /api/delegations/preferences', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetDelegatorPreferencesByWallet.mockResolvedValue([makePreference()]);
+    mockClearDelegatorPreference.mockResolvedValue({ ok: true });
+  });
+
+  it('clears the realm-wide preference', async () => {
+    const response = await DELETE(jsonRequest('DELETE', {
+      delegatorWallet: DELEGATOR,
+      realmAddress: REALM,
+    }) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(200);
+    expect(mockClearDelegatorPreference).toHaveBeenCalledWith({
+      delegator_wallet: DELEGATOR,
+      realm_address: REALM,
+      proposal_address: null,
+    });
+  });
+
+  it('returns 404 when no preference matches', async () => {
+    const response = await DELETE(jsonRequest('DELETE', {
+      delegatorWallet: DELEGATOR,
+      realmAddress: REALM,
+      proposalAddress: PROPOSAL,
+    }) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(404);
+    expect(mockClearDelegatorPreference).not.toHaveBeenCalled();
+  });
+});
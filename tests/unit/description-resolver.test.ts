@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+import {
+  createDescriptionResolver,
+  createFixtureFetcher,
+  defaultFetchers,
+  githubFetcher,
+  ipfsFetcher,
+  htmlToText,
+  markdownToText,
+  toGitHubRawUrl,
+  toIpfsPath,
+  toPlainText,
+  MAX_DESCRIPTION_CHARS,
+  type DescriptionFetcher,
+} from '@shared/lib/description-resolver';
+
+const FIXTURE_DIR = path.resolve(__dirname, '../fixtures/descriptions');
+const CID = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+
+function textResponse(body: string, contentType = 'text/plain'): Response {
+  return new Response(body, { status: 200, headers: { 'content-type': contentType } });
+}
+
+describe('description-resolver', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // -----------------------------------------------------------------------
+  // Link mapping
+  // -----------------------------------------------------------------------
+  describe('toGitHubRawUrl', () => {
+    it('maps gist pages to their raw content', () => {
+      expect(toGitHubRawUrl('https://gist.github.com/alice/0a1b2c3d')).toBe(
+        'https://gist.githubusercontent.com/alice/0a1b2c3d/raw',
+      );
+    });
+
+    it('maps blob pages to raw.githubusercontent.com', () => {
+      expect(toGitHubRawUrl('https://github.com/org/dao/blob/main/proposals/42.md')).toBe(
+        'https://raw.githubusercontent.com/org/dao/main/proposals/42.md',
+      );
+    });
+
+    it('passes raw links through and rejects other hosts', () => {
+      const raw = 'https://raw.githubusercontent.com/org/dao/main/README.md';
+      expect(toGitHubRawUrl(raw)).toBe(raw);
+      expect(toGitHubRawUrl('https://github.com/org/dao/issues/1')).toBeNull();
+      expect(toGitHubRawUrl('https://forum.example.org/t/1')).toBeNull();
+    });
+  });
+
+  describe('toIpfsPath', () => {
+    it('accepts ipfs://, /ipfs/ and bare CIDs', () => {
+      expect(toIpfsPath(`ipfs://${CID}`)).toBe(CID);
+      expect(toIpfsPath(`ipfs://ipfs/${CID}/proposal.md`)).toBe(`${CID}/proposal.md`);
+      expect(toIpfsPath(`/ipfs/${CID}`)).toBe(CID);
+      expect(toIpfsPath(CID)).toBe(CID);
+    });
+
+    it('rejects non-CID text', () => {
+      expect(toIpfsPath('Allocate funds for grants')).toBeNull();
+      expect(toIpfsPath('https://example.com')).toBeNull();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Text extraction
+  // -----------------------------------------------------------------------
+  describe('text extraction', () => {
+    it('strips tags, scripts and entities from HTML', () => {
+      const text = htmlToText('<style>p{}</style><p>A &amp; B</p><script>x()</script><br/>C&#39;s');
+      expect(text).not.toContain('<');
+      expect(text).not.toContain('x()');
+      expect(text).toContain("A & B");
+      expect(text).toContain("C's");
+    });
+
+    it('strips markdown syntax but keeps link text', () => {
+      const text = markdownToText('## Title\n\nSee **the** [docs](https://x.y) and `code`.');
+      expect(text).toBe('Title\n\nSee the docs and code.');
+    });
+
+    it('truncates very long documents', () => {
+      const text = toPlainText({ body: 'a'.repeat(MAX_DESCRIPTION_CHARS + 100), contentType: 'text/plain' });
+      expect(text.endsWith('[truncated]')).toBe(true);
+      expect(text.length).toBeLessThan(MAX_DESCRIPTION_CHARS + 20);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Fixture fetcher
+  // -----------------------------------------------------------------------
+  describe('fixture fetcher', () => {
+    it('resolves a Discourse-style HTML page to plain text', async () => {
+      const resolver = createDescriptionResolver([createFixtureFetcher(FIXTURE_DIR)]);
+      const result = await resolver.resolve(
+        'prop-1',
+        'https://forum.example.org/t/treasury-diversification/42',
+      );
+
+      expect(result.source).toBe('fixture');
+      expect(result.text).toContain("Swap 25% of the treasury's SOL into USDC & hold for 12 months.");
+      expect(result.text).toContain('- Executed via Jupiter DCA');
+      expect(result.text).not.toMatch(/analytics|font-family|moderator/);
+    });
+
+    it('resolves a markdown gist to plain text', async () => {
+      const resolver = createDescriptionResolver([createFixtureFetcher(FIXTURE_DIR)]);
+      const result = await resolver.resolve('prop-2', 'https://gist.github.com/alice/0a1b2c3d');
+
+      expect(result.text).toContain('Grant Program Q3');
+      expect(result.text).toContain('Fund three developer grants from the community treasury.');
+      expect(result.text).toContain('Each grant is capped at 500 USDC.');
+      expect(result.text).toContain('- Reviewed by the grants council');
+      expect(result.text).not.toMatch(/[#*`]|banner|https:/);
+    });
+
+    it('is used exclusively when DESCRIPTION_FIXTURE_DIR is set', () => {
+      const saved = process.env.DESCRIPTION_FIXTURE_DIR;
+      process.env.DESCRIPTION_FIXTURE_DIR = FIXTURE_DIR;
+      try {
+        expect(defaultFetchers().map((f) => f.name)).toEqual(['fixture']);
+      } finally {
+        if (saved === undefined) delete process.env.DESCRIPTION_FIXTURE_DIR;
+        else process.env.DESCRIPTION_FIXTURE_DIR = saved;
+      }
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Network fetchers
+  // -----------------------------------------------------------------------
+  describe('network fetchers', () => {
+    const savedGateway = process.env.IPFS_GATEWAY_URL;
+
+    afterEach(() => {
+      if (savedGateway === undefined) delete process.env.IPFS_GATEWAY_URL;
+      else process.env.IPFS_GATEWAY_URL = savedGateway;
+    });
+
+    it('github fetcher requests the raw file and treats it as markdown', async () => {
+      mockFetch.mockResolvedValueOnce(textResponse('# Hi'));
+      const doc = await githubFetcher.fetch('https://gist.github.com/alice/0a1b2c3d');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://gist.githubusercontent.com/alice/0a1b2c3d/raw');
+      expect(doc).toEqual({ body: '# Hi', contentType: 'text/markdown' });
+    });
+
+    it('ipfs fetcher uses the configured gateway', async () => {
+      process.env.IPFS_GATEWAY_URL = 'https://gateway.example/';
+      mockFetch.mockResolvedValueOnce(textResponse('body'));
+      await ipfsFetcher.fetch(`ipfs://${CID}`);
+
+      expect(mockFetch.mock.calls[0][0]).toBe(`https://gateway.example/ipfs/${CID}`);
+    });
+
+    it('default fetchers route each link to the right fetcher', async () => {
+      mockFetch.mockImplementation(async () => textResponse('<p>Body</p>', 'text/html; charset=utf-8'));
+      const resolver = createDescriptionResolver(defaultFetchers());
+
+      const github = await resolver.resolve('a', 'https://github.com/org/dao/blob/main/p.md');
+      const ipfs = await resolver.resolve('b', CID);
+      const http = await resolver.resolve('c', 'https://forum.example.org/t/1');
+
+      expect([github.source, ipfs.source, http.source]).toEqual(['github', 'ipfs', 'http']);
+      expect(http.text).toBe('Body');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Resolver behaviour
+  // -----------------------------------------------------------------------
+  describe('createDescriptionResolver', () => {
+    function stubFetcher(impl: DescriptionFetcher['fetch']): DescriptionFetcher & { fetch: ReturnType<typeof vi.fn> } {
+      return { name: 'stub', matches: () => true, fetch: vi.fn(impl) };
+    }
+
+    it('returns plain-text descriptions without fetching', async () => {
+      const fetcher = stubFetcher(async () => ({ body: 'x', contentType: 'text/plain' }));
+      const resolver = createDescriptionResolver([fetcher]);
+
+      const result = await resolver.resolve('prop', 'Allocate funds for grants');
+
+      expect(result).toEqual({ text: 'Allocate funds for grants', source: 'inline', link: 'Allocate funds for grants' });
+      expect(fetcher.fetch).not.toHaveBeenCalled();
+    });
+
+    it('caches by proposal address', async () => {
+      const fetcher = stubFetcher(async () => ({ body: 'Body', contentType: 'text/plain' }));
+      const resolver = createDescriptionResolver([fetcher]);
+
+      await resolver.resolve('prop', 'https://example.com/p');
+      await resolver.resolve('prop', 'https://example.com/p');
+      expect(fetcher.fetch).toHaveBeenCalledTimes(1);
+
+      resolver.clearCache();
+      await resolver.resolve('prop', 'https://example.com/p');
+      expect(fetcher.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('falls back to the link and retries next time when a fetch fails', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetcher = stubFetcher(async () => {
+        throw new Error('404');
+      });
+      const resolver = createDescriptionResolver([fetcher]);
+
+      const first = await resolver.resolve('prop', 'https://example.com/missing');
+      await resolver.resolve('prop', 'https://example.com/missing');
+
+      expect(first).toEqual({ text: 'https://example.com/missing', source: 'inline', link: 'https://example.com/missing' });
+      expect(fetcher.fetch).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock the single-model analysis before importing the module under test
+// ---------------------------------------------------------------------------
+const mockAnalyzeProposal = vi.fn();
+vi.mock('@shared/lib/ai', () => ({
+  analyzeProposal: mockAnalyzeProposal,
+}));
+
+import type { GovernanceAnalysis } from '@shared/lib/ai';
+import type { EnsembleMemberResult } from '@shared/lib/ensemble';
+
+function makeAnalysis(
+  vote: 'FOR' | 'AGAINST' | 'ABSTAIN',
+  confidence: number,
+  summary = `${vote} summary`,
+): GovernanceAnalysis {
+  return {
+    summary,
+    risk_assessment: {
+      treasury_impact: 'Low',
+      security_risk: 'Low',
+      centralization_risk: 'Low',
+      overall_risk_score: 20,
+    },
+    recommendation: {
+      vote,
+      confidence,
+      reasoning: `${vote} reasoning`,
+      conditions: [],
+    },
+  };
+}
+
+function member(
+  label: string,
+  analysis: GovernanceAnalysis | null,
+  weight = 1,
+): EnsembleMemberResult {
+  return {
+    label,
+    provider: 'openai',
+    model: 'glm-5',
+    weight,
+    ...(analysis ? { analysis } : { error: 'timeout' }),
+  };
+}
+
+const PROPOSAL = {
+  title: 'Grant Program',
+  description: 'Allocate funds',
+  realmName: 'TestDAO',
+  forVotes: 10,
+  againstVotes: 2,
+};
+
+describe('ensemble', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // -----------------------------------------------------------------------
+  // aggregateEnsemble
+  // -----------------------------------------------------------------------
+  describe('aggregateEnsemble', () => {
+    it('majority: picks the most common vote and averages its confidence', async () => {
+      const { aggregateEnsemble } = await import('@shared/lib/ensemble');
+      const result = aggregateEnsemble(
+        [
+          member('a', makeAnalysis('FOR', 0.9, 'best')),
+          member('b', makeAnalysis('FOR', 0.7)),
+          member('c', makeAnalysis('AGAINST', 0.95)),
+        ],
+        { aggregation: 'majority', disagreementThreshold: 0.4 },
+      );
+
+      expect(result.recommendation.vote).toBe('FOR');
+      expect(result.recommendation.confidence).toBeCloseTo(0.8);
+      expect(result.summary).toBe('best');
+      expect(result.ensemble.disagreement).toBeCloseTo(1 / 3);
+      expect(result.ensemble.forcedAbstain).toBe(false);
+      expect(result.ensemble.dissent.map((m) => m.label)).toEqual(['c']);
+    });
+
+    it('majority: forces abstain when disagreement exceeds the threshold', async () => {
+      const { aggregateEnsemble } = await import('@shared/lib/ensemble');
+      const result = aggregateEnsemble(
+        [
+          member('a', makeAnalysis('FOR', 0.9)),
+          member('b', makeAnalysis('FOR', 0.7)),
+          member('c', makeAnalysis('AGAINST', 0.95)),
+        ],
+        { aggregation: 'majority', disagreementThreshold: 0.3 },
+      );
+
+      expect(result.recommendation.vote).toBe('ABSTAIN');
+      expect(result.recommendation.confidence).toBeCloseTo(2 / 3);
+      expect(result.recommendation.reasoning).toContain('disagreed');
+      expect(result.ensemble.forcedAbstain).toBe(true);
+      expect(result.ensemble.dissent).toHaveLength(3);
+    });
+
+    it('forces abstain on a tie regardless of threshold', async () => {
+      const { aggregateEnsemble } = await import('@shared/lib/ensemble');
+      const result = aggregateEnsemble(
+        [member('a', makeAnalysis('FOR', 0.9)), member('b', makeAnalysis('AGAINST', 0.9))],
+        { aggregation: 'majority', disagreementThreshold: 1 },
+      );
+
+      expect(result.recommendation.vote).toBe('ABSTAIN');
+      expect(result.ensemble.forcedAbstain).toBe(true);
+    });
+
+    it('unanimous: any dissent forces abstain', async () => {
+      const { aggregateEnsemble } = await import('@shared/lib/ensemble');
+      const agreed = aggregateEnsemble(
+        [member('a', makeAnalysis('AGAINST', 0.6)), member('b', makeAnalysis('AGAINST', 0.8))],
+        { aggregation: 'unanimous', disagreementThreshold: 0.9 },
+      );
+      const split = aggregateEnsemble(
+        [
+          member('a', makeAnalysis('AGAINST', 0.6)),
+          member('b', makeAnalysis('AGAINST', 0.8)),
+          member('c', makeAnalysis('ABSTAIN', 0.5)),
+        ],
+        { aggregation: 'unanimous', disagreementThreshold: 0.9 },
+      );
+
+      expect(agreed.recommendation.vote).toBe('AGAINST');
+      expect(agreed.recommendation.confidence).toBeCloseTo(0.7);
+      expect(split.recommendation.vote).toBe('ABSTAIN');
+      expect(split.ensemble.forcedAbstain).toBe(true);
+    });
+
+    it('weighted: support is weight x confidence', async () => {
+      const { aggregateEnsemble } = await import('@shared/lib/ensemble');
+      const result = aggregateEnsemble(
+        [
+          member('heavy', makeAnalysis('AGAINST', 0.9), 3),
+          member('a', makeAnalysis('FOR', 0.8)),
+          member('b', makeAnalysis('FOR', 0.8)),
+        ],
+        { aggregation: 'weighted', disagreementThreshold: 0.4 },
+      );
+
+      // AGAINST 2.7 vs FOR 1.6
+      expect(result.recommendation.vote).toBe('AGAINST');
+      expect(result.ensemble.tally).toEqual({ FOR: 1.6, AGAINST: 2.7, ABSTAIN: 0 });
+      expect(result.ensemble.disagreement).toBeCloseTo(1.6 / 4.3);
+    });
+
+    it('records failed members and ignores them in the tally', async () => {
+      const { aggregateEnsemble } = await import('@shared/lib/ensemble');
+      const result = aggregateEnsemble(
+        [member('a', makeAnalysis('FOR', 0.9)), member('down', null)],
+        { aggregation: 'unanimous', disagreementThreshold: 0 },
+      );
+
+      expect(result.recommendation.vote).toBe('FOR');
+      expect(result.ensemble.failed).toEqual([{ label: 'down', error: 'timeout' }]);
+    });
+
+    it('throws when every member failed', async () => {
+      const { aggregateEnsemble } = await import('@shared/lib/ensemble');
+      expect(() =>
+        aggregateEnsemble([member('a', null)], { aggregation: 'majority', disagreementThreshold: 0.4 }),
+      ).toThrow('no member returned an analysis');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // parseEnsembleSettings
+  // -----------------------------------------------------------------------
+  describe('parseEnsembleSettings', () => {
+    it('applies defaults', async () => {
+      const { parseEnsembleSettings } = await import('@shared/lib/ensemble');
+      expect(parseEnsembleSettings({ members: [{}, { persona: 'contrarian' }] })).toEqual({
+        aggregation: 'majority',
+        disagreementThreshold: 0.4,
+        members: [{ weight: 1 }, { persona: 'contrarian', weight: 1 }],
+      });
+    });
+
+    it('rejects single-member ensembles and unknown rules', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { parseEnsembleSettings } = await import('@shared/lib/ensemble');
+
+      expect(parseEnsembleSettings({ members: [{}] })).toBeUndefined();
+      expect(parseEnsembleSettings({ aggregation: 'plurality', members: [{}, {}] })).toBeUndefined();
+      expect(parseEnsembleSettings(undefined)).toBeUndefined();
+      warn.mockRestore();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // analyzeWithEnsemble
+  // -----------------------------------------------------------------------
+  describe('analyzeWithEnsemble', () => {
+    it('merges member llm settings over the agent settings', async () => {
+      mockAnalyzeProposal.mockResolvedValue(makeAnalysis('FOR', 0.9));
+
+      const { analyzeWithEnsemble } = await import('@shared/lib/ensemble');
+      const result = await analyzeWithEnsemble(
+        PROPOSAL,
+        'values',
+        {
+          aggregation: 'majority',
+          disagreementThreshold: 0.4,
+          members: [
+            { weight: 1 },
+            { label: 'seeded', llm: { seed: 7 }, weight: 1 },
+          ],
+        },
+        { provider: 'local', model: 'llama3.1' },
+      );
+
+      expect(mockAnalyzeProposal).toHaveBeenNthCalledWith(1, PROPOSAL, 'values', {
+        provider: 'local',
+        model: 'llama3.1',
+      });
+      expect(mockAnalyzeProposal).toHaveBeenNthCalledWith(2, PROPOSAL, 'values', {
+        provider: 'local',
+        model: 'llama3.1',
+        seed: 7,
+      });
+      expect(result.ensemble.members.map((m) => m.label)).toEqual(['member-1', 'seeded']);
+      expect(result.ensemble.members[0]).toMatchObject({ provider: 'local', model: 'llama3.1' });
+    });
+
+    it('keeps going when one member throws', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockAnalyzeProposal
+        .mockRejectedValueOnce(new Error('rate limited'))
+        .mockResolvedValueOnce(makeAnalysis('AGAINST', 0.7));
+
+      const { analyzeWithEnsemble } = await import('@shared/lib/ensemble');
+      const result = await analyzeWithEnsemble(PROPOSAL, 'values', {
+        aggregation: 'majority',
+        disagreementThreshold: 0.4,
+        members: [{ weight: 1 }, { weight: 1 }],
+      });
+
+      expect(result.recommendation.vote).toBe('AGAINST');
+      expect(result.ensemble.failed).toEqual([{ label: 'member-1', error: 'rate limited' }]);
+      error.mockRestore();
+    });
+  });
+});
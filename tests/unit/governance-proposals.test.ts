@@ -5,6 +5,7 @@ import { parseResponse } from '../helpers';
 
 vi.mock('@shared/lib/governance', () => ({
   fetchProposal: vi.fn(),
+  fetchProposalTransactions: vi.fn(),
   fetchVoteRecords: vi.fn(),
   serializeProposal: vi.fn(),
   serializeVoteRecord: vi.fn(),
@@ -17,6 +18,7 @@ vi.mock('@shared/lib/stdb-client', () => ({
 
 import {
   fetchProposal,
+  fetchProposalTransactions,
   fetchVoteRecords,
   serializeProposal,
   serializeVoteRecord,
@@ -26,6 +28,7 @@ import { GET } from '@/app/api/governance/proposals/[address]/route';
 
 const mockFetchProposal = vi.mocked(fetchProposal);
 const mockFetchVoteRecords = vi.mocked(fetchVoteRecords);
+const mockFetchProposalTransactions = vi.mocked(fetchProposalTransactions);
 const mockSerializeProposal = vi.mocked(serializeProposal);
 const mockSerializeVoteRecord = vi.mocked(serializeVoteRecord);
 const mockGetVotesByProposal = vi.mocked(getVotesByProposal);
@@ -47,6 +50,7 @@ function callGET(address: string) {
 describe('GET /api/governance/proposals/[address]', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockFetchProposalTransactions.mockResolvedValue([]);
   });
 
   it('returns 400 for an invalid (too short) proposal address', async () => {
@@ -125,6 +129,69 @@ describe('GET /api/governance/proposals/[address]', () => {
     );
   });
 
+  it('returns decoded proposal transactions', async () => {
+    mockFetchProposal.mockResolvedValue({ pubkey: VALID_PROPOSAL_ADDRESS } as never);
+    mockFetchVoteRecords.mockResolvedValue([] as never);
+    mockGetVotesByProposal.mockResolvedValue([] as never);
+    mockGetAgentsByIds.mockResolvedValue(new Map() as never);
+    mockSerializeProposal.mockReturnValue({ address: VALID_PROPOSAL_ADDRESS } as never);
+    mockFetchProposalTransactions.mockResolvedValue([
+      {
+        publicKey: { toBase58: () => 'ptx1' },
+        optionIndex: 0,
+        transactionIndex: 0,
+        holdUpTime: 3600,
+        executionStatus: { none: {} },
+        executedAt: null,
+        instructions: [
+          {
+            programId: { toBase58: () => 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' },
+            accounts: [
+              { pubkey: { toBase58: () => 'source' } },
+              { pubkey: { toBase58: () => 'dest' } },
+              { pubkey: { toBase58: () => 'owner' } },
+            ],
+            // TokenInstruction::Transfer of 1000 base units
+            data: [3, 232, 3, 0, 0, 0, 0, 0, 0],
+          },
+        ],
+      },
+    ] as never);
+
+    const response = await callGET(VALID_PROPOSAL_ADDRESS);
+    const { status, body } = await parseResponse<{
+      transactions: Array<{ holdUpTimeSeconds: number; instructions: Array<Record<string, unknown>> }>;
+    }>(response);
+
+    expect(status).toBe(200);
+    expect(body.transactions).toHaveLength(1);
+    expect(body.transactions[0].holdUpTimeSeconds).toBe(3600);
+    expect(body.transactions[0].instructions[0]).toEqual(
+      expect.objectContaining({
+        program: 'spl-token',
+        type: 'transfer',
+        details: expect.objectContaining({ source: 'source', destination: 'dest', amount: '1000' }),
+      }),
+    );
+  });
+
+  it('returns transactions: null when they cannot be fetched', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockFetchProposal.mockResolvedValue({ pubkey: VALID_PROPOSAL_ADDRESS } as never);
+    mockFetchVoteRecords.mockResolvedValue([] as never);
+    mockGetVotesByProposal.mockResolvedValue([] as never);
+    mockGetAgentsByIds.mockResolvedValue(new Map() as never);
+    mockSerializeProposal.mockReturnValue({ address: VALID_PROPOSAL_ADDRESS } as never);
+    mockFetchProposalTransactions.mockRejectedValue(new Error('RPC 429'));
+
+    const response = await callGET(VALID_PROPOSAL_ADDRESS);
+    const { status, body } = await parseResponse<{ transactions: unknown }>(response);
+
+    expect(status).toBe(200);
+    expect(body.transactions).toBeNull();
+    warn.mockRestore();
+  });
+
   it('handles autonomous votes gracefully when STDB query fails', async () => {
     mockFetchProposal.mockResolvedValue({ pubkey: VALID_PROPOSAL_ADDRESS } as never);
     mockFetchVoteRecords.mockResolvedValue([] as never);
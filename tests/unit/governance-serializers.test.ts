@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import {
   getProposalState,
+  getProposalOutcome,
+  getVoteRecordDirection,
   serializeRealm,
   serializeProposal,
   serializeGovernance,
@@ -75,6 +77,7 @@ function mockVoteRecord(overrides: Record<string, unknown> = {}) {
 function mockTokenOwnerRecord(overrides: Record<string, unknown> = {}) {
   return {
     publicKey: mockPubkey('5f2LH9HCSb5a7iBBMPQbPKHQYsWFwUVGN899Qk2KfiU2'),
+    realm: mockPubkey('GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw'),
     governingTokenOwner: mockPubkey('Cg8XMLSuEf5CUwnyr4GuM6mJRAPa9c1PJs6q3k5BmiM5'),
     governingTokenMint: mockPubkey('B1hjjD1LjoUaVKAx9HADQeGSApLeqJxQ9SJQjHnDxBVp'),
     governingTokenDepositAmount: makeBN(50000),
@@ -123,6 +126,50 @@ describe('getProposalState()', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// getProposalOutcome()
+// ---------------------------------------------------------------------------
+describe('getProposalOutcome()', () => {
+  it.each(['succeeded', 'executing', 'completed', 'executingWithErrors'])(
+    'treats %s as passed',
+    (state) => {
+      expect(getProposalOutcome(state)).toBe('for');
+    },
+  );
+
+  it.each(['defeated', 'vetoed'])('treats %s as defeated', (state) => {
+    expect(getProposalOutcome(state)).toBe('against');
+  });
+
+  it('treats cancelled as final with no decision', () => {
+    expect(getProposalOutcome('cancelled')).toBe('none');
+  });
+
+  it.each(['draft', 'signingOff', 'voting', 'unknown'])('returns null while %s', (state) => {
+    expect(getProposalOutcome(state)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getVoteRecordDirection()
+// ---------------------------------------------------------------------------
+describe('getVoteRecordDirection()', () => {
+  it('maps approve to for', () => {
+    expect(getVoteRecordDirection({ approve: [[{ rank: 0, weightPercentage: 100 }]] })).toBe('for');
+  });
+
+  it('maps deny, abstain and veto', () => {
+    expect(getVoteRecordDirection({ deny: {} })).toBe('against');
+    expect(getVoteRecordDirection({ abstain: {} })).toBe('abstain');
+    expect(getVoteRecordDirection({ veto: {} })).toBe('veto');
+  });
+
+  it('returns null for unrecognised shapes', () => {
+    expect(getVoteRecordDirection(null)).toBeNull();
+    expect(getVoteRecordDirection({ something: {} })).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // serializeRealm()
 // ---------------------------------------------------------------------------
@@ -185,6 +232,28 @@ describe('serializeProposal()', () => {
     expect(result.votingCompletedAt).toBeNull();
   });
 
+  it('exposes every option with its weight and the vote type', () => {
+    const proposal = mockProposalV2({
+      options: [
+        { label: 'Option A', voteWeight: makeBN(5000), voteResult: { none: {} } },
+        { label: 'Option B', voteWeight: makeBN(2500), voteResult: { none: {} } },
+      ],
+      voteType: {
+        multiChoice: { choiceType: { fullWeight: {} }, minVoterOptions: 1, maxVoterOptions: 2, maxWinningOptions: 1 },
+      },
+    });
+    const result = serializeProposal(proposal as never);
+
+    expect(result.forVotes).toBe(5000);
+    expect(result.options).toEqual([
+      { index: 0, label: 'Option A', voteWeight: 5000, voteResult: 'none' },
+      { index: 1, label: 'Option B', voteWeight: 2500, voteResult: 'none' },
+    ]);
+    expect(result.voteType).toEqual(
+      expect.objectContaining({ choiceType: 'multi', multiChoiceType: 'fullWeight', maxVoterOptions: 2 }),
+    );
+  });
+
   it('defaults forVotes to 0 when options is empty', () => {
     const proposal = mockProposalV2({ options: [] });
     const result = serializeProposal(proposal as any);
@@ -271,6 +340,7 @@ describe('serializeTokenOwnerRecord()', () => {
     const result = serializeTokenOwnerRecord(tor as any);
 
     expect(result.address).toBe('5f2LH9HCSb5a7iBBMPQbPKHQYsWFwUVGN899Qk2KfiU2');
+    expect(result.realm).toBe('GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw');
     expect(result.governingTokenOwner).toBe('Cg8XMLSuEf5CUwnyr4GuM6mJRAPa9c1PJs6q3k5BmiM5');
     expect(result.governingTokenMint).toBe('B1hjjD1LjoUaVKAx9HADQeGSApLeqJxQ9SJQjHnDxBVp');
     expect(result.governingTokenDepositAmount).toBe(50000);
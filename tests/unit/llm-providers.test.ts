@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock openai SDK and global fetch before importing the module under test
+// ---------------------------------------------------------------------------
+const mockCreate = vi.fn();
+const mockOpenAIConstructor = vi.fn();
+
+vi.mock('openai', () => {
+  class MockOpenAI {
+    chat = {
+      completions: {
+        create: mockCreate,
+      },
+    };
+    constructor(opts: unknown) {
+      mockOpenAIConstructor(opts);
+    }
+  }
+  return { default: MockOpenAI };
+});
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const ENV_KEYS = [
+  'LLM_PROVIDER',
+  'LLM_MODEL',
+  'LLM_TEMPERATURE',
+  'ANTHROPIC_API_KEY',
+  'ANTHROPIC_BASE_URL',
+  'LOCAL_LLM_BASE_URL',
+  'ZAI_BASE_URL',
+] as const;
+
+function sseBody(events: unknown[]): ReadableStream<Uint8Array> {
+  const text = events.map((e) => `event: x\ndata: ${JSON.stringify(e)}\n\n`).join('');
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream({
+    start(controller) {
+      // Split mid-line to exercise buffering
+      controller.enqueue(bytes.slice(0, 17));
+      controller.enqueue(bytes.slice(17));
+      controller.close();
+    },
+  });
+}
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const chunk of iterable) out.push(chunk);
+  return out;
+}
+
+describe('llm-providers', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // resolveLLMConfig
+  // -----------------------------------------------------------------------
+  describe('resolveLLMConfig', () => {
+    it('defaults to the OpenAI-compatible Z.AI endpoint with glm-5', async () => {
+      const { resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig(undefined, { maxTokens: 2048 });
+
+      expect(config.provider).toBe('openai');
+      expect(config.model).toBe('glm-5');
+      expect(config.maxTokens).toBe(2048);
+      expect(config.temperature).toBeUndefined();
+      expect(config.baseURL).toContain('bigmodel.cn');
+    });
+
+    it('reads provider, model and temperature defaults from env', async () => {
+      process.env.LLM_PROVIDER = 'local';
+      process.env.LLM_MODEL = 'qwen2.5:14b';
+      process.env.LLM_TEMPERATURE = '0.3';
+
+      const { resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig(undefined, { maxTokens: 512 });
+
+      expect(config.provider).toBe('local');
+      expect(config.model).toBe('qwen2.5:14b');
+      expect(config.temperature).toBe(0.3);
+      expect(config.baseURL).toBe('http://localhost:11434/v1');
+    });
+
+    it('lets agent settings override env defaults', async () => {
+      process.env.LLM_MODEL = 'glm-5-air';
+
+      const { resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig(
+        { provider: 'anthropic', temperature: 0, maxTokens: 4096 },
+        { maxTokens: 2048 },
+      );
+
+      expect(config.provider).toBe('anthropic');
+      // LLM_MODEL belongs to the env provider, so the anthropic default is used
+      expect(config.model).toBe('claude-sonnet-4-5');
+      expect(config.temperature).toBe(0);
+      expect(config.maxTokens).toBe(4096);
+      expect(config.baseURL).toBe('https://api.anthropic.com');
+    });
+
+    it('honours baseURL only for the local provider', async () => {
+      const { resolveLLMConfig } = await import('@shared/lib/llm-providers');
+
+      const local = resolveLLMConfig(
+        { provider: 'local', baseURL: 'http://gpu-box:8080/v1' },
+        { maxTokens: 2048 },
+      );
+      const hosted = resolveLLMConfig(
+        { provider: 'anthropic', baseURL: 'https://attacker.example' },
+        { maxTokens: 2048 },
+      );
+
+      expect(local.baseURL).toBe('http://gpu-box:8080/v1');
+      expect(hosted.baseURL).toBe('https://api.anthropic.com');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // parseLLMSettings
+  // -----------------------------------------------------------------------
+  describe('parseLLMSettings', () => {
+    it('returns undefined when no settings are given', async () => {
+      const { parseLLMSettings } = await import('@shared/lib/llm-providers');
+      expect(parseLLMSettings(undefined)).toBeUndefined();
+    });
+
+    it('accepts valid settings', async () => {
+      const { parseLLMSettings } = await import('@shared/lib/llm-providers');
+      expect(parseLLMSettings({ provider: 'local', model: 'llama3.1', maxTokens: 1024 })).toEqual({
+        provider: 'local',
+        model: 'llama3.1',
+        maxTokens: 1024,
+      });
+    });
+
+    it('rejects unknown providers and out-of-range values', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { parseLLMSettings } = await import('@shared/lib/llm-providers');
+
+      expect(parseLLMSettings({ provider: 'gemini' })).toBeUndefined();
+      expect(parseLLMSettings({ temperature: 5 })).toBeUndefined();
+      expect(parseLLMSettings({ maxTokens: -1 })).toBeUndefined();
+      warn.mockRestore();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // OpenAI-compatible provider
+  // -----------------------------------------------------------------------
+  describe('openai-compatible provider', () => {
+    it('sends model, token limit, temperature and system prompt', async () => {
+      mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: 'hi' } }] });
+
+      const { getLLMProvider, resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig(
+        { provider: 'local', model: 'llama3.1', temperature: 0.1, baseURL: 'http://llama:8080/v1' },
+        { maxTokens: 256 },
+      );
+      const text = await getLLMProvider('local').complete(config, {
+        system: 'Be brief',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(text).toBe('hi');
+      expect(mockOpenAIConstructor).toHaveBeenCalledWith(
+        expect.objectContaining({ baseURL: 'http://llama:8080/v1' }),
+      );
+      expect(mockCreate).toHaveBeenCalledWith({
+        model: 'llama3.1',
+        max_tokens: 256,
+        temperature: 0.1,
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Hello' },
+        ],
+      });
+    });
+
+    it('streams text deltas and drops empty chunks', async () => {
+      mockCreate.mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          yield { choices: [{ delta: { content: 'Hel' } }] };
+          yield { choices: [{ delta: {} }] };
+          yield { choices: [{ delta: { content: 'lo' } }] };
+        },
+      });
+
+      const { getLLMProvider, resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig(undefined, { maxTokens: 2048 });
+      const stream = await getLLMProvider('openai').stream(config, {
+        system: 's',
+        messages: [{ role: 'user', content: 'u' }],
+      });
+
+      expect(await collect(stream)).toEqual(['Hel', 'lo']);
+      expect(mockCreate.mock.calls[0][0].stream).toBe(true);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Anthropic-style provider
+  // -----------------------------------------------------------------------
+  describe('anthropic provider', () => {
+    it('posts to the Messages API and joins text blocks', async () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-test';
+      mockFetch.mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            content: [
+              { type: 'text', text: '{"a":' },
+              { type: 'tool_use', id: 'x' },
+              { type: 'text', text: '1}' },
+            ],
+          }),
+          { status: 200 },
+        ),
+      );
+
+      const { getLLMProvider, resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig({ provider: 'anthropic', model: 'claude-test' }, { maxTokens: 300 });
+      const text = await getLLMProvider('anthropic').complete(config, {
+        system: 'sys',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(text).toBe('{"a":1}');
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers['x-api-key']).toBe('sk-test');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'claude-test',
+        max_tokens: 300,
+        system: 'sys',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+    });
+
+    it('throws with the response body on HTTP errors', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('overloaded', { status: 529 }));
+
+      const { getLLMProvider, resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig({ provider: 'anthropic' }, { maxTokens: 300 });
+
+      await expect(
+        getLLMProvider('anthropic').complete(config, { system: 's', messages: [] }),
+      ).rejects.toThrow('Anthropic request failed: 529 overloaded');
+    });
+
+    it('streams text_delta events from the SSE body', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(
+          sseBody([
+            { type: 'message_start', message: {} },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hello' } },
+            { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{' } },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: ' world' } },
+            { type: 'message_stop' },
+          ]),
+          { status: 200 },
+        ),
+      );
+
+      const { getLLMProvider, resolveLLMConfig } = await import('@shared/lib/llm-providers');
+      const config = resolveLLMConfig({ provider: 'anthropic' }, { maxTokens: 300 });
+      const stream = await getLLMProvider('anthropic').stream(config, {
+        system: 's',
+        messages: [{ role: 'user', content: 'u' }],
+      });
+
+      expect(await collect(stream)).toEqual(['Hello', ' world']);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+    });
+  });
+});
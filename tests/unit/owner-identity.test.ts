@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResponse } from '../helpers';
+import { makeAuthRequest, VALID_USER_ID } from '../fixtures';
+
+// ─── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('@shared/lib/auth', () => ({
+  verifyAuth: vi.fn(),
+  authorizeWallet: vi.fn(),
+  AuthError: class AuthError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 401) {
+      super(message);
+      this.name = 'AuthError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  registerOwnerIdentity: vi.fn(),
+}));
+
+import { verifyAuth, authorizeWallet, AuthError } from '@shared/lib/auth';
+import { registerOwnerIdentity } from '@shared/lib/stdb-client';
+import { POST } from '@/app/api/owner-identity/route';
+
+const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockAuthorizeWallet = vi.mocked(authorizeWallet);
+const mockRegisterOwnerIdentity = vi.mocked(registerOwnerIdentity);
+
+const OWNER = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const IDENTITY = 'c200'.padEnd(64, 'ab');
+
+function postRequest(body: Record<string, unknown>) {
+  return makeAuthRequest('http://localhost:3000/api/owner-identity', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('POST /api/owner-identity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockRegisterOwnerIdentity.mockResolvedValue({ ok: true });
+  });
+
+  it('registers the identity for a wallet the caller owns', async () => {
+    const response = await POST(postRequest({ ownerWallet: OWNER, identity: `0x${IDENTITY}` }) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(200);
+    expect(mockAuthorizeWallet).toHaveBeenCalledWith({ authenticated: true, userId: VALID_USER_ID }, OWNER);
+    expect(mockRegisterOwnerIdentity).toHaveBeenCalledWith(OWNER, IDENTITY);
+  });
+
+  it('returns 400 for an identity that is not 32-byte hex', async () => {
+    const response = await POST(postRequest({ ownerWallet: OWNER, identity: 'not-an-identity' }) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(400);
+    expect(mockRegisterOwnerIdentity).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for a wallet the caller does not own', async () => {
+    mockAuthorizeWallet.mockRejectedValueOnce(new AuthError(`Wallet ${OWNER} is not linked to this account`, 403));
+
+    const response = await POST(postRequest({ ownerWallet: OWNER, identity: IDENTITY }) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(403);
+    expect(mockRegisterOwnerIdentity).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,372 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResponse } from '../helpers';
+import { makeAuthRequest, makeAgent, VALID_USER_ID } from '../fixtures';
+
+// ─── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('@shared/lib/auth', () => ({
+  verifyAuth: vi.fn(),
+  authorizeAgentOwner: vi.fn(),
+  AuthError: class AuthError extends Error {
+    statusCode: number;
+    constructor(message: string, statusCode = 401) {
+      super(message);
+      this.name = 'AuthError';
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  getAgentById: vi.fn(),
+  getPendingVote: vi.fn(),
+  getPendingVotesByAgent: vi.fn(),
+  cancelPendingVote: vi.fn(),
+  overridePendingVote: vi.fn(),
+}));
+
+vi.mock('@shared/lib/governance', () => ({
+  fetchProposal: vi.fn(),
+  serializeProposal: vi.fn(),
+}));
+
+import { verifyAuth, AuthError } from '@shared/lib/auth';
+import { fetchProposal, serializeProposal } from '@shared/lib/governance';
+import {
+  cancelPendingVote,
+  getAgentById,
+  getPendingVote,
+  getPendingVotesByAgent,
+  overridePendingVote,
+} from '@shared/lib/stdb-client';
+import { GET, POST } from '@/app/api/agents/[id]/pending-votes/route';
+
+const mockVerifyAuth = vi.mocked(verifyAuth);
+const mockGetAgentById = vi.mocked(getAgentById);
+const mockGetPendingVote = vi.mocked(getPendingVote);
+const mockGetPendingVotesByAgent = vi.mocked(getPendingVotesByAgent);
+const mockCancelPendingVote = vi.mocked(cancelPendingVote);
+const mockOverridePendingVote = vi.mocked(overridePendingVote);
+const mockFetchProposal = vi.mocked(fetchProposal);
+const mockSerializeProposal = vi.mocked(serializeProposal);
+
+const PROPOSAL = 'proposal111111111111111111111111111111111111';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function url(id: string) {
+  return 'http://localhost:3000/api/agents/' + id + '/pending-votes';
+}
+
+function callGET(id: string) {
+  return GET(makeAuthRequest(url(id)), { params: Promise.resolve({ id }) });
+}
+
+function callPOST(id: string, body: Record<string, unknown>) {
+  const request = makeAuthRequest(url(id), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ id }) });
+}
+
+function makePending(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1n,
+    pending_key: `1:${PROPOSAL}`,
+    agent_id: 1n,
+    proposal_address: PROPOSAL,
+    vote: 'for',
+    original_vote: 'for',
+    reasoning: 'Looks good',
+    confidence: 0.9,
+    status: 'pending',
+    execute_after_ms: Date.now() + 60_000,
+    created_at: null,
+    updated_at: null,
+    ...overrides,
+  };
+}
+
+function mockProposalOptions(labels: string[]) {
+  mockFetchProposal.mockResolvedValue({} as never);
+  mockSerializeProposal.mockReturnValue({
+    options: labels.map((label, index) => ({ index, label, voteWeight: 0, voteResult: 'none' })),
+    voteType: {
+      choiceType: labels.length > 1 ? 'multi' : 'single',
+      multiChoiceType: labels.length > 1 ? 'fullWeight' : null,
+      minVoterOptions: 1,
+      maxVoterOptions: labels.length,
+      maxWinningOptions: 1,
+    },
+  } as never);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('GET /api/agents/[id]/pending-votes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 401 without auth', async () => {
+    mockVerifyAuth.mockRejectedValue(new AuthError('Missing Authorization header'));
+
+    const { status } = await parseResponse(await callGET('1'));
+
+    expect(status).toBe(401);
+  });
+
+  it('lists held votes for the agent', async () => {
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVotesByAgent.mockResolvedValue([makePending({ id: 1, agent_id: 1 })] as never);
+
+    const { status, body } = await parseResponse(await callGET('1'));
+
+    expect(status).toBe(200);
+    expect(body).toHaveLength(1);
+    expect(mockGetPendingVotesByAgent).toHaveBeenCalledWith(1n);
+  });
+});
+
+describe('POST /api/agents/[id]/pending-votes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyAuth.mockResolvedValue({ authenticated: true, userId: VALID_USER_ID });
+  });
+
+  it('returns 401 without auth', async () => {
+    mockVerifyAuth.mockRejectedValue(new AuthError('Missing Authorization header'));
+
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'cancel' }),
+    );
+
+    expect(status).toBe(401);
+  });
+
+  it('returns 400 when required fields are missing', async () => {
+    const { status, body } = await parseResponse(await callPOST('1', { action: 'cancel' }));
+
+    expect(status).toBe(400);
+    expect(body).toEqual(
+      expect.objectContaining({ error: expect.stringContaining('Missing required fields') }),
+    );
+  });
+
+  it('returns 400 for an unknown action', async () => {
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'approve' }),
+    );
+
+    expect(status).toBe(400);
+  });
+
+  it('returns 400 when override has no valid direction', async () => {
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'override', vote: 'maybe' }),
+    );
+
+    expect(status).toBe(400);
+    expect(mockOverridePendingVote).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when agent is not found', async () => {
+    mockGetAgentById.mockResolvedValue(null as never);
+
+    const { status } = await parseResponse(
+      await callPOST('999', { proposalAddress: PROPOSAL, action: 'cancel' }),
+    );
+
+    expect(status).toBe(404);
+  });
+
+  it('returns 404 when nothing is held for the proposal', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(null);
+
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'cancel' }),
+    );
+
+    expect(status).toBe(404);
+  });
+
+  it('returns 409 once the vote has left the window', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending({ status: 'submitted' }) as never);
+
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'cancel' }),
+    );
+
+    expect(status).toBe(409);
+    expect(mockCancelPendingVote).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 once the veto window has passed, even before the worker claims the vote', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending({ execute_after_ms: Date.now() - 1_000 }) as never);
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'override', vote: 'against' }),
+    );
+
+    expect(status).toBe(409);
+    expect(body).toEqual(expect.objectContaining({ error: expect.stringContaining('Veto window has passed') }));
+    expect(mockOverridePendingVote).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the worker claims the vote while the cancel is in flight', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending() as never);
+    mockCancelPendingVote.mockResolvedValue({ ok: false, error: 'Pending vote is already submitting' });
+
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'cancel' }),
+    );
+
+    expect(status).toBe(409);
+  });
+
+  it('cancels a held vote', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending() as never);
+    mockCancelPendingVote.mockResolvedValue({ ok: true });
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'cancel' }),
+    );
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, action: 'cancel', vote: 'for' });
+    expect(mockCancelPendingVote).toHaveBeenCalledWith(1n, PROPOSAL);
+  });
+
+  it('flips the direction of a held vote', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending() as never);
+    mockOverridePendingVote.mockResolvedValue({ ok: true });
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'override', vote: 'AGAINST' }),
+    );
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, action: 'override', vote: 'against' });
+    expect(mockOverridePendingVote).toHaveBeenCalledWith({
+      agent_id: 1n,
+      proposal_address: PROPOSAL,
+      vote: 'against',
+      choices_json: null,
+    });
+    expect(mockFetchProposal).not.toHaveBeenCalled();
+  });
+
+  it('flips a held vote to FOR on a single-option proposal without choices', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending({ vote: 'against', original_vote: 'against' }) as never);
+    mockOverridePendingVote.mockResolvedValue({ ok: true });
+    mockProposalOptions(['Approve']);
+
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'override', vote: 'for' }),
+    );
+
+    expect(status).toBe(200);
+    expect(mockOverridePendingVote).toHaveBeenCalledWith(
+      expect.objectContaining({ vote: 'for', choices_json: null }),
+    );
+  });
+
+  it('returns 400 for a FOR override without choices on a multi-option proposal', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending({ vote: 'against', original_vote: 'against' }) as never);
+    mockProposalOptions(['Option A', 'Option B']);
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'override', vote: 'for' }),
+    );
+
+    expect(status).toBe(400);
+    expect(body).toEqual(expect.objectContaining({ error: expect.stringContaining('choices are required') }));
+    expect(mockOverridePendingVote).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the choices do not fit the proposal', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending({ vote: 'against', original_vote: 'against' }) as never);
+    mockProposalOptions(['Option A', 'Option B']);
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', {
+        proposalAddress: PROPOSAL,
+        action: 'override',
+        vote: 'for',
+        choices: [{ option: 'Option Z' }],
+      }),
+    );
+
+    expect(status).toBe(400);
+    expect(body).toEqual(expect.objectContaining({ error: expect.stringContaining('Option Z') }));
+    expect(mockOverridePendingVote).not.toHaveBeenCalled();
+  });
+
+  it('holds the resolved ballot for a FOR override on a multi-option proposal', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending({ vote: 'against', original_vote: 'against' }) as never);
+    mockOverridePendingVote.mockResolvedValue({ ok: true });
+    mockProposalOptions(['Option A', 'Option B']);
+
+    const { status, body } = await parseResponse(
+      await callPOST('1', {
+        proposalAddress: PROPOSAL,
+        action: 'override',
+        vote: 'for',
+        choices: [{ option: 'option b' }],
+      }),
+    );
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      success: true,
+      action: 'override',
+      vote: 'for',
+      choices: [{ option: 'Option B', weight: 100 }],
+    });
+    expect(mockOverridePendingVote).toHaveBeenCalledWith({
+      agent_id: 1n,
+      proposal_address: PROPOSAL,
+      vote: 'for',
+      choices_json: JSON.stringify([{ option: 'Option B', weight: 100 }]),
+    });
+  });
+
+  it('returns 400 for choices on an override away from FOR', async () => {
+    const { status } = await parseResponse(
+      await callPOST('1', {
+        proposalAddress: PROPOSAL,
+        action: 'override',
+        vote: 'against',
+        choices: [{ option: 'Option A' }],
+      }),
+    );
+
+    expect(status).toBe(400);
+    expect(mockOverridePendingVote).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the reducer rejects the update', async () => {
+    mockGetAgentById.mockResolvedValue(makeAgent() as never);
+    mockGetPendingVote.mockResolvedValue(makePending() as never);
+    mockCancelPendingVote.mockResolvedValue({ ok: false, error: 'boom' });
+
+    const { status } = await parseResponse(
+      await callPOST('1', { proposalAddress: PROPOSAL, action: 'cancel' }),
+    );
+
+    expect(status).toBe(500);
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  evaluatePostAnalysisRules,
+  evaluatePreAnalysisRules,
+  parsePolicyRules,
+  type PolicyFacts,
+} from '@shared/lib/policy-rules';
+import type { DecodedInstruction, DecodedProposalTransaction } from '@shared/lib/proposal-instructions';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function makeTransaction(instructions: DecodedInstruction[]): DecodedProposalTransaction {
+  return {
+    address: 'ptx1',
+    optionIndex: 0,
+    transactionIndex: 0,
+    holdUpTimeSeconds: 0,
+    executionStatus: 'none',
+    executedAt: null,
+    instructions,
+  };
+}
+
+function solTransfer(sol: number): DecodedInstruction {
+  return {
+    programId: '11111111111111111111111111111111',
+    program: 'system',
+    type: 'transfer',
+    summary: `Transfer ${sol} SOL`,
+    details: { lamports: String(sol * 1_000_000_000) },
+  };
+}
+
+const UPGRADE: DecodedInstruction = {
+  programId: 'BPFLoaderUpgradeab1e11111111111111111111111',
+  program: 'bpf-upgradeable-loader',
+  type: 'upgrade',
+  summary: 'Upgrade program',
+  details: {},
+};
+
+const MINT: DecodedInstruction = {
+  programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  program: 'spl-token',
+  type: 'mintToChecked',
+  summary: 'Mint tokens',
+  details: {},
+};
+
+function makeFacts(overrides: Partial<PolicyFacts> = {}): PolicyFacts {
+  return {
+    transactions: [],
+    votingPower: vi.fn().mockResolvedValue(1000),
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// parsePolicyRules
+// ---------------------------------------------------------------------------
+
+describe('parsePolicyRules', () => {
+  it('returns an empty list when no policy is configured', () => {
+    expect(parsePolicyRules(undefined)).toEqual([]);
+    expect(parsePolicyRules({ when: { type: 'token_mint' } })).toEqual([]);
+  });
+
+  it('names rules by position and defaults the forbid fallback', () => {
+    const rules = parsePolicyRules([
+      { when: { type: 'token_mint' }, action: 'force', vote: 'AGAINST' },
+      { id: 'no-upgrade', when: { type: 'program_upgrade' }, action: 'forbid', votes: ['FOR'] },
+    ]);
+
+    expect(rules).toEqual([
+      { id: 'rule-1', when: { type: 'token_mint' }, action: 'force', vote: 'AGAINST' },
+      { id: 'no-upgrade', when: { type: 'program_upgrade' }, action: 'forbid', votes: ['FOR'], fallback: 'ABSTAIN' },
+    ]);
+  });
+
+  it('accepts VETO only as a forced vote', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const rules = parsePolicyRules([
+      { id: 'veto-upgrades', when: { type: 'program_upgrade' }, action: 'force', vote: 'VETO' },
+      { when: { type: 'token_mint' }, action: 'forbid', votes: ['FOR'], fallback: 'VETO' },
+    ]);
+
+    expect(rules.map((r) => r.id)).toEqual(['veto-upgrades']);
+    warn.mockRestore();
+  });
+
+  it('drops invalid rules with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const rules = parsePolicyRules([
+      { when: { type: 'sol_transfer_above' }, action: 'force', vote: 'AGAINST' },
+      { when: { type: 'token_mint' }, action: 'approve' },
+      { when: { type: 'unknown_instruction' }, action: 'force', vote: 'ABSTAIN' },
+    ]);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].id).toBe('rule-3');
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pre-analysis (force) rules
+// ---------------------------------------------------------------------------
+
+describe('evaluatePreAnalysisRules', () => {
+  it('forces AGAINST when total SOL transferred exceeds the limit', async () => {
+    const rules = parsePolicyRules([
+      { id: 'cap', when: { type: 'sol_transfer_above', sol: 100 }, action: 'force', vote: 'AGAINST' },
+    ]);
+    const facts = makeFacts({ transactions: [makeTransaction([solTransfer(60), solTransfer(50)])] });
+
+    const decision = await evaluatePreAnalysisRules(rules, facts);
+
+    expect(decision).toEqual({
+      ruleId: 'cap',
+      phase: 'pre',
+      vote: 'AGAINST',
+      reason: expect.stringContaining('transfers 110 SOL (limit 100 SOL)'),
+    });
+  });
+
+  it('returns null when no rule matches', async () => {
+    const rules = parsePolicyRules([
+      { when: { type: 'sol_transfer_above', sol: 100 }, action: 'force', vote: 'AGAINST' },
+      { when: { type: 'token_mint' }, action: 'force', vote: 'AGAINST' },
+    ]);
+    const facts = makeFacts({ transactions: [makeTransaction([solTransfer(5), UPGRADE])] });
+
+    expect(await evaluatePreAnalysisRules(rules, facts)).toBeNull();
+  });
+
+  it('uses the first matching rule in order', async () => {
+    const rules = parsePolicyRules([
+      { id: 'mint', when: { type: 'token_mint' }, action: 'force', vote: 'ABSTAIN' },
+      { id: 'upgrade', when: { type: 'program_upgrade' }, action: 'force', vote: 'AGAINST' },
+    ]);
+    const facts = makeFacts({ transactions: [makeTransaction([UPGRADE, MINT])] });
+
+    const decision = await evaluatePreAnalysisRules(rules, facts);
+
+    expect(decision?.ruleId).toBe('mint');
+    expect(decision?.vote).toBe('ABSTAIN');
+  });
+
+  it('abstains when transactions could not be fetched', async () => {
+    const rules = parsePolicyRules([
+      { id: 'upgrade', when: { type: 'program_upgrade' }, action: 'force', vote: 'AGAINST' },
+    ]);
+
+    const decision = await evaluatePreAnalysisRules(rules, makeFacts({ transactions: undefined }));
+
+    expect(decision?.vote).toBe('ABSTAIN');
+    expect(decision?.reason).toContain('could not be verified (proposal transactions unavailable)');
+  });
+
+  it('only looks up voting power when a rule needs it', async () => {
+    const facts = makeFacts({ votingPower: vi.fn().mockResolvedValue(40) });
+
+    await evaluatePreAnalysisRules(
+      parsePolicyRules([{ when: { type: 'token_mint' }, action: 'force', vote: 'AGAINST' }]),
+      facts,
+    );
+    expect(facts.votingPower).not.toHaveBeenCalled();
+
+    const decision = await evaluatePreAnalysisRules(
+      parsePolicyRules([{ id: 'min', when: { type: 'voting_power_below', tokens: 50 }, action: 'force', vote: 'ABSTAIN' }]),
+      facts,
+    );
+    expect(decision?.ruleId).toBe('min');
+    expect(decision?.reason).toContain('holds 40 tokens');
+  });
+
+  it('abstains when voting power is unavailable', async () => {
+    const rules = parsePolicyRules([
+      { id: 'min', when: { type: 'voting_power_below', tokens: 50 }, action: 'force', vote: 'FOR' },
+    ]);
+
+    const decision = await evaluatePreAnalysisRules(rules, makeFacts({ votingPower: async () => null }));
+
+    expect(decision?.vote).toBe('ABSTAIN');
+    expect(decision?.reason).toContain('voting power unavailable');
+  });
+
+  it('ignores forbid rules', async () => {
+    const rules = parsePolicyRules([
+      { when: { type: 'program_upgrade' }, action: 'forbid', votes: ['FOR'] },
+    ]);
+    const facts = makeFacts({ transactions: [makeTransaction([UPGRADE])] });
+
+    expect(await evaluatePreAnalysisRules(rules, facts)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Post-analysis (forbid) rules
+// ---------------------------------------------------------------------------
+
+describe('evaluatePostAnalysisRules', () => {
+  const rules = parsePolicyRules([
+    { id: 'no-upgrade-for', when: { type: 'program_upgrade' }, action: 'forbid', votes: ['FOR'], fallback: 'AGAINST' },
+  ]);
+
+  it('replaces a forbidden vote with the fallback', async () => {
+    const facts = makeFacts({ transactions: [makeTransaction([UPGRADE])] });
+
+    const decision = await evaluatePostAnalysisRules(rules, facts, 'FOR');
+
+    expect(decision).toEqual({
+      ruleId: 'no-upgrade-for',
+      phase: 'post',
+      vote: 'AGAINST',
+      reason: expect.stringContaining('FOR is not allowed, voting AGAINST instead'),
+    });
+  });
+
+  it('leaves votes the rule does not forbid alone', async () => {
+    const facts = makeFacts({ transactions: [makeTransaction([UPGRADE])] });
+
+    expect(await evaluatePostAnalysisRules(rules, facts, 'AGAINST')).toBeNull();
+  });
+
+  it('leaves the vote alone when the condition does not match', async () => {
+    const facts = makeFacts({ transactions: [makeTransaction([solTransfer(1)])] });
+
+    expect(await evaluatePostAnalysisRules(rules, facts, 'FOR')).toBeNull();
+  });
+
+  it('abstains when the condition cannot be verified', async () => {
+    const decision = await evaluatePostAnalysisRules(rules, makeFacts({ transactions: undefined }), 'FOR');
+
+    expect(decision?.phase).toBe('post');
+    expect(decision?.vote).toBe('ABSTAIN');
+  });
+});
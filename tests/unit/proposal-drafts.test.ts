@@ -0,0 +1,332 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { makeAgent, makeDelegation } from '../fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+vi.mock('@shared/lib/ai', () => ({
+  draftProposal: vi.fn(),
+}));
+
+vi.mock('@shared/lib/governance', () => ({
+  fetchRealm: vi.fn(),
+}));
+
+vi.mock('@shared/lib/solana-governance', () => ({
+  buildCreateProposalTransaction: vi.fn(),
+  simulateGovernanceTransaction: vi.fn(),
+  fitComputeBudget: vi.fn(),
+  GovernanceSimulationError: class GovernanceSimulationError extends Error {
+    reason: string;
+    constructor(reason: string) {
+      super(`Transaction simulation failed: ${reason}`);
+      this.name = 'GovernanceSimulationError';
+      this.reason = reason;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/privy-client', () => ({
+  signAndSendTransaction: vi.fn(),
+}));
+
+vi.mock('@shared/lib/confirmation-tracker', () => ({
+  sendAndTrack: vi.fn(),
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  getAgentWalletId: vi.fn(),
+  getDelegationsByAgent: vi.fn(),
+  createProposalDraft: vi.fn(),
+  beginProposalApproval: vi.fn(),
+  releaseProposalApproval: vi.fn(),
+  submitProposalDraft: vi.fn(),
+}));
+
+import { draftProposal } from '@shared/lib/ai';
+import { fetchRealm } from '@shared/lib/governance';
+import {
+  buildCreateProposalTransaction,
+  fitComputeBudget,
+  GovernanceSimulationError,
+  simulateGovernanceTransaction,
+} from '@shared/lib/solana-governance';
+import { signAndSendTransaction } from '@shared/lib/privy-client';
+import { sendAndTrack } from '@shared/lib/confirmation-tracker';
+import {
+  beginProposalApproval,
+  createProposalDraft,
+  getAgentWalletId,
+  getDelegationsByAgent,
+  releaseProposalApproval,
+  submitProposalDraft,
+} from '@shared/lib/stdb-client';
+import {
+  draftProposalFromBrief,
+  submitApprovedProposal,
+  ProposalDraftError,
+  MAX_INLINE_DESCRIPTION_LENGTH,
+} from '@shared/lib/proposal-drafts';
+import type { AgentRow, ProposalDraftRow } from '@shared/lib/stdb-client';
+
+const mockDraftProposal = vi.mocked(draftProposal);
+const mockFetchRealm = vi.mocked(fetchRealm);
+const mockBuildCreateProposalTransaction = vi.mocked(buildCreateProposalTransaction);
+const mockSignAndSendTransaction = vi.mocked(signAndSendTransaction);
+const mockGetAgentWalletId = vi.mocked(getAgentWalletId);
+const mockGetDelegationsByAgent = vi.mocked(getDelegationsByAgent);
+const mockCreateProposalDraft = vi.mocked(createProposalDraft);
+const mockSubmitProposalDraft = vi.mocked(submitProposalDraft);
+const mockBeginProposalApproval = vi.mocked(beginProposalApproval);
+const mockReleaseProposalApproval = vi.mocked(releaseProposalApproval);
+const mockSimulateGovernanceTransaction = vi.mocked(simulateGovernanceTransaction);
+const mockFitComputeBudget = vi.mocked(fitComputeBudget);
+const mockSendAndTrack = vi.mocked(sendAndTrack);
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const REALM = 'realm1111111111111111111111111111111111111111';
+const DELEGATOR = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const WALLET_ID = 'wallet-id-123';
+
+const pubkey = (address: string) => ({ toBase58: () => address });
+
+const agent = makeAgent() as unknown as AgentRow;
+
+/** VOTE | CREATE_PROPOSAL */
+const proposalDelegation = makeDelegation({ scope_bitmap: BigInt(3) });
+
+function makeDraft(overrides: Partial<ProposalDraftRow> = {}): ProposalDraftRow {
+  return {
+    id: 1n,
+    draft_key: 'draft-1',
+    agent_id: 1n,
+    realm_address: REALM,
+    governance_address: 'gov-1',
+    governing_token_mint: 'mint-1',
+    delegator_wallet: DELEGATOR,
+    brief: 'Fund grants',
+    title: 'Fund Q3 grants',
+    description: 'Allocate 500 USDC to the grants committee.',
+    status: 'pending_approval',
+    proposal_address: null,
+    tx_signature: null,
+    created_at: Date.now(),
+    updated_at: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('proposal-drafts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetAgentWalletId.mockResolvedValue(WALLET_ID);
+    mockGetDelegationsByAgent.mockResolvedValue([proposalDelegation] as never);
+    mockFetchRealm.mockResolvedValue({
+      realm: { name: 'TestDAO', communityMint: pubkey('mint-1') },
+      governances: [{ publicKey: pubkey('gov-1') }, { publicKey: pubkey('gov-2') }],
+    } as never);
+    mockDraftProposal.mockResolvedValue({
+      title: 'Fund Q3 grants',
+      description: 'Allocate 500 USDC to the grants committee.',
+    });
+    mockCreateProposalDraft.mockResolvedValue({ ok: true });
+    mockSubmitProposalDraft.mockResolvedValue({ ok: true });
+    mockBuildCreateProposalTransaction.mockResolvedValue({
+      serializedTransaction: 'base64-create-proposal-tx',
+      proposalAddress: 'new-proposal',
+    });
+    mockSignAndSendTransaction.mockResolvedValue({ txHash: 'sig-123' });
+    mockBeginProposalApproval.mockResolvedValue({ ok: true });
+    mockReleaseProposalApproval.mockResolvedValue({ ok: true });
+    mockSimulateGovernanceTransaction.mockResolvedValue({ unitsConsumed: 80_000, logs: [] });
+    mockFitComputeBudget.mockImplementation((serializedTransaction: string) => ({
+      serializedTransaction: `${serializedTransaction}+budget`,
+      computeUnitLimit: 96_000,
+      microLamports: 10_000,
+      feeLamports: 5_960,
+    }));
+    mockSendAndTrack.mockImplementation(async ({ serializedTransaction, send }) => ({
+      signature: await send(serializedTransaction),
+      status: 'confirmed',
+      resigns: 0,
+    }));
+  });
+
+  // -----------------------------------------------------------------------
+  // draftProposalFromBrief
+  // -----------------------------------------------------------------------
+  describe('draftProposalFromBrief', () => {
+    it('drafts from the brief and stores the draft for approval', async () => {
+      const result = await draftProposalFromBrief({ agent, realmAddress: REALM, brief: '  Fund grants  ' });
+
+      expect(mockDraftProposal).toHaveBeenCalledWith(
+        'Fund grants',
+        { realmName: 'TestDAO', agentValues: 'Conservative governance' },
+        undefined,
+      );
+      expect(mockCreateProposalDraft).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agent_id: 1n,
+          realm_address: REALM,
+          governance_address: 'gov-1',
+          governing_token_mint: 'mint-1',
+          delegator_wallet: DELEGATOR,
+          brief: 'Fund grants',
+          title: 'Fund Q3 grants',
+        }),
+      );
+      expect(result.status).toBe('pending_approval');
+      expect(result.draftKey).toBe(mockCreateProposalDraft.mock.calls[0][0].draft_key);
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('uses the requested governance and the agent llm settings', async () => {
+      const llmAgent = makeAgent({
+        config_json: JSON.stringify({ llm: { provider: 'anthropic' } }),
+      }) as unknown as AgentRow;
+
+      const result = await draftProposalFromBrief({
+        agent: llmAgent,
+        realmAddress: REALM,
+        brief: 'Fund grants',
+        governanceAddress: 'gov-2',
+      });
+
+      expect(result.governanceAddress).toBe('gov-2');
+      expect(mockDraftProposal.mock.calls[0][2]).toEqual({ provider: 'anthropic' });
+    });
+
+    it('rejects an agent without CREATE_PROPOSAL scope with 403', async () => {
+      mockGetDelegationsByAgent.mockResolvedValue([makeDelegation({ scope_bitmap: BigInt(1) })] as never);
+
+      const error = await draftProposalFromBrief({ agent, realmAddress: REALM, brief: 'Fund grants' })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ProposalDraftError);
+      expect((error as ProposalDraftError).statusCode).toBe(403);
+      expect(mockDraftProposal).not.toHaveBeenCalled();
+    });
+
+    it('rejects a governance outside the realm', async () => {
+      await expect(
+        draftProposalFromBrief({ agent, realmAddress: REALM, brief: 'Fund grants', governanceAddress: 'gov-9' }),
+      ).rejects.toThrow('does not belong to realm');
+    });
+
+    it('rejects an empty brief', async () => {
+      await expect(
+        draftProposalFromBrief({ agent, realmAddress: REALM, brief: '   ' }),
+      ).rejects.toThrow('Brief must not be empty');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // submitApprovedProposal
+  // -----------------------------------------------------------------------
+  describe('submitApprovedProposal', () => {
+    it('creates and signs off the proposal with the agent wallet', async () => {
+      const result = await submitApprovedProposal({ agent, draft: makeDraft() });
+
+      expect(mockBuildCreateProposalTransaction).toHaveBeenCalledWith({
+        realmAddress: REALM,
+        governanceAddress: 'gov-1',
+        governingTokenMintAddress: 'mint-1',
+        proposerWalletAddress: agent.privy_wallet_address,
+        delegatorAddress: DELEGATOR,
+        name: 'Fund Q3 grants',
+        descriptionLink: 'Allocate 500 USDC to the grants committee.',
+        signOff: true,
+      });
+      expect(mockBeginProposalApproval).toHaveBeenCalledWith('draft-1');
+      expect(mockSimulateGovernanceTransaction).toHaveBeenCalledWith('base64-create-proposal-tx');
+      expect(mockSignAndSendTransaction).toHaveBeenCalledWith({
+        walletId: WALLET_ID,
+        agentId: '1',
+        serializedTransaction: 'base64-create-proposal-tx+budget',
+      });
+      expect(mockSubmitProposalDraft).toHaveBeenCalledWith({
+        draft_key: 'draft-1',
+        proposal_address: 'new-proposal',
+        tx_signature: 'sig-123',
+      });
+      expect(mockReleaseProposalApproval).not.toHaveBeenCalled();
+      expect(result).toEqual({ proposalAddress: 'new-proposal', txSignature: 'sig-123', status: 'confirmed' });
+    });
+
+    it('signs nothing when a concurrent approval already claimed the draft', async () => {
+      mockBeginProposalApproval.mockResolvedValueOnce({ ok: false, error: 'Proposal draft is already approving' });
+
+      const error = await submitApprovedProposal({ agent, draft: makeDraft() }).catch((e: unknown) => e);
+
+      expect((error as ProposalDraftError).statusCode).toBe(409);
+      expect(mockSimulateGovernanceTransaction).not.toHaveBeenCalled();
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+      expect(mockReleaseProposalApproval).not.toHaveBeenCalled();
+    });
+
+    it('hands the draft back when simulation says governance would reject it', async () => {
+      mockSimulateGovernanceTransaction.mockRejectedValueOnce(
+        new (GovernanceSimulationError as unknown as new (reason: string) => Error)('insufficient_voter_weight'),
+      );
+
+      const error = await submitApprovedProposal({ agent, draft: makeDraft() }).catch((e: unknown) => e);
+
+      expect((error as ProposalDraftError).statusCode).toBe(422);
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+      expect(mockReleaseProposalApproval).toHaveBeenCalledWith('draft-1', expect.stringContaining('insufficient_voter_weight'));
+      expect(mockSubmitProposalDraft).not.toHaveBeenCalled();
+    });
+
+    it('hands the draft back when the transaction expires without landing', async () => {
+      mockSendAndTrack.mockResolvedValueOnce({ signature: 'sig-expired', status: 'dropped', resigns: 2 });
+
+      const error = await submitApprovedProposal({ agent, draft: makeDraft() }).catch((e: unknown) => e);
+
+      expect((error as ProposalDraftError).statusCode).toBe(503);
+      expect(mockReleaseProposalApproval).toHaveBeenCalledWith('draft-1', expect.stringContaining('sig-expired'));
+      expect(mockSubmitProposalDraft).not.toHaveBeenCalled();
+    });
+
+    it('requires a hosted link for descriptions too long to store on-chain', async () => {
+      const draft = makeDraft({ description: 'x'.repeat(MAX_INLINE_DESCRIPTION_LENGTH + 1) });
+
+      await expect(submitApprovedProposal({ agent, draft })).rejects.toThrow('pass descriptionLink');
+
+      await submitApprovedProposal({ agent, draft, descriptionLink: 'https://example.com/proposal.md' });
+      expect(mockBuildCreateProposalTransaction.mock.calls[0][0].descriptionLink).toBe(
+        'https://example.com/proposal.md',
+      );
+    });
+
+    it('refuses once the delegation has been revoked', async () => {
+      mockGetDelegationsByAgent.mockResolvedValue([{ ...proposalDelegation, is_active: false }] as never);
+
+      const error = await submitApprovedProposal({ agent, draft: makeDraft() }).catch((e: unknown) => e);
+
+      expect((error as ProposalDraftError).statusCode).toBe(403);
+      expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses drafts that were already decided', async () => {
+      const error = await submitApprovedProposal({ agent, draft: makeDraft({ status: 'rejected' }) })
+        .catch((e: unknown) => e);
+
+      expect((error as ProposalDraftError).statusCode).toBe(409);
+    });
+
+    it('returns the proposal even if the draft cannot be marked submitted', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockSubmitProposalDraft.mockResolvedValue({ ok: false, error: 'STDB down' });
+
+      const result = await submitApprovedProposal({ agent, draft: makeDraft() });
+
+      expect(result.proposalAddress).toBe('new-proposal');
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+});
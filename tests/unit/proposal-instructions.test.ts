@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BPF_UPGRADEABLE_LOADER_ID,
+  SYSTEM_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeInstruction,
+  decodeProposalTransactions,
+  summarizeProposalInstructions,
+} from '@shared/lib/proposal-instructions';
+
+const GOVERNANCE_PROGRAM_ID = 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw';
+
+// ---------------------------------------------------------------------------
+// Instruction data builders
+// ---------------------------------------------------------------------------
+
+function u8(value: number): Buffer {
+  return Buffer.from([value]);
+}
+
+function u32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(value);
+  return buf;
+}
+
+function u64(value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(value);
+  return buf;
+}
+
+function systemTransfer(lamports: bigint): Buffer {
+  return Buffer.concat([u32(2), u64(lamports)]);
+}
+
+function setGovernanceConfig(): Buffer {
+  return Buffer.concat([
+    u8(19),
+    u8(0), u8(60), // communityVoteThreshold: YesVotePercentage(60)
+    u64(1_000_000n), // minCommunityWeightToCreateProposal
+    u32(0), // minTransactionHoldUpTime
+    u32(259_200), // votingBaseTime (3 days)
+    u8(0), // communityVoteTipping: Strict
+    u8(1), u8(50), // councilVoteThreshold: QuorumPercentage(50)
+    u8(2), // councilVetoVoteThreshold: Disabled
+    u64(1n), // minCouncilWeightToCreateProposal
+    u8(1), // councilVoteTipping: Early
+    u8(2), // communityVetoVoteThreshold: Disabled
+    u32(43_200), // votingCoolOffTime
+    u8(10), // depositExemptProposalCount
+  ]);
+}
+
+function pk(address: string) {
+  return { toBase58: () => address };
+}
+
+describe('proposal-instructions', () => {
+  // -----------------------------------------------------------------------
+  // decodeInstruction
+  // -----------------------------------------------------------------------
+  describe('decodeInstruction', () => {
+    it('decodes a System transfer in SOL', () => {
+      const ix = decodeInstruction({
+        programId: SYSTEM_PROGRAM_ID,
+        accounts: ['treasury', 'recipient'],
+        data: systemTransfer(1_500_000_000n),
+      });
+
+      expect(ix.program).toBe('system');
+      expect(ix.type).toBe('transfer');
+      expect(ix.summary).toBe('Transfer 1.5 SOL from treasury to recipient');
+      expect(ix.details).toEqual({ from: 'treasury', to: 'recipient', lamports: '1500000000' });
+    });
+
+    it('decodes SPL Token transfer and transferChecked', () => {
+      const plain = decodeInstruction({
+        programId: TOKEN_PROGRAM_ID,
+        accounts: ['src', 'dst', 'owner'],
+        data: Buffer.concat([u8(3), u64(18_446_744_073_709_551_615n)]),
+      });
+      const checked = decodeInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        accounts: ['src', 'mint', 'dst', 'owner'],
+        data: Buffer.concat([u8(12), u64(2_500_000n), u8(6)]),
+      });
+
+      // u64 max survives without precision loss
+      expect(plain.details.amount).toBe('18446744073709551615');
+      expect(plain.type).toBe('transfer');
+      expect(checked.type).toBe('transferChecked');
+      expect(checked.summary).toBe('Transfer 2.5 of mint mint from src to dst');
+      expect(checked.details.decimals).toBe(6);
+    });
+
+    it('decodes SPL Token mintTo and mintToChecked', () => {
+      const mint = decodeInstruction({
+        programId: TOKEN_PROGRAM_ID,
+        accounts: ['mint', 'dst', 'authority'],
+        data: Buffer.concat([u8(7), u64(42n)]),
+      });
+      const mintChecked = decodeInstruction({
+        programId: TOKEN_PROGRAM_ID,
+        accounts: ['mint', 'dst', 'authority'],
+        data: Buffer.concat([u8(14), u64(1_000_000_000n), u8(9)]),
+      });
+
+      expect(mint.summary).toBe('Mint 42 base units of mint to dst');
+      expect(mintChecked.summary).toBe('Mint 1 of mint to dst');
+    });
+
+    it('decodes Governance SetGovernanceConfig', () => {
+      const ix = decodeInstruction(
+        { programId: GOVERNANCE_PROGRAM_ID, accounts: ['gov1'], data: setGovernanceConfig() },
+        GOVERNANCE_PROGRAM_ID,
+      );
+
+      expect(ix.program).toBe('governance');
+      expect(ix.type).toBe('setGovernanceConfig');
+      expect(ix.details).toEqual({
+        governance: 'gov1',
+        communityVoteThreshold: 'yes 60%',
+        minCommunityWeightToCreateProposal: '1000000',
+        minTransactionHoldUpTime: 0,
+        votingBaseTime: 259_200,
+        communityVoteTipping: 'strict',
+        councilVoteThreshold: 'quorum 50%',
+        councilVetoVoteThreshold: 'disabled',
+        minCouncilWeightToCreateProposal: '1',
+        councilVoteTipping: 'early',
+        communityVetoVoteThreshold: 'disabled',
+        votingCoolOffTime: 43_200,
+        depositExemptProposalCount: 10,
+      });
+      expect(ix.summary).toContain('community threshold yes 60%');
+    });
+
+    it('decodes a BPF upgradeable loader upgrade', () => {
+      const ix = decodeInstruction({
+        programId: BPF_UPGRADEABLE_LOADER_ID,
+        accounts: ['programData', 'program', 'buffer', 'spill', 'rent', 'clock', 'authority'],
+        data: u32(3),
+      });
+
+      expect(ix.type).toBe('upgrade');
+      expect(ix.summary).toBe('Upgrade program program with buffer buffer (authority authority)');
+    });
+
+    it('reports unknown programs, variants and truncated data as unknown', () => {
+      const unknownProgram = decodeInstruction({ programId: 'Prog111', accounts: ['a'], data: u8(1) });
+      const unknownVariant = decodeInstruction({ programId: TOKEN_PROGRAM_ID, accounts: [], data: u8(9) });
+      const truncated = decodeInstruction({ programId: SYSTEM_PROGRAM_ID, accounts: [], data: u32(2) });
+
+      expect(unknownProgram).toMatchObject({ program: 'unknown', type: 'unknown' });
+      expect(unknownProgram.summary).toContain('Prog111');
+      expect(unknownVariant).toMatchObject({ program: 'spl-token', type: 'unknown' });
+      expect(truncated).toMatchObject({ program: 'system', type: 'unknown' });
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // ProposalTransaction accounts
+  // -----------------------------------------------------------------------
+  describe('decodeProposalTransactions', () => {
+    const txs = [
+      {
+        publicKey: pk('ptx-b'),
+        optionIndex: 0,
+        transactionIndex: 1,
+        holdUpTime: 0,
+        executionStatus: { none: {} },
+        executedAt: null,
+        instructions: [
+          { programId: pk(SYSTEM_PROGRAM_ID), accounts: [{ pubkey: pk('t') }, { pubkey: pk('r') }], data: systemTransfer(1_000_000_000n) },
+        ],
+      },
+      {
+        publicKey: pk('ptx-a'),
+        optionIndex: 0,
+        transactionIndex: 0,
+        holdUpTime: 86_400,
+        executionStatus: { success: {} },
+        executedAt: { toNumber: () => 1_700_000_000 },
+        instructions: [
+          { programId: pk(BPF_UPGRADEABLE_LOADER_ID), accounts: ['pd', 'p', 'b', 's', 'r', 'c', 'a'].map((k) => ({ pubkey: pk(k) })), data: u32(3) },
+          { programId: pk(TOKEN_PROGRAM_ID), accounts: [{ pubkey: pk('m') }, { pubkey: pk('d') }], data: Buffer.concat([u8(7), u64(5n)]) },
+        ],
+      },
+    ];
+
+    it('orders transactions and decodes each instruction', () => {
+      const decoded = decodeProposalTransactions(txs as never);
+
+      expect(decoded.map((tx) => tx.address)).toEqual(['ptx-a', 'ptx-b']);
+      expect(decoded[0]).toMatchObject({
+        holdUpTimeSeconds: 86_400,
+        executionStatus: 'success',
+        executedAt: new Date(1_700_000_000 * 1000).toISOString(),
+      });
+      expect(decoded[0].instructions.map((ix) => ix.type)).toEqual(['upgrade', 'mintTo']);
+      expect(decoded[1].executedAt).toBeNull();
+    });
+
+    it('summarizes instructions as prompt lines', () => {
+      expect(summarizeProposalInstructions(decodeProposalTransactions(txs as never))).toEqual([
+        '[option 0, tx 0.0] Upgrade program p with buffer b (authority a)',
+        '[option 0, tx 0.1] Mint 5 base units of m to d',
+        '[option 0, tx 1.0] Transfer 1 SOL from t to r',
+      ]);
+    });
+  });
+});
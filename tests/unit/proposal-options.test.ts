@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OptionChoiceError,
+  SINGLE_CHOICE_VOTE_TYPE,
+  formatOptionBallot,
+  isMultiOptionProposal,
+  parseOptionChoices,
+  parseProposalOptions,
+  parseVoteType,
+  resolveOptionBallot,
+  toOptionWeights,
+  type ProposalVoteType,
+} from '@shared/lib/proposal-options';
+
+function makeBN(value: number) {
+  return { toNumber: () => value };
+}
+
+const options = parseProposalOptions([
+  { label: 'Option A', voteWeight: makeBN(500), voteResult: { none: {} } },
+  { label: 'Option B', voteWeight: makeBN(300), voteResult: { none: {} } },
+  { label: 'Option C', voteWeight: makeBN(0), voteResult: { none: {} } },
+]);
+
+function multiChoice(overrides: Partial<ProposalVoteType> = {}): ProposalVoteType {
+  return {
+    choiceType: 'multi',
+    multiChoiceType: 'fullWeight',
+    minVoterOptions: 1,
+    maxVoterOptions: 3,
+    maxWinningOptions: 3,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+describe('parseProposalOptions()', () => {
+  it('keeps every option with its index, weight and result', () => {
+    expect(options).toEqual([
+      { index: 0, label: 'Option A', voteWeight: 500, voteResult: 'none' },
+      { index: 1, label: 'Option B', voteWeight: 300, voteResult: 'none' },
+      { index: 2, label: 'Option C', voteWeight: 0, voteResult: 'none' },
+    ]);
+  });
+
+  it('returns an empty list for a missing options field', () => {
+    expect(parseProposalOptions(undefined)).toEqual([]);
+  });
+});
+
+describe('parseVoteType()', () => {
+  it('decodes a weighted multi-choice vote type', () => {
+    const voteType = parseVoteType({
+      multiChoice: { choiceType: { weighted: {} }, minVoterOptions: 1, maxVoterOptions: 2, maxWinningOptions: 1 },
+    });
+
+    expect(voteType).toEqual(multiChoice({ multiChoiceType: 'weighted', maxVoterOptions: 2, maxWinningOptions: 1 }));
+  });
+
+  it('treats single choice and unknown shapes as single choice', () => {
+    expect(parseVoteType({ singleChoice: {} })).toEqual(SINGLE_CHOICE_VOTE_TYPE);
+    expect(parseVoteType(null)).toEqual(SINGLE_CHOICE_VOTE_TYPE);
+  });
+});
+
+describe('isMultiOptionProposal()', () => {
+  it('is true for several options or a multi-choice vote type', () => {
+    expect(isMultiOptionProposal({ options })).toBe(true);
+    expect(isMultiOptionProposal({ options: options.slice(0, 1), voteType: multiChoice() })).toBe(true);
+    expect(isMultiOptionProposal({ options: options.slice(0, 1), voteType: SINGLE_CHOICE_VOTE_TYPE })).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ballots
+// ---------------------------------------------------------------------------
+describe('resolveOptionBallot()', () => {
+  it('gives the single chosen option full weight', () => {
+    expect(resolveOptionBallot(options, SINGLE_CHOICE_VOTE_TYPE, [{ option: 'option b' }])).toEqual([
+      { option: 'Option B', weight: 100 },
+    ]);
+  });
+
+  it('takes the top-ranked option of a single-choice proposal', () => {
+    const ballot = resolveOptionBallot(options, SINGLE_CHOICE_VOTE_TYPE, [
+      { option: 'Option A', rank: 2 },
+      { option: 'Option C', rank: 1 },
+    ]);
+
+    expect(ballot).toEqual([{ option: 'Option C', weight: 100 }]);
+  });
+
+  it('rejects several unranked options on a single-choice proposal', () => {
+    expect(() =>
+      resolveOptionBallot(options, SINGLE_CHOICE_VOTE_TYPE, [{ option: 'Option A' }, { option: 'Option B' }]),
+    ).toThrow(OptionChoiceError);
+  });
+
+  it('caps a full-weight ballot at maxVoterOptions by rank', () => {
+    const ballot = resolveOptionBallot(options, multiChoice({ maxVoterOptions: 2 }), [
+      { option: 'Option A', rank: 3 },
+      { option: 'Option B', rank: 1 },
+      { option: 'Option C', rank: 2 },
+    ]);
+
+    expect(ballot).toEqual([
+      { option: 'Option B', weight: 100 },
+      { option: 'Option C', weight: 100 },
+    ]);
+  });
+
+  it('normalizes weighted splits to 100', () => {
+    const voteType = multiChoice({ multiChoiceType: 'weighted' });
+
+    expect(resolveOptionBallot(options, voteType, [
+      { option: 'Option A', weight: 3 },
+      { option: 'Option B', weight: 1 },
+    ])).toEqual([
+      { option: 'Option A', weight: 75 },
+      { option: 'Option B', weight: 25 },
+    ]);
+    expect(
+      resolveOptionBallot(options, voteType, options.map((o) => ({ option: o.label })))
+        .reduce((sum, choice) => sum + choice.weight, 0),
+    ).toBe(100);
+  });
+
+  it('rejects unknown, duplicate and empty choices', () => {
+    expect(() => resolveOptionBallot(options, multiChoice(), [{ option: 'Option Z' }])).toThrow('Unknown proposal option');
+    expect(() =>
+      resolveOptionBallot(options, multiChoice(), [{ option: 'Option A' }, { option: 'option a' }]),
+    ).toThrow('more than once');
+    expect(() => resolveOptionBallot(options, multiChoice(), [{ option: 'Option A', weight: 0 }])).toThrow(
+      'No proposal option',
+    );
+  });
+});
+
+describe('toOptionWeights()', () => {
+  it('lays the ballot out in option order with zeros for unchosen options', () => {
+    expect(toOptionWeights(options, [{ option: 'Option C', weight: 40 }, { option: 'Option A', weight: 60 }])).toEqual([
+      60, 0, 40,
+    ]);
+  });
+});
+
+describe('parseOptionChoices() / formatOptionBallot()', () => {
+  it('round-trips a stored ballot and summarizes it', () => {
+    const ballot = [{ option: 'Option A', weight: 60 }, { option: 'Option B', weight: 40 }];
+
+    expect(parseOptionChoices(JSON.stringify(ballot))).toEqual(ballot);
+    expect(parseOptionChoices('not json')).toBeUndefined();
+    expect(parseOptionChoices(null)).toBeUndefined();
+    expect(formatOptionBallot(ballot)).toBe('Option A 60%, Option B 40%');
+  });
+});
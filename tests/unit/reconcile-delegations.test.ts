@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock all external dependencies BEFORE importing the module under test.
+// TokenOwnerRecords are served already serialized, so serialization is a
+// pass-through.
+// ---------------------------------------------------------------------------
+
+vi.mock('@shared/lib/governance', () => ({
+  fetchUserTokenRecords: vi.fn(),
+  fetchVoterWeightPlugin: vi.fn(),
+  serializeTokenOwnerRecord: vi.fn((record: unknown) => record),
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  deactivateDelegation: vi.fn(),
+  getActiveDelegations: vi.fn(),
+  getAgentsByIds: vi.fn(),
+}));
+
+import { runDelegationReconciliation } from '../../apps/worker/reconcile-delegations';
+import { fetchUserTokenRecords, fetchVoterWeightPlugin } from '@shared/lib/governance';
+import {
+  deactivateDelegation,
+  getActiveDelegations,
+  getAgentsByIds,
+} from '@shared/lib/stdb-client';
+import type { AgentRow, DelegationRow } from '@shared/lib/stdb-client';
+
+const mockFetchUserTokenRecords = vi.mocked(fetchUserTokenRecords);
+const mockFetchVoterWeightPlugin = vi.mocked(fetchVoterWeightPlugin);
+const mockDeactivateDelegation = vi.mocked(deactivateDelegation);
+const mockGetActiveDelegations = vi.mocked(getActiveDelegations);
+const mockGetAgentsByIds = vi.mocked(getAgentsByIds);
+
+// ---------------------------------------------------------------------------
+// Factories
+// ---------------------------------------------------------------------------
+
+const AGENT_WALLET = 'AgentWa11et1111111111111111111111111111111';
+const DELEGATOR = 'De1egator11111111111111111111111111111111';
+const REALM = 'Rea1m1111111111111111111111111111111111111';
+const MINT = 'Mint111111111111111111111111111111111111111';
+
+function makeDelegation(overrides: Partial<DelegationRow> = {}): DelegationRow {
+  return {
+    id: BigInt(7),
+    delegator_wallet: DELEGATOR,
+    agent_id: BigInt(1),
+    realm_address: REALM,
+    scope_bitmap: BigInt(1),
+    is_active: true,
+    on_chain_pda: 'Tor1111111111111111111111111111111111111111',
+    created_at: Date.now(),
+    governing_token_mint: MINT,
+    ...overrides,
+  };
+}
+
+function makeRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    address: 'Tor1111111111111111111111111111111111111111',
+    realm: REALM,
+    governingTokenOwner: DELEGATOR,
+    governingTokenMint: MINT,
+    governingTokenDepositAmount: 1_000,
+    governanceDelegate: AGENT_WALLET,
+    ...overrides,
+  };
+}
+
+function serveRecords(...records: ReturnType<typeof makeRecord>[]) {
+  mockFetchUserTokenRecords.mockResolvedValue(records as never);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('runDelegationReconciliation()', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetActiveDelegations.mockResolvedValue([makeDelegation()]);
+    mockGetAgentsByIds.mockResolvedValue(
+      new Map([[BigInt(1), { id: BigInt(1), privy_wallet_address: AGENT_WALLET } as AgentRow]]),
+    );
+    mockFetchVoterWeightPlugin.mockResolvedValue(null);
+    mockDeactivateDelegation.mockResolvedValue({ ok: true });
+  });
+
+  it('leaves delegations the chain still backs alone', async () => {
+    serveRecords(makeRecord());
+
+    const report = await runDelegationReconciliation();
+
+    expect(report).toMatchObject({ activeDelegations: 1, checked: 1, deactivated: 0, drift: [] });
+    expect(mockDeactivateDelegation).not.toHaveBeenCalled();
+  });
+
+  it('deactivates a delegation revoked or re-delegated on-chain', async () => {
+    const elsewhere = 'E1sewhere111111111111111111111111111111111';
+    serveRecords(makeRecord({ governanceDelegate: elsewhere }));
+
+    const report = await runDelegationReconciliation();
+
+    expect(report.deactivated).toBe(1);
+    expect(report.drift).toEqual([
+      expect.objectContaining({ delegationId: '7', reason: 'delegate_changed', governanceDelegate: elsewhere, deactivated: true }),
+    ]);
+    expect(mockDeactivateDelegation).toHaveBeenCalledWith({
+      delegation_id: BigInt(7),
+      reason: 'delegate_changed',
+      details: expect.objectContaining({ governanceDelegate: elsewhere }),
+    });
+  });
+
+  it('flags withdrawn deposits, except in plugin realms', async () => {
+    serveRecords(makeRecord({ governingTokenDepositAmount: 0 }));
+
+    const withdrawn = await runDelegationReconciliation();
+    mockFetchVoterWeightPlugin.mockResolvedValue({ kind: 'vsr', programId: 'vsr', maxVoterWeightProgramId: null });
+    const vsr = await runDelegationReconciliation();
+
+    expect(withdrawn.drift.map((d) => d.reason)).toEqual(['tokens_withdrawn']);
+    expect(vsr.drift).toEqual([]);
+  });
+
+  it('reports a missing TokenOwnerRecord without deactivating on a dry run', async () => {
+    serveRecords(makeRecord({ address: 'Other11111111111111111111111111111111111111' }));
+
+    const report = await runDelegationReconciliation({ dryRun: true });
+
+    expect(report.drift).toEqual([
+      expect.objectContaining({ reason: 'token_owner_record_missing', tokenOwnerRecord: null, deactivated: false }),
+    ]);
+    expect(report.deactivated).toBe(0);
+    expect(mockDeactivateDelegation).not.toHaveBeenCalled();
+  });
+
+  it('matches legacy rows by realm and counts what it could not verify', async () => {
+    mockGetActiveDelegations.mockResolvedValue([
+      makeDelegation({ on_chain_pda: null, governing_token_mint: null }),
+      makeDelegation({ id: BigInt(8), agent_id: BigInt(2) }),
+      makeDelegation({ id: BigInt(9), delegator_wallet: 'Unreachab1e111111111111111111111111111111' }),
+    ]);
+    mockFetchUserTokenRecords.mockImplementation(async (wallet) => {
+      if (wallet !== DELEGATOR) throw new Error('429 Too Many Requests');
+      return [makeRecord({ governingTokenMint: 'Counci1Mint1111111111111111111111111111111' })] as never;
+    });
+
+    const report = await runDelegationReconciliation();
+
+    expect(report).toMatchObject({ activeDelegations: 3, checked: 1, unverified: 2, drift: [] });
+    expect(mockFetchUserTokenRecords).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts a delegation as unverified when the plugin lookup fails and keeps going', async () => {
+    mockGetActiveDelegations.mockResolvedValue([
+      makeDelegation(),
+      makeDelegation({ id: BigInt(8), on_chain_pda: 'Tor2222222222222222222222222222222222222222' }),
+    ]);
+    serveRecords(
+      makeRecord({ governingTokenDepositAmount: 0 }),
+      makeRecord({ address: 'Tor2222222222222222222222222222222222222222', governanceDelegate: null }),
+    );
+    mockFetchVoterWeightPlugin.mockRejectedValue(new Error('429 Too Many Requests'));
+
+    const report = await runDelegationReconciliation();
+
+    expect(report).toMatchObject({ checked: 1, unverified: 1, deactivated: 1 });
+    expect(report.drift).toEqual([
+      expect.objectContaining({ delegationId: '8', reason: 'delegate_changed' }),
+    ]);
+  });
+
+  it('counts reducer failures and keeps going', async () => {
+    mockGetActiveDelegations.mockResolvedValue([makeDelegation(), makeDelegation({ id: BigInt(8) })]);
+    serveRecords();
+    mockDeactivateDelegation
+      .mockResolvedValueOnce({ ok: false, error: 'Delegation 7 is already inactive' })
+      .mockResolvedValueOnce({ ok: true });
+
+    const report = await runDelegationReconciliation();
+
+    expect(report).toMatchObject({ deactivated: 1, failed: 1 });
+    expect(report.drift.map((d) => d.deactivated)).toEqual([false, true]);
+  });
+});
@@ -7,26 +7,53 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 vi.mock('@shared/lib/governance', () => ({
   fetchRealm: vi.fn(),
   fetchProposalsForRealm: vi.fn(),
+  fetchProposalTransactions: vi.fn(),
   serializeProposal: vi.fn(),
 }));
 
 vi.mock('@shared/lib/stdb-client', () => ({
   getAllActiveAgents: vi.fn(),
+  getDelegationsByAgent: vi.fn(),
   getTrackedRealms: vi.fn(),
   hasAgentVoted: vi.fn(),
 }));
 
 vi.mock('@shared/lib/autonomous-vote-engine', () => ({
   executeAutonomousVote: vi.fn(),
+  findVotingDelegation: vi.fn(),
   isAgentEligibleForAutonomy: vi.fn(),
 }));
 
+const mockResolveDescription = vi.fn();
+vi.mock('@shared/lib/description-resolver', () => ({
+  getDescriptionResolver: () => ({ resolve: mockResolveDescription }),
+}));
+
+vi.mock('../../apps/worker/score-accuracy', () => ({
+  runAccuracyScoring: vi.fn(),
+}));
+
 import { runWorkerCycle } from '../../apps/worker/run-cycle';
+import { runAccuracyScoring } from '../../apps/worker/score-accuracy';
 import type { WorkerCycleSummary } from '../../apps/worker/run-cycle';
-import { fetchRealm, fetchProposalsForRealm, serializeProposal } from '@shared/lib/governance';
-import { getAllActiveAgents, getTrackedRealms, hasAgentVoted } from '@shared/lib/stdb-client';
-import type { AgentRow, TrackedRealmRow } from '@shared/lib/stdb-client';
-import { executeAutonomousVote, isAgentEligibleForAutonomy } from '@shared/lib/autonomous-vote-engine';
+import {
+  fetchRealm,
+  fetchProposalsForRealm,
+  fetchProposalTransactions,
+  serializeProposal,
+} from '@shared/lib/governance';
+import {
+  getAllActiveAgents,
+  getDelegationsByAgent,
+  getTrackedRealms,
+  hasAgentVoted,
+} from '@shared/lib/stdb-client';
+import type { AgentRow, DelegationRow, TrackedRealmRow } from '@shared/lib/stdb-client';
+import {
+  executeAutonomousVote,
+  findVotingDelegation,
+  isAgentEligibleForAutonomy,
+} from '@shared/lib/autonomous-vote-engine';
 import type { AutonomousVoteResult, GovernanceProposalContext } from '@shared/lib/autonomous-vote-engine';
 
 // ---------------------------------------------------------------------------
@@ -38,9 +65,13 @@ const mockGetAllActiveAgents = vi.mocked(getAllActiveAgents);
 const mockFetchRealm = vi.mocked(fetchRealm);
 const mockFetchProposalsForRealm = vi.mocked(fetchProposalsForRealm);
 const mockSerializeProposal = vi.mocked(serializeProposal);
+const mockFetchProposalTransactions = vi.mocked(fetchProposalTransactions);
 const mockIsAgentEligibleForAutonomy = vi.mocked(isAgentEligibleForAutonomy);
 const mockHasAgentVoted = vi.mocked(hasAgentVoted);
 const mockExecuteAutonomousVote = vi.mocked(executeAutonomousVote);
+const mockGetDelegationsByAgent = vi.mocked(getDelegationsByAgent);
+const mockFindVotingDelegation = vi.mocked(findVotingDelegation);
+const mockRunAccuracyScoring = vi.mocked(runAccuracyScoring);
 
 // ---------------------------------------------------------------------------
 // Factories
@@ -55,7 +86,6 @@ function makeAgent(overrides: Partial<AgentRow> = {}): AgentRow {
     config_json: JSON.stringify({ autoVote: true, confidenceThreshold: 0.65 }),
     risk_tolerance: 'moderate',
     is_active: true,
-    privy_wallet_id: 'pw-1',
     privy_wallet_address: 'addr1',
     total_votes: 0,
     accuracy_score: 0,
@@ -77,6 +107,20 @@ function makeTrackedRealm(overrides: Partial<TrackedRealmRow> = {}): TrackedReal
   };
 }
 
+function makeDelegation(overrides: Partial<DelegationRow> = {}): DelegationRow {
+  return {
+    id: BigInt(1),
+    delegator_wallet: 'delegator1',
+    agent_id: BigInt(1),
+    realm_address: 'realmAddr1',
+    scope_bitmap: BigInt(1),
+    is_active: true,
+    on_chain_pda: null,
+    created_at: Date.now(),
+    ...overrides,
+  };
+}
+
 function makeSerializedProposal(overrides: Record<string, unknown> = {}) {
   return {
     address: 'propAddr1',
@@ -131,9 +175,25 @@ describe('runWorkerCycle', () => {
     mockFetchRealm.mockResolvedValue({ realm: {} as never, governances: [] });
     mockFetchProposalsForRealm.mockResolvedValue([]);
     mockSerializeProposal.mockReturnValue(makeSerializedProposal() as never);
+    mockFetchProposalTransactions.mockResolvedValue([]);
     mockIsAgentEligibleForAutonomy.mockReturnValue(false);
     mockHasAgentVoted.mockResolvedValue(false);
     mockExecuteAutonomousVote.mockResolvedValue(makeVoteResult());
+    // Every agent holds a VOTE delegation unless a test says otherwise
+    mockGetDelegationsByAgent.mockResolvedValue([makeDelegation()]);
+    mockFindVotingDelegation.mockReturnValue(makeDelegation());
+    mockResolveDescription.mockImplementation(async (_address: string, link: string) => ({
+      text: link,
+      source: 'inline',
+      link,
+    }));
+    mockRunAccuracyScoring.mockResolvedValue({
+      unscoredVotes: 0,
+      proposalsChecked: 0,
+      proposalsFinalized: 0,
+      scored: 0,
+      failed: 0,
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -374,6 +434,138 @@ describe('runWorkerCycle', () => {
     expect(summary.combinationsConsidered).toBe(1);
   });
 
+  it('only pairs agents with proposals they hold a VOTE delegation for', async () => {
+    const agents = [makeAgent({ id: BigInt(1) }), makeAgent({ id: BigInt(2) })];
+    mockGetAllActiveAgents.mockResolvedValue(agents);
+    mockIsAgentEligibleForAutonomy.mockReturnValue(true);
+
+    mockGetTrackedRealms.mockResolvedValue([makeTrackedRealm({ address: 'realm1' })]);
+    mockFetchProposalsForRealm.mockResolvedValue([{} as never]);
+
+    const delegation = makeDelegation({ agent_id: BigInt(1), realm_address: 'realm1' });
+    mockGetDelegationsByAgent.mockImplementation(async (agentId) =>
+      agentId === BigInt(1) ? [delegation] : [],
+    );
+    mockFindVotingDelegation.mockImplementation((delegations) => delegations[0] ?? null);
+
+    const summary = await runWorkerCycle(defaultOptions);
+
+    expect(mockGetDelegationsByAgent).toHaveBeenCalledTimes(2);
+    expect(mockFindVotingDelegation).toHaveBeenCalledWith([delegation], 'realm1');
+    expect(summary.combinationsConsidered).toBe(1);
+    expect(mockExecuteAutonomousVote).toHaveBeenCalledTimes(1);
+    expect(mockExecuteAutonomousVote).toHaveBeenCalledWith(
+      expect.objectContaining({ agent: agents[0], delegations: [delegation] }),
+    );
+  });
+
+  it('analyses the document behind descriptionLink', async () => {
+    const link = 'https://gist.github.com/alice/0a1b2c3d';
+    mockGetAllActiveAgents.mockResolvedValue([makeAgent()]);
+    mockIsAgentEligibleForAutonomy.mockReturnValue(true);
+    mockGetTrackedRealms.mockResolvedValue([makeTrackedRealm()]);
+    mockFetchProposalsForRealm.mockResolvedValue([{} as never]);
+    mockSerializeProposal.mockReturnValue(makeSerializedProposal({ descriptionLink: link }) as never);
+    mockResolveDescription.mockResolvedValueOnce({ text: 'Fund three grants.', source: 'github', link });
+
+    await runWorkerCycle(defaultOptions);
+
+    expect(mockResolveDescription).toHaveBeenCalledWith('propAddr1', link);
+    expect(mockExecuteAutonomousVote).toHaveBeenCalledWith(
+      expect.objectContaining({
+        proposal: expect.objectContaining({ description: `Fund three grants.\n\n(Source: ${link})` }),
+      }),
+    );
+  });
+
+  it('passes decoded proposal transactions to the engine', async () => {
+    mockGetAllActiveAgents.mockResolvedValue([makeAgent()]);
+    mockIsAgentEligibleForAutonomy.mockReturnValue(true);
+    mockGetTrackedRealms.mockResolvedValue([makeTrackedRealm()]);
+    mockFetchProposalsForRealm.mockResolvedValue([{} as never]);
+    mockFetchProposalTransactions.mockResolvedValue([
+      {
+        publicKey: { toBase58: () => 'ptx1' },
+        optionIndex: 0,
+        transactionIndex: 0,
+        instructions: [
+          {
+            programId: { toBase58: () => '11111111111111111111111111111111' },
+            accounts: [{ pubkey: { toBase58: () => 'treasury' } }, { pubkey: { toBase58: () => 'recipient' } }],
+            // SystemInstruction::Transfer of 2 SOL
+            data: [2, 0, 0, 0, 0, 148, 53, 119, 0, 0, 0, 0],
+          },
+        ],
+      } as never,
+    ]);
+
+    await runWorkerCycle(defaultOptions);
+
+    expect(mockFetchProposalTransactions).toHaveBeenCalledWith('propAddr1');
+    expect(mockExecuteAutonomousVote).toHaveBeenCalledWith(
+      expect.objectContaining({
+        proposal: expect.objectContaining({
+          transactions: [
+            expect.objectContaining({
+              address: 'ptx1',
+              instructions: [
+                expect.objectContaining({
+                  type: 'transfer',
+                  summary: 'Transfer 2 SOL from treasury to recipient',
+                }),
+              ],
+            }),
+          ],
+        }),
+      }),
+    );
+  });
+
+  it('leaves transactions undefined when they cannot be fetched', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockGetAllActiveAgents.mockResolvedValue([makeAgent()]);
+    mockIsAgentEligibleForAutonomy.mockReturnValue(true);
+    mockGetTrackedRealms.mockResolvedValue([makeTrackedRealm()]);
+    mockFetchProposalsForRealm.mockResolvedValue([{} as never]);
+    mockFetchProposalTransactions.mockRejectedValue(new Error('RPC 429'));
+
+    const summary = await runWorkerCycle(defaultOptions);
+
+    expect(summary.activeProposals).toBe(1);
+    expect(mockExecuteAutonomousVote.mock.calls[0][0].proposal.transactions).toBeUndefined();
+    warn.mockRestore();
+  });
+
+  it('scores finalized proposals and reports the count', async () => {
+    mockRunAccuracyScoring.mockResolvedValue({
+      unscoredVotes: 3,
+      proposalsChecked: 2,
+      proposalsFinalized: 1,
+      scored: 2,
+      failed: 0,
+    });
+
+    const summary = await runWorkerCycle(defaultOptions);
+
+    expect(mockRunAccuracyScoring).toHaveBeenCalledOnce();
+    expect(summary.scored).toBe(2);
+  });
+
+  it('skips accuracy scoring on dry runs', async () => {
+    const summary = await runWorkerCycle({ ...defaultOptions, dryRun: true });
+
+    expect(mockRunAccuracyScoring).not.toHaveBeenCalled();
+    expect(summary.scored).toBe(0);
+  });
+
+  it('does not fail the cycle when accuracy scoring throws', async () => {
+    mockRunAccuracyScoring.mockRejectedValue(new Error('STDB down'));
+
+    const summary = await runWorkerCycle(defaultOptions);
+
+    expect(summary.scored).toBe(0);
+  });
+
   it('includes startedAt and finishedAt timestamps', async () => {
     const summary = await runWorkerCycle(defaultOptions);
 
@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock all external dependencies BEFORE importing the module under test.
+// ---------------------------------------------------------------------------
+
+vi.mock('@shared/lib/governance', async () => {
+  const actual = await vi.importActual<typeof import('@shared/lib/governance')>(
+    '@shared/lib/governance',
+  );
+  return {
+    fetchProposal: vi.fn(),
+    fetchVoteRecords: vi.fn(),
+    serializeProposal: vi.fn(),
+    serializeVoteRecord: vi.fn(),
+    // Pure state mapping — use the real implementations
+    getProposalOutcome: actual.getProposalOutcome,
+    getVoteRecordDirection: actual.getVoteRecordDirection,
+  };
+});
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  getDelegationsByAgent: vi.fn(),
+  getUnscoredVotes: vi.fn(),
+  getVotesByProposal: vi.fn(),
+  updateAgentStats: vi.fn(),
+}));
+
+import { runAccuracyScoring } from '../../apps/worker/score-accuracy';
+import {
+  fetchProposal,
+  fetchVoteRecords,
+  serializeProposal,
+  serializeVoteRecord,
+} from '@shared/lib/governance';
+import {
+  getDelegationsByAgent,
+  getUnscoredVotes,
+  getVotesByProposal,
+  updateAgentStats,
+} from '@shared/lib/stdb-client';
+import type { DelegationRow, VoteRow } from '@shared/lib/stdb-client';
+
+// ---------------------------------------------------------------------------
+// Helpers: typed mock accessors
+// ---------------------------------------------------------------------------
+
+const mockFetchProposal = vi.mocked(fetchProposal);
+const mockFetchVoteRecords = vi.mocked(fetchVoteRecords);
+const mockSerializeProposal = vi.mocked(serializeProposal);
+const mockSerializeVoteRecord = vi.mocked(serializeVoteRecord);
+const mockGetDelegationsByAgent = vi.mocked(getDelegationsByAgent);
+const mockGetUnscoredVotes = vi.mocked(getUnscoredVotes);
+const mockGetVotesByProposal = vi.mocked(getVotesByProposal);
+const mockUpdateAgentStats = vi.mocked(updateAgentStats);
+
+// ---------------------------------------------------------------------------
+// Factories
+// ---------------------------------------------------------------------------
+
+function makeVote(overrides: Partial<VoteRow> = {}): VoteRow {
+  return {
+    id: BigInt(1),
+    vote_key: '1:prop1',
+    agent_id: BigInt(1),
+    proposal_address: 'prop1',
+    vote: 'for',
+    reasoning: 'Good proposal',
+    confidence: 0.9,
+    tx_signature: 'sig1',
+    tapestry_content_id: null,
+    created_at: Date.now(),
+    ...overrides,
+  };
+}
+
+function makeDelegation(overrides: Partial<DelegationRow> = {}): DelegationRow {
+  return {
+    id: BigInt(1),
+    delegator_wallet: 'delegator1',
+    agent_id: BigInt(1),
+    realm_address: 'realm1',
+    scope_bitmap: BigInt(1),
+    is_active: true,
+    on_chain_pda: null,
+    created_at: Date.now(),
+    ...overrides,
+  };
+}
+
+function withProposalState(state: string) {
+  mockSerializeProposal.mockReturnValue({ status: state } as never);
+}
+
+function withVoteRecords(records: Array<{ owner: string; vote: unknown; isRelinquished?: boolean }>) {
+  mockFetchVoteRecords.mockResolvedValue(records as never);
+  mockSerializeVoteRecord.mockImplementation((r) => {
+    const record = r as unknown as { owner: string; vote: unknown; isRelinquished?: boolean };
+    return {
+      address: `vr-${record.owner}`,
+      proposal: 'prop1',
+      governingTokenOwner: record.owner,
+      isRelinquished: record.isRelinquished ?? false,
+      voterWeight: 100,
+      vote: record.vote,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('runAccuracyScoring', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockGetUnscoredVotes.mockResolvedValue([]);
+    mockFetchProposal.mockResolvedValue({} as never);
+    withProposalState('succeeded');
+    withVoteRecords([]);
+    mockGetDelegationsByAgent.mockResolvedValue([]);
+    mockGetVotesByProposal.mockResolvedValue([]);
+    mockUpdateAgentStats.mockResolvedValue({ ok: true });
+  });
+
+  it('does nothing when every vote is already scored', async () => {
+    const summary = await runAccuracyScoring();
+
+    expect(summary.unscoredVotes).toBe(0);
+    expect(mockFetchProposal).not.toHaveBeenCalled();
+    expect(mockUpdateAgentStats).not.toHaveBeenCalled();
+  });
+
+  it('leaves votes unscored while the proposal is still voting', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([makeVote()]);
+    withProposalState('voting');
+
+    const summary = await runAccuracyScoring();
+
+    expect(summary.proposalsChecked).toBe(1);
+    expect(summary.proposalsFinalized).toBe(0);
+    expect(mockFetchVoteRecords).not.toHaveBeenCalled();
+    expect(mockUpdateAgentStats).not.toHaveBeenCalled();
+  });
+
+  it('scores a FOR vote on a succeeded proposal as a match', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([makeVote({ vote: 'for' })]);
+    withProposalState('succeeded');
+
+    const summary = await runAccuracyScoring();
+
+    expect(summary.scored).toBe(1);
+    expect(mockUpdateAgentStats).toHaveBeenCalledWith({
+      agent_id: BigInt(1),
+      proposal_address: 'prop1',
+      final_state: 'succeeded',
+      outcome: 'for',
+      agent_vote: 'for',
+      matched_outcome: true,
+      delegators_compared: 0,
+      delegators_agreed: 0,
+    });
+  });
+
+  it('scores a FOR vote on a defeated proposal as a miss', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([makeVote({ vote: 'for' })]);
+    withProposalState('defeated');
+
+    await runAccuracyScoring();
+
+    expect(mockUpdateAgentStats).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'against', matched_outcome: false }),
+    );
+  });
+
+  it('scores a veto as a vote against', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([
+      makeVote({ vote: 'veto', proposal_address: 'vetoed', vote_key: '1:vetoed' }),
+      makeVote({ vote: 'veto', proposal_address: 'passed', vote_key: '1:passed' }),
+    ]);
+    mockSerializeProposal
+      .mockReturnValueOnce({ status: 'vetoed' } as never)
+      .mockReturnValueOnce({ status: 'succeeded' } as never);
+
+    await runAccuracyScoring();
+
+    expect(mockUpdateAgentStats).toHaveBeenCalledWith(
+      expect.objectContaining({ proposal_address: 'vetoed', agent_vote: 'veto', matched_outcome: true }),
+    );
+    expect(mockUpdateAgentStats).toHaveBeenCalledWith(
+      expect.objectContaining({ proposal_address: 'passed', agent_vote: 'veto', matched_outcome: false }),
+    );
+  });
+
+  it('compares the agent vote with delegators who voted on-chain', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([makeVote({ vote: 'against' })]);
+    withProposalState('defeated');
+    mockGetDelegationsByAgent.mockResolvedValue([
+      makeDelegation({ delegator_wallet: 'alice' }),
+      makeDelegation({ delegator_wallet: 'bob' }),
+      makeDelegation({ delegator_wallet: 'carol' }),
+      makeDelegation({ delegator_wallet: 'dave' }),
+    ]);
+    withVoteRecords([
+      { owner: 'alice', vote: { deny: {} } },
+      { owner: 'bob', vote: { approve: [[]] } },
+      { owner: 'carol', vote: { deny: {} }, isRelinquished: true },
+      { owner: 'stranger', vote: { deny: {} } },
+    ]);
+
+    await runAccuracyScoring();
+
+    // alice agreed, bob disagreed, carol relinquished, dave never voted
+    expect(mockUpdateAgentStats).toHaveBeenCalledWith(
+      expect.objectContaining({ delegators_compared: 2, delegators_agreed: 1 }),
+    );
+  });
+
+  it('leaves out delegators whose VoteRecord holds a vote an agent cast for them', async () => {
+    const castFor = (delegatorAddress: string, vote: string | null) => ({
+      delegatorAddress,
+      governingTokenMint: 'mint1',
+      vote,
+      preference: 'follow',
+      txSignature: vote && `sig-${delegatorAddress}`,
+      votingPower: 10,
+    });
+    const agentVote = makeVote({
+      vote: 'against',
+      casts_json: JSON.stringify([castFor('alice', 'against'), castFor('bob', null)]),
+    });
+    mockGetUnscoredVotes.mockResolvedValue([agentVote]);
+    mockGetVotesByProposal.mockResolvedValue([
+      agentVote,
+      // Scored on an earlier cycle by another agent carol delegated another mint to
+      makeVote({ agent_id: BigInt(2), vote: 'for', casts_json: JSON.stringify([castFor('carol', 'for')]) }),
+    ]);
+    withProposalState('defeated');
+    mockGetDelegationsByAgent.mockResolvedValue([
+      makeDelegation({ delegator_wallet: 'alice' }),
+      makeDelegation({ delegator_wallet: 'bob' }),
+      makeDelegation({ delegator_wallet: 'carol' }),
+    ]);
+    withVoteRecords([
+      { owner: 'alice', vote: { deny: {} } },
+      { owner: 'bob', vote: { approve: [[]] } },
+      { owner: 'carol', vote: { approve: [[]] } },
+    ]);
+
+    await runAccuracyScoring();
+
+    // Only bob, whose standing instruction kept the agent out, cast their own vote
+    expect(mockGetVotesByProposal).toHaveBeenCalledWith('prop1');
+    expect(mockUpdateAgentStats).toHaveBeenCalledWith(
+      expect.objectContaining({ delegators_compared: 1, delegators_agreed: 0 }),
+    );
+  });
+
+  it('fetches each finalized proposal once for all of its votes', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([
+      makeVote({ agent_id: BigInt(1), vote_key: '1:prop1' }),
+      makeVote({ agent_id: BigInt(2), vote_key: '2:prop1' }),
+    ]);
+
+    const summary = await runAccuracyScoring();
+
+    expect(mockFetchProposal).toHaveBeenCalledTimes(1);
+    expect(mockFetchVoteRecords).toHaveBeenCalledTimes(1);
+    expect(summary.scored).toBe(2);
+  });
+
+  it('counts reducer failures without stopping', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([
+      makeVote({ agent_id: BigInt(1) }),
+      makeVote({ agent_id: BigInt(2) }),
+    ]);
+    mockUpdateAgentStats
+      .mockResolvedValueOnce({ ok: false, error: 'boom' })
+      .mockResolvedValueOnce({ ok: true });
+
+    const summary = await runAccuracyScoring();
+
+    expect(summary.scored).toBe(1);
+    expect(summary.failed).toBe(1);
+  });
+
+  it('marks all votes on a proposal failed when the RPC fetch throws', async () => {
+    mockGetUnscoredVotes.mockResolvedValue([
+      makeVote({ proposal_address: 'bad', vote_key: '1:bad' }),
+      makeVote({ proposal_address: 'good', vote_key: '1:good' }),
+    ]);
+    mockFetchProposal
+      .mockRejectedValueOnce(new Error('RPC timeout'))
+      .mockResolvedValueOnce({} as never);
+
+    const summary = await runAccuracyScoring();
+
+    expect(summary.failed).toBe(1);
+    expect(summary.scored).toBe(1);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateKeyPairSync, sign } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { parseResponse } from '../helpers';
+import {
+  createSiwsMessage,
+  formatSiwsMessage,
+  issueSiwsSession,
+  parseSiwsMessage,
+  verifySiwsMessage,
+  verifySiwsSession,
+  SiwsError,
+  _resetSiwsNonces,
+} from '@shared/lib/siws';
+import { GET as NONCE } from '@/app/api/auth/siws/nonce/route';
+import { POST as VERIFY } from '@/app/api/auth/siws/verify/route';
+
+const DOMAIN = 'localhost:3000';
+
+function makeWallet() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const { x } = publicKey.export({ format: 'jwk' }) as { x: string };
+  return {
+    address: new PublicKey(Buffer.from(x, 'base64url')).toBase58(),
+    signMessage: (message: string) => sign(null, Buffer.from(message, 'utf8'), privateKey).toString('base64'),
+  };
+}
+
+function signedMessage(wallet = makeWallet(), now?: number) {
+  const message = formatSiwsMessage(
+    createSiwsMessage({ domain: DOMAIN, uri: `http://${DOMAIN}`, address: wallet.address, now }),
+  );
+  return { wallet, message, signature: wallet.signMessage(message) };
+}
+
+beforeEach(() => {
+  _resetSiwsNonces();
+  vi.stubEnv('SIWS_SESSION_SECRET', 'test-siws-secret');
+});
+
+// ─── Tests: messages ─────────────────────────────────────────────────────────
+
+describe('formatSiwsMessage() / parseSiwsMessage()', () => {
+  it('round-trips a sign-in message', () => {
+    const message = createSiwsMessage({ domain: DOMAIN, uri: `http://${DOMAIN}`, address: makeWallet().address });
+
+    expect(parseSiwsMessage(formatSiwsMessage(message))).toEqual(message);
+  });
+
+  it('rejects text that is not a sign-in message', () => {
+    expect(() => parseSiwsMessage('please sign this')).toThrow(SiwsError);
+  });
+});
+
+// ─── Tests: verification ─────────────────────────────────────────────────────
+
+describe('verifySiwsMessage()', () => {
+  it('accepts a message signed by the wallet it names, once', () => {
+    const { wallet, message, signature } = signedMessage();
+
+    expect(verifySiwsMessage({ message, signature, domain: DOMAIN }).address).toBe(wallet.address);
+    expect(() => verifySiwsMessage({ message, signature, domain: DOMAIN })).toThrow('already used');
+  });
+
+  it('rejects a signature by another wallet', () => {
+    const { message } = signedMessage();
+
+    expect(() =>
+      verifySiwsMessage({ message, signature: makeWallet().signMessage(message), domain: DOMAIN }),
+    ).toThrow('Invalid signature');
+  });
+
+  it('rejects a nonce this server did not issue', () => {
+    const wallet = makeWallet();
+    const issued = createSiwsMessage({ domain: DOMAIN, uri: `http://${DOMAIN}`, address: wallet.address });
+    const message = formatSiwsMessage({ ...issued, nonce: 'f'.repeat(64) });
+
+    expect(() =>
+      verifySiwsMessage({ message, signature: wallet.signMessage(message), domain: DOMAIN }),
+    ).toThrow('Unknown sign-in nonce');
+  });
+
+  it('rejects an expired message and one for another domain', () => {
+    const { message, signature } = signedMessage(makeWallet(), Date.now() - 10 * 60_000);
+
+    expect(() => verifySiwsMessage({ message, signature, domain: DOMAIN })).toThrow('expired');
+    expect(() => verifySiwsMessage({ message, signature, domain: 'evil.example' })).toThrow('not evil.example');
+  });
+});
+
+// ─── Tests: sessions ─────────────────────────────────────────────────────────
+
+describe('issueSiwsSession() / verifySiwsSession()', () => {
+  it('returns the wallet of a valid session token', () => {
+    const { token, expiresAt } = issueSiwsSession('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU');
+
+    expect(verifySiwsSession(token)).toEqual({
+      address: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+      expiresAt,
+    });
+  });
+
+  it('rejects tampered and expired tokens', () => {
+    const { token, expiresAt } = issueSiwsSession('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU');
+    const [prefix, , mac] = token.split('.');
+    const forged = `${prefix}.${Buffer.from(JSON.stringify({ sub: 'SomeoneE1se', exp: expiresAt })).toString('base64url')}.${mac}`;
+
+    expect(() => verifySiwsSession(forged)).toThrow('Invalid session token');
+    expect(() => verifySiwsSession(token, expiresAt + 1)).toThrow('expired');
+  });
+
+  it('fails with 500 when no secret is configured', () => {
+    vi.stubEnv('SIWS_SESSION_SECRET', '');
+
+    const error = (() => {
+      try {
+        issueSiwsSession('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU');
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(SiwsError);
+    expect((error as SiwsError).statusCode).toBe(500);
+  });
+});
+
+// ─── Tests: routes ───────────────────────────────────────────────────────────
+
+describe('GET /api/auth/siws/nonce + POST /api/auth/siws/verify', () => {
+  it('signs in a wallet end to end', async () => {
+    const wallet = makeWallet();
+
+    const nonceResponse = await NONCE(
+      new Request(`http://${DOMAIN}/api/auth/siws/nonce?address=${wallet.address}`) as never,
+    );
+    const { status: nonceStatus, body: nonceBody } = await parseResponse(nonceResponse);
+    expect(nonceStatus).toBe(200);
+    const { message } = nonceBody as { message: string };
+    expect(message).toContain(wallet.address);
+
+    const verifyResponse = await VERIFY(
+      new Request(`http://${DOMAIN}/api/auth/siws/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature: wallet.signMessage(message) }),
+      }) as never,
+    );
+    const { status, body } = await parseResponse(verifyResponse);
+
+    expect(status).toBe(200);
+    expect(body).toEqual(expect.objectContaining({ address: wallet.address, token: expect.stringMatching(/^siws\./) }));
+    expect(verifySiwsSession((body as { token: string }).token).address).toBe(wallet.address);
+  });
+
+  it('returns 400 for an invalid address', async () => {
+    const response = await NONCE(new Request(`http://${DOMAIN}/api/auth/siws/nonce?address=nope`) as never);
+    const { status } = await parseResponse(response);
+
+    expect(status).toBe(400);
+  });
+
+  it('returns 401 for a bad signature', async () => {
+    const { message } = signedMessage();
+
+    const response = await VERIFY(
+      new Request(`http://${DOMAIN}/api/auth/siws/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature: Buffer.alloc(64).toString('base64') }),
+      }) as never,
+    );
+    const { status, body } = await parseResponse(response);
+
+    expect(status).toBe(401);
+    expect(body).toEqual({ error: 'Invalid signature' });
+  });
+});
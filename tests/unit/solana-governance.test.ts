@@ -0,0 +1,443 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { DEFAULT_PROGRAM_ID } from 'governance-idl-sdk';
+
+// ---------------------------------------------------------------------------
+// Instructions are built offline by the real SDK; only the blockhash lookup
+// and simulation need an RPC, so the connection is stubbed.
+// ---------------------------------------------------------------------------
+const mockSimulateTransaction = vi.fn();
+vi.mock('@shared/lib/governance', async () => {
+  const { Connection } = await import('@solana/web3.js');
+  const { SplGovernance: Client } = await import('governance-idl-sdk');
+  const connection = new Connection('http://127.0.0.1:8899');
+  const client = new Client(connection);
+  return {
+    getConnection: () => ({
+      getLatestBlockhash: async () => ({
+        blockhash: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gYdkNJWNjJB',
+        lastValidBlockHeight: 100,
+      }),
+      simulateTransaction: (...args: unknown[]) => mockSimulateTransaction(...args),
+      getRecentPrioritizationFees: async () => [],
+    }),
+    getGovernanceClient: () => client,
+    // Realms here weigh votes by deposits; plugins are covered in voter-weight-plugins.test
+    fetchVoterWeightPlugin: async () => null,
+  };
+});
+
+import { getGovernanceClient } from '@shared/lib/governance';
+import {
+  buildCastVoteTransaction,
+  buildCastVoteTransactions,
+  buildCreateProposalTransaction,
+  buildDelegateTransaction,
+  buildInsertTransactionTransaction,
+  buildRelinquishVoteTransaction,
+  buildSignOffProposalTransaction,
+  fitComputeBudget,
+  GovernanceSimulationError,
+  parseGovernanceError,
+  recentPrioritizationFeeEstimator,
+  setPriorityFeeEstimator,
+  simulateGovernanceTransaction,
+} from '@shared/lib/solana-governance';
+
+const address = () => Keypair.generate().publicKey.toBase58();
+
+const proposer = {
+  realmAddress: address(),
+  governanceAddress: address(),
+  governingTokenMintAddress: address(),
+  proposerWalletAddress: address(),
+  delegatorAddress: address(),
+};
+
+function decode(serialized: string): Transaction {
+  return Transaction.from(Buffer.from(serialized, 'base64'));
+}
+
+function governanceInstructions(tx: Transaction) {
+  return tx.instructions.filter((ix) => ix.programId.equals(DEFAULT_PROGRAM_ID));
+}
+
+/** TokenOwnerRecord the proposer acts through — the delegator's */
+function delegatorTokenOwnerRecord(): PublicKey {
+  return getGovernanceClient().pda.tokenOwnerRecordAccount({
+    realmAccount: new PublicKey(proposer.realmAddress),
+    governingTokenMintAccount: new PublicKey(proposer.governingTokenMintAddress),
+    governingTokenOwner: new PublicKey(proposer.delegatorAddress),
+  }).publicKey;
+}
+
+describe('solana-governance proposal builders', () => {
+  it('builds CreateProposal from the delegator TOR and returns the proposal address', async () => {
+    const { serializedTransaction, proposalAddress } = await buildCreateProposalTransaction({
+      ...proposer,
+      name: 'Fund Q3 grants',
+      descriptionLink: 'https://example.com/proposal.md',
+    });
+
+    const tx = decode(serializedTransaction);
+    const [createIx, ...rest] = governanceInstructions(tx);
+
+    expect(rest).toHaveLength(0);
+    expect(tx.feePayer?.toBase58()).toBe(proposer.proposerWalletAddress);
+    const accounts = createIx.keys.map((k) => k.pubkey.toBase58());
+    expect(accounts).toContain(proposalAddress);
+    expect(accounts).toContain(delegatorTokenOwnerRecord().toBase58());
+    expect(createIx.keys.find((k) => k.pubkey.toBase58() === proposer.proposerWalletAddress)?.isSigner).toBe(true);
+  });
+
+  it('signs the proposal off in the same transaction when asked', async () => {
+    const { serializedTransaction, proposalAddress } = await buildCreateProposalTransaction({
+      ...proposer,
+      name: 'Fund Q3 grants',
+      descriptionLink: 'Short inline description',
+      signOff: true,
+    });
+
+    const [, signOffIx] = governanceInstructions(decode(serializedTransaction));
+
+    expect(signOffIx).toBeDefined();
+    expect(signOffIx.keys.map((k) => k.pubkey.toBase58())).toEqual(
+      expect.arrayContaining([proposalAddress, delegatorTokenOwnerRecord().toBase58()]),
+    );
+  });
+
+  it('builds InsertTransaction and SignOffProposal for an existing draft', async () => {
+    const proposalAddress = address();
+    const transfer = SystemProgram.transfer({
+      fromPubkey: Keypair.generate().publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1_000_000_000,
+    });
+
+    const insertTx = decode(await buildInsertTransactionTransaction({
+      ...proposer,
+      proposalAddress,
+      instructions: [transfer],
+      index: 0,
+    }));
+    const signOffTx = decode(await buildSignOffProposalTransaction({ ...proposer, proposalAddress }));
+
+    for (const tx of [insertTx, signOffTx]) {
+      const [ix] = governanceInstructions(tx);
+      expect(ix.keys.map((k) => k.pubkey.toBase58())).toContain(proposalAddress);
+    }
+  });
+});
+
+describe('solana-governance buildRelinquishVoteTransaction', () => {
+  const proposalAddress = address();
+  const voterWalletAddress = address();
+
+  function stubProposal() {
+    vi.spyOn(getGovernanceClient(), 'getProposalByPubkey').mockResolvedValue({
+      governance: new PublicKey(proposer.governanceAddress),
+      governingTokenMint: new PublicKey(proposer.governingTokenMintAddress),
+      tokenOwnerRecord: Keypair.generate().publicKey,
+    } as never);
+  }
+
+  it('relinquishes the vote cast through the delegator TOR', async () => {
+    stubProposal();
+
+    const { serializedTransaction } = await buildRelinquishVoteTransaction({
+      proposalAddress,
+      voterWalletAddress,
+      realmAddress: proposer.realmAddress,
+      delegatorAddress: proposer.delegatorAddress,
+    });
+
+    const tx = decode(serializedTransaction);
+    const [relinquishIx, ...rest] = governanceInstructions(tx);
+
+    expect(rest).toHaveLength(0);
+    expect(tx.feePayer?.toBase58()).toBe(voterWalletAddress);
+    const accounts = relinquishIx.keys.map((k) => k.pubkey.toBase58());
+    expect(accounts).toEqual(
+      expect.arrayContaining([proposalAddress, delegatorTokenOwnerRecord().toBase58()]),
+    );
+    expect(relinquishIx.keys.find((k) => k.pubkey.toBase58() === voterWalletAddress)?.isSigner).toBe(true);
+  });
+
+  it('recasts in the same transaction when given a new direction', async () => {
+    stubProposal();
+
+    const { serializedTransaction } = await buildRelinquishVoteTransaction({
+      proposalAddress,
+      voterWalletAddress,
+      realmAddress: proposer.realmAddress,
+      delegatorAddress: proposer.delegatorAddress,
+      recastDirection: 'against',
+    });
+
+    const [relinquishIx, castVoteIx] = governanceInstructions(decode(serializedTransaction));
+
+    expect(castVoteIx).toBeDefined();
+    expect(castVoteIx.data.equals(relinquishIx.data)).toBe(false);
+    expect(castVoteIx.keys.map((k) => k.pubkey.toBase58())).toEqual(
+      expect.arrayContaining([proposalAddress, delegatorTokenOwnerRecord().toBase58()]),
+    );
+  });
+});
+
+describe('solana-governance buildCastVoteTransaction', () => {
+  const proposalAddress = address();
+  const voterWalletAddress = address();
+  const councilMint = address();
+
+  beforeEach(() => {
+    vi.spyOn(getGovernanceClient(), 'getProposalByPubkey').mockResolvedValue({
+      governance: new PublicKey(proposer.governanceAddress),
+      governingTokenMint: new PublicKey(proposer.governingTokenMintAddress),
+      tokenOwnerRecord: Keypair.generate().publicKey,
+    } as never);
+  });
+
+  it('casts a veto with the council TOR and mint', async () => {
+    const { serializedTransaction, votingMint } = await buildCastVoteTransaction({
+      proposalAddress,
+      voterWalletAddress,
+      voteDirection: 'veto',
+      realmAddress: proposer.realmAddress,
+      delegatorAddress: proposer.delegatorAddress,
+      governingTokenMintAddress: councilMint,
+    });
+
+    const councilTokenOwnerRecord = getGovernanceClient().pda.tokenOwnerRecordAccount({
+      realmAccount: new PublicKey(proposer.realmAddress),
+      governingTokenMintAccount: new PublicKey(councilMint),
+      governingTokenOwner: new PublicKey(proposer.delegatorAddress),
+    }).publicKey;
+    const [castVoteIx] = governanceInstructions(decode(serializedTransaction));
+
+    expect(votingMint.toBase58()).toBe(councilMint);
+    expect(castVoteIx.keys.map((k) => k.pubkey.toBase58())).toEqual(
+      expect.arrayContaining([councilMint, councilTokenOwnerRecord.toBase58()]),
+    );
+  });
+
+  it('approves the chosen options of a multi-option proposal', async () => {
+    vi.spyOn(getGovernanceClient(), 'getProposalByPubkey').mockResolvedValue({
+      governance: new PublicKey(proposer.governanceAddress),
+      governingTokenMint: new PublicKey(proposer.governingTokenMintAddress),
+      tokenOwnerRecord: Keypair.generate().publicKey,
+      options: [{ label: 'Option A' }, { label: 'Option B' }, { label: 'Option C' }],
+      voteType: {
+        multiChoice: { choiceType: { weighted: {} }, minVoterOptions: 1, maxVoterOptions: 3, maxWinningOptions: 1 },
+      },
+    } as never);
+    const base = { proposalAddress, voterWalletAddress, voteDirection: 'for', realmAddress: proposer.realmAddress };
+
+    const { serializedTransaction, ballot } = await buildCastVoteTransaction({
+      ...base,
+      choices: [{ option: 'Option C', weight: 70 }, { option: 'Option A', weight: 30 }],
+    });
+    const [castVoteIx] = governanceInstructions(decode(serializedTransaction));
+
+    expect(ballot).toEqual([{ option: 'Option C', weight: 70 }, { option: 'Option A', weight: 30 }]);
+    // Vote::Approve: u32 choice count, then (rank, weight) per option in option order
+    expect([...castVoteIx.data.subarray(-10)]).toEqual([3, 0, 0, 0, 0, 30, 0, 0, 0, 70]);
+    await expect(buildCastVoteTransaction(base)).rejects.toThrow('choose among them');
+  });
+
+  it('rejects a veto with the proposal mint and a normal vote with the opposite mint', async () => {
+    const base = { proposalAddress, voterWalletAddress, realmAddress: proposer.realmAddress };
+
+    await expect(buildCastVoteTransaction({ ...base, voteDirection: 'veto' })).rejects.toThrow(
+      'opposite governing token mint',
+    );
+    await expect(
+      buildCastVoteTransaction({ ...base, voteDirection: 'for', governingTokenMintAddress: councilMint }),
+    ).rejects.toThrow('can only veto');
+  });
+});
+
+describe('solana-governance buildCastVoteTransactions', () => {
+  const proposalAddress = address();
+  const voterWalletAddress = address();
+
+  beforeEach(() => {
+    vi.spyOn(getGovernanceClient(), 'getProposalByPubkey').mockResolvedValue({
+      governance: new PublicKey(proposer.governanceAddress),
+      governingTokenMint: new PublicKey(proposer.governingTokenMintAddress),
+      tokenOwnerRecord: Keypair.generate().publicKey,
+    } as never);
+  });
+
+  function tokenOwnerRecord(delegatorAddress: string): string {
+    return getGovernanceClient().pda.tokenOwnerRecordAccount({
+      realmAccount: new PublicKey(proposer.realmAddress),
+      governingTokenMintAccount: new PublicKey(proposer.governingTokenMintAddress),
+      governingTokenOwner: new PublicKey(delegatorAddress),
+    }).publicKey.toBase58();
+  }
+
+  it('packs one CastVote per delegator TOR into as few transactions as fit', async () => {
+    const delegators = Array.from({ length: 12 }, address);
+
+    const { batches } = await buildCastVoteTransactions({
+      proposalAddress,
+      voterWalletAddress,
+      voteDirection: 'for',
+      realmAddress: proposer.realmAddress,
+      voters: delegators.map((delegatorAddress) => ({ delegatorAddress })),
+    });
+
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.length).toBeLessThan(delegators.length);
+    expect(batches.flatMap((batch) => batch.voters.map((v) => v.delegatorAddress))).toEqual(delegators);
+    for (const batch of batches) {
+      expect(Buffer.from(batch.serializedTransaction, 'base64').length).toBeLessThanOrEqual(1232);
+      const castVotes = governanceInstructions(decode(batch.serializedTransaction));
+      expect(castVotes.map((ix) => ix.keys.map((k) => k.pubkey.toBase58()))).toEqual(
+        batch.voters.map((v) => expect.arrayContaining([tokenOwnerRecord(v.delegatorAddress!)])),
+      );
+    }
+  });
+
+  it('rejects an empty voter list', async () => {
+    await expect(
+      buildCastVoteTransactions({ proposalAddress, voterWalletAddress, voteDirection: 'for', voters: [] }),
+    ).rejects.toThrow('No TokenOwnerRecords');
+  });
+});
+
+describe('solana-governance parseGovernanceError', () => {
+  it('maps GovernanceError codes', () => {
+    expect(parseGovernanceError({ InstructionError: [2, { Custom: 519 }] }, [])).toBe('already_voted_on_chain');
+    expect(parseGovernanceError({ InstructionError: [2, { Custom: 536 }] }, [])).toBe('voting_time_expired');
+    expect(parseGovernanceError({ InstructionError: [2, { Custom: 505 }] }, [])).toBe('wrong_governance_delegate');
+  });
+
+  it('maps program log messages', () => {
+    expect(parseGovernanceError({ InstructionError: [2, { Custom: 6001 }] }, [
+      'Program log: Instruction: UpdateVoterWeightRecord',
+      'Program log: GOVERNANCE-ERROR: Not enough tokens to cast vote',
+    ])).toBe('insufficient_voter_weight');
+    expect(parseGovernanceError('AccountNotFound', ['Program log: GOVERNANCE-ERROR: Vote already exists']))
+      .toBe('already_voted_on_chain');
+  });
+
+  it('falls back to unknown', () => {
+    expect(parseGovernanceError({ InstructionError: [0, { Custom: 1 }] }, ['Program log: insufficient lamports'])).toBe('unknown');
+  });
+});
+
+describe('solana-governance simulateGovernanceTransaction', () => {
+  const serialized = () => {
+    const payer = Keypair.generate().publicKey;
+    const tx = new Transaction({ feePayer: payer, recentBlockhash: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gYdkNJWNjJB' })
+      .add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 }));
+    return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+  };
+
+  beforeEach(() => {
+    mockSimulateTransaction.mockReset();
+  });
+
+  it('returns the compute units an unsigned transaction consumed', async () => {
+    mockSimulateTransaction.mockResolvedValue({ value: { err: null, logs: ['ok'], unitsConsumed: 42_000 } });
+
+    const result = await simulateGovernanceTransaction(serialized());
+
+    expect(result).toEqual({ unitsConsumed: 42_000, logs: ['ok'] });
+    expect(mockSimulateTransaction).toHaveBeenCalledWith(
+      expect.anything(),
+      { sigVerify: false, replaceRecentBlockhash: true },
+    );
+  });
+
+  it('throws a typed error with the governance reason', async () => {
+    const logs = ['Program log: GOVERNANCE-ERROR: Proposal voting time expired'];
+    mockSimulateTransaction.mockResolvedValue({ value: { err: { InstructionError: [0, { Custom: 536 }] }, logs } });
+
+    const error = await simulateGovernanceTransaction(serialized()).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GovernanceSimulationError);
+    expect(error).toMatchObject({ reason: 'voting_time_expired', logs });
+  });
+});
+
+describe('solana-governance compute budget', () => {
+  function computeBudget(tx: Transaction) {
+    const [price, limit] = tx.instructions.filter((ix) => ix.programId.equals(ComputeBudgetProgram.programId));
+    return {
+      microLamports: Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(price).microLamports),
+      units: ComputeBudgetInstruction.decodeSetComputeUnitLimit(limit).units,
+    };
+  }
+
+  it('prices compute with the configured estimator, clamped to a sane range', async () => {
+    const estimator = vi.fn(async () => 123_456.4);
+    setPriorityFeeEstimator(estimator);
+    const delegator = address();
+    try {
+      const serialized = await buildDelegateTransaction({
+        realmAddress: address(),
+        governingTokenMintAddress: address(),
+        delegatorWalletAddress: delegator,
+        delegateWalletAddress: address(),
+      });
+
+      const tx = decode(serialized);
+      expect(tx.instructions[0].programId.equals(ComputeBudgetProgram.programId)).toBe(true);
+      expect(computeBudget(tx)).toEqual({ microLamports: 123_457, units: 200_000 });
+      // The TokenOwnerRecord is written; the signing delegator is not passed on
+      const [, writable] = estimator.mock.calls[0] as unknown as [unknown, PublicKey[]];
+      expect(writable.map((key) => key.toBase58())).not.toContain(delegator);
+      expect(writable.length).toBeGreaterThan(0);
+
+      estimator.mockRejectedValueOnce(new Error('rpc down'));
+      const fallback = decode(await buildDelegateTransaction({
+        realmAddress: address(),
+        governingTokenMintAddress: address(),
+        delegatorWalletAddress: delegator,
+        delegateWalletAddress: address(),
+      }));
+      expect(computeBudget(fallback).microLamports).toBe(50_000);
+    } finally {
+      setPriorityFeeEstimator(null);
+    }
+  });
+
+  it('takes the 75th percentile of recent prioritization fees', async () => {
+    const connection = {
+      getRecentPrioritizationFees: async () =>
+        [100, 0, 10, 0].map((prioritizationFee, slot) => ({ slot, prioritizationFee })),
+    };
+
+    await expect(recentPrioritizationFeeEstimator(connection as never, [])).resolves.toBe(100);
+  });
+
+  it('fits the limit to simulation and the price to the fee budget', () => {
+    const payer = Keypair.generate().publicKey;
+    const tx = new Transaction({ feePayer: payer, recentBlockhash: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gYdkNJWNjJB' }).add(
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 50_000 }),
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }),
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 }),
+    );
+    const serialized = tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+
+    const uncapped = fitComputeBudget(serialized, { unitsConsumed: 50_000 });
+    const capped = fitComputeBudget(serialized, { unitsConsumed: 50_000, maxPriorityFeeLamports: 1_200 });
+    const unsimulated = fitComputeBudget(serialized, { unitsConsumed: null });
+
+    expect(uncapped).toMatchObject({ computeUnitLimit: 60_000, microLamports: 50_000, feeLamports: 5_000 + 3_000 });
+    expect(capped).toMatchObject({ computeUnitLimit: 60_000, microLamports: 20_000, feeLamports: 5_000 + 1_200 });
+    expect(unsimulated).toMatchObject({ computeUnitLimit: 400_000, microLamports: 50_000 });
+    const refit = decode(capped.serializedTransaction);
+    expect(computeBudget(refit)).toEqual({ microLamports: 20_000, units: 60_000 });
+    expect(refit.instructions).toHaveLength(3);
+  });
+});
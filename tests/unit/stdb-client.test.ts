@@ -290,6 +290,18 @@ describe('stdb-client', () => {
         'SpacetimeDB identity request failed',
       );
     });
+
+    it('uses SPACETIMEDB_TOKEN instead of minting an identity', async () => {
+      vi.stubEnv('SPACETIMEDB_TOKEN', 'publisher-token');
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { callReducer } = await import('@shared/lib/stdb-client');
+      await callReducer('test_reducer', []);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer publisher-token');
+      vi.unstubAllEnvs();
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -440,6 +452,44 @@ describe('stdb-client', () => {
       expect(voted).toBe(false);
     });
 
+    it('returns false while a delegator cast of the vote has failed', async () => {
+      stubIdentityFetch();
+      const casts = [
+        { delegatorAddress: 'delegator-a', vote: 'for', txSignature: null, failed: true },
+        { delegatorAddress: 'delegator-b', vote: 'for', txSignature: 'sig-1' },
+      ];
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'vote_key' }, { name: 'casts_json' }] },
+            rows: [[1n, '42:proposal-addr', [0, JSON.stringify(casts)]]],
+          },
+        ]),
+      );
+
+      const { hasAgentVoted } = await import('@shared/lib/stdb-client');
+      const voted = await hasAgentVoted(42n, 'proposal-addr');
+
+      expect(voted).toBe(false);
+    });
+
+    it('returns false when the recorded vote was dropped', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'vote_key' }, { name: 'vote_status' }] },
+            rows: [[1n, '42:proposal-addr', [0, 'dropped']]],
+          },
+        ]),
+      );
+
+      const { hasAgentVoted } = await import('@shared/lib/stdb-client');
+      const voted = await hasAgentVoted(42n, 'proposal-addr');
+
+      expect(voted).toBe(false);
+    });
+
     it('constructs correct vote_key from agentId and proposalAddress', async () => {
       stubIdentityFetch();
       mockFetch.mockResolvedValueOnce(fakeResponse([]));
@@ -608,6 +658,53 @@ describe('stdb-client', () => {
     });
   });
 
+  describe('getAgentWalletId', () => {
+    it('reads the wallet id from the private agent_wallets table', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'agent_id' }, { name: 'privy_wallet_id' }] },
+            rows: [[5n, 'pw-id']],
+          },
+        ]),
+      );
+
+      const { getAgentWalletId } = await import('@shared/lib/stdb-client');
+      expect(await getAgentWalletId(5n)).toBe('pw-id');
+
+      const sqlBody = mockFetch.mock.calls[1][1].body;
+      expect(sqlBody).toBe('SELECT * FROM agent_wallets WHERE agent_id = 5');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // getAuditEvents
+  // -----------------------------------------------------------------------
+  describe('getAuditEvents', () => {
+    it('reads the agent chain from audit_events in seq order', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'seq' }, { name: 'reducer' }] },
+            rows: [
+              [12n, 2n, 'update_agent'],
+              [7n, 1n, 'create_agent'],
+            ],
+          },
+        ]),
+      );
+
+      const { getAuditEvents } = await import('@shared/lib/stdb-client');
+      const events = await getAuditEvents(5n);
+
+      expect(events.map((e) => e.reducer)).toEqual(['create_agent', 'update_agent']);
+      const sqlBody = mockFetch.mock.calls[1][1].body;
+      expect(sqlBody).toBe('SELECT * FROM audit_events WHERE agent_id = 5');
+    });
+  });
+
   // -----------------------------------------------------------------------
   // getAgentsByIds
   // -----------------------------------------------------------------------
@@ -650,6 +747,347 @@ describe('stdb-client', () => {
   // -----------------------------------------------------------------------
   // healthCheck
   // -----------------------------------------------------------------------
+  describe('createPendingVote', () => {
+    it('calls create_pending_vote reducer with hold window in seconds', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { createPendingVote } = await import('@shared/lib/stdb-client');
+      await createPendingVote({
+        agent_id: 3n,
+        proposal_address: 'proposal-xyz',
+        vote: 'for',
+        reasoning: 'Looks good',
+        confidence: 0.9,
+        hold_seconds: 1800,
+        choices_json: '[{"option":"Option A"}]',
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/create_pending_vote');
+      const body = JSON.parse(reducerCall[1].body);
+      expect(body).toEqual([
+        3, 'proposal-xyz', 'for', 'Looks good', 0.9, 1800, { some: '[{"option":"Option A"}]' },
+      ]);
+    });
+  });
+
+  describe('getPendingVote', () => {
+    it('queries pending_votes by agent/proposal key', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'pending_key' }, { name: 'status' }] },
+            rows: [[1n, '7:proposal-xyz', 'pending']],
+          },
+        ]),
+      );
+
+      const { getPendingVote } = await import('@shared/lib/stdb-client');
+      const pending = await getPendingVote(7n, 'proposal-xyz');
+
+      const sqlBody = mockFetch.mock.calls[1][1].body;
+      expect(sqlBody).toContain("pending_key = '7:proposal-xyz'");
+      expect(pending?.status).toBe('pending');
+    });
+
+    it('returns null when nothing is held', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse([]));
+
+      const { getPendingVote } = await import('@shared/lib/stdb-client');
+      expect(await getPendingVote(7n, 'nothing')).toBeNull();
+    });
+  });
+
+  describe('createProposalDraft', () => {
+    it('calls create_proposal_draft reducer with positional args', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { createProposalDraft } = await import('@shared/lib/stdb-client');
+      await createProposalDraft({
+        draft_key: 'draft-1',
+        agent_id: 3n,
+        realm_address: 'realm-1',
+        governance_address: 'gov-1',
+        governing_token_mint: 'mint-1',
+        delegator_wallet: 'delegator-1',
+        brief: 'Fund grants',
+        title: 'Fund Q3 grants',
+        description: 'Allocate 500 USDC',
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/create_proposal_draft');
+      expect(JSON.parse(reducerCall[1].body)).toEqual([
+        'draft-1', 3, 'realm-1', 'gov-1', 'mint-1', 'delegator-1', 'Fund grants', 'Fund Q3 grants', 'Allocate 500 USDC',
+      ]);
+    });
+  });
+
+  describe('getProposalDraft', () => {
+    it('queries proposal_drafts by escaped draft key', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'draft_key' }, { name: 'status' }] },
+            rows: [[1n, "it's-1", 'pending_approval']],
+          },
+        ]),
+      );
+
+      const { getProposalDraft } = await import('@shared/lib/stdb-client');
+      const draft = await getProposalDraft("it's-1");
+
+      const sqlBody = mockFetch.mock.calls[1][1].body;
+      expect(sqlBody).toContain("draft_key = 'it''s-1'");
+      expect(draft?.status).toBe('pending_approval');
+    });
+  });
+
+  describe('createDelegation', () => {
+    it('passes the delegated mint and verified TokenOwnerRecord as options', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { createDelegation } = await import('@shared/lib/stdb-client');
+      await createDelegation({
+        agent_id: 3n,
+        realm_address: 'realm-1',
+        scope_bitmap: 1n,
+        delegator_wallet: 'council-member',
+        governing_token_mint: 'council-mint',
+        on_chain_pda: 'tor-1',
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/create_delegation');
+      expect(JSON.parse(reducerCall[1].body)).toEqual([
+        3, 'realm-1', 1, 'council-member', { some: 'council-mint' }, { some: 'tor-1' },
+      ]);
+    });
+  });
+
+  describe('deactivateDelegation', () => {
+    it('passes the drift reason and details as JSON', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { deactivateDelegation } = await import('@shared/lib/stdb-client');
+      await deactivateDelegation({
+        delegation_id: 7n,
+        reason: 'delegate_changed',
+        details: { governanceDelegate: null },
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/deactivate_delegation');
+      expect(JSON.parse(reducerCall[1].body)).toEqual([7, 'delegate_changed', '{"governanceDelegate":null}']);
+    });
+  });
+
+  describe('setDelegatorPreference', () => {
+    it('sends a realm-wide preference with no proposal', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { setDelegatorPreference } = await import('@shared/lib/stdb-client');
+      await setDelegatorPreference({
+        delegator_wallet: 'delegator-1',
+        realm_address: 'realm-1',
+        preference: 'abstain',
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/set_delegator_preference');
+      expect(JSON.parse(reducerCall[1].body)).toEqual(['delegator-1', 'realm-1', { none: [] }, 'abstain']);
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('stores the hash with agent ids and scopes as JSON', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { createApiKey } = await import('@shared/lib/stdb-client');
+      await createApiKey({
+        key_hash: 'hash-1',
+        key_prefix: 'cdao_abcdefg',
+        owner_wallet: 'owner-1',
+        label: 'MCP server',
+        agent_ids: [1n, 4n],
+        scopes: ['read', 'vote'],
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/create_api_key');
+      expect(JSON.parse(reducerCall[1].body)).toEqual([
+        'hash-1',
+        'cdao_abcdefg',
+        'owner-1',
+        'MCP server',
+        '["1","4"]',
+        '["read","vote"]',
+      ]);
+    });
+  });
+
+  describe('updateVoteCasts', () => {
+    it('calls update_vote_casts with the merged casts and the added fee', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { updateVoteCasts } = await import('@shared/lib/stdb-client');
+      await updateVoteCasts({
+        agent_id: 3n,
+        proposal_address: 'prop-1',
+        casts_json: '[]',
+        fee_lamports: 5000n,
+        vote_status: 'confirmed',
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/update_vote_casts');
+      expect(JSON.parse(reducerCall[1].body)).toEqual([3, 'prop-1', '[]', 5000, { some: 'confirmed' }]);
+    });
+  });
+
+  describe('changeVote', () => {
+    it('calls change_vote reducer with the new direction and who changed it', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { changeVote } = await import('@shared/lib/stdb-client');
+      await changeVote({
+        agent_id: 3n,
+        proposal_address: 'prop-1',
+        vote: 'against',
+        reasoning: 'Owner override',
+        confidence: 1,
+        tx_signature: 'sig-2',
+        changed_by: 'owner',
+        casts_json: '[]',
+        vote_status: 'confirmed',
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/change_vote');
+      expect(JSON.parse(reducerCall[1].body)).toEqual([
+        3, 'prop-1', 'against', 'Owner override', 1, { some: 'sig-2' }, 'owner', { none: [] },
+        { some: '[]' }, 'confirmed',
+      ]);
+    });
+  });
+
+  describe('getVoteHistory', () => {
+    it('returns prior directions for the vote key, oldest first', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'vote' }, { name: 'replaced_at' }] },
+            rows: [[2n, 'against', 2000], [1n, 'for', 1000]],
+          },
+        ]),
+      );
+
+      const { getVoteHistory } = await import('@shared/lib/stdb-client');
+      const history = await getVoteHistory(3n, 'prop-1');
+
+      const sqlBody = mockFetch.mock.calls[1][1].body;
+      expect(sqlBody).toContain("vote_key = '3:prop-1'");
+      expect(history.map((h) => h.vote)).toEqual(['for', 'against']);
+    });
+  });
+
+  describe('getUnscoredVotes', () => {
+    it('returns votes without a matching vote_scores row', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'vote_key' }, { name: 'vote' }, { name: 'tx_signature' }] },
+            rows: [
+              [1n, '1:prop-a', 'for', 'tx-a'],
+              [2n, '1:prop-b', 'against', 'tx-b'],
+            ],
+          },
+        ]),
+      );
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: { elements: [{ name: 'id' }, { name: 'score_key' }] },
+            rows: [[1n, '1:prop-a']],
+          },
+        ]),
+      );
+
+      const { getUnscoredVotes } = await import('@shared/lib/stdb-client');
+      const votes = await getUnscoredVotes();
+
+      expect(votes).toHaveLength(1);
+      expect(votes[0].vote_key).toBe('1:prop-b');
+      expect(mockFetch.mock.calls[1][1].body).toContain('FROM votes');
+      expect(mockFetch.mock.calls[2][1].body).toContain('FROM vote_scores');
+    });
+
+    it('skips dropped votes and votes cast without a transaction', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([
+          {
+            schema: {
+              elements: [{ name: 'id' }, { name: 'vote_key' }, { name: 'vote' }, { name: 'tx_signature' }, { name: 'vote_status' }],
+            },
+            rows: [
+              [1n, '1:prop-a', 'for', 'tx-a', 'finalized'],
+              [2n, '1:prop-b', 'against', null, 'dropped'],
+              [3n, '1:prop-c', 'abstain', null, null],
+            ],
+          },
+        ]),
+      );
+      mockFetch.mockResolvedValueOnce(
+        fakeResponse([{ schema: { elements: [{ name: 'id' }, { name: 'score_key' }] }, rows: [] }]),
+      );
+
+      const { getUnscoredVotes } = await import('@shared/lib/stdb-client');
+      const votes = await getUnscoredVotes();
+
+      // The dropped vote stays unscored so the retry that replaces it can be scored
+      expect(votes.map((v) => v.vote_key)).toEqual(['1:prop-a']);
+    });
+  });
+
+  describe('updateAgentStats', () => {
+    it('calls update_agent_stats reducer with the score breakdown', async () => {
+      stubIdentityFetch();
+      mockFetch.mockResolvedValueOnce(fakeResponse(null));
+
+      const { updateAgentStats } = await import('@shared/lib/stdb-client');
+      await updateAgentStats({
+        agent_id: 2n,
+        proposal_address: 'prop-a',
+        final_state: 'succeeded',
+        outcome: 'for',
+        agent_vote: 'for',
+        matched_outcome: true,
+        delegators_compared: 3,
+        delegators_agreed: 2,
+      });
+
+      const reducerCall = mockFetch.mock.calls[1];
+      expect(reducerCall[0]).toContain('/call/update_agent_stats');
+      expect(JSON.parse(reducerCall[1].body)).toEqual([
+        2, 'prop-a', 'succeeded', 'for', 'for', true, 3, 2,
+      ]);
+    });
+  });
+
   describe('healthCheck', () => {
     it('returns true when ping succeeds', async () => {
       mockFetch.mockResolvedValueOnce(fakeResponse('pong'));
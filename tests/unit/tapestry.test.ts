@@ -128,6 +128,38 @@ describe('tapestry', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // postPendingVoteNotice
+  // -----------------------------------------------------------------------
+  describe('postPendingVoteNotice', () => {
+    it('posts the held vote with when it will be cast', async () => {
+      mockContents.findOrCreateCreate.mockResolvedValueOnce({ id: 'content-held' });
+
+      const { postPendingVoteNotice } = await import('@shared/lib/tapestry');
+      const result = await postPendingVoteNotice(
+        'profile-123',
+        'proposal-abc',
+        'agent-42',
+        'for',
+        'Strong treasury proposal',
+        0.92,
+        new Date('2026-03-01T12:30:00.000Z'),
+      );
+
+      expect(result).toEqual({ id: 'content-held' });
+      const [, dataArg] = mockContents.findOrCreateCreate.mock.calls[0];
+      // One notice per held vote, however many cycles see it
+      expect(dataArg.id).toBe('pending-vote-proposal-abc-agent-42');
+      expect(dataArg.properties).toEqual(
+        expect.arrayContaining([
+          { key: 'type', value: 'pending_vote' },
+          { key: 'vote', value: 'for' },
+          { key: 'executeAfter', value: '2026-03-01T12:30:00.000Z' },
+        ]),
+      );
+    });
+  });
+
   // -----------------------------------------------------------------------
   // getContents
   // -----------------------------------------------------------------------
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { isAgentEligibleForAutonomy } from '@shared/lib/autonomous-vote-engine';
-import type { AgentRow } from '@shared/lib/stdb-client';
+import { findVotingDelegation, isAgentEligibleForAutonomy } from '@shared/lib/autonomous-vote-engine';
+import { AGENT_PERMISSIONS } from '@shared/lib/constants';
+import type { AgentRow, DelegationRow } from '@shared/lib/stdb-client';
 
 function makeAgentRow(overrides: Partial<AgentRow> = {}): AgentRow {
   return {
@@ -16,7 +17,6 @@ function makeAgentRow(overrides: Partial<AgentRow> = {}): AgentRow {
     }),
     risk_tolerance: 'moderate',
     is_active: true,
-    privy_wallet_id: 'wallet-id-abc',
     privy_wallet_address: '9xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
     total_votes: 5,
     accuracy_score: 0.85,
@@ -44,19 +44,6 @@ describe('isAgentEligibleForAutonomy()', () => {
     expect(isAgentEligibleForAutonomy(agent)).toBe(false);
   });
 
-  // -------------------------------------------------------------------------
-  // Missing wallet (privy_wallet_id)
-  // -------------------------------------------------------------------------
-  it('returns false when privy_wallet_id is null', () => {
-    const agent = makeAgentRow({ privy_wallet_id: null });
-    expect(isAgentEligibleForAutonomy(agent)).toBe(false);
-  });
-
-  it('returns false when privy_wallet_id is empty string', () => {
-    const agent = makeAgentRow({ privy_wallet_id: '' });
-    expect(isAgentEligibleForAutonomy(agent)).toBe(false);
-  });
-
   // -------------------------------------------------------------------------
   // Missing wallet (privy_wallet_address)
   // -------------------------------------------------------------------------
@@ -75,7 +62,6 @@ describe('isAgentEligibleForAutonomy()', () => {
   // -------------------------------------------------------------------------
   it('returns false when both wallet fields are null', () => {
     const agent = makeAgentRow({
-      privy_wallet_id: null,
       privy_wallet_address: null,
     });
     expect(isAgentEligibleForAutonomy(agent)).toBe(false);
@@ -130,7 +116,6 @@ describe('isAgentEligibleForAutonomy()', () => {
   it('returns false when active + autoVote but missing wallet', () => {
     const agent = makeAgentRow({
       is_active: true,
-      privy_wallet_id: null,
       privy_wallet_address: null,
       config_json: JSON.stringify({ autoVote: true }),
     });
@@ -153,3 +138,62 @@ describe('isAgentEligibleForAutonomy()', () => {
     expect(isAgentEligibleForAutonomy(agent)).toBe(false);
   });
 });
+
+function makeDelegationRow(overrides: Partial<DelegationRow> = {}): DelegationRow {
+  return {
+    id: BigInt(1),
+    delegator_wallet: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+    agent_id: BigInt(1),
+    realm_address: 'realm1',
+    scope_bitmap: BigInt(AGENT_PERMISSIONS.VOTE),
+    is_active: true,
+    on_chain_pda: null,
+    created_at: 1706745600,
+    ...overrides,
+  };
+}
+
+describe('findVotingDelegation()', () => {
+  it('returns the active VOTE delegation for the realm', () => {
+    const delegation = makeDelegationRow();
+    expect(findVotingDelegation([delegation], 'realm1')).toBe(delegation);
+  });
+
+  it('returns null when there are no delegations', () => {
+    expect(findVotingDelegation([], 'realm1')).toBeNull();
+  });
+
+  it('ignores delegations for other realms', () => {
+    expect(findVotingDelegation([makeDelegationRow({ realm_address: 'realm2' })], 'realm1')).toBeNull();
+  });
+
+  it('ignores inactive delegations', () => {
+    expect(findVotingDelegation([makeDelegationRow({ is_active: false })], 'realm1')).toBeNull();
+  });
+
+  // -------------------------------------------------------------------------
+  // Only the VOTE bit authorises voting — every other bit on its own does not
+  // -------------------------------------------------------------------------
+  it.each(Object.entries(AGENT_PERMISSIONS))('scope %s alone', (name, bit) => {
+    const delegation = makeDelegationRow({ scope_bitmap: BigInt(bit) });
+    const expected = name === 'VOTE' ? delegation : null;
+    expect(findVotingDelegation([delegation], 'realm1')).toBe(expected);
+  });
+
+  it('accepts a combined scope that includes VOTE', () => {
+    const delegation = makeDelegationRow({
+      scope_bitmap: BigInt(AGENT_PERMISSIONS.VOTE | AGENT_PERMISSIONS.TREASURY_VIEW),
+    });
+    expect(findVotingDelegation([delegation], 'realm1')).toBe(delegation);
+  });
+
+  it('picks the matching delegation among several', () => {
+    const match = makeDelegationRow({ id: BigInt(3) });
+    const delegations = [
+      makeDelegationRow({ id: BigInt(1), realm_address: 'realm2' }),
+      makeDelegationRow({ id: BigInt(2), scope_bitmap: BigInt(AGENT_PERMISSIONS.ADMIN) }),
+      match,
+    ];
+    expect(findVotingDelegation(delegations, 'realm1')).toBe(match);
+  });
+});
@@ -0,0 +1,512 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { makeAgent, makeDelegation } from '../fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+vi.mock('@shared/lib/governance', () => ({
+  fetchProposal: vi.fn(),
+  fetchProposalRealm: vi.fn(),
+  getProposalState: (state: Record<string, unknown>) => Object.keys(state)[0],
+  serializeProposal: vi.fn(),
+}));
+
+vi.mock('@shared/lib/solana-governance', () => ({
+  buildCastVoteTransactions: vi.fn(),
+  fitComputeBudget: vi.fn(),
+  simulateGovernanceTransaction: vi.fn(),
+  GovernanceSimulationError: class GovernanceSimulationError extends Error {
+    reason: string;
+    constructor(message: string, reason = 'unknown') {
+      super(message);
+      this.name = 'GovernanceSimulationError';
+      this.reason = reason;
+    }
+  },
+}));
+
+vi.mock('@shared/lib/privy-client', () => ({
+  signAndSendTransaction: vi.fn(),
+}));
+
+vi.mock('@shared/lib/confirmation-tracker', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@shared/lib/confirmation-tracker')>(),
+  sendAndTrack: vi.fn(),
+}));
+
+vi.mock('@shared/lib/stdb-client', () => ({
+  changeVote: vi.fn(),
+  getAgentWalletId: vi.fn(),
+  getDelegationsByAgent: vi.fn(),
+  getDelegatorPreferences: vi.fn(),
+  getVoteByAgentAndProposal: vi.fn(),
+}));
+
+import { fetchProposal, fetchProposalRealm, serializeProposal } from '@shared/lib/governance';
+import {
+  buildCastVoteTransactions,
+  fitComputeBudget,
+  GovernanceSimulationError,
+  simulateGovernanceTransaction,
+} from '@shared/lib/solana-governance';
+import { signAndSendTransaction } from '@shared/lib/privy-client';
+import { sendAndTrack } from '@shared/lib/confirmation-tracker';
+import {
+  changeVote,
+  getAgentWalletId,
+  getDelegationsByAgent,
+  getDelegatorPreferences,
+  getVoteByAgentAndProposal,
+} from '@shared/lib/stdb-client';
+import { overrideRecordedVote, VoteOverrideError } from '@shared/lib/vote-overrides';
+import type { CastVoteVoter } from '@shared/lib/solana-governance';
+import type { AgentRow, VoteRow } from '@shared/lib/stdb-client';
+
+const mockFetchProposal = vi.mocked(fetchProposal);
+const mockFetchProposalRealm = vi.mocked(fetchProposalRealm);
+const mockSerializeProposal = vi.mocked(serializeProposal);
+const mockSimulateGovernanceTransaction = vi.mocked(simulateGovernanceTransaction);
+const mockFitComputeBudget = vi.mocked(fitComputeBudget);
+const mockSendAndTrack = vi.mocked(sendAndTrack);
+const mockGetDelegatorPreferences = vi.mocked(getDelegatorPreferences);
+const mockBuildCastVoteTransactions = vi.mocked(buildCastVoteTransactions);
+const mockSignAndSendTransaction = vi.mocked(signAndSendTransaction);
+const mockChangeVote = vi.mocked(changeVote);
+const mockGetAgentWalletId = vi.mocked(getAgentWalletId);
+const mockGetDelegationsByAgent = vi.mocked(getDelegationsByAgent);
+const mockGetVoteByAgentAndProposal = vi.mocked(getVoteByAgentAndProposal);
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const REALM = 'realm1111111111111111111111111111111111111111';
+const PROPOSAL = 'prop11111111111111111111111111111111111111111';
+const DELEGATOR = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const COMMUNITY_MINT = 'mint111111111111111111111111111111111111111';
+const WALLET_ID = 'wallet-id-123';
+
+const MULTI_OPTION_SUMMARY = {
+  options: [
+    { index: 0, label: 'Option A', voteWeight: 0, voteResult: 'none' },
+    { index: 1, label: 'Option B', voteWeight: 0, voteResult: 'none' },
+  ],
+  voteType: { choiceType: 'single' },
+};
+
+const agent = makeAgent({
+  config_json: JSON.stringify({ autoVote: true, delegatorAddress: DELEGATOR }),
+}) as unknown as AgentRow;
+
+/** Batches as buildCastVoteTransactions returns them, one per `perBatch` voters */
+function serveBatches(perBatch = 10, ballot: unknown = null) {
+  mockBuildCastVoteTransactions.mockImplementation(async ({ voters }) => {
+    const batches = [];
+    for (let i = 0; i < voters.length; i += perBatch) {
+      batches.push({ serializedTransaction: `base64-cast-tx-${batches.length + 1}`, voters: voters.slice(i, i + perBatch) });
+    }
+    return {
+      batches,
+      proposalInfo: {} as never,
+      votingMint: { toBase58: () => COMMUNITY_MINT } as never,
+      ballot: ballot as never,
+    };
+  });
+}
+
+function builtVoters(): CastVoteVoter[] {
+  return mockBuildCastVoteTransactions.mock.calls[0][0].voters;
+}
+
+function makeVote(overrides: Partial<VoteRow> = {}): VoteRow {
+  return {
+    id: 1n,
+    vote_key: `1:${PROPOSAL}`,
+    agent_id: 1n,
+    proposal_address: PROPOSAL,
+    vote: 'for',
+    reasoning: 'Looks good',
+    confidence: 0.9,
+    tx_signature: 'sig-original',
+    tapestry_content_id: null,
+    created_at: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('overrideRecordedVote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetAgentWalletId.mockResolvedValue(WALLET_ID);
+    mockGetVoteByAgentAndProposal.mockResolvedValue(makeVote());
+    mockFetchProposal.mockResolvedValue({
+      state: { voting: {} },
+      governingTokenMint: { toBase58: () => COMMUNITY_MINT },
+    } as never);
+    mockFetchProposalRealm.mockResolvedValue(REALM);
+    mockGetDelegationsByAgent.mockResolvedValue([makeDelegation({ realm_address: REALM })] as never);
+    mockSerializeProposal.mockReturnValue({
+      options: [{ index: 0, label: 'Approve', voteWeight: 0, voteResult: 'none' }],
+      voteType: { choiceType: 'single' },
+    } as never);
+    mockGetDelegatorPreferences.mockResolvedValue([]);
+    serveBatches();
+    mockSimulateGovernanceTransaction.mockResolvedValue({ unitsConsumed: 42_000, logs: [] } as never);
+    mockFitComputeBudget.mockImplementation((serializedTransaction) => ({
+      serializedTransaction: `budgeted:${serializedTransaction}`,
+      computeUnitLimit: 50_400,
+      microLamportsPerUnit: 0,
+      feeLamports: 5000,
+    }) as never);
+    mockSendAndTrack.mockImplementation(async ({ serializedTransaction, send }) => ({
+      signature: await send(serializedTransaction),
+      status: 'confirmed',
+      resigns: 0,
+    }));
+    mockSignAndSendTransaction.mockResolvedValue({ txHash: 'sig-override' });
+    mockChangeVote.mockResolvedValue({ ok: true });
+  });
+
+  it('relinquishes and recasts an on-chain vote through the delegator TOR', async () => {
+    const result = await overrideRecordedVote({
+      agent,
+      proposalAddress: PROPOSAL,
+      vote: 'against',
+      reason: 'Treasury is too low',
+    });
+
+    expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith({
+      proposalAddress: PROPOSAL,
+      voterWalletAddress: agent.privy_wallet_address,
+      voteDirection: 'against',
+      realmAddress: REALM,
+      voters: [{ delegatorAddress: DELEGATOR, relinquish: true }],
+      choices: undefined,
+    });
+    expect(mockSignAndSendTransaction).toHaveBeenCalledWith({
+      walletId: WALLET_ID,
+      agentId: '1',
+      serializedTransaction: 'budgeted:base64-cast-tx-1',
+    });
+    expect(mockFetchProposalRealm).toHaveBeenCalled();
+    expect(mockSimulateGovernanceTransaction).toHaveBeenCalledWith('base64-cast-tx-1');
+    expect(mockChangeVote).toHaveBeenCalledWith({
+      agent_id: 1n,
+      proposal_address: PROPOSAL,
+      vote: 'against',
+      reasoning: 'Owner override: Treasury is too low',
+      confidence: 1,
+      tx_signature: 'sig-override',
+      changed_by: 'owner',
+      choices_json: null,
+      casts_json: JSON.stringify([{
+        delegatorAddress: DELEGATOR,
+        governingTokenMint: COMMUNITY_MINT,
+        vote: 'against',
+        preference: 'follow',
+        txSignature: 'sig-override',
+        votingPower: null,
+        status: 'confirmed',
+      }]),
+      vote_status: 'confirmed',
+    });
+    expect(result).toEqual(expect.objectContaining({
+      proposalAddress: PROPOSAL,
+      previousVote: 'for',
+      vote: 'against',
+      choices: null,
+      txSignature: 'sig-override',
+      status: 'confirmed',
+    }));
+  });
+
+  it('ignores delegations in other realms than the proposal account names', async () => {
+    mockFetchProposalRealm.mockResolvedValue('other-realm');
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(403);
+    expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+  });
+
+  it('returns 422 without signing when simulation says governance would reject it', async () => {
+    mockSimulateGovernanceTransaction.mockRejectedValue(
+      new GovernanceSimulationError('Voting time expired', 'voting_time_expired'),
+    );
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(422);
+    expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+    expect(mockChangeVote).not.toHaveBeenCalled();
+  });
+
+  it('keeps the previous vote when the transaction expires before landing', async () => {
+    mockSendAndTrack.mockResolvedValue({ signature: 'sig-dropped', status: 'dropped', resigns: 2 });
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VoteOverrideError);
+    expect((error as VoteOverrideError).statusCode).toBe(503);
+    expect(mockChangeVote).not.toHaveBeenCalled();
+  });
+
+  it('casts directly when the recorded vote never reached the chain', async () => {
+    mockGetVoteByAgentAndProposal.mockResolvedValue(makeVote({ vote: 'abstain', tx_signature: null }));
+
+    await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'for' });
+
+    expect(builtVoters()).toEqual([{ delegatorAddress: DELEGATOR }]);
+    expect(mockChangeVote.mock.calls[0][0].reasoning).toBe('Owner override');
+  });
+
+  it('returns 400 when the agent has no wallet id to sign with', async () => {
+    mockGetAgentWalletId.mockResolvedValueOnce(null);
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VoteOverrideError);
+    expect((error as VoteOverrideError).statusCode).toBe(400);
+    expect(mockGetAgentWalletId).toHaveBeenCalledWith(1n);
+    expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the agent has not voted', async () => {
+    mockGetVoteByAgentAndProposal.mockResolvedValue(null);
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VoteOverrideError);
+    expect((error as VoteOverrideError).statusCode).toBe(404);
+  });
+
+  it('returns 409 when the direction is unchanged', async () => {
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'for' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(409);
+    expect(mockFetchProposal).not.toHaveBeenCalled();
+  });
+
+  it('recasts FOR with new option choices on a multi-option proposal', async () => {
+    const ballot = [{ option: 'Option B', weight: 100 }];
+    mockSerializeProposal.mockReturnValue(MULTI_OPTION_SUMMARY as never);
+    serveBatches(10, ballot);
+
+    const result = await overrideRecordedVote({
+      agent,
+      proposalAddress: PROPOSAL,
+      vote: 'for',
+      choices: [{ option: 'Option B' }],
+    });
+
+    expect(mockBuildCastVoteTransactions).toHaveBeenCalledWith(
+      expect.objectContaining({ voteDirection: 'for', choices: [{ option: 'Option B' }] }),
+    );
+    expect(mockChangeVote.mock.calls[0][0].choices_json).toBe(JSON.stringify(ballot));
+    expect(result.choices).toEqual(ballot);
+  });
+
+  it('returns 400 when the choices do not fit the proposal', async () => {
+    mockSerializeProposal.mockReturnValue(MULTI_OPTION_SUMMARY as never);
+
+    const error = await overrideRecordedVote({
+      agent,
+      proposalAddress: PROPOSAL,
+      vote: 'for',
+      choices: [{ option: 'Option Z' }],
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VoteOverrideError);
+    expect((error as VoteOverrideError).statusCode).toBe(400);
+    expect((error as Error).message).toContain('Option Z');
+    expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for a FOR without choices on a multi-option proposal', async () => {
+    mockSerializeProposal.mockReturnValue(MULTI_OPTION_SUMMARY as never);
+    mockGetVoteByAgentAndProposal.mockResolvedValue(makeVote({ vote: 'against' }));
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'for' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(400);
+    expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 once the proposal has left voting', async () => {
+    mockFetchProposal.mockResolvedValue({
+      state: { succeeded: {} },
+      governingTokenMint: { toBase58: () => COMMUNITY_MINT },
+    } as never);
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(409);
+    expect((error as Error).message).toContain('succeeded');
+    expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses to change a veto', async () => {
+    mockGetVoteByAgentAndProposal.mockResolvedValue(makeVote({ vote: 'veto' }));
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(409);
+    expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 when only a council delegation remains', async () => {
+    mockGetDelegationsByAgent.mockResolvedValue([
+      makeDelegation({ realm_address: REALM, governing_token_mint: 'council-mint' }),
+    ] as never);
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(403);
+    expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+  });
+
+  describe('with several delegators', () => {
+    const castOf = (delegatorAddress: string, overrides: Record<string, unknown> = {}) => ({
+      delegatorAddress,
+      governingTokenMint: COMMUNITY_MINT,
+      vote: 'for',
+      preference: 'follow',
+      txSignature: `sig-${delegatorAddress}`,
+      status: 'finalized',
+      votingPower: 10,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockGetDelegationsByAgent.mockResolvedValue(['delegator-a', 'delegator-b', 'delegator-c'].map((wallet) =>
+        makeDelegation({ realm_address: REALM, delegator_wallet: wallet, governing_token_mint: COMMUNITY_MINT }),
+      ) as never);
+      mockGetVoteByAgentAndProposal.mockResolvedValue(makeVote({
+        casts_json: JSON.stringify([
+          castOf('delegator-a'),
+          castOf('delegator-b'),
+          castOf('delegator-c', { vote: 'abstain', txSignature: null, status: undefined, rejection: 'voting_time_expired' }),
+        ]),
+      } as never));
+    });
+
+    it('relinquishes and recasts every delegator cast, batched', async () => {
+      serveBatches(2);
+      mockSignAndSendTransaction
+        .mockResolvedValueOnce({ txHash: 'sig-batch-1' })
+        .mockResolvedValueOnce({ txHash: 'sig-batch-2' });
+
+      const result = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' });
+
+      expect(mockBuildCastVoteTransactions).toHaveBeenCalledTimes(1);
+      expect(builtVoters()).toEqual([
+        { delegatorAddress: 'delegator-a', governingTokenMintAddress: COMMUNITY_MINT, relinquish: true },
+        { delegatorAddress: 'delegator-b', governingTokenMintAddress: COMMUNITY_MINT, relinquish: true },
+        // Its earlier cast never landed, so there is nothing to relinquish
+        { delegatorAddress: 'delegator-c', governingTokenMintAddress: COMMUNITY_MINT },
+      ]);
+      expect(mockSignAndSendTransaction).toHaveBeenCalledTimes(2);
+      expect(result.txSignature).toBe('sig-batch-1');
+      expect(result.casts.map((cast) => [cast.delegatorAddress, cast.txSignature])).toEqual([
+        ['delegator-a', 'sig-batch-1'],
+        ['delegator-b', 'sig-batch-1'],
+        ['delegator-c', 'sig-batch-2'],
+      ]);
+      const recorded = JSON.parse(mockChangeVote.mock.calls[0][0].casts_json as string) as Array<{ vote: string }>;
+      expect(recorded.map((cast) => cast.vote)).toEqual(['against', 'against', 'against']);
+    });
+
+    it('marks the casts of a failed batch for retry and records the ones that landed', async () => {
+      serveBatches(2);
+      mockSignAndSendTransaction
+        .mockResolvedValueOnce({ txHash: 'sig-batch-1' })
+        .mockRejectedValueOnce(new Error('Privy RPC failed: 500'));
+
+      const result = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' });
+
+      expect(result.txSignature).toBe('sig-batch-1');
+      const recorded = JSON.parse(mockChangeVote.mock.calls[0][0].casts_json as string) as Array<Record<string, unknown>>;
+      expect(recorded[2]).toEqual(expect.objectContaining({
+        delegatorAddress: 'delegator-c',
+        vote: 'against',
+        txSignature: null,
+        failed: true,
+      }));
+      expect(recorded[2]).not.toHaveProperty('relinquish');
+    });
+
+    it('keeps the recorded cast of a delegator whose standing instruction decides their vote', async () => {
+      mockGetDelegatorPreferences.mockResolvedValue([
+        { delegator_wallet: 'delegator-b', realm_address: REALM, proposal_address: null, preference: 'for' },
+      ] as never);
+
+      await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' });
+
+      expect(builtVoters().map((voter) => voter.delegatorAddress)).toEqual(['delegator-a', 'delegator-c']);
+      const recorded = JSON.parse(mockChangeVote.mock.calls[0][0].casts_json as string) as Array<Record<string, unknown>>;
+      expect(recorded).toContainEqual(castOf('delegator-b'));
+      expect(recorded.filter((cast) => cast.vote === 'against')).toHaveLength(2);
+    });
+
+    it('returns 409 when every delegator has a standing instruction', async () => {
+      mockGetDelegatorPreferences.mockResolvedValue(['delegator-a', 'delegator-b', 'delegator-c'].map((wallet) => (
+        { delegator_wallet: wallet, realm_address: REALM, proposal_address: null, preference: 'abstain' }
+      )) as never);
+
+      const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+        .catch((e: unknown) => e);
+
+      expect((error as VoteOverrideError).statusCode).toBe(409);
+      expect((error as VoteOverrideError).message).toContain('All 3 delegators');
+      expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+    });
+  });
+
+  it('refuses to recast through a delegator whose standing instruction decides their vote', async () => {
+    mockGetDelegatorPreferences.mockResolvedValue([
+      { delegator_wallet: DELEGATOR, realm_address: REALM, proposal_address: null, preference: 'abstain' },
+    ] as never);
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(409);
+    expect((error as VoteOverrideError).message).toContain('standing instruction to vote abstain');
+    expect(mockBuildCastVoteTransactions).not.toHaveBeenCalled();
+    expect(mockSignAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('recasts through a delegator whose instruction matches the new direction', async () => {
+    mockGetDelegatorPreferences.mockResolvedValue([
+      { delegator_wallet: DELEGATOR, realm_address: REALM, proposal_address: PROPOSAL, preference: 'against' },
+    ] as never);
+
+    const result = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' });
+
+    expect(result.txSignature).toBe('sig-override');
+    expect(mockChangeVote).toHaveBeenCalledWith(
+      expect.objectContaining({ casts_json: expect.stringContaining('"preference":"against"') }),
+    );
+  });
+
+  it('does not record the change when signing fails', async () => {
+    mockSignAndSendTransaction.mockRejectedValue(new Error('Privy RPC failed: 500'));
+
+    const error = await overrideRecordedVote({ agent, proposalAddress: PROPOSAL, vote: 'against' })
+      .catch((e: unknown) => e);
+
+    expect((error as VoteOverrideError).statusCode).toBe(503);
+    expect(mockChangeVote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { AccountInfo, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { DEFAULT_PROGRAM_ID } from 'governance-idl-sdk';
+import {
+  clearGovernanceCache,
+  fetchVoterWeightPlugin,
+  getConnection,
+  getGovernanceClient,
+} from '@shared/lib/governance';
+import { buildCastVoteTransaction } from '@shared/lib/solana-governance';
+import {
+  UnsupportedVoterWeightPluginError,
+  deriveVsrAccounts,
+  identifyVoterWeightPlugin,
+} from '@shared/lib/voter-weight-plugins';
+
+// ---------------------------------------------------------------------------
+// Realm and RealmConfig accounts are served from fixtures in getAccountInfo
+// shape, so the real SDK decodes them; nothing reaches an RPC.
+// ---------------------------------------------------------------------------
+
+const FIXTURE_DIR = path.resolve(__dirname, '../fixtures/accounts');
+
+interface AccountFixture {
+  pubkey: string;
+  account: { data: [string, 'base64']; executable: boolean; lamports: number; owner: string };
+}
+
+function loadAccounts(...names: string[]): Map<string, AccountInfo<Buffer>> {
+  const accounts = new Map<string, AccountInfo<Buffer>>();
+  for (const name of names) {
+    const fixtures = JSON.parse(readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf-8')) as AccountFixture[];
+    for (const { pubkey, account } of fixtures) {
+      accounts.set(pubkey, {
+        data: Buffer.from(account.data[0], 'base64'),
+        executable: account.executable,
+        lamports: account.lamports,
+        owner: new PublicKey(account.owner),
+      });
+    }
+  }
+  return accounts;
+}
+
+/** Realm address and mints of a fixture realm, read back from its account */
+function fixtureRealm(name: string): { realm: string; communityMint: string } {
+  const [realm] = JSON.parse(readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf-8')) as AccountFixture[];
+  const data = Buffer.from(realm.account.data[0], 'base64');
+  return { realm: realm.pubkey, communityMint: new PublicKey(data.subarray(1, 33)).toBase58() };
+}
+
+const VSR_PROGRAM_ID = 'vsr2nfGVNHmSY8uxoBGqq8AQbwz3JwaEaHqGbsTPXqQ';
+const NFT_VOTER_PROGRAM_ID = 'GnftV5kLjd67tvHpNGyodwWveEKivz3ZWvvE3Z4xi2iw';
+
+const address = () => Keypair.generate().publicKey.toBase58();
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  clearGovernanceCache();
+  const accounts = loadAccounts('vsr-realm', 'nft-voter-realm', 'legacy-realm');
+  vi.spyOn(getConnection(), 'getAccountInfo').mockImplementation(
+    async (pubkey) => accounts.get(new PublicKey(pubkey).toBase58()) ?? null,
+  );
+  vi.spyOn(getConnection(), 'getLatestBlockhash').mockResolvedValue({
+    blockhash: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gYdkNJWNjJB',
+    lastValidBlockHeight: 100,
+  });
+});
+
+describe('fetchVoterWeightPlugin()', () => {
+  it('detects VSR on the community mint of a VSR realm', async () => {
+    const { realm, communityMint } = fixtureRealm('vsr-realm');
+
+    await expect(fetchVoterWeightPlugin(realm, communityMint)).resolves.toEqual({
+      kind: 'vsr',
+      programId: VSR_PROGRAM_ID,
+      maxVoterWeightProgramId: null,
+    });
+    // The council mint has no add-in configured
+    await expect(fetchVoterWeightPlugin(realm, address())).resolves.toBeNull();
+  });
+
+  it('reports other plugins with their max voter weight add-in', async () => {
+    const { realm, communityMint } = fixtureRealm('nft-voter-realm');
+
+    await expect(fetchVoterWeightPlugin(realm, communityMint)).resolves.toEqual({
+      kind: 'nft',
+      programId: NFT_VOTER_PROGRAM_ID,
+      maxVoterWeightProgramId: NFT_VOTER_PROGRAM_ID,
+    });
+    expect(identifyVoterWeightPlugin(address())).toBe('unknown');
+  });
+
+  it('returns null for a realm without a RealmConfigAccount', async () => {
+    const { realm, communityMint } = fixtureRealm('legacy-realm');
+
+    await expect(fetchVoterWeightPlugin(realm, communityMint)).resolves.toBeNull();
+  });
+});
+
+describe('buildCastVoteTransaction() with voter weight plugins', () => {
+  function stubProposal(communityMint: string) {
+    vi.spyOn(getGovernanceClient(), 'getProposalByPubkey').mockResolvedValue({
+      governance: Keypair.generate().publicKey,
+      governingTokenMint: new PublicKey(communityMint),
+      tokenOwnerRecord: Keypair.generate().publicKey,
+    } as never);
+  }
+
+  it('refreshes the delegator VSR voter weight record before CastVote', async () => {
+    const { realm, communityMint } = fixtureRealm('vsr-realm');
+    const delegatorAddress = address();
+    stubProposal(communityMint);
+
+    const { serializedTransaction } = await buildCastVoteTransaction({
+      proposalAddress: address(),
+      voterWalletAddress: address(),
+      voteDirection: 'for',
+      realmAddress: realm,
+      delegatorAddress,
+    });
+
+    const tx = Transaction.from(Buffer.from(serializedTransaction, 'base64'));
+    const programs = tx.instructions.map((ix) => ix.programId.toBase58());
+    const updateIx = tx.instructions[programs.indexOf(VSR_PROGRAM_ID)];
+    const castVoteIx = tx.instructions[programs.indexOf(DEFAULT_PROGRAM_ID.toBase58())];
+    const { registrar, voter, voterWeightRecord } = deriveVsrAccounts({
+      programId: new PublicKey(VSR_PROGRAM_ID),
+      realm: new PublicKey(realm),
+      governingTokenMint: new PublicKey(communityMint),
+      voterAuthority: new PublicKey(delegatorAddress),
+    });
+
+    expect(programs.indexOf(VSR_PROGRAM_ID)).toBeLessThan(programs.indexOf(DEFAULT_PROGRAM_ID.toBase58()));
+    expect([...updateIx.data]).toEqual([45, 185, 3, 36, 109, 190, 115, 169]);
+    expect(updateIx.keys.map((k) => k.pubkey.toBase58()).slice(0, 3)).toEqual(
+      [registrar, voter, voterWeightRecord].map((k) => k.toBase58()),
+    );
+    expect(castVoteIx.keys.map((k) => k.pubkey.toBase58())).toContain(voterWeightRecord.toBase58());
+  });
+
+  it('rejects realms whose plugin has no builder', async () => {
+    const { realm, communityMint } = fixtureRealm('nft-voter-realm');
+    stubProposal(communityMint);
+
+    await expect(
+      buildCastVoteTransaction({
+        proposalAddress: address(),
+        voterWalletAddress: address(),
+        voteDirection: 'for',
+        realmAddress: realm,
+      }),
+    ).rejects.toThrow(UnsupportedVoterWeightPluginError);
+  });
+
+  it('casts without plugin instructions on a legacy realm', async () => {
+    const { realm, communityMint } = fixtureRealm('legacy-realm');
+    stubProposal(communityMint);
+
+    const { serializedTransaction } = await buildCastVoteTransaction({
+      proposalAddress: address(),
+      voterWalletAddress: address(),
+      voteDirection: 'against',
+      realmAddress: realm,
+    });
+
+    const tx = Transaction.from(Buffer.from(serializedTransaction, 'base64'));
+    expect(tx.instructions.map((ix) => ix.programId.toBase58())).not.toContain(VSR_PROGRAM_ID);
+  });
+});
@@ -20,6 +20,7 @@ describe('getWorkerRuntimeConfig()', () => {
     delete process.env.AGENT_WORKER_INTERVAL_MS;
     delete process.env.AGENT_WORKER_MAX_CONCURRENCY;
     delete process.env.AGENT_WORKER_DRY_RUN;
+    delete process.env.DELEGATION_RECONCILE_INTERVAL_MS;
   });
 
   afterEach(() => {
@@ -36,6 +37,7 @@ describe('getWorkerRuntimeConfig()', () => {
     expect(config.maxConcurrency).toBe(1);
     expect(config.dryRun).toBe(false);
     expect(config.runOnce).toBe(false);
+    expect(config.reconcileIntervalMs).toBe(600_000);
   });
 
   // -------------------------------------------------------------------------
@@ -98,6 +100,12 @@ describe('getWorkerRuntimeConfig()', () => {
     expect(config.intervalMs).toBe(30_000);
   });
 
+  it('reads custom DELEGATION_RECONCILE_INTERVAL_MS', () => {
+    process.env.DELEGATION_RECONCILE_INTERVAL_MS = '120000';
+    const config = getWorkerRuntimeConfig();
+    expect(config.reconcileIntervalMs).toBe(120_000);
+  });
+
   it('falls back to default for zero AGENT_WORKER_INTERVAL_MS', () => {
     process.env.AGENT_WORKER_INTERVAL_MS = '0';
     const config = getWorkerRuntimeConfig();